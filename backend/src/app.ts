@@ -5,13 +5,16 @@ dotenv.config();
 import express from "express";
 import { createServer } from "http";
 import { Server } from "socket.io";
+import { createAdapter } from "@socket.io/redis-adapter";
 import cors from "cors";
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
-import { Redis } from "@upstash/redis";
 
 import authRoutes from "./routes/auth";
 import formRoutes from "./routes/forms";
+import templateRoutes from "./routes/templates";
+import invitationRoutes from "./routes/invitations";
+import { createPubSubClients, redis } from "./config/redis";
 import { setupSocketHandlers } from "./services/socketService";
 import { errorHandler } from "./middleware/errorHandler";
 import { authenticateToken } from "./middleware/auth";
@@ -36,11 +39,12 @@ const io = new Server(server, {
   transports: ["websocket", "polling"],
 });
 
-// Upstash Redis setup
-export const redis = new Redis({
-  url: process.env.UPSTASH_REDIS_REST_URL!,
-  token: process.env.UPSTASH_REDIS_REST_TOKEN!,
-});
+// With REDIS_URL set, rooms and broadcasts span every backend instance, so
+// the backend can run as several replicas behind a load balancer
+const pubSubClients = createPubSubClients();
+if (pubSubClients) {
+  io.adapter(createAdapter(pubSubClients.pubClient, pubSubClients.subClient));
+}
 
 // Middleware
 app.use(helmet());
@@ -56,8 +60,13 @@ app.use(
       process.env.FRONTEND_URL,
     ].filter((origin): origin is string => typeof origin === "string"),
     credentials: true,
-    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+    allowedHeaders: [
+      "Content-Type",
+      "Authorization",
+      "X-File-Name",
+      "X-File-Type",
+    ],
     optionsSuccessStatus: 200,
   })
 );
@@ -93,6 +102,8 @@ app.get("/health", async (req, res) => {
 // Routes
 app.use("/api/auth", authRoutes);
 app.use("/api/forms", authenticateToken, formRoutes);
+app.use("/api/templates", authenticateToken, templateRoutes);
+app.use("/api/invitations", authenticateToken, invitationRoutes);
 
 // Socket.IO setup
 setupSocketHandlers(io);
@@ -105,7 +116,11 @@ const PORT = process.env.PORT || 5000;
 async function startServer() {
   try {
     const pingResult = await redis.ping();
-    console.log("✅ Connected to Upstash Redis:", pingResult);
+    console.log("✅ Connected to Redis:", pingResult);
+    if (pubSubClients) {
+      await pubSubClients.pubClient.ping();
+      console.log("✅ Socket.IO rooms shared through Redis pub/sub");
+    }
 
     server.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
@@ -0,0 +1,136 @@
+// src/config/formTemplates.ts
+import { FieldType } from "./supabase";
+import { ConditionGroup } from "../utils/conditions";
+import { FieldValidationRules } from "../utils/fieldValidation";
+import { RepeaterSubField } from "../utils/repeaterValues";
+
+export type TemplateVisibility = "PERSONAL" | "WORKSPACE";
+
+// A field as the builder submits it. Ids are local to the template and only
+// link conditions and formulas to the fields they reference.
+export interface TemplateField {
+  id: string;
+  label: string;
+  type: FieldType;
+  required: boolean;
+  options: string[];
+  matrix_rows?: string[] | null;
+  sub_fields?: RepeaterSubField[] | null;
+  description?: string | null;
+  formula?: string | null;
+  conditions?: ConditionGroup | null;
+  validation?: FieldValidationRules | null;
+}
+
+export interface FormTemplate {
+  id: string;
+  title: string;
+  description: string;
+  fields: TemplateField[];
+  visibility: TemplateVisibility | "BUILT_IN";
+  created_by_id: string | null;
+}
+
+const field = (
+  id: string,
+  label: string,
+  type: FieldType,
+  extra: Partial<TemplateField> = {}
+): TemplateField => ({
+  id,
+  label,
+  type,
+  required: false,
+  options: [],
+  ...extra,
+});
+
+// Shipped with the backend; ids are prefixed so they can't collide with
+// saved templates
+export const BUILT_IN_TEMPLATES: FormTemplate[] = [
+  {
+    id: "builtin-event-registration",
+    title: "Event Registration",
+    description: "Collect attendee details, sessions and dietary needs.",
+    visibility: "BUILT_IN",
+    created_by_id: null,
+    fields: [
+      field("name", "Full Name", "TEXT", { required: true }),
+      field("email", "Email", "EMAIL", { required: true }),
+      field("sessions", "Sessions", "CHECKBOX", {
+        required: true,
+        options: ["Morning keynote", "Afternoon workshop", "Evening social"],
+      }),
+      field("diet", "Dietary Requirements", "RADIO", {
+        options: ["None", "Vegetarian", "Vegan", "Other"],
+      }),
+      field("diet_other", "Please specify", "TEXT", {
+        conditions: {
+          logic: "AND",
+          rules: [{ fieldId: "diet", operator: "equals", value: "Other" }],
+        },
+      }),
+    ],
+  },
+  {
+    id: "builtin-customer-feedback",
+    title: "Customer Feedback",
+    description: "Ratings and comments about a product or service.",
+    visibility: "BUILT_IN",
+    created_by_id: null,
+    fields: [
+      field("overall", "Overall Satisfaction", "RATING", { required: true }),
+      field("recommend", "How likely are you to recommend us?", "SCALE", {
+        required: true,
+        validation: {
+          min: 0,
+          max: 10,
+          minLabel: "Not likely",
+          maxLabel: "Very likely",
+        },
+      }),
+      field("aspects", "Rate the following", "MATRIX", {
+        options: ["Poor", "Fair", "Good", "Excellent"],
+        matrix_rows: ["Quality", "Price", "Support"],
+      }),
+      field("comments", "Comments", "TEXTAREA"),
+    ],
+  },
+  {
+    id: "builtin-expense-report",
+    title: "Expense Report",
+    description: "Itemised expenses with an automatic total.",
+    visibility: "BUILT_IN",
+    created_by_id: null,
+    fields: [
+      field("employee", "Employee Name", "TEXT", { required: true }),
+      field("trip_date", "Trip Date", "DATE", { required: true }),
+      field("travel", "Travel", "NUMBER", { validation: { min: 0 } }),
+      field("lodging", "Lodging", "NUMBER", { validation: { min: 0 } }),
+      field("meals", "Meals", "NUMBER", { validation: { min: 0 } }),
+      field("total", "Total", "CALCULATED", {
+        formula: "SUM({travel}, {lodging}, {meals})",
+      }),
+      field("receipts", "Receipts", "FILE"),
+    ],
+  },
+  {
+    id: "builtin-team-retrospective",
+    title: "Team Retrospective",
+    description: "Gather what went well and action items as a group.",
+    visibility: "BUILT_IN",
+    created_by_id: null,
+    fields: [
+      field("sprint", "Sprint", "TEXT", { required: true }),
+      field("went_well", "What went well?", "TEXTAREA"),
+      field("improve", "What could be improved?", "TEXTAREA"),
+      field("actions", "Action Items", "REPEATER", {
+        sub_fields: [
+          { id: "task", label: "Action", type: "TEXT", required: true },
+          { id: "owner", label: "Owner", type: "TEXT" },
+          { id: "due", label: "Due", type: "DATE" },
+        ],
+      }),
+    ],
+  },
+];
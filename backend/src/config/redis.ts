@@ -0,0 +1,181 @@
+// src/config/redis.ts
+import { Redis } from "@upstash/redis";
+import IORedis from "ioredis";
+import dotenv from "dotenv";
+import { createHash, randomBytes } from "crypto";
+import { hostname } from "os";
+
+// Load environment variables
+dotenv.config();
+
+export interface RedisScript<T> {
+  exec(keys: string[], args: string[]): Promise<T>;
+}
+
+// The commands shared state (locks, presence, co-edit history, leader
+// election) needs, answered the same way by the Upstash REST client and by
+// a plain Redis connection. Values may come back already JSON-parsed.
+export interface SharedRedis {
+  createScript<T>(script: string): RedisScript<T>;
+  ping(): Promise<string>;
+  // Set only when the key is free; true when it was set
+  setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+  del(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  hget(key: string, field: string): Promise<unknown>;
+  hgetall(key: string): Promise<Record<string, unknown>>;
+  hdel(key: string, ...fields: string[]): Promise<void>;
+  zadd(key: string, score: number, member: string): Promise<void>;
+  zrangeByScore(key: string, min: number, max: number): Promise<string[]>;
+  // Every member with its score, lowest first
+  zrangeWithScores(key: string): Promise<[string, number][]>;
+  zremrangeByScore(key: string, min: number, max: number): Promise<void>;
+}
+
+const createUpstashRedis = (): SharedRedis => {
+  const client = new Redis({
+    url: process.env.UPSTASH_REDIS_REST_URL!,
+    token: process.env.UPSTASH_REDIS_REST_TOKEN!,
+  });
+
+  return {
+    createScript: <T>(script: string) => client.createScript<T>(script),
+    ping: () => client.ping(),
+    setIfAbsent: async (key, value, ttlMs) =>
+      (await client.set(key, value, { nx: true, px: ttlMs })) === "OK",
+    del: async (key) => {
+      await client.del(key);
+    },
+    exists: async (key) => (await client.exists(key)) > 0,
+    hget: (key, field) => client.hget(key, field),
+    hgetall: async (key) =>
+      (await client.hgetall<Record<string, unknown>>(key)) || {},
+    hdel: async (key, ...fields) => {
+      await client.hdel(key, ...fields);
+    },
+    zadd: async (key, score, member) => {
+      await client.zadd(key, { score, member });
+    },
+    zrangeByScore: async (key, min, max) =>
+      (await client.zrange<unknown[]>(key, min, max, { byScore: true })).map(
+        String
+      ),
+    zrangeWithScores: async (key) => {
+      const flat = await client.zrange<unknown[]>(key, 0, -1, {
+        withScores: true,
+      });
+      const members: [string, number][] = [];
+      for (let i = 0; i < flat.length; i += 2) {
+        members.push([String(flat[i]), Number(flat[i + 1])]);
+      }
+      return members;
+    },
+    zremrangeByScore: async (key, min, max) => {
+      await client.zremrangebyscore(key, min, max);
+    },
+  };
+};
+
+const createUrlRedis = (url: string): SharedRedis => {
+  // Connects on the first command, so importing this stays side-effect free
+  const client = new IORedis(url, { lazyConnect: true });
+  client.on("error", (error) => console.error("Redis error:", error));
+
+  return {
+    // Runs the cached script, loading it on first use
+    createScript: <T>(script: string) => {
+      const sha = createHash("sha1").update(script).digest("hex");
+      return {
+        exec: async (keys: string[], args: string[]) => {
+          try {
+            return (await client.evalsha(
+              sha,
+              keys.length,
+              ...keys,
+              ...args
+            )) as T;
+          } catch (error: any) {
+            if (!String(error?.message).startsWith("NOSCRIPT")) throw error;
+            return (await client.eval(
+              script,
+              keys.length,
+              ...keys,
+              ...args
+            )) as T;
+          }
+        },
+      };
+    },
+    ping: () => client.ping(),
+    setIfAbsent: async (key, value, ttlMs) =>
+      (await client.set(key, value, "PX", ttlMs, "NX")) === "OK",
+    del: async (key) => {
+      await client.del(key);
+    },
+    exists: async (key) => (await client.exists(key)) > 0,
+    hget: (key, field) => client.hget(key, field),
+    hgetall: (key) => client.hgetall(key),
+    hdel: async (key, ...fields) => {
+      if (fields.length > 0) await client.hdel(key, ...fields);
+    },
+    zadd: async (key, score, member) => {
+      await client.zadd(key, score, member);
+    },
+    zrangeByScore: (key, min, max) => client.zrangebyscore(key, min, max),
+    zrangeWithScores: async (key) => {
+      const flat = await client.zrange(key, "0", "-1", "WITHSCORES");
+      const members: [string, number][] = [];
+      for (let i = 0; i < flat.length; i += 2) {
+        members.push([flat[i], Number(flat[i + 1])]);
+      }
+      return members;
+    },
+    zremrangeByScore: async (key, min, max) => {
+      await client.zremrangebyscore(key, min, max);
+    },
+  };
+};
+
+// REDIS_DRIVER picks the client: "upstash" (REST) or "url" (REDIS_URL, e.g.
+// a local Redis). Without it Upstash is used when configured.
+const createSharedRedis = (): SharedRedis => {
+  const driver =
+    process.env.REDIS_DRIVER ||
+    (process.env.UPSTASH_REDIS_REST_URL || !process.env.REDIS_URL
+      ? "upstash"
+      : "url");
+
+  switch (driver) {
+    case "upstash":
+      return createUpstashRedis();
+    case "url":
+      if (!process.env.REDIS_URL) {
+        throw new Error("REDIS_DRIVER=url needs REDIS_URL");
+      }
+      return createUrlRedis(process.env.REDIS_URL);
+    default:
+      throw new Error(`Unknown REDIS_DRIVER: ${driver}`);
+  }
+};
+
+export const redis = createSharedRedis();
+
+// Pub/sub needs a plain Redis connection, which the REST client can't
+// hold: redis://localhost:6379 for a local server, or the rediss:// URL of
+// the Upstash database. Null when REDIS_URL is unset.
+export const createPubSubClients = () => {
+  const url = process.env.REDIS_URL;
+  if (!url) return null;
+
+  const pubClient = new IORedis(url);
+  const subClient = pubClient.duplicate();
+  [pubClient, subClient].forEach((client) =>
+    client.on("error", (error) => console.error("Redis pub/sub error:", error))
+  );
+  return { pubClient, subClient };
+};
+
+// Names this server process in state shared with the other instances
+export const INSTANCE_ID = `${hostname()}:${process.pid}:${randomBytes(
+  4
+).toString("hex")}`;
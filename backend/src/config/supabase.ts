@@ -1,6 +1,10 @@
 // src/config/supabase.ts
 import { createClient } from "@supabase/supabase-js";
 import dotenv from "dotenv";
+import { ConditionGroup } from "../utils/conditions";
+import { FieldValidationRules } from "../utils/fieldValidation";
+import { RepeaterSubField } from "../utils/repeaterValues";
+import { TemplateField, TemplateVisibility } from "./formTemplates";
 
 // Load environment variables
 dotenv.config();
@@ -26,6 +30,25 @@ if (!supabaseAnonKey) {
   );
 }
 
+export type FieldType =
+  | "TEXT"
+  | "NUMBER"
+  | "EMAIL"
+  | "DROPDOWN"
+  | "TEXTAREA"
+  | "CHECKBOX"
+  | "RADIO"
+  | "DATE"
+  | "TIME"
+  | "DATETIME"
+  | "FILE"
+  | "RATING"
+  | "SCALE"
+  | "MATRIX"
+  | "REPEATER"
+  | "SECTION"
+  | "CALCULATED";
+
 // Service role client for server-side operations
 export const supabase = createClient(supabaseUrl, supabaseServiceKey, {
   auth: {
@@ -45,14 +68,21 @@ export interface Database {
           id: string;
           email: string;
           password: string;
-          role: "ADMIN" | "USER";
+          // GUEST rows are created per guest session; their email is a
+          // placeholder and display_name is what others see
+          role: "ADMIN" | "USER" | "GUEST";
+          display_name: string | null;
+          // Share code a GUEST row was created for
+          guest_share_code: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           email: string;
           password: string;
-          role?: "ADMIN" | "USER";
+          role?: "ADMIN" | "USER" | "GUEST";
+          display_name?: string | null;
+          guest_share_code?: string | null;
         };
         Update: {
           email?: string;
@@ -67,6 +97,22 @@ export interface Database {
           description: string | null;
           share_code: string;
           is_active: boolean;
+          // Responses are only accepted between opens_at and closes_at
+          opens_at: string | null;
+          closes_at: string | null;
+          // Cap on SUBMITTED responses across all groups
+          max_submissions: number | null;
+          current_version: number;
+          // Form-level join link (/join/:join_code); null when switched off
+          join_code: string | null;
+          // ROUND_ROBIN, FILL_TO_CAPACITY, LEAST_ACTIVE or SELF_SELECT
+          join_strategy: string;
+          // LOCK (one editor per field) or CO_EDIT (shared text fields)
+          edit_mode: string;
+          // Field locks expire this long after the last edit or heartbeat
+          lock_timeout_seconds: number;
+          // Grace period before a requested field is handed over
+          lock_handoff_seconds: number;
           created_by_id: string;
           created_at: string;
           updated_at: string;
@@ -76,11 +122,125 @@ export interface Database {
           description?: string;
           share_code: string;
           created_by_id: string;
+          edit_mode?: string;
+          lock_timeout_seconds?: number;
+          lock_handoff_seconds?: number;
         };
         Update: {
           title?: string;
           description?: string;
           is_active?: boolean;
+          opens_at?: string | null;
+          closes_at?: string | null;
+          max_submissions?: number | null;
+          current_version?: number;
+          join_code?: string | null;
+          join_strategy?: string;
+          edit_mode?: string;
+          lock_timeout_seconds?: number;
+          lock_handoff_seconds?: number;
+        };
+      };
+      form_sharing_codes: {
+        Row: {
+          id: string;
+          form_id: string;
+          share_code: string;
+          group_name: string;
+          is_active: boolean;
+          // Group-level window and cap, applied on top of the form's
+          opens_at: string | null;
+          closes_at: string | null;
+          max_submissions: number | null;
+          // The code stops working after this time
+          expires_at: string | null;
+          // Lets people without an account join with a display name
+          allow_guests: boolean;
+          // Only group_members (and the form owner) may join
+          is_closed: boolean;
+          // Most people in the group at once; also caps join-link assignments
+          capacity: number | null;
+          created_by_id: string;
+          created_at: string;
+        };
+        Insert: {
+          form_id: string;
+          share_code: string;
+          group_name: string;
+          created_by_id: string;
+        };
+        Update: {
+          share_code?: string;
+          group_name?: string;
+          is_active?: boolean;
+          opens_at?: string | null;
+          closes_at?: string | null;
+          max_submissions?: number | null;
+          expires_at?: string | null;
+          allow_guests?: boolean;
+          is_closed?: boolean;
+          capacity?: number | null;
+        };
+      };
+      group_assignments: {
+        Row: {
+          id: string;
+          form_id: string;
+          user_id: string;
+          sharing_code_id: string;
+          created_at: string;
+        };
+        // One assignment per (form_id, user_id); returning users keep it
+        Insert: {
+          form_id: string;
+          user_id: string;
+          sharing_code_id: string;
+        };
+        Update: {
+          sharing_code_id?: string;
+        };
+      };
+      group_members: {
+        Row: {
+          id: string;
+          sharing_code_id: string;
+          user_id: string;
+          // VIEWER, EDITOR or SUBMITTER; unique per (sharing_code_id, user_id)
+          role: string;
+          created_at: string;
+        };
+        Insert: {
+          sharing_code_id: string;
+          user_id: string;
+          role: string;
+        };
+        Update: {
+          role?: string;
+        };
+      };
+      group_invitations: {
+        Row: {
+          id: string;
+          sharing_code_id: string;
+          email: string;
+          role: string;
+          // Secret part of the invitation link
+          token: string;
+          invited_by_id: string;
+          expires_at: string;
+          accepted_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          sharing_code_id: string;
+          email: string;
+          role: string;
+          token: string;
+          invited_by_id: string;
+          expires_at: string;
+        };
+        Update: {
+          accepted_at?: string | null;
         };
       };
       form_fields: {
@@ -88,48 +248,75 @@ export interface Database {
           id: string;
           form_id: string;
           label: string;
-          type:
-            | "TEXT"
-            | "NUMBER"
-            | "EMAIL"
-            | "DROPDOWN"
-            | "TEXTAREA"
-            | "CHECKBOX"
-            | "RADIO";
+          type: FieldType;
           required: boolean;
+          // Columns for MATRIX fields, choices for the other option types
           options: string[];
+          matrix_rows: string[] | null;
+          // Column definitions for REPEATER sections
+          sub_fields: RepeaterSubField[] | null;
+          // Intro text shown under a SECTION page title
+          description: string | null;
+          // Expression for CALCULATED fields, referencing fields as {id}
+          formula: string | null;
+          conditions: ConditionGroup | null;
+          validation: FieldValidationRules | null;
           field_order: number;
+          // Set once the field is removed from the form; the row stays so
+          // submitted answers keep their field
+          archived_at: string | null;
           created_at: string;
         };
         Insert: {
           form_id: string;
           label: string;
-          type:
-            | "TEXT"
-            | "NUMBER"
-            | "EMAIL"
-            | "DROPDOWN"
-            | "TEXTAREA"
-            | "CHECKBOX"
-            | "RADIO";
+          type: FieldType;
           required?: boolean;
           options?: string[];
+          matrix_rows?: string[] | null;
+          sub_fields?: RepeaterSubField[] | null;
+          description?: string | null;
+          formula?: string | null;
+          conditions?: ConditionGroup | null;
+          validation?: FieldValidationRules | null;
           field_order: number;
         };
       };
+      form_versions: {
+        Row: {
+          id: string;
+          form_id: string;
+          version_number: number;
+          // Snapshot of the form_fields rows at the time of the change
+          fields: Record<string, any>[];
+          created_by_id: string;
+          created_at: string;
+        };
+        Insert: {
+          form_id: string;
+          version_number: number;
+          fields: Record<string, any>[];
+          created_by_id: string;
+        };
+      };
       form_responses: {
         Row: {
           id: string;
           form_id: string;
           user_id: string;
+          status: "DRAFT" | "SUBMITTED";
+          form_version: number | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           form_id: string;
           user_id: string;
+          status?: "DRAFT" | "SUBMITTED";
+          form_version?: number;
         };
         Update: {
+          form_version?: number;
           updated_at?: string;
         };
       };
@@ -149,23 +336,53 @@ export interface Database {
           value: string;
         };
       };
-      field_locks: {
+      // FILE field attachments; response_id moves to the submitted response
+      response_files: {
         Row: {
           id: string;
-          user_id: string;
           form_id: string;
+          sharing_code_id: string;
+          response_id: string;
           field_id: string;
+          file_name: string;
+          mime_type: string;
+          size: number;
+          storage_key: string;
+          uploaded_by: string;
           created_at: string;
-          expires_at: string;
         };
         Insert: {
-          user_id: string;
           form_id: string;
+          sharing_code_id: string;
+          response_id: string;
           field_id: string;
-          expires_at: string;
+          file_name: string;
+          mime_type: string;
+          size: number;
+          storage_key: string;
+          uploaded_by: string;
         };
         Update: {
-          expires_at: string;
+          response_id?: string;
+        };
+      };
+      form_templates: {
+        Row: {
+          id: string;
+          title: string;
+          description: string | null;
+          fields: TemplateField[];
+          // PERSONAL templates are only listed for their creator
+          visibility: TemplateVisibility;
+          created_by_id: string;
+          created_at: string;
+        };
+        Insert: {
+          title: string;
+          description?: string | null;
+          fields: TemplateField[];
+          visibility?: TemplateVisibility;
+          created_by_id: string;
         };
       };
     };
@@ -0,0 +1,325 @@
+// src/controllers/fileController.ts
+import { Response } from "express";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { AuthRequest } from "../middleware/auth";
+import { supabase } from "../config/supabase";
+import {
+  emitToGroup,
+  getOrCreateCollaborativeResponse,
+  scheduleSectionProgress,
+} from "../services/socketService";
+import { getFileStorage } from "../services/fileStorageService";
+import { runExclusive } from "../services/lockService";
+import {
+  deleteAttachment,
+  syncFileFieldValue,
+  toPublicAttachment,
+} from "../services/attachmentService";
+import { getGroupAccess } from "../services/membershipService";
+import {
+  AVAILABILITY_COLUMNS,
+  getGroupAvailability,
+} from "../services/availabilityService";
+import { validateFileUpload } from "../utils/fieldValidation";
+
+type FileFieldContext =
+  | { error: string; status: number }
+  | { error?: undefined; sharingCodeData: any; field: any };
+
+// Resolve an open sharing code and one of its form's FILE fields, for a
+// user allowed to edit the group's answers
+const getFileFieldContext = async (
+  shareCode: string,
+  fieldId: string,
+  userId: string
+): Promise<FileFieldContext> => {
+  const { data: sharingCodeData, error: sharingError } = await supabase
+    .from("form_sharing_codes")
+    .select(
+      `
+      *,
+      forms(id, ${AVAILABILITY_COLUMNS})
+    `
+    )
+    .eq("share_code", shareCode)
+    .eq("is_active", true)
+    .single();
+
+  if (sharingError || !sharingCodeData || !sharingCodeData.forms?.is_active) {
+    return { error: "Share code not found", status: 404 };
+  }
+
+  const access = await getGroupAccess(sharingCodeData, userId);
+  if (!access.canEdit) {
+    return {
+      error: "Your role in this group can't change answers",
+      status: 403,
+    };
+  }
+
+  // Closed, expired or full groups take no more files
+  const availability = await getGroupAvailability(
+    sharingCodeData,
+    sharingCodeData.forms
+  );
+  if (!availability.open) {
+    return { error: availability.message!, status: 403 };
+  }
+
+  const { data: field, error: fieldError } = await supabase
+    .from("form_fields")
+    .select("id, label, type, validation")
+    .eq("id", fieldId)
+    .eq("form_id", sharingCodeData.forms.id)
+    .is("archived_at", null)
+    .single();
+
+  if (fieldError || !field || field.type !== "FILE") {
+    return { error: "File field not found", status: 404 };
+  }
+
+  return { sharingCodeData, field };
+};
+
+// Names are sent URI-encoded; keep the header as is when it isn't
+const decodeFileName = (header: string) => {
+  try {
+    return decodeURIComponent(header).trim();
+  } catch {
+    return header.trim();
+  }
+};
+
+const sendStoredFile = async (res: Response, attachment: any) => {
+  const data = await getFileStorage().read(attachment.storage_key);
+
+  res.setHeader("Content-Type", attachment.mime_type);
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`
+  );
+  res.send(data);
+};
+
+// Upload one file; the raw request body is the file content
+export const uploadFieldFile = async (req: AuthRequest, res: Response) => {
+  try {
+    const { shareCode, fieldId } = req.params;
+    const context = await getFileFieldContext(shareCode, fieldId, req.user!.id);
+
+    if (context.error !== undefined) {
+      return res.status(context.status).json({ error: context.error });
+    }
+
+    const { sharingCodeData, field } = context;
+    const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const fileName = decodeFileName(String(req.headers["x-file-name"] || ""));
+    // Sent separately so bodies that look like JSON or forms stay raw
+    const mimeType =
+      String(req.headers["x-file-type"] || "").trim() ||
+      "application/octet-stream";
+
+    if (!fileName) {
+      return res.status(400).json({ error: "X-File-Name header is required" });
+    }
+
+    const uploadError = validateFileUpload(field.validation, {
+      name: fileName,
+      size: data.length,
+      mimeType,
+    });
+    if (uploadError) {
+      return res.status(400).json({ error: uploadError });
+    }
+
+    const response = await getOrCreateCollaborativeResponse(
+      sharingCodeData.forms.id,
+      sharingCodeData.id,
+      req.user!.id
+    );
+    if (!response) {
+      return res.status(500).json({ error: "Failed to prepare response" });
+    }
+
+    // Count and insert together, so parallel uploads can't pass maxFiles
+    const saved = await runExclusive(
+      `upload:${response.id}:${fieldId}`,
+      async () => {
+        // Enforce maxFiles against what the group already attached
+        if (field.validation?.maxFiles !== undefined) {
+          const { count } = await supabase
+            .from("response_files")
+            .select("id", { count: "exact", head: true })
+            .eq("response_id", response.id)
+            .eq("field_id", fieldId);
+
+          if ((count || 0) >= field.validation.maxFiles) {
+            return {
+              status: 400,
+              error: `Attach at most ${field.validation.maxFiles} file(s)`,
+            };
+          }
+        }
+
+        const storageKey = `${sharingCodeData.forms.id}/${uuidv4()}${path
+          .extname(fileName)
+          .toLowerCase()}`;
+        await getFileStorage().save(storageKey, data);
+
+        const { data: attachment, error: insertError } = await supabase
+          .from("response_files")
+          .insert({
+            form_id: sharingCodeData.forms.id,
+            sharing_code_id: sharingCodeData.id,
+            response_id: response.id,
+            field_id: fieldId,
+            file_name: fileName,
+            mime_type: mimeType,
+            size: data.length,
+            storage_key: storageKey,
+            uploaded_by: req.user!.id,
+          })
+          .select()
+          .single();
+
+        if (insertError || !attachment) {
+          await getFileStorage().remove(storageKey);
+          console.error("Save attachment error:", insertError);
+          return { status: 500, error: "Failed to save file" };
+        }
+
+        return { attachment };
+      }
+    );
+
+    if (saved.error !== undefined) {
+      return res.status(saved.status).json({ error: saved.error });
+    }
+
+    const value = await syncFileFieldValue(response.id, fieldId);
+    const file = toPublicAttachment(saved.attachment);
+
+    emitToGroup(shareCode, "file-uploaded", {
+      fieldId,
+      file,
+      value,
+      uploadedBy: req.user!.email,
+      groupName: sharingCodeData.group_name,
+      timestamp: Date.now(),
+    });
+    scheduleSectionProgress(
+      shareCode,
+      sharingCodeData.forms.id,
+      sharingCodeData.id
+    );
+
+    res.status(201).json({ file, value });
+  } catch (error) {
+    console.error("Upload file error:", error);
+    res.status(500).json({ error: "Failed to upload file" });
+  }
+};
+
+export const deleteFieldFile = async (req: AuthRequest, res: Response) => {
+  try {
+    const { shareCode, fieldId, fileId } = req.params;
+    const context = await getFileFieldContext(shareCode, fieldId, req.user!.id);
+
+    if (context.error !== undefined) {
+      return res.status(context.status).json({ error: context.error });
+    }
+
+    const { sharingCodeData } = context;
+
+    // Only files on the group's current draft can be removed
+    const { data: attachment, error: attachmentError } = await supabase
+      .from("response_files")
+      .select("*, form_responses!inner(status)")
+      .eq("id", fileId)
+      .eq("field_id", fieldId)
+      .eq("sharing_code_id", sharingCodeData.id)
+      .eq("form_responses.status", "DRAFT")
+      .single();
+
+    if (attachmentError || !attachment) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    await deleteAttachment(attachment);
+    const value = await syncFileFieldValue(attachment.response_id, fieldId);
+
+    emitToGroup(shareCode, "file-removed", {
+      fieldId,
+      fileId,
+      value,
+      removedBy: req.user!.email,
+      timestamp: Date.now(),
+    });
+    scheduleSectionProgress(
+      shareCode,
+      sharingCodeData.forms.id,
+      sharingCodeData.id
+    );
+
+    res.json({ message: "File removed", value });
+  } catch (error) {
+    console.error("Delete file error:", error);
+    res.status(500).json({ error: "Failed to remove file" });
+  }
+};
+
+// Download for collaborators of the group that uploaded the file
+export const downloadSharedFile = async (req: AuthRequest, res: Response) => {
+  try {
+    const { shareCode, fileId } = req.params;
+
+    const { data: attachment, error } = await supabase
+      .from("response_files")
+      .select("*, form_sharing_codes!inner(id, form_id, share_code, is_closed)")
+      .eq("id", fileId)
+      .eq("form_sharing_codes.share_code", shareCode)
+      .single();
+
+    if (error || !attachment) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    const access = await getGroupAccess(
+      attachment.form_sharing_codes,
+      req.user!.id
+    );
+    if (!access.canView) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    await sendStoredFile(res, attachment);
+  } catch (error) {
+    console.error("Download file error:", error);
+    res.status(500).json({ error: "Failed to download file" });
+  }
+};
+
+// Download for the form owner when reviewing responses
+export const downloadResponseFile = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, fileId } = req.params;
+
+    const { data: attachment, error } = await supabase
+      .from("response_files")
+      .select("*, forms!inner(created_by_id)")
+      .eq("id", fileId)
+      .eq("form_id", formId)
+      .eq("forms.created_by_id", req.user!.id)
+      .single();
+
+    if (error || !attachment) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    await sendStoredFile(res, attachment);
+  } catch (error) {
+    console.error("Download file error:", error);
+    res.status(500).json({ error: "Failed to download file" });
+  }
+};
@@ -2,81 +2,968 @@
 import { Response } from "express";
 import { AuthRequest } from "../middleware/auth";
 import { supabase } from "../config/supabase";
-import { generateShareCode } from "../utils/helpers";
+import { describeUser, generateShareCode } from "../utils/helpers";
+import {
+  emitToFormGroups,
+  evictGroup,
+  evictGuests,
+  notifyAvailabilityChange,
+  refreshGroupAvailability,
+  refreshMemberAccess,
+  notifyGroupSlotAvailable,
+  restartDraftText,
+} from "../services/socketService";
+import {
+  AVAILABILITY_COLUMNS,
+  getGroupAvailability,
+} from "../services/availabilityService";
+import { runExclusive } from "../services/lockService";
+import { deleteGuestUsers } from "../services/guestService";
+import {
+  findOwnedSharingCode,
+  getGroupAccess,
+} from "../services/membershipService";
+import { isJoinStrategy } from "../services/groupAssignmentService";
+import {
+  EditMode,
+  isEditMode,
+  releaseFormTextDocuments,
+} from "../services/coEditService";
+import {
+  getWindowError,
+  parseAvailabilityUpdate,
+  parseSharingCodeUpdate,
+} from "../utils/availability";
+import { LockSettings, parseLockSettings } from "../utils/lockSettings";
+import {
+  createFormVersion,
+  getFormVersions,
+  repinDraftResponses,
+} from "../services/formVersionService";
+import {
+  ATTACHMENT_COLUMNS,
+  copyAttachmentsToResponse,
+  getGroupAttachments,
+  getStoredFileKeys,
+  removeStoredFiles,
+} from "../services/attachmentService";
+import { getVisibleFieldIds, normalizeConditions } from "../utils/conditions";
+import { isSectionField } from "../utils/sections";
+import {
+  isFieldType,
+  parseFormDefinition,
+  toFormDefinition,
+} from "../utils/formDefinition";
+import { fromJsonSchema, toJsonSchema } from "../utils/jsonSchema";
+import {
+  getJoinUrl,
+  renderJoinSheet,
+  renderQrPng,
+  renderQrSvg,
+} from "../utils/joinSheet";
+import {
+  isScaleFieldType,
+  normalizeValidationRules,
+  parseMatrixValue,
+  serializeMatrixValue,
+  splitSelectedOptions,
+  validateFormValues,
+} from "../utils/fieldValidation";
+import {
+  normalizeSubFields,
+  parseRepeaterValue,
+  serializeRepeaterValue,
+} from "../utils/repeaterValues";
+import {
+  computeCalculatedValues,
+  findFormulaCycle,
+  remapFormula,
+  validateFormula,
+} from "../utils/formulas";
+
+// Check every CALCULATED formula against the submitted definition, where
+// references still use builder ids
+const getFormulaError = (fields: any[]): string | null => {
+  const fieldIds = new Set(fields.map((field) => String(field.id)));
+  for (const field of fields) {
+    if (field.type !== "CALCULATED") continue;
+    const error = validateFormula(field.formula, String(field.id), fieldIds);
+    if (error) return `${field.label}: ${error}`;
+  }
+
+  const cycle = findFormulaCycle(
+    fields.map((field) => ({ ...field, id: String(field.id) }))
+  );
+  if (cycle) {
+    const labels = cycle.map(
+      (id) => fields.find((field) => String(field.id) === id)?.label || id
+    );
+    return `Formulas reference each other in a loop: ${labels.join(" -> ")}`;
+  }
+  return null;
+};
+
+// Persist visibility rules and formulas once every field has a database id,
+// so they can reference fields created in the same request
+const saveFieldReferences = async (
+  formId: string,
+  fields: any[],
+  idMap: Map<string, string>
+) => {
+  const results = await Promise.all(
+    fields
+      .filter((field) => idMap.has(field.id))
+      .map((field) => {
+        const fieldId = idMap.get(field.id)!;
+        // A field can't depend on its own value
+        const referenceMap = new Map(
+          [...idMap].filter(([, mappedId]) => mappedId !== fieldId)
+        );
+
+        return supabase
+          .from("form_fields")
+          .update({
+            conditions: normalizeConditions(field.conditions, referenceMap),
+            formula:
+              field.type === "CALCULATED"
+                ? remapFormula(field.formula, idMap)
+                : null,
+          })
+          .eq("id", fieldId)
+          .eq("form_id", formId);
+      })
+  );
+
+  return results.find((result) => result.error)?.error || null;
+};
+
+interface FormDefinition {
+  title: string;
+  description?: string | null;
+  fields: any[];
+  // One sharing code is created per group; defaults to a single group
+  groupNames?: string[];
+  editMode?: EditMode;
+  lockSettings?: Partial<LockSettings>;
+}
+
+// Create a form, its fields, version 1 and its initial sharing codes. Field
+// ids in the definition only link conditions and formulas together; the
+// created fields get fresh ids.
+const insertFormDefinition = async (
+  userId: string,
+  {
+    title,
+    description,
+    fields,
+    groupNames,
+    editMode,
+    lockSettings,
+  }: FormDefinition
+): Promise<{ form: any } | { error: string }> => {
+  // Create the form first
+  const { data: form, error: formError } = await supabase
+    .from("forms")
+    .insert({
+      title,
+      description,
+      created_by_id: userId,
+      edit_mode: editMode || "LOCK",
+      ...lockSettings,
+    })
+    .select()
+    .single();
+
+  if (formError || !form) {
+    return { error: "Failed to create form" };
+  }
+
+  // Create form fields
+  const formFields = fields.map((field: any, index: number) => ({
+    form_id: form.id,
+    label: field.label,
+    type: field.type,
+    required:
+      !["SECTION", "CALCULATED"].includes(field.type) &&
+      (field.required || false),
+    options: field.options || [],
+    description: field.type === "SECTION" ? field.description || null : null,
+    matrix_rows: field.type === "MATRIX" ? field.matrix_rows || [] : null,
+    sub_fields:
+      field.type === "REPEATER" ? normalizeSubFields(field.sub_fields) : null,
+    validation: normalizeValidationRules(field.validation),
+    field_order: index,
+  }));
+
+  const { data: createdFields, error: fieldsError } = await supabase
+    .from("form_fields")
+    .insert(formFields)
+    .select();
+
+  if (fieldsError) {
+    return { error: "Failed to create form fields" };
+  }
+
+  // Resolve builder ids to created ids, then store visibility rules and
+  // formulas
+  const idMap = new Map<string, string>();
+  fields.forEach((field: any, index: number) => {
+    const created = createdFields.find((f: any) => f.field_order === index);
+    if (created && field.id) idMap.set(String(field.id), created.id);
+  });
+
+  const referencingFields = fields.filter(
+    (field: any) => field.conditions || field.type === "CALCULATED"
+  );
+  if (referencingFields.length > 0) {
+    const referencesError = await saveFieldReferences(
+      form.id,
+      referencingFields,
+      idMap
+    );
+
+    if (referencesError) {
+      console.error("Save field references error:", referencesError);
+      return { error: "Failed to save field conditions" };
+    }
+  }
+
+  // Record the initial definition as version 1
+  const version = await createFormVersion(form.id, userId);
+
+  // Create initial sharing codes
+  const { data: sharingCodes, error: sharingError } = await supabase
+    .from("form_sharing_codes")
+    .insert(
+      (groupNames?.length ? groupNames : ["Default Group"]).map(
+        (groupName) => ({
+          form_id: form.id,
+          share_code: generateShareCode(),
+          group_name: groupName,
+          created_by_id: userId,
+        })
+      )
+    )
+    .select();
+
+  if (sharingError || !sharingCodes?.length) {
+    return { error: "Failed to create sharing code" };
+  }
+
+  return {
+    form: {
+      ...form,
+      current_version: version?.version_number ?? form.current_version,
+      fields: version?.fields || createdFields,
+      sharing_codes: sharingCodes,
+      initial_share_code: sharingCodes[0].share_code,
+    },
+  };
+};
+
 export const createForm = async (req: AuthRequest, res: Response) => {
   try {
-    const { title, description, fields, initialGroupName } = req.body;
+    const { title, description, fields, initialGroupName, edit_mode } =
+      req.body;
+
+    if (edit_mode !== undefined && !isEditMode(edit_mode)) {
+      return res
+        .status(400)
+        .json({ error: "edit_mode must be LOCK or CO_EDIT" });
+    }
+
+    const lockSettings = parseLockSettings(req.body);
+    if ("error" in lockSettings) {
+      return res.status(400).json({ error: lockSettings.error });
+    }
+
+    const unknownType = (fields || []).find(
+      (field: any) => !isFieldType(field?.type)
+    );
+    if (unknownType) {
+      return res
+        .status(400)
+        .json({ error: `Unknown field type "${unknownType.type}"` });
+    }
+
+    const formulaError = getFormulaError(fields || []);
+    if (formulaError) {
+      return res.status(400).json({ error: formulaError });
+    }
+
+    const result = await insertFormDefinition(req.user!.id, {
+      title,
+      description,
+      fields,
+      groupNames: initialGroupName ? [initialGroupName] : undefined,
+      editMode: edit_mode,
+      lockSettings: lockSettings.updates,
+    });
+
+    if ("error" in result) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.status(201).json(result.form);
+  } catch (error) {
+    console.error("Create form error:", error);
+    res.status(500).json({ error: "Failed to create form" });
+  }
+};
+
+// Copy a form's current definition into a new form owned by the caller.
+// Responses and sharing codes stay with the original.
+export const duplicateForm = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId } = req.params;
+    const { title } = req.body || {};
+
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select(
+        `
+        *,
+        form_fields(*)
+      `
+      )
+      .is("form_fields.archived_at", null)
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    const result = await insertFormDefinition(req.user!.id, {
+      title: String(title || "").trim() || `Copy of ${form.title}`,
+      description: form.description,
+      fields: [...form.form_fields].sort(
+        (a: any, b: any) => a.field_order - b.field_order
+      ),
+      editMode: isEditMode(form.edit_mode) ? form.edit_mode : undefined,
+      lockSettings: {
+        lock_timeout_seconds: form.lock_timeout_seconds,
+        lock_handoff_seconds: form.lock_handoff_seconds,
+      },
+    });
+
+    if ("error" in result) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.status(201).json(result.form);
+  } catch (error) {
+    console.error("Duplicate form error:", error);
+    res.status(500).json({ error: "Failed to duplicate form" });
+  }
+};
+
+// Portable JSON of a form's current definition, see utils/formDefinition.ts
+export const getFormDefinition = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId } = req.params;
+
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select(
+        `
+        *,
+        form_fields(*),
+        form_sharing_codes(group_name, created_at)
+      `
+      )
+      .is("form_fields.archived_at", null)
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    const groupNames = [...(form.form_sharing_codes || [])]
+      .sort((a: any, b: any) => a.created_at.localeCompare(b.created_at))
+      .map((code: any) => code.group_name);
+
+    res.json(
+      toFormDefinition(form, form.form_fields, [...new Set<string>(groupNames)])
+    );
+  } catch (error) {
+    console.error("Get form definition error:", error);
+    res.status(500).json({ error: "Failed to export form definition" });
+  }
+};
+
+// Recreate a form from an exported definition
+export const importForm = async (req: AuthRequest, res: Response) => {
+  try {
+    const parsed = parseFormDefinition(req.body);
+    if ("errors" in parsed) {
+      return res
+        .status(400)
+        .json({ error: "Invalid form definition", details: parsed.errors });
+    }
+
+    const { definition } = parsed;
+    const formulaError = getFormulaError(definition.fields);
+    if (formulaError) {
+      return res
+        .status(400)
+        .json({ error: "Invalid form definition", details: [formulaError] });
+    }
+
+    const result = await insertFormDefinition(req.user!.id, {
+      title: definition.title,
+      description: definition.description,
+      fields: definition.fields,
+      groupNames: definition.sharing_groups,
+    });
+
+    if ("error" in result) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.status(201).json(result.form);
+  } catch (error) {
+    console.error("Import form error:", error);
+    res.status(500).json({ error: "Failed to import form" });
+  }
+};
+
+// JSON Schema describing a form's responses, see utils/jsonSchema.ts
+export const getFormJsonSchema = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId } = req.params;
+
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select(
+        `
+        *,
+        form_fields(*)
+      `
+      )
+      .is("form_fields.archived_at", null)
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    res
+      .type("application/schema+json")
+      .send(JSON.stringify(toJsonSchema(form, form.form_fields), null, 2));
+  } catch (error) {
+    console.error("Get form schema error:", error);
+    res.status(500).json({ error: "Failed to generate JSON Schema" });
+  }
+};
+
+// Turn an uploaded JSON Schema into unsaved builder fields; the admin
+// reviews the draft and saves it through createForm
+export const convertJsonSchema = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = fromJsonSchema(req.body);
+    if ("error" in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error("Convert JSON Schema error:", error);
+    res.status(500).json({ error: "Failed to convert JSON Schema" });
+  }
+};
+
+// Open/close schedule, submission cap and on/off switch of a whole form
+export const updateFormAvailability = async (
+  req: AuthRequest,
+  res: Response
+) => {
+  try {
+    const { formId } = req.params;
+    const parsed = parseAvailabilityUpdate(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select(`id, ${AVAILABILITY_COLUMNS}`)
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    const windowError = getWindowError({ ...form, ...parsed.updates });
+    if (windowError) {
+      return res.status(400).json({ error: windowError });
+    }
+
+    const { data: updatedForm, error: updateError } = await supabase
+      .from("forms")
+      .update({ ...parsed.updates, updated_at: new Date().toISOString() })
+      .eq("id", formId)
+      .select()
+      .single();
+
+    if (updateError || !updatedForm) {
+      console.error("Update form availability error:", updateError);
+      return res.status(500).json({ error: "Failed to update availability" });
+    }
+
+    await notifyAvailabilityChange(formId);
+
+    res.json(updatedForm);
+  } catch (error) {
+    console.error("Update form availability error:", error);
+    res.status(500).json({ error: "Failed to update availability" });
+  }
+};
+
+// The same settings for a single group; both levels must allow a response
+export const updateSharingCodeAvailability = async (
+  req: AuthRequest,
+  res: Response
+) => {
+  try {
+    const { formId, sharingCodeId } = req.params;
+    const parsed = parseAvailabilityUpdate(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) {
+      return res
+        .status(404)
+        .json({ error: "Sharing code not found or access denied" });
+    }
+
+    const windowError = getWindowError({ ...sharingCode, ...parsed.updates });
+    if (windowError) {
+      return res.status(400).json({ error: windowError });
+    }
+
+    const { data: updatedCode, error: updateError } = await supabase
+      .from("form_sharing_codes")
+      .update(parsed.updates)
+      .eq("id", sharingCodeId)
+      .select()
+      .single();
+
+    if (updateError || !updatedCode) {
+      console.error("Update sharing code availability error:", updateError);
+      return res.status(500).json({ error: "Failed to update availability" });
+    }
+
+    if (sharingCode.is_active && updatedCode.is_active === false) {
+      await evictGroup(updatedCode, "This group has been deactivated");
+      await deleteGuestUsers(updatedCode.share_code).catch((error) =>
+        console.error("Delete guests error:", error)
+      );
+    }
+    await notifyAvailabilityChange(formId);
+
+    res.json(updatedCode);
+  } catch (error) {
+    console.error("Update sharing code availability error:", error);
+    res.status(500).json({ error: "Failed to update availability" });
+  }
+};
+
+// Switch a form's join link on or off, or change how it assigns groups.
+// The link keeps its code while enabled.
+export const updateJoinLink = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId } = req.params;
+    const { enabled, strategy } = req.body || {};
+
+    if (enabled !== undefined && typeof enabled !== "boolean") {
+      return res.status(400).json({ error: "enabled must be true or false" });
+    }
+    if (strategy !== undefined && !isJoinStrategy(strategy)) {
+      return res.status(400).json({
+        error:
+          "strategy must be ROUND_ROBIN, FILL_TO_CAPACITY, LEAST_ACTIVE or SELF_SELECT",
+      });
+    }
+
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select("id, join_code")
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    const updates: { join_code?: string | null; join_strategy?: string } = {};
+    if (strategy !== undefined) updates.join_strategy = strategy;
+    if (enabled === false) updates.join_code = null;
+    if (enabled === true && !form.join_code) {
+      const joinCode = await generateUniqueJoinCode();
+      if (!joinCode) {
+        return res
+          .status(500)
+          .json({ error: "Failed to generate unique join code" });
+      }
+      updates.join_code = joinCode;
+    }
+
+    const { data: updatedForm, error: updateError } = await supabase
+      .from("forms")
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq("id", formId)
+      .select("id, join_code, join_strategy")
+      .single();
+
+    if (updateError || !updatedForm) {
+      console.error("Update join link error:", updateError);
+      return res.status(500).json({ error: "Failed to update join link" });
+    }
+
+    res.json(updatedForm);
+  } catch (error) {
+    console.error("Update join link error:", error);
+    res.status(500).json({ error: "Failed to update join link" });
+  }
+};
+
+const generateUniqueJoinCode = async (): Promise<string | null> => {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const joinCode = generateShareCode();
+    const { data: existing } = await supabase
+      .from("forms")
+      .select("id")
+      .eq("join_code", joinCode)
+      .single();
+
+    if (!existing) return joinCode;
+  }
+  return null;
+};
+
+// A share code not used by any group yet; null after 5 collisions
+const generateUniqueShareCode = async (): Promise<string | null> => {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const shareCode = generateShareCode();
+    const { data: existing } = await supabase
+      .from("form_sharing_codes")
+      .select("id")
+      .eq("share_code", shareCode)
+      .single();
+
+    if (!existing) return shareCode;
+  }
+  return null;
+};
+
+export const createSharingCode = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId } = req.params;
+    const { groupName } = req.body;
+
+    // Verify user owns the form
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select("id, title")
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    const shareCode = await generateUniqueShareCode();
+    if (!shareCode) {
+      return res
+        .status(500)
+        .json({ error: "Failed to generate unique share code" });
+    }
+
+    // Create new sharing code
+    const { data: newSharingCode, error: createError } = await supabase
+      .from("form_sharing_codes")
+      .insert({
+        form_id: formId,
+        share_code: shareCode,
+        group_name: groupName || `Group ${shareCode}`,
+        created_by_id: req.user!.id,
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      return res.status(500).json({ error: "Failed to create sharing code" });
+    }
+
+    res.status(201).json(newSharingCode);
+  } catch (error) {
+    console.error("Create sharing code error:", error);
+    res.status(500).json({ error: "Failed to create sharing code" });
+  }
+};
+
+// List a form's groups with their response counts
+export const getSharingCodes = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId } = req.params;
+
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select("id, form_sharing_codes(*)")
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    const sharingCodes = await Promise.all(
+      [...(form.form_sharing_codes || [])]
+        .sort((a: any, b: any) => a.created_at.localeCompare(b.created_at))
+        .map(async (sharingCode: any) => {
+          // The group's shared draft isn't a response yet
+          const { count } = await supabase
+            .from("form_responses")
+            .select("*", { count: "exact", head: true })
+            .eq("sharing_code_id", sharingCode.id)
+            .eq("status", "SUBMITTED");
+
+          return { ...sharingCode, response_count: count || 0 };
+        })
+    );
+
+    res.json(sharingCodes);
+  } catch (error) {
+    console.error("Get sharing codes error:", error);
+    res.status(500).json({ error: "Failed to fetch sharing codes" });
+  }
+};
+
+// Rename a group, switch it, guest access or members-only mode on or off,
+// set its capacity or when its code expires. Deactivating removes everyone
+// currently in the group; closing it removes everyone who isn't a member.
+export const updateSharingCode = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId } = req.params;
+    const parsed = parseSharingCodeUpdate(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) {
+      return res
+        .status(404)
+        .json({ error: "Sharing code not found or access denied" });
+    }
+
+    const { data: updatedCode, error: updateError } = await supabase
+      .from("form_sharing_codes")
+      .update(parsed.updates)
+      .eq("id", sharingCodeId)
+      .select()
+      .single();
+
+    if (updateError || !updatedCode) {
+      console.error("Update sharing code error:", updateError);
+      return res.status(500).json({ error: "Failed to update sharing code" });
+    }
+
+    if (sharingCode.is_active && updatedCode.is_active === false) {
+      await evictGroup(updatedCode, "This group has been deactivated");
+      await deleteGuestUsers(updatedCode.share_code).catch((error) =>
+        console.error("Delete guests error:", error)
+      );
+    } else {
+      if (sharingCode.allow_guests && updatedCode.allow_guests === false) {
+        await evictGuests(updatedCode.share_code);
+        await deleteGuestUsers(updatedCode.share_code).catch((error) =>
+          console.error("Delete guests error:", error)
+        );
+      }
+      if (parsed.updates.expires_at !== undefined) {
+        await refreshGroupAvailability(updatedCode.share_code);
+      }
+      if (sharingCode.is_closed !== updatedCode.is_closed) {
+        await refreshMemberAccess(updatedCode);
+      }
+      if (parsed.updates.capacity !== undefined) {
+        notifyGroupSlotAvailable(updatedCode.share_code);
+      }
+    }
+
+    res.json(updatedCode);
+  } catch (error) {
+    console.error("Update sharing code error:", error);
+    res.status(500).json({ error: "Failed to update sharing code" });
+  }
+};
+
+// Replace a leaked code. The group keeps its id, so its draft, responses
+// and settings stay; only the code people use to join changes.
+export const rotateSharingCode = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId } = req.params;
 
-    // Create the form first
-    const { data: form, error: formError } = await supabase
-      .from("forms")
-      .insert({
-        title,
-        description,
-        created_by_id: req.user!.id,
-      })
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) {
+      return res
+        .status(404)
+        .json({ error: "Sharing code not found or access denied" });
+    }
+
+    const shareCode = await generateUniqueShareCode();
+    if (!shareCode) {
+      return res
+        .status(500)
+        .json({ error: "Failed to generate unique share code" });
+    }
+
+    const { data: updatedCode, error: updateError } = await supabase
+      .from("form_sharing_codes")
+      .update({ share_code: shareCode })
+      .eq("id", sharingCodeId)
       .select()
       .single();
 
-    if (formError || !form) {
-      return res.status(500).json({ error: "Failed to create form" });
+    if (updateError || !updatedCode) {
+      console.error("Rotate sharing code error:", updateError);
+      return res.status(500).json({ error: "Failed to rotate sharing code" });
     }
 
-    // Create form fields
-    const formFields = fields.map((field: any, index: number) => ({
-      form_id: form.id,
-      label: field.label,
-      type: field.type,
-      required: field.required || false,
-      options: field.options || [],
-      field_order: index,
-    }));
+    await evictGroup(
+      sharingCode,
+      "The share code for this group has been changed"
+    );
+    await deleteGuestUsers(sharingCode.share_code).catch((error) =>
+      console.error("Delete guests error:", error)
+    );
 
-    const { data: createdFields, error: fieldsError } = await supabase
-      .from("form_fields")
-      .insert(formFields)
-      .select();
+    res.json(updatedCode);
+  } catch (error) {
+    console.error("Rotate sharing code error:", error);
+    res.status(500).json({ error: "Failed to rotate sharing code" });
+  }
+};
 
-    if (fieldsError) {
-      return res.status(500).json({ error: "Failed to create form fields" });
+// Remove a group together with its draft and responses
+export const deleteSharingCode = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId } = req.params;
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) {
+      return res
+        .status(404)
+        .json({ error: "Sharing code not found or access denied" });
     }
 
-    // Create initial sharing code
-    const initialShareCode = generateShareCode();
-    const { data: sharingCode, error: sharingError } = await supabase
+    await evictGroup(sharingCode, "This group has been deleted");
+
+    // Listed first: the cascade drops the rows that name the stored files
+    const storageKeys = await getStoredFileKeys(
+      "sharing_code_id",
+      sharingCodeId
+    );
+
+    // Cascade removes the group's responses, files and locks
+    const { error: deleteError } = await supabase
       .from("form_sharing_codes")
-      .insert({
-        form_id: form.id,
-        share_code: initialShareCode,
-        group_name: initialGroupName || "Default Group",
-        created_by_id: req.user!.id,
-      })
-      .select()
-      .single();
+      .delete()
+      .eq("id", sharingCodeId);
 
-    if (sharingError) {
-      return res.status(500).json({ error: "Failed to create sharing code" });
+    if (deleteError) {
+      console.error("Delete sharing code error:", deleteError);
+      return res.status(500).json({ error: "Failed to delete sharing code" });
     }
 
-    res.status(201).json({
-      ...form,
-      fields: createdFields,
-      sharing_codes: [sharingCode],
-      initial_share_code: initialShareCode,
-    });
+    await removeStoredFiles(storageKeys).catch((error) =>
+      console.error("Remove group files error:", error)
+    );
+    await deleteGuestUsers(sharingCode.share_code).catch((error) =>
+      console.error("Delete guests error:", error)
+    );
+
+    res.json({ message: "Sharing code deleted successfully" });
   } catch (error) {
-    console.error("Create form error:", error);
-    res.status(500).json({ error: "Failed to create form" });
+    console.error("Delete sharing code error:", error);
+    res.status(500).json({ error: "Failed to delete sharing code" });
   }
 };
 
-// Add new endpoint to create additional sharing codes
-export const createSharingCode = async (req: AuthRequest, res: Response) => {
+// QR code of a group's join link, as PNG (?size= in pixels) or SVG
+export const getSharingCodeQr = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId, format } = req.params;
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) {
+      return res
+        .status(404)
+        .json({ error: "Sharing code not found or access denied" });
+    }
+
+    const url = getJoinUrl(sharingCode);
+    const fileName = `${sharingCode.share_code}.${format}`;
+    res.setHeader("Content-Disposition", `inline; filename="${fileName}"`);
+
+    if (format === "svg") {
+      return res.type("image/svg+xml").send(await renderQrSvg(url));
+    }
+
+    const size = Math.min(
+      2048,
+      Math.max(128, Math.floor(Number(req.query.size)) || 512)
+    );
+    res.type("image/png").send(await renderQrPng(url, size));
+  } catch (error) {
+    console.error("Get QR code error:", error);
+    res.status(500).json({ error: "Failed to generate QR code" });
+  }
+};
+
+// Printable HTML with one page per active group (or only the groups listed
+// in ?sharingCodeId=), for posting codes at in-person sessions
+export const getJoinSheet = async (req: AuthRequest, res: Response) => {
   try {
     const { formId } = req.params;
-    const { groupName } = req.body;
+    const sharingCodeIds = ([] as unknown[])
+      .concat(req.query.sharingCodeId ?? [])
+      .map(String);
 
-    // Verify user owns the form
     const { data: form, error: formError } = await supabase
       .from("forms")
       .select("id, title")
@@ -88,49 +975,29 @@ export const createSharingCode = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "Form not found or access denied" });
     }
 
-    // Generate unique share code
-    let shareCode = generateShareCode();
-    let attempts = 0;
-
-    while (attempts < 5) {
-      const { data: existing } = await supabase
-        .from("form_sharing_codes")
-        .select("id")
-        .eq("share_code", shareCode)
-        .single();
-
-      if (!existing) break;
-
-      shareCode = generateShareCode();
-      attempts++;
+    let query = supabase
+      .from("form_sharing_codes")
+      .select("share_code, group_name, allow_guests")
+      .eq("form_id", formId)
+      .eq("is_active", true)
+      .order("created_at", { ascending: true });
+    if (sharingCodeIds.length > 0) {
+      query = query.in("id", sharingCodeIds);
     }
 
-    if (attempts >= 5) {
-      return res
-        .status(500)
-        .json({ error: "Failed to generate unique share code" });
+    const { data: sharingCodes, error } = await query;
+    if (error) {
+      console.error("Get join sheet error:", error);
+      return res.status(500).json({ error: "Failed to create join sheet" });
     }
-
-    // Create new sharing code
-    const { data: newSharingCode, error: createError } = await supabase
-      .from("form_sharing_codes")
-      .insert({
-        form_id: formId,
-        share_code: shareCode,
-        group_name: groupName || `Group ${shareCode}`,
-        created_by_id: req.user!.id,
-      })
-      .select()
-      .single();
-
-    if (createError) {
-      return res.status(500).json({ error: "Failed to create sharing code" });
+    if (!sharingCodes || sharingCodes.length === 0) {
+      return res.status(404).json({ error: "No active groups to print" });
     }
 
-    res.status(201).json(newSharingCode);
+    res.type("text/html").send(await renderJoinSheet(form.title, sharingCodes));
   } catch (error) {
-    console.error("Create sharing code error:", error);
-    res.status(500).json({ error: "Failed to create sharing code" });
+    console.error("Get join sheet error:", error);
+    res.status(500).json({ error: "Failed to create join sheet" });
   }
 };
 
@@ -146,6 +1013,7 @@ export const getForms = async (req: AuthRequest, res: Response) => {
         form_sharing_codes(*)
       `
       )
+      .is("form_fields.archived_at", null)
       .eq("created_by_id", req.user!.id)
       .order("created_at", { ascending: false });
 
@@ -161,7 +1029,8 @@ export const getForms = async (req: AuthRequest, res: Response) => {
             const { count } = await supabase
               .from("form_responses")
               .select("*", { count: "exact", head: true })
-              .eq("sharing_code_id", sharingCode.id);
+              .eq("sharing_code_id", sharingCode.id)
+              .eq("status", "SUBMITTED");
 
             return {
               ...sharingCode,
@@ -205,6 +1074,7 @@ export const getFormByShareCode = async (req: AuthRequest, res: Response) => {
         )
       `
       )
+      .is("forms.form_fields.archived_at", null)
       .eq("share_code", shareCode)
       .eq("is_active", true)
       .single();
@@ -213,16 +1083,36 @@ export const getFormByShareCode = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "Share code not found" });
     }
 
+    const access = await getGroupAccess(sharingCodeData, req.user!.id);
+    if (!access.canView) {
+      return res.status(403).json({ error: "This group is members only" });
+    }
+
+    // Closed groups only get the schedule, so the page can count down
+    const availability = await getGroupAvailability(
+      sharingCodeData,
+      sharingCodeData.forms
+    );
+    if (!availability.open) {
+      return res.status(403).json({
+        error: availability.message,
+        availability,
+        form_title: sharingCodeData.forms.title,
+      });
+    }
+
     // Get responses for this specific sharing code
     const { data: responses, error: responsesError } = await supabase
       .from("form_responses")
       .select(
         `
         *,
-        response_fields(*)
+        response_fields(*),
+        response_files(${ATTACHMENT_COLUMNS})
       `
       )
       .eq("sharing_code_id", sharingCodeData.id)
+      .eq("status", "DRAFT")
       .order("created_at", { ascending: false })
       .limit(1);
 
@@ -233,6 +1123,8 @@ export const getFormByShareCode = async (req: AuthRequest, res: Response) => {
         share_code: sharingCodeData.share_code,
         group_name: sharingCodeData.group_name,
       },
+      availability,
+      group_access: access,
       form_responses: responses || [],
     };
 
@@ -321,9 +1213,10 @@ export const submitForm = async (req: AuthRequest, res: Response) => {
       .select(
         `
         *,
-        forms(id, title)
+        forms(id, title, current_version, edit_mode, ${AVAILABILITY_COLUMNS}, form_fields(*))
       `
       )
+      .is("forms.form_fields.archived_at", null)
       .eq("share_code", shareCode)
       .eq("is_active", true)
       .single();
@@ -332,17 +1225,153 @@ export const submitForm = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "Share code not found" });
     }
 
-    // Create new response for this sharing code
-    const { data: newResponse, error: createError } = await supabase
-      .from("form_responses")
-      .insert({
-        form_id: sharingCodeData.forms.id,
-        sharing_code_id: sharingCodeData.id,
-        user_id: req.user!.id,
-      })
-      .select()
-      .single();
+    const access = await getGroupAccess(sharingCodeData, req.user!.id);
+    if (!access.canSubmit) {
+      return res
+        .status(403)
+        .json({ error: "Your role in this group can't submit the form" });
+    }
+
+    const availability = await getGroupAvailability(
+      sharingCodeData,
+      sharingCodeData.forms
+    );
+    if (!availability.open) {
+      return res
+        .status(403)
+        .json({ error: availability.message, availability });
+    }
+
+    const formFields: any[] = sharingCodeData.forms.form_fields || [];
+    const submittedValues: Record<string, string> = {};
+    Object.entries(formData || {}).forEach(([fieldId, value]) => {
+      if (value !== null && value !== undefined) {
+        submittedValues[fieldId] = String(value).trim();
+      }
+    });
+
+    // FILE values are attachment ids; keep only files this group uploaded
+    const fileFieldIds = new Set<string>(
+      formFields
+        .filter((field) => field.type === "FILE")
+        .map((field) => field.id)
+    );
+    const attachments = await getGroupAttachments(
+      sharingCodeData.id,
+      [...fileFieldIds].flatMap((fieldId) =>
+        splitSelectedOptions(submittedValues[fieldId] || "")
+      )
+    );
+    fileFieldIds.forEach((fieldId) => {
+      submittedValues[fieldId] = splitSelectedOptions(
+        submittedValues[fieldId] || ""
+      )
+        .filter((id) =>
+          attachments.some(
+            (attachment) =>
+              attachment.id === id && attachment.field_id === fieldId
+          )
+        )
+        .join(",");
+    });
+
+    // Section headers never hold a value
+    formFields
+      .filter((field) => isSectionField(field))
+      .forEach((field) => delete submittedValues[field.id]);
+
+    // Calculated values are always recomputed from the other answers rather
+    // than taken from the client
+    formFields
+      .filter((field) => field.type === "CALCULATED")
+      .forEach((field) => delete submittedValues[field.id]);
+    Object.entries(computeCalculatedValues(formFields, submittedValues))
+      .filter(([, value]) => value !== "")
+      .forEach(([fieldId, value]) => (submittedValues[fieldId] = value));
+
+    // Hidden fields are neither required nor stored
+    const visibleFieldIds = getVisibleFieldIds(formFields, submittedValues);
+    const fieldErrors = validateFormValues(
+      formFields,
+      submittedValues,
+      visibleFieldIds
+    );
+
+    if (Object.keys(fieldErrors).length > 0) {
+      return res.status(400).json({
+        error: "Validation failed",
+        details: formFields
+          .filter((field) => fieldErrors[field.id])
+          .map((field) => `${field.label}: ${fieldErrors[field.id]}`)
+          .join(", "),
+        fieldErrors,
+      });
+    }
+
+    // Store ratings and scales in canonical numeric form ("07" -> "7"),
+    // grids as compact row -> column JSON, and repeated sections without
+    // rows nobody filled in
+    formFields
+      .filter((field) => field.type === "MATRIX")
+      .forEach((field) => {
+        if (submittedValues[field.id]) {
+          submittedValues[field.id] = serializeMatrixValue(
+            parseMatrixValue(submittedValues[field.id])
+          );
+        }
+      });
+    formFields
+      .filter((field) => field.type === "REPEATER")
+      .forEach((field) => {
+        if (submittedValues[field.id]) {
+          submittedValues[field.id] = serializeRepeaterValue(
+            parseRepeaterValue(submittedValues[field.id]).filter(
+              (row) => Object.keys(row.values).length > 0
+            )
+          );
+        }
+      });
+    formFields
+      .filter((field) => isScaleFieldType(field.type))
+      .forEach((field) => {
+        if (submittedValues[field.id]) {
+          submittedValues[field.id] = String(Number(submittedValues[field.id]));
+        }
+      });
+
+    // Create new response for this sharing code. The limits are checked
+    // again next to the insert, one submission per form at a time, so
+    // concurrent submits can't both take the last place.
+    const created = await runExclusive(
+      `submit:${sharingCodeData.forms.id}`,
+      async () => {
+        const current = await getGroupAvailability(
+          sharingCodeData,
+          sharingCodeData.forms
+        );
+        if (!current.open) return { closed: current };
+
+        return supabase
+          .from("form_responses")
+          .insert({
+            form_id: sharingCodeData.forms.id,
+            sharing_code_id: sharingCodeData.id,
+            user_id: req.user!.id,
+            status: "SUBMITTED",
+            form_version: sharingCodeData.forms.current_version,
+          })
+          .select()
+          .single();
+      }
+    );
+
+    if ("closed" in created) {
+      return res
+        .status(403)
+        .json({ error: created.closed.message, availability: created.closed });
+    }
 
+    const { data: newResponse, error: createError } = created;
     if (createError) {
       return res.status(500).json({
         error: "Failed to create response",
@@ -350,16 +1379,36 @@ export const submitForm = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Submitted responses get their own copies of visible attachments
+    let attachmentIdMap = new Map<string, string>();
+    try {
+      attachmentIdMap = await copyAttachmentsToResponse(
+        attachments.filter((attachment) =>
+          visibleFieldIds.has(attachment.field_id)
+        ),
+        newResponse.id
+      );
+    } catch (copyError: any) {
+      await supabase.from("form_responses").delete().eq("id", newResponse.id);
+      return res.status(500).json({
+        error: "Failed to submit attachments",
+        details: copyError.message,
+      });
+    }
+
     // Insert response fields
-    const responseFields = Object.entries(formData)
+    const responseFields = Object.entries(submittedValues)
       .filter(
-        ([fieldId, value]) =>
-          value !== null && value !== undefined && String(value).trim() !== ""
+        ([fieldId, value]) => visibleFieldIds.has(fieldId) && value !== ""
       )
       .map(([fieldId, value]) => ({
         response_id: newResponse.id,
         field_id: fieldId,
-        value: String(value).trim(),
+        value: fileFieldIds.has(fieldId)
+          ? splitSelectedOptions(value)
+              .map((id) => attachmentIdMap.get(id) || id)
+              .join(",")
+          : value,
       }));
 
     if (responseFields.length > 0) {
@@ -376,10 +1425,20 @@ export const submitForm = async (req: AuthRequest, res: Response) => {
       }
     }
 
+    // The submission may have used up a cap
+    if (availability.remainingSubmissions !== null) {
+      notifyAvailabilityChange(sharingCodeData.forms.id);
+    }
+
+    restartDraftText(sharingCodeData).catch((error) => {
+      console.error("Failed to restart co-edited text:", error);
+    });
+
     res.json({
       message: "Form submitted successfully",
       response_id: newResponse.id,
       form_title: sharingCodeData.forms.title,
+      form_version: sharingCodeData.forms.current_version,
       group_name: sharingCodeData.group_name,
       submitted_at: new Date().toISOString(),
       fields_submitted: responseFields.length,
@@ -393,6 +1452,278 @@ export const submitForm = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Get a single form definition for the builder's edit mode
+export const getFormById = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId } = req.params;
+
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select(
+        `
+        *,
+        form_fields(*)
+      `
+      )
+      .is("form_fields.archived_at", null)
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    form.form_fields.sort((a: any, b: any) => a.field_order - b.field_order);
+
+    res.json(form);
+  } catch (error) {
+    console.error("Get form error:", error);
+    res.status(500).json({ error: "Failed to fetch form" });
+  }
+};
+
+// Update form details and diff the incoming fields against form_fields
+export const updateForm = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId } = req.params;
+    const { title, description, fields, edit_mode } = req.body;
+
+    if (title !== undefined && !String(title).trim()) {
+      return res.status(400).json({ error: "Form title is required" });
+    }
+
+    if (edit_mode !== undefined && !isEditMode(edit_mode)) {
+      return res
+        .status(400)
+        .json({ error: "edit_mode must be LOCK or CO_EDIT" });
+    }
+
+    const lockSettings = parseLockSettings(req.body);
+    if ("error" in lockSettings) {
+      return res.status(400).json({ error: lockSettings.error });
+    }
+
+    if (fields !== undefined) {
+      if (!Array.isArray(fields) || fields.length === 0) {
+        return res
+          .status(400)
+          .json({ error: "At least one field is required" });
+      }
+
+      const invalidField = fields.find(
+        (field: any) => !field?.label?.trim() || !field?.type
+      );
+      if (invalidField) {
+        return res
+          .status(400)
+          .json({ error: "All fields must have a label and type" });
+      }
+
+      const unknownType = fields.find((field: any) => !isFieldType(field.type));
+      if (unknownType) {
+        return res
+          .status(400)
+          .json({ error: `Unknown field type "${unknownType.type}"` });
+      }
+
+      const formulaError = getFormulaError(fields);
+      if (formulaError) {
+        return res.status(400).json({ error: formulaError });
+      }
+    }
+
+    // Verify user owns the form
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select("id, edit_mode, form_fields(id)")
+      .is("form_fields.archived_at", null)
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    const formUpdates: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (title !== undefined) formUpdates.title = title;
+    if (description !== undefined) formUpdates.description = description;
+    if (edit_mode !== undefined) formUpdates.edit_mode = edit_mode;
+    Object.assign(formUpdates, lockSettings.updates);
+
+    const { data: updatedForm, error: updateError } = await supabase
+      .from("forms")
+      .update(formUpdates)
+      .eq("id", formId)
+      .select()
+      .single();
+
+    if (updateError || !updatedForm) {
+      console.error("Update form error:", updateError);
+      return res.status(500).json({ error: "Failed to update form" });
+    }
+
+    if (fields !== undefined) {
+      const existingIds = new Set<string>(
+        form.form_fields.map((field: any) => field.id)
+      );
+      const incomingIds = new Set<string>(
+        fields
+          .filter((field: any) => existingIds.has(field.id))
+          .map((field: any) => field.id)
+      );
+
+      // Archive fields that are no longer part of the definition; deleting
+      // them would also drop their answers from submitted responses
+      const removedIds = [...existingIds].filter((id) => !incomingIds.has(id));
+      if (removedIds.length > 0) {
+        const { error: archiveError } = await supabase
+          .from("form_fields")
+          .update({ archived_at: new Date().toISOString() })
+          .eq("form_id", formId)
+          .in("id", removedIds);
+
+        if (archiveError) {
+          console.error("Remove form fields error:", archiveError);
+          return res
+            .status(500)
+            .json({ error: "Failed to remove form fields" });
+        }
+      }
+
+      const toFieldRow = (field: any, index: number) => ({
+        label: field.label,
+        type: field.type,
+        required:
+          !["SECTION", "CALCULATED"].includes(field.type) &&
+          (field.required || false),
+        options: field.options || [],
+        description:
+          field.type === "SECTION" ? field.description || null : null,
+        matrix_rows: field.type === "MATRIX" ? field.matrix_rows || [] : null,
+        sub_fields:
+          field.type === "REPEATER"
+            ? normalizeSubFields(field.sub_fields)
+            : null,
+        validation: normalizeValidationRules(field.validation),
+        field_order: index,
+      });
+
+      // Update existing fields, including their new position
+      const updateResults = await Promise.all(
+        fields
+          .map((field: any, index: number) => ({ field, index }))
+          .filter(({ field }: any) => incomingIds.has(field.id))
+          .map(({ field, index }: any) =>
+            supabase
+              .from("form_fields")
+              .update(toFieldRow(field, index))
+              .eq("id", field.id)
+              .eq("form_id", formId)
+          )
+      );
+
+      if (updateResults.some((result) => result.error)) {
+        console.error(
+          "Update form fields error:",
+          updateResults.find((result) => result.error)?.error
+        );
+        return res.status(500).json({ error: "Failed to update form fields" });
+      }
+
+      // Insert fields that don't exist yet
+      const newFields = fields
+        .map((field: any, index: number) => ({ field, index }))
+        .filter(({ field }: any) => !incomingIds.has(field.id))
+        .map(({ field, index }: any) => ({
+          form_id: formId,
+          ...toFieldRow(field, index),
+        }));
+
+      const idMap = new Map<string, string>(
+        [...incomingIds].map((id) => [id, id])
+      );
+
+      if (newFields.length > 0) {
+        const { data: insertedFields, error: insertError } = await supabase
+          .from("form_fields")
+          .insert(newFields)
+          .select("id, field_order");
+
+        if (insertError) {
+          console.error("Insert form fields error:", insertError);
+          return res.status(500).json({ error: "Failed to add form fields" });
+        }
+
+        fields.forEach((field: any, index: number) => {
+          const inserted = (insertedFields || []).find(
+            (f: any) => f.field_order === index
+          );
+          if (inserted && field.id) idMap.set(String(field.id), inserted.id);
+        });
+      }
+
+      const referencesError = await saveFieldReferences(formId, fields, idMap);
+      if (referencesError) {
+        console.error("Save field references error:", referencesError);
+        return res
+          .status(500)
+          .json({ error: "Failed to save field conditions" });
+      }
+    }
+
+    const { data: updatedFields, error: fieldsError } = await supabase
+      .from("form_fields")
+      .select("*")
+      .eq("form_id", formId)
+      .is("archived_at", null)
+      .order("field_order", { ascending: true });
+
+    if (fieldsError) {
+      return res.status(500).json({ error: "Failed to fetch form fields" });
+    }
+
+    // Field changes produce a new immutable version; drafts follow it
+    let currentVersion = updatedForm.current_version;
+    if (fields !== undefined) {
+      const version = await createFormVersion(formId, req.user!.id);
+      if (version && version.version_number !== currentVersion) {
+        currentVersion = version.version_number;
+        await repinDraftResponses(formId, currentVersion);
+      }
+    }
+
+    // Open co-editing documents are saved before plain field updates
+    // take over again
+    if (form.edit_mode === "CO_EDIT" && updatedForm.edit_mode !== "CO_EDIT") {
+      await releaseFormTextDocuments(formId);
+    }
+
+    // Let open collaborative sessions re-render with the new definition
+    await emitToFormGroups(formId, "form-schema-changed", {
+      formId,
+      title: updatedForm.title,
+      description: updatedForm.description,
+      editMode: updatedForm.edit_mode,
+      fields: updatedFields || [],
+      version: currentVersion,
+      updatedAt: updatedForm.updated_at,
+    });
+
+    res.json({
+      ...updatedForm,
+      current_version: currentVersion,
+      form_fields: updatedFields || [],
+    });
+  } catch (error) {
+    console.error("Update form error:", error);
+    res.status(500).json({ error: "Failed to update form" });
+  }
+};
+
 export const deleteForm = async (req: AuthRequest, res: Response) => {
   try {
     const { formId } = req.params;
@@ -409,6 +1740,12 @@ export const deleteForm = async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: "Form not found or access denied" });
     }
 
+    const storageKeys = await getStoredFileKeys("form_id", formId);
+    const { data: sharingCodes } = await supabase
+      .from("form_sharing_codes")
+      .select("share_code")
+      .eq("form_id", formId);
+
     // Delete the form (cascade will handle related data)
     const { error: deleteError } = await supabase
       .from("forms")
@@ -421,6 +1758,15 @@ export const deleteForm = async (req: AuthRequest, res: Response) => {
       return res.status(500).json({ error: "Failed to delete form" });
     }
 
+    await removeStoredFiles(storageKeys).catch((error) =>
+      console.error("Remove form files error:", error)
+    );
+    for (const { share_code } of sharingCodes || []) {
+      await deleteGuestUsers(share_code).catch((error) =>
+        console.error("Delete guests error:", error)
+      );
+    }
+
     res.json({ message: "Form deleted successfully" });
   } catch (error) {
     console.error("Delete form error:", error);
@@ -439,10 +1785,12 @@ export const getFormResponses = async (req: AuthRequest, res: Response) => {
         id, 
         title, 
         description, 
+        current_version,
         created_by_id,
         form_fields(*)
       `
       )
+      .is("form_fields.archived_at", null)
       .eq("id", formId)
       .eq("created_by_id", req.user!.id)
       .single();
@@ -458,10 +1806,12 @@ export const getFormResponses = async (req: AuthRequest, res: Response) => {
         `
         *,
         response_fields(*),
-        users(email)
+        response_files(${ATTACHMENT_COLUMNS}),
+        users(email, role, display_name)
       `
       )
       .eq("form_id", formId)
+      .eq("status", "SUBMITTED")
       .order("created_at", { ascending: false });
 
     if (responsesError) {
@@ -478,7 +1828,7 @@ export const getFormResponses = async (req: AuthRequest, res: Response) => {
         user_id,
         value,
         created_at,
-        users(email)
+        users(email, role, display_name)
       `
       )
       .eq("form_id", formId)
@@ -501,16 +1851,28 @@ export const getFormResponses = async (req: AuthRequest, res: Response) => {
         }
 
         fieldContributors[contribution.field_id].push({
-          email: contribution.users?.email || "Unknown",
+          email: describeUser(contribution.users),
           value: contribution.value,
           last_edited: contribution.created_at,
         });
       });
     }
 
+    // Every version so each submission renders against its own fields
+    const versions = await getFormVersions(formId);
+
     res.json({
       form: form,
-      responses: responses || [],
+      versions: versions.map((version) => ({
+        version_number: version.version_number,
+        fields: version.fields,
+        created_at: version.created_at,
+      })),
+      // Guests are listed by display name instead of their placeholder email
+      responses: (responses || []).map((response: any) => ({
+        ...response,
+        users: response.users && { email: describeUser(response.users) },
+      })),
       fieldContributors: fieldContributors,
       submissionCount: responses?.length || 0,
     });
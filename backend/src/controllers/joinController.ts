@@ -0,0 +1,87 @@
+// src/controllers/joinController.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { supabase } from "../config/supabase";
+import {
+  assignGroup,
+  getJoinableGroups,
+  JOIN_LINK_FORM_COLUMNS,
+} from "../services/groupAssignmentService";
+
+const findJoinLinkForm = async (joinCode: string) => {
+  const { data: form } = await supabase
+    .from("forms")
+    .select(JOIN_LINK_FORM_COLUMNS)
+    .eq("join_code", joinCode)
+    .eq("is_active", true)
+    .single();
+
+  return form;
+};
+
+// What the join page shows before sending someone on: the form, the
+// strategy and, for self-selection, the groups to choose from
+export const getJoinLink = async (req: AuthRequest, res: Response) => {
+  try {
+    const form: any = await findJoinLinkForm(req.params.joinCode);
+    if (!form) {
+      return res.status(404).json({ error: "Join link not found" });
+    }
+
+    const groups =
+      form.join_strategy === "SELF_SELECT"
+        ? (await getJoinableGroups(form)).map(
+            ({ id, group_name, capacity, active, full }) => ({
+              id,
+              group_name,
+              capacity,
+              active,
+              full,
+            })
+          )
+        : undefined;
+
+    res.json({
+      form_title: form.title,
+      form_description: form.description,
+      strategy: form.join_strategy,
+      groups,
+    });
+  } catch (error) {
+    console.error("Get join link error:", error);
+    res.status(500).json({ error: "Failed to load join link" });
+  }
+};
+
+// Assign the caller to a group; 409 with waiting: true when all are full
+export const joinByLink = async (req: AuthRequest, res: Response) => {
+  try {
+    const form = await findJoinLinkForm(req.params.joinCode);
+    if (!form) {
+      return res.status(404).json({ error: "Join link not found" });
+    }
+
+    const result = await assignGroup(
+      form,
+      req.user!.id,
+      typeof req.body?.sharingCodeId === "string"
+        ? req.body.sharingCodeId
+        : undefined
+    );
+
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+    if ("waiting" in result) {
+      return res.status(409).json({ error: result.message, waiting: true });
+    }
+
+    res.json({
+      share_code: result.group.share_code,
+      group_name: result.group.group_name,
+    });
+  } catch (error) {
+    console.error("Join by link error:", error);
+    res.status(500).json({ error: "Failed to join form" });
+  }
+};
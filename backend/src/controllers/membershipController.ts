@@ -0,0 +1,328 @@
+// src/controllers/membershipController.ts
+import { Response } from "express";
+import { randomBytes } from "crypto";
+import { AuthRequest } from "../middleware/auth";
+import { supabase } from "../config/supabase";
+import {
+  findOwnedSharingCode,
+  INVITATION_TTL_DAYS,
+  isGroupRole,
+} from "../services/membershipService";
+import { refreshMemberAccess } from "../services/socketService";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const notFound = (res: Response) =>
+  res.status(404).json({ error: "Sharing code not found or access denied" });
+
+// Members of a group and the invitations nobody has accepted yet
+export const getGroupMembers = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId } = req.params;
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) return notFound(res);
+
+    const [
+      { data: members, error: membersError },
+      { data: invitations, error: invitationsError },
+    ] = await Promise.all([
+      supabase
+        .from("group_members")
+        .select("id, user_id, role, created_at, users(email)")
+        .eq("sharing_code_id", sharingCodeId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("group_invitations")
+        .select("id, email, role, token, expires_at, created_at")
+        .eq("sharing_code_id", sharingCodeId)
+        .is("accepted_at", null)
+        .order("created_at", { ascending: true }),
+    ]);
+
+    if (membersError || invitationsError) {
+      console.error(
+        "Get group members error:",
+        membersError || invitationsError
+      );
+      return res.status(500).json({ error: "Failed to fetch members" });
+    }
+
+    res.json({
+      members: (members || []).map(({ users, ...member }: any) => ({
+        ...member,
+        email: users?.email,
+      })),
+      invitations: invitations || [],
+    });
+  } catch (error) {
+    console.error("Get group members error:", error);
+    res.status(500).json({ error: "Failed to fetch members" });
+  }
+};
+
+// Invite someone by email. There is no mail delivery; the admin shares the
+// returned invitation link.
+export const inviteGroupMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId } = req.params;
+    const email =
+      typeof req.body?.email === "string"
+        ? req.body.email.trim().toLowerCase()
+        : "";
+    const { role } = req.body || {};
+
+    if (!EMAIL_PATTERN.test(email)) {
+      return res.status(400).json({ error: "A valid email is required" });
+    }
+    if (!isGroupRole(role)) {
+      return res
+        .status(400)
+        .json({ error: "Role must be VIEWER, EDITOR or SUBMITTER" });
+    }
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) return notFound(res);
+
+    const { data: existingMember } = await supabase
+      .from("group_members")
+      .select("id, users!inner(email)")
+      .eq("sharing_code_id", sharingCodeId)
+      .eq("users.email", email)
+      .maybeSingle();
+
+    if (existingMember) {
+      return res
+        .status(400)
+        .json({ error: "This user is already a member of the group" });
+    }
+
+    const { data: invitation, error } = await supabase
+      .from("group_invitations")
+      .insert({
+        sharing_code_id: sharingCodeId,
+        email,
+        role,
+        token: randomBytes(24).toString("hex"),
+        invited_by_id: req.user!.id,
+        expires_at: new Date(
+          Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+        ).toISOString(),
+      })
+      .select("id, email, role, token, expires_at, created_at")
+      .single();
+
+    if (error || !invitation) {
+      console.error("Create invitation error:", error);
+      return res.status(500).json({ error: "Failed to create invitation" });
+    }
+
+    res.status(201).json(invitation);
+  } catch (error) {
+    console.error("Create invitation error:", error);
+    res.status(500).json({ error: "Failed to create invitation" });
+  }
+};
+
+export const revokeInvitation = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId, invitationId } = req.params;
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) return notFound(res);
+
+    const { error } = await supabase
+      .from("group_invitations")
+      .delete()
+      .eq("id", invitationId)
+      .eq("sharing_code_id", sharingCodeId)
+      .is("accepted_at", null);
+
+    if (error) {
+      console.error("Revoke invitation error:", error);
+      return res.status(500).json({ error: "Failed to revoke invitation" });
+    }
+
+    res.json({ message: "Invitation revoked" });
+  } catch (error) {
+    console.error("Revoke invitation error:", error);
+    res.status(500).json({ error: "Failed to revoke invitation" });
+  }
+};
+
+// Change a member's role; connected sockets pick it up right away
+export const updateGroupMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId, memberId } = req.params;
+    const { role } = req.body || {};
+
+    if (!isGroupRole(role)) {
+      return res
+        .status(400)
+        .json({ error: "Role must be VIEWER, EDITOR or SUBMITTER" });
+    }
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) return notFound(res);
+
+    const { data: member, error } = await supabase
+      .from("group_members")
+      .update({ role })
+      .eq("id", memberId)
+      .eq("sharing_code_id", sharingCodeId)
+      .select("id, user_id, role, created_at")
+      .single();
+
+    if (error || !member) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+
+    await refreshMemberAccess(sharingCode, member.user_id);
+
+    res.json(member);
+  } catch (error) {
+    console.error("Update member error:", error);
+    res.status(500).json({ error: "Failed to update member" });
+  }
+};
+
+// Remove a member; in a closed group they are dropped from the room
+export const removeGroupMember = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, sharingCodeId, memberId } = req.params;
+
+    const sharingCode = await findOwnedSharingCode(
+      formId,
+      sharingCodeId,
+      req.user!.id
+    );
+    if (!sharingCode) return notFound(res);
+
+    const { data: member, error } = await supabase
+      .from("group_members")
+      .delete()
+      .eq("id", memberId)
+      .eq("sharing_code_id", sharingCodeId)
+      .select("user_id")
+      .single();
+
+    if (error || !member) {
+      return res.status(404).json({ error: "Member not found" });
+    }
+
+    await refreshMemberAccess(sharingCode, member.user_id);
+
+    res.json({ message: "Member removed" });
+  } catch (error) {
+    console.error("Remove member error:", error);
+    res.status(500).json({ error: "Failed to remove member" });
+  }
+};
+
+type InvitationLookup =
+  | { error: string; status: number }
+  | { invitation: any };
+
+// Look up a pending invitation for the signed-in user
+const findInvitation = async (
+  token: string,
+  email: string
+): Promise<InvitationLookup> => {
+  const { data: invitation } = await supabase
+    .from("group_invitations")
+    .select(
+      "*, form_sharing_codes(id, share_code, group_name, is_active, forms(title))"
+    )
+    .eq("token", token)
+    .single();
+
+  if (!invitation || invitation.accepted_at) {
+    return { error: "Invitation not found or already used", status: 404 };
+  }
+  if (new Date(invitation.expires_at).getTime() <= Date.now()) {
+    return { error: "This invitation has expired", status: 410 };
+  }
+  if (invitation.email.toLowerCase() !== email.toLowerCase()) {
+    return {
+      error: `This invitation is for ${invitation.email}. Sign in with that account to accept it.`,
+      status: 403,
+    };
+  }
+  if (!invitation.form_sharing_codes?.is_active) {
+    return { error: "This group is no longer active", status: 410 };
+  }
+
+  return { invitation };
+};
+
+const describeInvitation = (invitation: any) => ({
+  email: invitation.email,
+  role: invitation.role,
+  share_code: invitation.form_sharing_codes.share_code,
+  group_name: invitation.form_sharing_codes.group_name,
+  form_title: invitation.form_sharing_codes.forms?.title,
+});
+
+export const getInvitation = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await findInvitation(req.params.token, req.user!.email);
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.json(describeInvitation(result.invitation));
+  } catch (error) {
+    console.error("Get invitation error:", error);
+    res.status(500).json({ error: "Failed to fetch invitation" });
+  }
+};
+
+export const acceptInvitation = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await findInvitation(req.params.token, req.user!.email);
+    if ("error" in result) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    const { invitation } = result;
+    const { error: memberError } = await supabase.from("group_members").upsert(
+      {
+        sharing_code_id: invitation.sharing_code_id,
+        user_id: req.user!.id,
+        role: invitation.role,
+      },
+      { onConflict: "sharing_code_id,user_id" }
+    );
+
+    if (memberError) {
+      console.error("Accept invitation error:", memberError);
+      return res.status(500).json({ error: "Failed to accept invitation" });
+    }
+
+    await supabase
+      .from("group_invitations")
+      .update({ accepted_at: new Date().toISOString() })
+      .eq("id", invitation.id);
+
+    res.json(describeInvitation(invitation));
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    res.status(500).json({ error: "Failed to accept invitation" });
+  }
+};
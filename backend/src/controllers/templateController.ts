@@ -0,0 +1,133 @@
+// src/controllers/templateController.ts
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { supabase } from "../config/supabase";
+import {
+  BUILT_IN_TEMPLATES,
+  TemplateField,
+  TemplateVisibility,
+} from "../config/formTemplates";
+
+const TEMPLATE_VISIBILITIES: TemplateVisibility[] = ["PERSONAL", "WORKSPACE"];
+
+// Keep only the definition of a stored field; its id stays as the template
+// local id so conditions and formulas still resolve
+const toTemplateField = (field: any): TemplateField => ({
+  id: field.id,
+  label: field.label,
+  type: field.type,
+  required: field.required,
+  options: field.options || [],
+  matrix_rows: field.matrix_rows ?? null,
+  sub_fields: field.sub_fields ?? null,
+  description: field.description ?? null,
+  formula: field.formula ?? null,
+  conditions: field.conditions ?? null,
+  validation: field.validation ?? null,
+});
+
+// Built-in templates, workspace templates and the caller's personal ones
+export const getTemplates = async (req: AuthRequest, res: Response) => {
+  try {
+    const { data: templates, error } = await supabase
+      .from("form_templates")
+      .select("*")
+      .or(`visibility.eq.WORKSPACE,created_by_id.eq.${req.user!.id}`)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Get templates error:", error);
+      return res.status(500).json({ error: "Failed to fetch templates" });
+    }
+
+    res.json([...BUILT_IN_TEMPLATES, ...(templates || [])]);
+  } catch (error) {
+    console.error("Get templates error:", error);
+    res.status(500).json({ error: "Failed to fetch templates" });
+  }
+};
+
+// Save the current definition of one of the caller's forms as a template
+export const createTemplate = async (req: AuthRequest, res: Response) => {
+  try {
+    const { formId, title, description, visibility = "PERSONAL" } = req.body;
+
+    if (!TEMPLATE_VISIBILITIES.includes(visibility)) {
+      return res
+        .status(400)
+        .json({ error: "Visibility must be PERSONAL or WORKSPACE" });
+    }
+
+    const { data: form, error: formError } = await supabase
+      .from("forms")
+      .select(
+        `
+        *,
+        form_fields(*)
+      `
+      )
+      .is("form_fields.archived_at", null)
+      .eq("id", formId)
+      .eq("created_by_id", req.user!.id)
+      .single();
+
+    if (formError || !form) {
+      return res.status(404).json({ error: "Form not found or access denied" });
+    }
+
+    const { data: template, error } = await supabase
+      .from("form_templates")
+      .insert({
+        title: String(title || "").trim() || form.title,
+        description:
+          description !== undefined ? description || null : form.description,
+        fields: [...form.form_fields]
+          .sort((a: any, b: any) => a.field_order - b.field_order)
+          .map(toTemplateField),
+        visibility,
+        created_by_id: req.user!.id,
+      })
+      .select()
+      .single();
+
+    if (error || !template) {
+      console.error("Create template error:", error);
+      return res.status(500).json({ error: "Failed to save template" });
+    }
+
+    res.status(201).json(template);
+  } catch (error) {
+    console.error("Create template error:", error);
+    res.status(500).json({ error: "Failed to save template" });
+  }
+};
+
+// Only the creator can remove a template; built-ins can't be removed
+export const deleteTemplate = async (req: AuthRequest, res: Response) => {
+  try {
+    const { templateId } = req.params;
+
+    const { data: deleted, error } = await supabase
+      .from("form_templates")
+      .delete()
+      .eq("id", templateId)
+      .eq("created_by_id", req.user!.id)
+      .select("id");
+
+    if (error) {
+      console.error("Delete template error:", error);
+      return res.status(500).json({ error: "Failed to delete template" });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return res
+        .status(404)
+        .json({ error: "Template not found or access denied" });
+    }
+
+    res.json({ message: "Template deleted successfully" });
+  } catch (error) {
+    console.error("Delete template error:", error);
+    res.status(500).json({ error: "Failed to delete template" });
+  }
+};
@@ -2,12 +2,16 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { supabase } from "../config/supabase";
+import { isGuestShareCode } from "../services/guestService";
+import { describeUser } from "../utils/helpers";
 
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     email: string;
     role: string;
+    // Guests are limited to the share code their token was issued for
+    shareCode?: string;
   };
 }
 
@@ -29,7 +33,7 @@ export const authenticateToken = async (
 
     const { data: user, error } = await supabase
       .from("users")
-      .select("id, email, role")
+      .select("id, email, role, display_name")
       .eq("id", decoded.userId)
       .single();
 
@@ -38,7 +42,23 @@ export const authenticateToken = async (
       return;
     }
 
-    req.user = user;
+    if (user.role === "GUEST") {
+      // Guest access ends as soon as the group stops allowing guests
+      if (!decoded.shareCode || !(await isGuestShareCode(decoded.shareCode))) {
+        res.status(401).json({ error: "Guest access has ended" });
+        return;
+      }
+      req.user = {
+        id: user.id,
+        email: describeUser(user),
+        role: user.role,
+        shareCode: decoded.shareCode,
+      };
+      next();
+      return;
+    }
+
+    req.user = { id: user.id, email: user.email, role: user.role };
     next();
   } catch (error) {
     res.status(403).json({ error: "Invalid token" });
@@ -57,3 +77,29 @@ export const requireAdmin = (
   }
   next();
 };
+
+export const rejectGuests = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.user?.role === "GUEST") {
+    res.status(403).json({ error: "Guests can only open their shared form" });
+    return;
+  }
+  next();
+};
+
+// router.param handler for :shareCode routes
+export const restrictGuestShareCode = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+  shareCode: string
+): void => {
+  if (req.user?.role === "GUEST" && req.user.shareCode !== shareCode) {
+    res.status(403).json({ error: "Guests can only open their shared form" });
+    return;
+  }
+  next();
+};
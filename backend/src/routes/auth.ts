@@ -2,7 +2,9 @@
 import { Router } from "express";
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import rateLimit from "express-rate-limit";
 import { supabase } from "../config/supabase";
+import { createGuestSession } from "../services/guestService";
 
 const router = Router();
 
@@ -81,4 +83,27 @@ router.post("/login", async (req, res) => {
   }
 });
 
+// Every guest session adds a users row, so they are created sparingly
+const guestLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+});
+
+// Join one share code without an account; the group must allow guests
+router.post("/guest", guestLimiter, async (req, res) => {
+  try {
+    const { shareCode, displayName } = req.body;
+    const result = await createGuestSession(shareCode, displayName);
+
+    if (result.error !== undefined) {
+      return res.status(result.status).json({ error: result.error });
+    }
+
+    res.status(201).json({ user: result.user, token: result.token });
+  } catch (error) {
+    console.error("Guest session error:", error);
+    res.status(500).json({ error: "Failed to create guest session" });
+  }
+});
+
 export default router;
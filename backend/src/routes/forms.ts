@@ -1,28 +1,146 @@
 // src/routes/forms.ts
-import { Router } from "express";
+import express, { Router } from "express";
 import {
   createForm,
+  duplicateForm,
+  getFormDefinition,
+  importForm,
+  getFormJsonSchema,
+  convertJsonSchema,
+  updateFormAvailability,
+  updateSharingCodeAvailability,
   getForms,
   getFormByShareCode,
+  getFormById,
+  updateForm,
   updateFormField,
   submitForm,
   deleteForm,
   getFormResponses,
   createSharingCode, // Add this
+  getSharingCodes,
+  updateSharingCode,
+  rotateSharingCode,
+  deleteSharingCode,
+  getSharingCodeQr,
+  getJoinSheet,
+  updateJoinLink,
 } from "../controllers/formController";
-import { requireAdmin } from "../middleware/auth";
+import { getJoinLink, joinByLink } from "../controllers/joinController";
+import {
+  uploadFieldFile,
+  deleteFieldFile,
+  downloadSharedFile,
+  downloadResponseFile,
+} from "../controllers/fileController";
+import {
+  getGroupMembers,
+  inviteGroupMember,
+  revokeInvitation,
+  updateGroupMember,
+  removeGroupMember,
+} from "../controllers/membershipController";
+import {
+  rejectGuests,
+  requireAdmin,
+  restrictGuestShareCode,
+} from "../middleware/auth";
 
 const router = Router();
 
+// Uploads arrive as the raw request body, one file per request
+const fileBody = express.raw({
+  type: "application/octet-stream",
+  limit: `${process.env.FILE_UPLOAD_MAX_MB || 25}mb`,
+});
+
+// Guest tokens only open the share code they were issued for
+router.param("shareCode", restrictGuestShareCode);
+
 router.post("/", requireAdmin, createForm);
-router.get("/", getForms);
+router.post("/import", requireAdmin, importForm);
+router.post("/schema-drafts", requireAdmin, convertJsonSchema);
+router.get("/", rejectGuests, getForms);
+router.get("/join/:joinCode", rejectGuests, getJoinLink);
+router.post("/join/:joinCode", rejectGuests, joinByLink);
 router.get("/share/:shareCode", getFormByShareCode);
 router.put("/share/:shareCode/fields/:fieldId", updateFormField);
 router.post("/share/:shareCode/submit", submitForm);
+router.post(
+  "/share/:shareCode/fields/:fieldId/files",
+  fileBody,
+  uploadFieldFile
+);
+router.delete(
+  "/share/:shareCode/fields/:fieldId/files/:fileId",
+  deleteFieldFile
+);
+router.get("/share/:shareCode/files/:fileId", downloadSharedFile);
+router.get("/:formId", requireAdmin, getFormById);
+router.put("/:formId", requireAdmin, updateForm);
+router.patch("/:formId", requireAdmin, updateForm);
 router.delete("/:formId", requireAdmin, deleteForm);
+router.post("/:formId/duplicate", requireAdmin, duplicateForm);
+router.get("/:formId/definition", requireAdmin, getFormDefinition);
+router.get("/:formId/schema.json", requireAdmin, getFormJsonSchema);
 router.get("/:formId/responses", requireAdmin, getFormResponses);
+router.get("/:formId/files/:fileId", requireAdmin, downloadResponseFile);
 
 // Add new route for creating additional sharing codes
+router.get("/:formId/sharing-codes", requireAdmin, getSharingCodes);
 router.post("/:formId/sharing-codes", requireAdmin, createSharingCode);
+router.patch(
+  "/:formId/sharing-codes/:sharingCodeId",
+  requireAdmin,
+  updateSharingCode
+);
+router.delete(
+  "/:formId/sharing-codes/:sharingCodeId",
+  requireAdmin,
+  deleteSharingCode
+);
+router.post(
+  "/:formId/sharing-codes/:sharingCodeId/rotate",
+  requireAdmin,
+  rotateSharingCode
+);
+router.get(
+  "/:formId/sharing-codes/:sharingCodeId/qr.:format(png|svg)",
+  requireAdmin,
+  getSharingCodeQr
+);
+router.get("/:formId/join-sheet", requireAdmin, getJoinSheet);
+router.get(
+  "/:formId/sharing-codes/:sharingCodeId/members",
+  requireAdmin,
+  getGroupMembers
+);
+router.patch(
+  "/:formId/sharing-codes/:sharingCodeId/members/:memberId",
+  requireAdmin,
+  updateGroupMember
+);
+router.delete(
+  "/:formId/sharing-codes/:sharingCodeId/members/:memberId",
+  requireAdmin,
+  removeGroupMember
+);
+router.post(
+  "/:formId/sharing-codes/:sharingCodeId/invitations",
+  requireAdmin,
+  inviteGroupMember
+);
+router.delete(
+  "/:formId/sharing-codes/:sharingCodeId/invitations/:invitationId",
+  requireAdmin,
+  revokeInvitation
+);
+router.put("/:formId/availability", requireAdmin, updateFormAvailability);
+router.put("/:formId/join-link", requireAdmin, updateJoinLink);
+router.put(
+  "/:formId/sharing-codes/:sharingCodeId/availability",
+  requireAdmin,
+  updateSharingCodeAvailability
+);
 
 export default router;
@@ -0,0 +1,15 @@
+// src/routes/invitations.ts
+import { Router } from "express";
+import {
+  acceptInvitation,
+  getInvitation,
+} from "../controllers/membershipController";
+import { rejectGuests } from "../middleware/auth";
+
+const router = Router();
+
+// Invitations are accepted by the invited account, so guests are left out
+router.get("/:token", rejectGuests, getInvitation);
+router.post("/:token/accept", rejectGuests, acceptInvitation);
+
+export default router;
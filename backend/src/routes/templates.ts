@@ -0,0 +1,17 @@
+// src/routes/templates.ts
+import { Router } from "express";
+import {
+  getTemplates,
+  createTemplate,
+  deleteTemplate,
+} from "../controllers/templateController";
+import { requireAdmin } from "../middleware/auth";
+
+const router = Router();
+
+// Templates are a form builder feature, so every route is admin only
+router.get("/", requireAdmin, getTemplates);
+router.post("/", requireAdmin, createTemplate);
+router.delete("/:templateId", requireAdmin, deleteTemplate);
+
+export default router;
@@ -0,0 +1,185 @@
+// src/services/attachmentService.ts
+import { supabase } from "../config/supabase";
+import { getFileStorage } from "./fileStorageService";
+
+export interface Attachment {
+  id: string;
+  form_id: string;
+  sharing_code_id: string;
+  response_id: string;
+  field_id: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  storage_key: string;
+  uploaded_by: string;
+  created_at: string;
+}
+
+// Columns safe to hand to clients (storage keys stay server-side)
+export const ATTACHMENT_COLUMNS =
+  "id, field_id, file_name, mime_type, size, uploaded_by, created_at";
+
+export const toPublicAttachment = (attachment: Attachment) => ({
+  id: attachment.id,
+  field_id: attachment.field_id,
+  file_name: attachment.file_name,
+  mime_type: attachment.mime_type,
+  size: attachment.size,
+  uploaded_by: attachment.uploaded_by,
+  created_at: attachment.created_at,
+});
+
+// Rewrite a FILE field's value to the ids of the files attached to it
+export const syncFileFieldValue = async (
+  responseId: string,
+  fieldId: string
+): Promise<string> => {
+  const { data: attachments, error } = await supabase
+    .from("response_files")
+    .select("id")
+    .eq("response_id", responseId)
+    .eq("field_id", fieldId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const value = (attachments || []).map((a: any) => a.id).join(",");
+
+  const { error: upsertError } = await supabase.from("response_fields").upsert(
+    {
+      response_id: responseId,
+      field_id: fieldId,
+      value,
+    },
+    {
+      onConflict: "response_id,field_id",
+    }
+  );
+
+  if (upsertError) {
+    throw upsertError;
+  }
+
+  return value;
+};
+
+// Load attachments uploaded by a group, ignoring ids from anywhere else
+export const getGroupAttachments = async (
+  sharingCodeId: string,
+  attachmentIds: string[]
+): Promise<Attachment[]> => {
+  if (attachmentIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("response_files")
+    .select("*")
+    .eq("sharing_code_id", sharingCodeId)
+    .in("id", attachmentIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+};
+
+// Give a submitted response its own rows pointing at the same stored files,
+// so later edits to the draft don't change what was submitted
+export const copyAttachmentsToResponse = async (
+  attachments: Attachment[],
+  responseId: string
+): Promise<Map<string, string>> => {
+  const idMap = new Map<string, string>();
+  if (attachments.length === 0) return idMap;
+
+  const { data: copies, error } = await supabase
+    .from("response_files")
+    .insert(
+      attachments.map((attachment) => ({
+        form_id: attachment.form_id,
+        sharing_code_id: attachment.sharing_code_id,
+        response_id: responseId,
+        field_id: attachment.field_id,
+        file_name: attachment.file_name,
+        mime_type: attachment.mime_type,
+        size: attachment.size,
+        storage_key: attachment.storage_key,
+        uploaded_by: attachment.uploaded_by,
+      }))
+    )
+    .select("id, storage_key, field_id");
+
+  if (error) {
+    throw error;
+  }
+
+  attachments.forEach((attachment) => {
+    const copy = (copies || []).find(
+      (c: any) =>
+        c.storage_key === attachment.storage_key &&
+        c.field_id === attachment.field_id
+    );
+    if (copy) idMap.set(attachment.id, copy.id);
+  });
+
+  return idMap;
+};
+
+// Delete an attachment row, and its stored file once nothing references it
+export const deleteAttachment = async (attachment: Attachment) => {
+  const { error } = await supabase
+    .from("response_files")
+    .delete()
+    .eq("id", attachment.id);
+
+  if (error) {
+    throw error;
+  }
+
+  const { count } = await supabase
+    .from("response_files")
+    .select("id", { count: "exact", head: true })
+    .eq("storage_key", attachment.storage_key);
+
+  if (!count) {
+    await getFileStorage().remove(attachment.storage_key);
+  }
+};
+
+// Storage keys of the files attached within a form or one of its groups
+export const getStoredFileKeys = async (
+  column: "form_id" | "sharing_code_id",
+  id: string
+): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from("response_files")
+    .select("storage_key")
+    .eq(column, id);
+
+  if (error) {
+    throw error;
+  }
+
+  return Array.from(new Set((data || []).map((f: any) => f.storage_key)));
+};
+
+// Remove stored files whose rows are gone, e.g. after a cascade delete
+export const removeStoredFiles = async (storageKeys: string[]) => {
+  for (const storageKey of storageKeys) {
+    const { count, error } = await supabase
+      .from("response_files")
+      .select("id", { count: "exact", head: true })
+      .eq("storage_key", storageKey);
+
+    if (error) {
+      throw error;
+    }
+
+    if (!count) {
+      await getFileStorage().remove(storageKey);
+    }
+  }
+};
@@ -0,0 +1,75 @@
+// src/services/availabilityService.ts
+import { supabase } from "../config/supabase";
+import {
+  AvailabilitySettings,
+  FormAvailability,
+  resolveAvailability,
+} from "../utils/availability";
+
+// Columns of forms(...) joins that availability needs
+export const AVAILABILITY_COLUMNS =
+  "is_active, opens_at, closes_at, max_submissions";
+
+const toSettings = (row: any): AvailabilitySettings => ({
+  is_active: row?.is_active !== false,
+  opens_at: row?.opens_at ?? null,
+  closes_at: row?.closes_at ?? null,
+  max_submissions: row?.max_submissions ?? null,
+});
+
+const countSubmitted = async (column: string, id: string) => {
+  const { count, error } = await supabase
+    .from("form_responses")
+    .select("*", { count: "exact", head: true })
+    .eq(column, id)
+    .eq("status", "SUBMITTED");
+
+  if (error) {
+    throw error;
+  }
+
+  return count || 0;
+};
+
+// Whether a group can be filled in right now. `form` is the sharing code's
+// form row (or a join of it) including AVAILABILITY_COLUMNS.
+export const getGroupAvailability = async (
+  sharingCode: any,
+  form: any
+): Promise<FormAvailability> => {
+  const formSettings = toSettings(form);
+  const groupSettings = {
+    ...toSettings(sharingCode),
+    expires_at: sharingCode?.expires_at ?? null,
+  };
+
+  // Counting is only needed when a cap is set
+  const [formCount, groupCount] = await Promise.all([
+    formSettings.max_submissions !== null
+      ? countSubmitted("form_id", sharingCode.form_id)
+      : 0,
+    groupSettings.max_submissions !== null
+      ? countSubmitted("sharing_code_id", sharingCode.id)
+      : 0,
+  ]);
+
+  return resolveAvailability(formSettings, groupSettings, {
+    form: formCount,
+    group: groupCount,
+  });
+};
+
+// Load a sharing code (active or not) with its form and resolve availability
+export const getShareCodeAvailability = async (
+  shareCode: string
+): Promise<FormAvailability | null> => {
+  const { data: sharingCode, error } = await supabase
+    .from("form_sharing_codes")
+    .select(`*, forms(id, ${AVAILABILITY_COLUMNS})`)
+    .eq("share_code", shareCode)
+    .single();
+
+  if (error || !sharingCode) return null;
+
+  return getGroupAvailability(sharingCode, sharingCode.forms);
+};
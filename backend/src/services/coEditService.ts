@@ -0,0 +1,498 @@
+// src/services/coEditService.ts
+import * as Y from "yjs";
+import { supabase } from "../config/supabase";
+import { redis } from "../config/redis";
+
+// How a form's collaborators share text fields: LOCK hands a field to one
+// person at a time, CO_EDIT merges everyone's typing as it happens
+export type EditMode = "LOCK" | "CO_EDIT";
+
+export const EDIT_MODES: EditMode[] = ["LOCK", "CO_EDIT"];
+
+export const isEditMode = (value: unknown): value is EditMode =>
+  EDIT_MODES.includes(value as EditMode);
+
+// Field types edited as shared text documents in CO_EDIT mode
+export const CO_EDIT_FIELD_TYPES = ["TEXT", "TEXTAREA"];
+
+export const isCoEditField = (
+  editMode: string | null | undefined,
+  field: { type: string }
+) => editMode === "CO_EDIT" && CO_EDIT_FIELD_TYPES.includes(field.type);
+
+// Name of the Y.Text in every document; the client uses the same name
+const TEXT_NAME = "value";
+
+// Merged text is written to response_fields once typing pauses
+const SAVE_DELAY = 500;
+
+// Once a history holds this many entries the instance that added the last
+// one folds them into a single snapshot, so joining stays quick
+const COMPACT_AFTER = 200;
+
+// Updates read from a history, and the position right after the last one.
+// Positions keep counting across compactions.
+export interface LoggedUpdates {
+  updates: Uint8Array[];
+  end: number;
+}
+
+// Every update a document received, so the copies of a document kept by
+// several server instances start from the same history and catch up with
+// each other's typing
+export interface TextUpdateLog {
+  // The document's history, seeded with the given state unless another
+  // instance started it first
+  start(documentId: string, seed: Uint8Array): Promise<LoggedUpdates>;
+  // Returns how many entries the history holds, or null when it was
+  // discarded in the meantime
+  append(documentId: string, update: Uint8Array): Promise<number | null>;
+  // Updates from the given position on. Readers from before a compaction
+  // get its snapshot, which is safe to apply again.
+  read(documentId: string, from: number): Promise<LoggedUpdates>;
+  // Replace the entries before `end` with a snapshot of them
+  compact(documentId: string, snapshot: Uint8Array, end: number): Promise<void>;
+  // Whether any instance has the document open
+  exists(documentId: string): Promise<boolean>;
+  discard(documentId: string): Promise<void>;
+}
+
+// Nothing to share when this process is the only one; its copy is the
+// document
+export class MemoryTextUpdateLog implements TextUpdateLog {
+  async start(documentId: string, seed: Uint8Array) {
+    return { updates: [seed], end: 1 };
+  }
+
+  async append() {
+    return 1;
+  }
+
+  async read(documentId: string, from: number) {
+    return { updates: [], end: from };
+  }
+
+  async compact() {}
+
+  async exists() {
+    return false;
+  }
+
+  async discard() {}
+}
+
+// Redis layout: one list of base64 updates per document, and the position
+// of its first entry once it was compacted. Idle histories expire; a
+// document open somewhere keeps being written to.
+const LOG_TTL_MS = 24 * 60 * 60 * 1000;
+const getLogKey = (documentId: string) => `coedit:log:${documentId}`;
+const getBaseKey = (documentId: string) => `coedit:base:${documentId}`;
+
+const READ_FUNCTION = `
+local function readFrom(from)
+  local base = tonumber(redis.call("GET", KEYS[2]) or "0")
+  local entries = redis.call("LRANGE", KEYS[1], math.max(0, from - base), -1)
+  return {base + redis.call("LLEN", KEYS[1]), entries}
+end
+`;
+
+const START_SCRIPT = `${READ_FUNCTION}
+if redis.call("LLEN", KEYS[1]) == 0 then
+  redis.call("DEL", KEYS[2])
+  redis.call("RPUSH", KEYS[1], ARGV[1])
+end
+redis.call("PEXPIRE", KEYS[1], ARGV[2])
+redis.call("PEXPIRE", KEYS[2], ARGV[2])
+return readFrom(0)
+`;
+
+const APPEND_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then return 0 end
+local length = redis.call("RPUSH", KEYS[1], ARGV[1])
+redis.call("PEXPIRE", KEYS[1], ARGV[2])
+redis.call("PEXPIRE", KEYS[2], ARGV[2])
+return length
+`;
+
+const READ_SCRIPT = `${READ_FUNCTION}
+return readFrom(tonumber(ARGV[1]))
+`;
+
+// The snapshot takes the place of the last entry it covers, so positions
+// after it stay valid
+const COMPACT_SCRIPT = `
+local base = tonumber(redis.call("GET", KEYS[2]) or "0")
+local covered = tonumber(ARGV[2]) - base
+if covered < 2 or covered > redis.call("LLEN", KEYS[1]) then return 0 end
+redis.call("LTRIM", KEYS[1], covered, -1)
+redis.call("LPUSH", KEYS[1], ARGV[1])
+redis.call("SET", KEYS[2], tostring(tonumber(ARGV[2]) - 1), "PX", ARGV[3])
+redis.call("PEXPIRE", KEYS[1], ARGV[3])
+return 1
+`;
+
+// Entries are stored as JSON strings; the client may already have parsed
+// them
+const encodeEntry = (update: Uint8Array) =>
+  JSON.stringify(Buffer.from(update).toString("base64"));
+
+const decodeEntry = (entry: unknown) => {
+  const text = String(entry);
+  return new Uint8Array(
+    Buffer.from(text.startsWith('"') ? JSON.parse(text) : text, "base64")
+  );
+};
+
+const toLoggedUpdates = ([end, entries]: [unknown, unknown[]]) => ({
+  updates: (entries || []).map(decodeEntry),
+  end: Number(end),
+});
+
+// Shares document histories between every server instance through Redis
+export class RedisTextUpdateLog implements TextUpdateLog {
+  private startScript = redis.createScript<[unknown, unknown[]]>(START_SCRIPT);
+  private appendScript = redis.createScript<number>(APPEND_SCRIPT);
+  private readScript = redis.createScript<[unknown, unknown[]]>(READ_SCRIPT);
+  private compactScript = redis.createScript<number>(COMPACT_SCRIPT);
+
+  async start(documentId: string, seed: Uint8Array) {
+    return toLoggedUpdates(
+      await this.startScript.exec(
+        [getLogKey(documentId), getBaseKey(documentId)],
+        [encodeEntry(seed), String(LOG_TTL_MS)]
+      )
+    );
+  }
+
+  async append(documentId: string, update: Uint8Array) {
+    const length = await this.appendScript.exec(
+      [getLogKey(documentId), getBaseKey(documentId)],
+      [encodeEntry(update), String(LOG_TTL_MS)]
+    );
+    // 0 when the history is gone
+    return Number(length) || null;
+  }
+
+  async read(documentId: string, from: number) {
+    return toLoggedUpdates(
+      await this.readScript.exec(
+        [getLogKey(documentId), getBaseKey(documentId)],
+        [String(from)]
+      )
+    );
+  }
+
+  async compact(documentId: string, snapshot: Uint8Array, end: number) {
+    await this.compactScript.exec(
+      [getLogKey(documentId), getBaseKey(documentId)],
+      [encodeEntry(snapshot), String(end), String(LOG_TTL_MS)]
+    );
+  }
+
+  async exists(documentId: string) {
+    return redis.exists(getLogKey(documentId));
+  }
+
+  async discard(documentId: string) {
+    await Promise.all([
+      redis.del(getLogKey(documentId)),
+      redis.del(getBaseKey(documentId)),
+    ]);
+  }
+}
+
+let updateLog: TextUpdateLog | null = null;
+
+const createTextUpdateLog = (): TextUpdateLog => {
+  const driver = process.env.COEDIT_STORE_DRIVER || "redis";
+
+  switch (driver) {
+    case "redis":
+      return new RedisTextUpdateLog();
+    case "memory":
+      return new MemoryTextUpdateLog();
+    default:
+      throw new Error(`Unknown COEDIT_STORE_DRIVER: ${driver}`);
+  }
+};
+
+export const getTextUpdateLog = (): TextUpdateLog => {
+  if (!updateLog) {
+    updateLog = createTextUpdateLog();
+  }
+  return updateLog;
+};
+
+// Swap in another backend (e.g. MemoryTextUpdateLog in tests) at startup
+export const setTextUpdateLog = (nextLog: TextUpdateLog) => {
+  updateLog = nextLog;
+};
+
+export interface TextDocumentKey {
+  shareCode: string;
+  formId: string;
+  sharingCodeId: string;
+  responseId: string;
+  fieldId: string;
+}
+
+export interface TextDocument extends TextDocumentKey {
+  doc: Y.Doc;
+  // Entries of the shared history applied so far
+  logged: number;
+  // Users who typed since the last save, credited in field_contributions
+  contributors: Set<string>;
+  saveTimer?: NodeJS.Timeout;
+  onSaved?: () => void;
+}
+
+// This instance's copy of every draft field document, kept while sockets
+// here are in its group room. Promises, so concurrent first updates share a
+// single load.
+const documents = new Map<string, Promise<TextDocument>>();
+
+const getDocumentId = (responseId: string, fieldId: string) =>
+  `${responseId}:${fieldId}`;
+
+const loadTextDocument = async (
+  key: TextDocumentKey
+): Promise<TextDocument> => {
+  const { data: storedField, error } = await supabase
+    .from("response_fields")
+    .select("value")
+    .eq("response_id", key.responseId)
+    .eq("field_id", key.fieldId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  // Seeding the same text twice would insert it twice once merged, so a
+  // document another instance opened first continues from its history
+  const seed = new Y.Doc();
+  if (storedField?.value) {
+    seed.getText(TEXT_NAME).insert(0, storedField.value);
+  }
+  const history = await getTextUpdateLog().start(
+    getDocumentId(key.responseId, key.fieldId),
+    Y.encodeStateAsUpdate(seed)
+  );
+  seed.destroy();
+
+  const doc = new Y.Doc();
+  history.updates.forEach((update) => Y.applyUpdate(doc, update));
+  return { ...key, doc, logged: history.end, contributors: new Set() };
+};
+
+// Stop handing out a copy whose shared history was discarded; the next
+// use loads the document again
+const forgetDocument = async (document: TextDocument) => {
+  const id = getDocumentId(document.responseId, document.fieldId);
+  const current = await documents.get(id)?.catch(() => null);
+  if (current === document) documents.delete(id);
+};
+
+// Apply what other instances added to the shared history since
+const catchUp = async (document: TextDocument) => {
+  const { updates, end } = await getTextUpdateLog().read(
+    getDocumentId(document.responseId, document.fieldId),
+    document.logged
+  );
+  // A history started over belongs to another copy of the text
+  if (end < document.logged) {
+    await forgetDocument(document);
+    return;
+  }
+  updates.forEach((update) => Y.applyUpdate(document.doc, update));
+  document.logged = end;
+};
+
+// The document of a draft field, seeded from its saved value on first use
+export const getTextDocument = (key: TextDocumentKey) => {
+  const id = getDocumentId(key.responseId, key.fieldId);
+  let document = documents.get(id);
+  if (!document) {
+    document = loadTextDocument(key);
+    documents.set(id, document);
+    document.catch(() => documents.delete(id));
+  }
+  return document;
+};
+
+export const getTextValue = (document: TextDocument) =>
+  document.doc.getText(TEXT_NAME).toString();
+
+// Everything a client needs to start editing from the current text
+export const encodeTextState = async (document: TextDocument) => {
+  await catchUp(document);
+  return Y.encodeStateAsUpdate(document.doc);
+};
+
+const saveTextDocument = async (document: TextDocument) => {
+  clearTimeout(document.saveTimer);
+  document.saveTimer = undefined;
+
+  try {
+    await catchUp(document);
+  } catch (error) {
+    console.error("Failed to catch up co-edited field:", error);
+  }
+  const value = getTextValue(document);
+  const contributors = [...document.contributors];
+  document.contributors.clear();
+
+  const { error } = await supabase.from("response_fields").upsert(
+    {
+      response_id: document.responseId,
+      field_id: document.fieldId,
+      value,
+    },
+    { onConflict: "response_id,field_id" }
+  );
+
+  if (error) {
+    console.error("Failed to save co-edited field:", error);
+    return;
+  }
+
+  if (value && contributors.length > 0) {
+    const { error: contributionError } = await supabase
+      .from("field_contributions")
+      .upsert(
+        contributors.map((userId) => ({
+          form_id: document.formId,
+          sharing_code_id: document.sharingCodeId,
+          field_id: document.fieldId,
+          user_id: userId,
+          value,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: "form_id,sharing_code_id,field_id,user_id" }
+      );
+
+    if (contributionError) {
+      console.error("Failed to track contribution:", contributionError);
+    }
+  }
+
+  document.onSaved?.();
+};
+
+const scheduleTextSave = (document: TextDocument) => {
+  clearTimeout(document.saveTimer);
+  document.saveTimer = setTimeout(() => saveTextDocument(document), SAVE_DELAY);
+};
+
+// Merge a client's incremental update, share it with the other instances
+// and return the converged text. onSaved runs after the text has been
+// written to the draft.
+export const applyTextUpdate = async (
+  document: TextDocument,
+  update: Uint8Array,
+  userId: string,
+  onSaved: () => void
+) => {
+  Y.applyUpdate(document.doc, update);
+  document.contributors.add(userId);
+  document.onSaved = onSaved;
+  scheduleTextSave(document);
+
+  const id = getDocumentId(document.responseId, document.fieldId);
+  const length = await getTextUpdateLog().append(id, update);
+  if (length === null) {
+    await forgetDocument(document);
+    return getTextValue(document);
+  }
+
+  await catchUp(document);
+  if (length >= COMPACT_AFTER) {
+    await getTextUpdateLog().compact(
+      id,
+      Y.encodeStateAsUpdate(document.doc),
+      document.logged
+    );
+  }
+  return getTextValue(document);
+};
+
+// A whole value was written some other way (field-update, a reset) while
+// the document is open here or on another instance. Replaces its text and
+// returns the update to send to the group, or null when no document is
+// open.
+export const replaceOpenText = async (key: TextDocumentKey, value: string) => {
+  const id = getDocumentId(key.responseId, key.fieldId);
+  const openHere = documents.has(id);
+  if (!openHere && !(await getTextUpdateLog().exists(id))) return null;
+
+  const document = await getTextDocument(key);
+  try {
+    await catchUp(document);
+    if (getTextValue(document) === value) return null;
+
+    const before = Y.encodeStateVector(document.doc);
+    const text = document.doc.getText(TEXT_NAME);
+    document.doc.transact(() => {
+      text.delete(0, text.length);
+      text.insert(0, value);
+    });
+    const update = Y.encodeStateAsUpdate(document.doc, before);
+    await getTextUpdateLog().append(id, update);
+    return update;
+  } finally {
+    // Opened only to reach the instances editing it; the value itself is
+    // saved by the caller
+    if (!openHere && !document.saveTimer) {
+      documents.delete(id);
+      document.doc.destroy();
+    }
+  }
+};
+
+const releaseDocuments = async (
+  matches: (document: TextDocument) => boolean
+) => {
+  const released = await Promise.all(
+    [...documents.entries()].map(async ([id, pending]) => {
+      const document = await pending.catch(() => null);
+      return document && matches(document) ? { id, document } : null;
+    })
+  );
+
+  await Promise.all(
+    released.map(async (entry) => {
+      if (!entry) return;
+      if (entry.document.saveTimer) await saveTextDocument(entry.document);
+      // Someone came back and typed while the text was being saved
+      if (entry.document.saveTimer) return;
+      documents.delete(entry.id);
+      entry.document.doc.destroy();
+    })
+  );
+};
+
+// Write pending text and forget a group's documents once no socket of this
+// instance is in its room
+export const releaseTextDocuments = (shareCode: string) =>
+  releaseDocuments((document) => document.shareCode === shareCode);
+
+// After a form left CO_EDIT mode; plain field updates take over
+export const releaseFormTextDocuments = (formId: string) =>
+  releaseDocuments((document) => document.formId === formId);
+
+// Forget a draft's documents after another instance discarded them
+export const releaseResponseTextDocuments = (responseId: string) =>
+  releaseDocuments((document) => document.responseId === responseId);
+
+// A draft was submitted or reset: save what is pending here, forget the
+// copies and start the fields' histories over, so joining doesn't replay
+// typing from before
+export const discardTextDocuments = async (
+  responseId: string,
+  fieldIds: string[]
+) => {
+  await releaseResponseTextDocuments(responseId);
+  await Promise.all(
+    fieldIds.map((fieldId) =>
+      getTextUpdateLog().discard(getDocumentId(responseId, fieldId))
+    )
+  );
+};
@@ -0,0 +1,70 @@
+// src/services/fileStorageService.ts
+import { promises as fs } from "fs";
+import path from "path";
+
+// Minimal contract a storage backend has to fulfil for FILE fields
+export interface FileStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+}
+
+// Stores uploads on the local disk, so the app runs without Supabase Storage
+export class LocalFileStorage implements FileStorage {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  private resolveKey(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer) {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string) {
+    return fs.readFile(this.resolveKey(key));
+  }
+
+  async remove(key: string) {
+    try {
+      await fs.unlink(this.resolveKey(key));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+}
+
+let storage: FileStorage | null = null;
+
+const createFileStorage = (): FileStorage => {
+  const driver = process.env.FILE_STORAGE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      return new LocalFileStorage(process.env.FILE_STORAGE_DIR || "uploads");
+    default:
+      throw new Error(`Unknown FILE_STORAGE_DRIVER: ${driver}`);
+  }
+};
+
+export const getFileStorage = (): FileStorage => {
+  if (!storage) {
+    storage = createFileStorage();
+  }
+  return storage;
+};
+
+// Swap in another backend (e.g. object storage) at startup
+export const setFileStorage = (nextStorage: FileStorage) => {
+  storage = nextStorage;
+};
@@ -0,0 +1,142 @@
+// src/services/formVersionService.ts
+import { supabase } from "../config/supabase";
+
+export interface FormVersion {
+  id: string;
+  form_id: string;
+  version_number: number;
+  fields: Record<string, any>[];
+  created_by_id: string;
+  created_at: string;
+}
+
+// JSON with object keys sorted, so snapshots read back from jsonb compare
+// equal to freshly loaded rows
+const toComparable = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : nested
+  );
+
+// Snapshot the current form_fields into a new immutable version. When they
+// match the latest snapshot that version is returned instead.
+export const createFormVersion = async (
+  formId: string,
+  userId: string
+): Promise<FormVersion | null> => {
+  try {
+    const { data: fields, error: fieldsError } = await supabase
+      .from("form_fields")
+      .select("*")
+      .eq("form_id", formId)
+      .is("archived_at", null)
+      .order("field_order", { ascending: true });
+
+    if (fieldsError) {
+      console.error("Failed to load fields for version:", fieldsError);
+      return null;
+    }
+
+    const { data: latestVersion } = await supabase
+      .from("form_versions")
+      .select("*")
+      .eq("form_id", formId)
+      .order("version_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (
+      latestVersion &&
+      toComparable(latestVersion.fields) === toComparable(fields || [])
+    ) {
+      return latestVersion;
+    }
+
+    const versionNumber = (latestVersion?.version_number || 0) + 1;
+
+    const { data: version, error: versionError } = await supabase
+      .from("form_versions")
+      .insert({
+        form_id: formId,
+        version_number: versionNumber,
+        fields: fields || [],
+        created_by_id: userId,
+      })
+      .select()
+      .single();
+
+    if (versionError || !version) {
+      console.error("Failed to create form version:", versionError);
+      return null;
+    }
+
+    const { error: formError } = await supabase
+      .from("forms")
+      .update({ current_version: versionNumber })
+      .eq("id", formId);
+
+    if (formError) {
+      console.error("Failed to update current form version:", formError);
+    }
+
+    console.log(`🗂️ Created version ${versionNumber} of form ${formId}`);
+    return version;
+  } catch (error) {
+    console.error("Error creating form version:", error);
+    return null;
+  }
+};
+
+// Get the version number new responses should be pinned to
+export const getCurrentFormVersion = async (
+  formId: string
+): Promise<number | null> => {
+  const { data: form, error } = await supabase
+    .from("forms")
+    .select("current_version")
+    .eq("id", formId)
+    .single();
+
+  if (error || !form) {
+    console.error("Failed to get current form version:", error);
+    return null;
+  }
+
+  return form.current_version ?? null;
+};
+
+// Move in-progress drafts onto the latest version after a schema change
+export const repinDraftResponses = async (
+  formId: string,
+  versionNumber: number
+) => {
+  const { error } = await supabase
+    .from("form_responses")
+    .update({ form_version: versionNumber })
+    .eq("form_id", formId)
+    .eq("status", "DRAFT");
+
+  if (error) {
+    console.error("Failed to re-pin draft responses:", error);
+  }
+};
+
+export const getFormVersions = async (
+  formId: string
+): Promise<FormVersion[]> => {
+  const { data: versions, error } = await supabase
+    .from("form_versions")
+    .select("*")
+    .eq("form_id", formId)
+    .order("version_number", { ascending: true });
+
+  if (error) {
+    console.error("Failed to load form versions:", error);
+    return [];
+  }
+
+  return versions || [];
+};
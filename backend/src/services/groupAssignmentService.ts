@@ -0,0 +1,229 @@
+// src/services/groupAssignmentService.ts
+import { supabase } from "../config/supabase";
+import {
+  AVAILABILITY_COLUMNS,
+  getGroupAvailability,
+} from "./availabilityService";
+import { runExclusive } from "./lockService";
+import { getGroupUserIds } from "./socketService";
+
+// How a form's join link picks a group for each arriving user
+export type JoinStrategy =
+  | "ROUND_ROBIN"
+  | "FILL_TO_CAPACITY"
+  | "LEAST_ACTIVE"
+  | "SELF_SELECT";
+
+export const JOIN_STRATEGIES: JoinStrategy[] = [
+  "ROUND_ROBIN",
+  "FILL_TO_CAPACITY",
+  "LEAST_ACTIVE",
+  "SELF_SELECT",
+];
+
+export const isJoinStrategy = (value: unknown): value is JoinStrategy =>
+  JOIN_STRATEGIES.includes(value as JoinStrategy);
+
+export const JOIN_LINK_FORM_COLUMNS = `id, title, description, created_by_id, join_code, join_strategy, ${AVAILABILITY_COLUMNS}`;
+
+export interface JoinableGroup {
+  id: string;
+  share_code: string;
+  group_name: string;
+  capacity: number | null;
+  // People sent here by the join link, and people connected right now
+  assigned: number;
+  active: number;
+  full: boolean;
+}
+
+export type AssignmentResult =
+  | { error: string; status: number }
+  | { waiting: true; message: string }
+  | { group: JoinableGroup };
+
+// Active, open groups a join link can send people to, in creation order.
+// Members-only groups are left out; their members use the group's code.
+export const getJoinableGroups = async (
+  form: any
+): Promise<JoinableGroup[]> => {
+  const [{ data: sharingCodes }, { data: assignments }] = await Promise.all([
+    supabase
+      .from("form_sharing_codes")
+      .select("*")
+      .eq("form_id", form.id)
+      .eq("is_active", true)
+      .eq("is_closed", false)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("group_assignments")
+      .select("sharing_code_id")
+      .eq("form_id", form.id),
+  ]);
+
+  const assignedCounts = new Map<string, number>();
+  (assignments || []).forEach((assignment: any) => {
+    assignedCounts.set(
+      assignment.sharing_code_id,
+      (assignedCounts.get(assignment.sharing_code_id) || 0) + 1
+    );
+  });
+
+  const groups = await Promise.all(
+    (sharingCodes || []).map(async (sharingCode: any) => {
+      const availability = await getGroupAvailability(sharingCode, form);
+      if (!availability.open) return null;
+
+      const active = (await getGroupUserIds(sharingCode.share_code)).size;
+      return {
+        id: sharingCode.id,
+        share_code: sharingCode.share_code,
+        group_name: sharingCode.group_name,
+        capacity: sharingCode.capacity,
+        assigned: assignedCounts.get(sharingCode.id) || 0,
+        active,
+        full: sharingCode.capacity !== null && active >= sharingCode.capacity,
+      };
+    })
+  );
+
+  return groups.filter((group): group is JoinableGroup => group !== null);
+};
+
+// Pick a group that still has room, or null when every group is full
+const pickGroup = (
+  strategy: JoinStrategy,
+  groups: JoinableGroup[],
+  lastAssignedId: string | null
+): JoinableGroup | null => {
+  const open = groups.filter((group) => !group.full);
+  if (open.length === 0) return null;
+
+  switch (strategy) {
+    case "ROUND_ROBIN": {
+      // Continue after the group the previous person was sent to
+      const start = groups.findIndex((group) => group.id === lastAssignedId);
+      for (let offset = 1; offset <= groups.length; offset++) {
+        const group = groups[(start + offset) % groups.length];
+        if (!group.full) return group;
+      }
+      return null;
+    }
+    case "FILL_TO_CAPACITY":
+      // People are sent before they connect, so count assignments too;
+      // once every group got its share, fill places that freed up
+      return (
+        open.find(
+          (group) => group.capacity === null || group.assigned < group.capacity
+        ) || open[0]
+      );
+    case "LEAST_ACTIVE":
+      return open.reduce((least, group) =>
+        group.active < least.active ||
+        (group.active === least.active && group.assigned < least.assigned)
+          ? group
+          : least
+      );
+    default:
+      return null;
+  }
+};
+
+// Arrivals for the same form are assigned one at a time, whichever server
+// instance they reach, so two people can't both take the last place of a
+// group
+const queueAssignment = <T>(formId: string, task: () => Promise<T>) =>
+  runExclusive(`join:${formId}`, task);
+
+// Send a user to a group of the form behind a join link. Returning users
+// keep their group while it has room for them; with SELF_SELECT the user
+// names the group.
+export const assignGroup = (
+  form: any,
+  userId: string,
+  selectedGroupId?: string
+): Promise<AssignmentResult> =>
+  queueAssignment(form.id, async () => {
+    const strategy: JoinStrategy = isJoinStrategy(form.join_strategy)
+      ? form.join_strategy
+      : "ROUND_ROBIN";
+    const groups = await getJoinableGroups(form);
+
+    if (groups.length === 0) {
+      return { error: "This form has no open groups to join", status: 404 };
+    }
+
+    const { data: existing } = await supabase
+      .from("group_assignments")
+      .select("sharing_code_id")
+      .eq("form_id", form.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    let group: JoinableGroup | null | undefined;
+    if (strategy === "SELF_SELECT" && selectedGroupId) {
+      group = groups.find((g) => g.id === selectedGroupId);
+      if (!group) {
+        return { error: "That group can't be joined", status: 400 };
+      }
+    } else if (existing) {
+      group = groups.find((g) => g.id === existing.sharing_code_id);
+    }
+
+    if (strategy === "SELF_SELECT" && !group) {
+      return { error: "Choose a group to join", status: 400 };
+    }
+
+    const alreadyInside =
+      !!group && (await getGroupUserIds(group.share_code)).has(userId);
+    if (group && group.full && !alreadyInside) {
+      if (strategy === "SELF_SELECT") {
+        return {
+          waiting: true,
+          message: `${group.group_name} is full. Wait for a place or choose another group.`,
+        };
+      }
+      group = null;
+    }
+
+    if (!group) {
+      const { data: lastAssignment } = await supabase
+        .from("group_assignments")
+        .select("sharing_code_id")
+        .eq("form_id", form.id)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      group = pickGroup(
+        strategy,
+        groups,
+        lastAssignment?.sharing_code_id || null
+      );
+    }
+
+    if (!group) {
+      return {
+        waiting: true,
+        message: "All groups are full right now. We'll keep trying.",
+      };
+    }
+
+    if (existing?.sharing_code_id !== group.id) {
+      const { error } = await supabase.from("group_assignments").upsert(
+        {
+          form_id: form.id,
+          user_id: userId,
+          sharing_code_id: group.id,
+        },
+        { onConflict: "form_id,user_id" }
+      );
+
+      if (error) {
+        console.error("Save group assignment error:", error);
+        return { error: "Failed to assign a group", status: 500 };
+      }
+    }
+
+    return { group };
+  });
@@ -0,0 +1,143 @@
+// src/services/guestService.ts
+import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
+import { supabase } from "../config/supabase";
+import { describeUser } from "../utils/helpers";
+
+// Guest tokens are short-lived and only work for the share code they were
+// issued for
+const GUEST_TOKEN_TTL_SECONDS =
+  Number(process.env.GUEST_TOKEN_TTL_HOURS || 4) * 60 * 60;
+
+export const MAX_GUEST_NAME_LENGTH = 40;
+
+// Stored in place of a bcrypt hash; no password compares equal to it
+const GUEST_PASSWORD = "!guest";
+
+// Whether guests may (still) use a share code: the group must be active,
+// opted in to guests, and its form active
+export const isGuestShareCode = async (shareCode: string) => {
+  const { data: sharingCode } = await supabase
+    .from("form_sharing_codes")
+    .select("is_active, allow_guests, forms(is_active)")
+    .eq("share_code", shareCode)
+    .single();
+
+  return (
+    !!sharingCode?.is_active &&
+    !!sharingCode.allow_guests &&
+    (sharingCode.forms as any)?.is_active !== false
+  );
+};
+
+export type GuestSessionResult =
+  | { error: string; status: number }
+  | {
+      error?: undefined;
+      token: string;
+      user: {
+        id: string;
+        email: string;
+        role: "GUEST";
+        display_name: string;
+        share_code: string;
+      };
+    };
+
+// Guests get a users row so locks, contributions and responses can refer
+// to them like to anyone else. The row has a placeholder email and an
+// unusable password, so it can't be used to log in, and remembers its share
+// code so it can be deleted once guests are turned off there.
+export const createGuestSession = async (
+  shareCode: unknown,
+  displayName: unknown
+): Promise<GuestSessionResult> => {
+  const name = typeof displayName === "string" ? displayName.trim() : "";
+  if (!name || name.length > MAX_GUEST_NAME_LENGTH) {
+    return {
+      error: `Display name must be 1 to ${MAX_GUEST_NAME_LENGTH} characters`,
+      status: 400,
+    };
+  }
+
+  if (typeof shareCode !== "string" || !(await isGuestShareCode(shareCode))) {
+    return {
+      error: "This share code does not accept guests",
+      status: 403,
+    };
+  }
+
+  const { data: user, error } = await supabase
+    .from("users")
+    .insert({
+      email: `guest-${randomUUID()}@guest.invalid`,
+      password: GUEST_PASSWORD,
+      role: "GUEST",
+      display_name: name,
+      guest_share_code: shareCode,
+    })
+    .select("id, email, role, display_name")
+    .single();
+
+  if (error || !user) {
+    console.error("Create guest error:", error);
+    return { error: "Failed to create guest session", status: 500 };
+  }
+
+  const token = jwt.sign(
+    { userId: user.id, shareCode },
+    process.env.JWT_SECRET!,
+    { expiresIn: GUEST_TOKEN_TTL_SECONDS }
+  );
+
+  return {
+    token,
+    user: {
+      id: user.id,
+      // Clients identify collaborators by this label, as sockets do
+      email: describeUser(user),
+      role: "GUEST",
+      display_name: name,
+      share_code: shareCode,
+    },
+  };
+};
+
+// Delete the guests of a share code that no longer lets them in. Guests who
+// submitted a response are kept so the submission still shows its sender.
+export const deleteGuestUsers = async (shareCode: string) => {
+  const { data: guests, error } = await supabase
+    .from("users")
+    .select("id")
+    .eq("role", "GUEST")
+    .eq("guest_share_code", shareCode);
+
+  if (error) {
+    throw error;
+  }
+  if (!guests?.length) return;
+
+  const guestIds = guests.map((guest: any) => guest.id);
+  const { data: submitted, error: responsesError } = await supabase
+    .from("form_responses")
+    .select("user_id")
+    .eq("status", "SUBMITTED")
+    .in("user_id", guestIds);
+
+  if (responsesError) {
+    throw responsesError;
+  }
+
+  const submitters = new Set((submitted || []).map((r: any) => r.user_id));
+  const removable = guestIds.filter((id: string) => !submitters.has(id));
+  if (removable.length === 0) return;
+
+  const { error: deleteError } = await supabase
+    .from("users")
+    .delete()
+    .in("id", removable);
+
+  if (deleteError) {
+    throw deleteError;
+  }
+};
@@ -0,0 +1,70 @@
+// src/services/leaderService.ts
+import { INSTANCE_ID, redis } from "../config/redis";
+
+// Leadership is a lease in Redis the holder renews on every run. When the
+// leader goes away the lease runs out and the next instance to try takes
+// over, so a lease spans a few runs to ride out a slow one.
+const LEASE_RUNS = 3;
+
+const getLeaderKey = (role: string) => `leader:${role}`;
+
+// Takes the lease when it is free, extends it when we hold it
+const CLAIM_SCRIPT = `
+local holder = redis.call("GET", KEYS[1])
+if holder and holder ~= ARGV[1] then return 0 end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+return 1
+`;
+
+const RESIGN_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then redis.call("DEL", KEYS[1]) end
+return 1
+`;
+
+const claimScript = redis.createScript<number>(CLAIM_SCRIPT);
+const resignScript = redis.createScript<number>(RESIGN_SCRIPT);
+
+// Run a task every interval on exactly one of the server instances. Every
+// instance calls this; the one holding the role's lease runs the task.
+// Returns a function that stops trying and gives the role up.
+export const runAsLeader = (
+  role: string,
+  task: () => Promise<void>,
+  intervalMs: number
+) => {
+  const key = getLeaderKey(role);
+  let leading = false;
+
+  const timer = setInterval(async () => {
+    try {
+      const claimed =
+        Number(
+          await claimScript.exec(
+            [key],
+            [INSTANCE_ID, String(intervalMs * LEASE_RUNS)]
+          )
+        ) === 1;
+
+      if (claimed !== leading) {
+        leading = claimed;
+        console.log(
+          leading
+            ? `👑 ${INSTANCE_ID} now runs ${role}`
+            : `👋 ${INSTANCE_ID} no longer runs ${role}`
+        );
+      }
+      if (leading) await task();
+    } catch (error) {
+      console.error(`Failed to run ${role}:`, error);
+    }
+  }, intervalMs);
+
+  return () => {
+    clearInterval(timer);
+    if (leading) {
+      resignScript.exec([key], [INSTANCE_ID]).catch((error) => {
+        console.error(`Failed to give up ${role}:`, error);
+      });
+    }
+  };
+};
@@ -0,0 +1,164 @@
+// src/services/lockService.test.ts
+import { FieldLock, LockRequest, MemoryLockStore } from "./lockService";
+
+const TTL = 30 * 1000;
+
+const request = (
+  userId: string,
+  fieldId = "field-1",
+  rowKey = ""
+): LockRequest => ({
+  sharingCodeId: "group-1",
+  shareCode: "ABC123",
+  fieldId,
+  rowKey,
+  userId,
+  userEmail: `${userId}@example.com`,
+  socketId: `socket-${userId}`,
+});
+
+// Unwraps a granted lock, failing the test on a conflict
+const acquired = async (
+  store: MemoryLockStore,
+  lockRequest: LockRequest
+): Promise<FieldLock> => {
+  const result = await store.acquire(lockRequest, TTL);
+  if (!("lock" in result)) {
+    throw new Error(`Lock held by ${result.conflict.userId}`);
+  }
+  return result.lock;
+};
+
+describe("MemoryLockStore", () => {
+  let store: MemoryLockStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2024-03-01T10:00:00Z"));
+    store = new MemoryLockStore();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("acquire", () => {
+    it("grants a free field and reports who holds a taken one", async () => {
+      const lock = await acquired(store, request("ada"));
+
+      expect(lock).toMatchObject({ userId: "ada", ttl: TTL });
+      expect(lock.expiresAt).toBe(Date.now() + TTL);
+      expect(await store.acquire(request("bob"), TTL)).toEqual({
+        conflict: lock,
+      });
+    });
+
+    it("keeps whole-field and row locks from overlapping", async () => {
+      await acquired(store, request("ada", "matrix", "Writing"));
+
+      await acquired(store, request("bob", "matrix", "Planning"));
+      expect(await store.acquire(request("bob", "matrix"), TTL)).toMatchObject({
+        conflict: { userId: "ada" },
+      });
+      expect(
+        await store.acquire(request("bob", "matrix", "Writing"), TTL)
+      ).toMatchObject({ conflict: { userId: "ada" } });
+    });
+  });
+
+  describe("fencing tokens", () => {
+    it("increase with every lock granted", async () => {
+      const first = await acquired(store, request("ada", "field-1"));
+      const second = await acquired(store, request("bob", "field-2"));
+      await store.release(request("ada", "field-1"));
+      const third = await acquired(store, request("bob", "field-1"));
+
+      expect(second.token).toBeGreaterThan(first.token);
+      expect(third.token).toBeGreaterThan(second.token);
+    });
+
+    it("stay the same when the holder takes the lock again", async () => {
+      const lock = await acquired(store, request("ada"));
+      jest.advanceTimersByTime(TTL / 2);
+      const again = await acquired(store, request("ada"));
+
+      expect(again.token).toBe(lock.token);
+      expect(again.expiresAt).toBe(Date.now() + TTL);
+    });
+
+    it("change once an expired lock is taken over", async () => {
+      const lock = await acquired(store, request("ada"));
+      jest.advanceTimersByTime(TTL);
+      const takeover = await acquired(store, request("bob"));
+
+      expect(takeover.token).toBeGreaterThan(lock.token);
+      expect(await store.renew(request("ada"), "ada", lock.token)).toBeNull();
+    });
+  });
+
+  describe("renew", () => {
+    it("extends the holder's lock under its token", async () => {
+      const lock = await acquired(store, request("ada"));
+      jest.advanceTimersByTime(TTL - 1);
+      const renewed = await store.renew(request("ada"), "ada", lock.token);
+
+      expect(renewed).toMatchObject({ token: lock.token });
+      expect(renewed?.expiresAt).toBe(Date.now() + TTL);
+    });
+
+    it("refuses another user, a stale token and an expired lock", async () => {
+      const lock = await acquired(store, request("ada"));
+
+      expect(await store.renew(request("ada"), "bob", lock.token)).toBeNull();
+      expect(
+        await store.renew(request("ada"), "ada", lock.token + 1)
+      ).toBeNull();
+
+      jest.advanceTimersByTime(TTL);
+      expect(await store.renew(request("ada"), "ada", lock.token)).toBeNull();
+    });
+  });
+
+  describe("collectExpired", () => {
+    it("removes locks once they expire", async () => {
+      const lock = await acquired(store, request("ada", "field-1"));
+      jest.advanceTimersByTime(TTL / 2);
+      await acquired(store, request("bob", "field-2"));
+
+      expect(await store.collectExpired()).toEqual([]);
+
+      jest.advanceTimersByTime(TTL / 2);
+      expect(await store.collectExpired()).toEqual([lock]);
+      expect(await store.list("group-1")).toMatchObject([{ userId: "bob" }]);
+      expect(await store.collectExpired()).toEqual([]);
+    });
+
+    it("removes a renewed lock at its hand-off", async () => {
+      const lock = await acquired(store, request("ada"));
+      await store.requestHandoff(request("ada"), lock.token, Date.now() + 5000);
+      jest.advanceTimersByTime(5000);
+      await store.renew(request("ada"), "ada", lock.token);
+
+      expect(await store.collectExpired()).toMatchObject([
+        { userId: "ada", token: lock.token },
+      ]);
+    });
+  });
+
+  describe("release", () => {
+    it("ignores users who don't hold the lock", async () => {
+      const lock = await acquired(store, request("ada"));
+
+      expect(await store.release(request("ada"), "bob")).toBeNull();
+      expect(await store.list("group-1")).toEqual([lock]);
+    });
+
+    it("drops the holder's lock", async () => {
+      const lock = await acquired(store, request("ada"));
+
+      expect(await store.release(request("ada"), "ada")).toEqual(lock);
+      expect(await store.list("group-1")).toEqual([]);
+      await acquired(store, request("bob"));
+    });
+  });
+});
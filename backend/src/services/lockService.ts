@@ -0,0 +1,722 @@
+// src/services/lockService.ts
+import { randomUUID } from "crypto";
+import { redis } from "../config/redis";
+import { runAsLeader } from "./leaderService";
+
+// How often expired locks are collected and announced. Hand-offs are due
+// at a moment shown to the holder, so the sweep runs every second.
+const EXPIRY_SWEEP_MS = 1000;
+
+// A field, or one MATRIX/REPEATER row of it ("" locks the whole field),
+// inside one group. Groups never see each other's locks.
+export interface LockTarget {
+  sharingCodeId: string;
+  fieldId: string;
+  rowKey: string;
+}
+
+export interface LockWaiter {
+  userId: string;
+  userEmail: string;
+  // The socket that asked; lock grants and notices are sent to it
+  socketId: string;
+}
+
+export interface LockRequest extends LockTarget, LockWaiter {
+  shareCode: string;
+}
+
+export interface FieldLock extends LockRequest {
+  // Increases with every lock granted; edits must present the token of
+  // the lock they were made under, so a holder whose lock expired or was
+  // taken over can't overwrite the new holder's answer
+  token: number;
+  expiresAt: number;
+  // Lifetime given by every renewal, in milliseconds
+  ttl: number;
+  // Set once someone asked for the field; the lock then ends at this
+  // moment even while it is being renewed
+  handoffAt?: number;
+}
+
+// People waiting for a locked field (or row), first come first served
+export interface LockQueue extends LockTarget {
+  waiters: LockWaiter[];
+}
+
+export type AcquireResult = { lock: FieldLock } | { conflict: FieldLock };
+
+// Minimal contract a lock backend has to fulfil. Every operation is atomic.
+export interface LockStore {
+  // Grant the lock unless someone else holds an overlapping one. The holder
+  // asking again keeps its token and gets a fresh expiry.
+  acquire(request: LockRequest, ttl: number): Promise<AcquireResult>;
+  // Extend a live lock by its ttl, only when the user still holds it under
+  // the token
+  renew(
+    target: LockTarget,
+    userId: string,
+    token: number
+  ): Promise<FieldLock | null>;
+  // Drop a lock, only the user's own when a userId is given
+  release(target: LockTarget, userId?: string): Promise<FieldLock | null>;
+  // Drop a group's locks, or only those of the given users. Dropping them
+  // all also empties the group's queues.
+  releaseGroup(sharingCodeId: string, userIds?: string[]): Promise<FieldLock[]>;
+  // Live locks of a group
+  list(sharingCodeId: string): Promise<FieldLock[]>;
+  // End the lock at handoffAt, only when it is still the lock with this
+  // token. Null when the lock is gone or a hand-off is already due.
+  requestHandoff(
+    target: LockTarget,
+    token: number,
+    handoffAt: number
+  ): Promise<FieldLock | null>;
+  // Keep the lock after all, once nobody waits for it anymore
+  cancelHandoff(target: LockTarget): Promise<void>;
+  // Remove and return the locks that expired or whose hand-off is due
+  collectExpired(): Promise<FieldLock[]>;
+  // Join the end of a queue; users already waiting keep their place
+  enqueue(target: LockTarget, waiter: LockWaiter): Promise<LockQueue>;
+  // Leave a queue (also used once the first waiter got the lock)
+  dequeue(target: LockTarget, userId: string): Promise<LockQueue>;
+  getQueue(target: LockTarget): Promise<LockQueue>;
+  // Non-empty queues of a group
+  listQueues(sharingCodeId: string): Promise<LockQueue[]>;
+  // Short sections of server work only one instance may run at a time
+  // (see runExclusive). False while another holder has the name.
+  claimMutex(name: string, holder: string, ttl: number): Promise<boolean>;
+  releaseMutex(name: string, holder: string): Promise<void>;
+}
+
+// Whole-field locks ("" row) overlap every row and vice versa
+const overlaps = (lock: LockTarget, target: LockTarget) =>
+  lock.fieldId === target.fieldId &&
+  (!lock.rowKey || !target.rowKey || lock.rowKey === target.rowKey);
+
+// When a lock has to go: at expiry, or at its hand-off if that is sooner
+const getDueAt = (lock: FieldLock) =>
+  lock.handoffAt !== undefined && lock.handoffAt < lock.expiresAt
+    ? lock.handoffAt
+    : lock.expiresAt;
+
+const getLockName = (target: { fieldId: string; rowKey: string }) =>
+  `${target.fieldId}:${target.rowKey}`;
+
+// Field ids never contain ":", row keys might
+const parseLockName = (sharingCodeId: string, name: string): LockTarget => {
+  const [fieldId, ...rowKey] = name.split(":");
+  return { sharingCodeId, fieldId, rowKey: rowKey.join(":") };
+};
+
+const toQueue = (target: LockTarget, waiters: LockWaiter[]): LockQueue => ({
+  sharingCodeId: target.sharingCodeId,
+  fieldId: target.fieldId,
+  rowKey: target.rowKey,
+  waiters,
+});
+
+// Keeps locks in process memory; for tests and single-instance setups
+export class MemoryLockStore implements LockStore {
+  private groups = new Map<string, Map<string, FieldLock>>();
+  private queues = new Map<string, Map<string, LockWaiter[]>>();
+  private mutexes = new Map<string, { holder: string; expiresAt: number }>();
+  private lastToken = 0;
+
+  private getGroup(sharingCodeId: string) {
+    let group = this.groups.get(sharingCodeId);
+    if (!group) {
+      group = new Map();
+      this.groups.set(sharingCodeId, group);
+    }
+    return group;
+  }
+
+  async acquire(request: LockRequest, ttl: number): Promise<AcquireResult> {
+    const now = Date.now();
+    const group = this.getGroup(request.sharingCodeId);
+    const name = getLockName(request);
+
+    // Taking the same lock again keeps its token and pending hand-off
+    let held: FieldLock | undefined;
+    for (const [lockName, lock] of group) {
+      if (lock.expiresAt <= now || !overlaps(lock, request)) continue;
+      if (lock.userId !== request.userId) return { conflict: { ...lock } };
+      if (lockName === name) held = lock;
+    }
+
+    const lock: FieldLock = {
+      ...request,
+      token: held?.token ?? ++this.lastToken,
+      expiresAt: now + ttl,
+      ttl,
+      handoffAt: held?.handoffAt,
+    };
+    group.set(name, lock);
+    return { lock: { ...lock } };
+  }
+
+  async renew(target: LockTarget, userId: string, token: number) {
+    const now = Date.now();
+    const lock = this.groups
+      .get(target.sharingCodeId)
+      ?.get(getLockName(target));
+    if (
+      !lock ||
+      lock.userId !== userId ||
+      lock.token !== token ||
+      lock.expiresAt <= now
+    ) {
+      return null;
+    }
+    lock.expiresAt = now + lock.ttl;
+    return { ...lock };
+  }
+
+  async release(target: LockTarget, userId?: string) {
+    const group = this.groups.get(target.sharingCodeId);
+    const name = getLockName(target);
+    const lock = group?.get(name);
+    if (!lock || (userId && lock.userId !== userId)) return null;
+    group!.delete(name);
+    return lock;
+  }
+
+  async releaseGroup(sharingCodeId: string, userIds?: string[]) {
+    if (!userIds) this.queues.delete(sharingCodeId);
+
+    const group = this.groups.get(sharingCodeId);
+    if (!group) return [];
+
+    const released: FieldLock[] = [];
+    for (const [name, lock] of group) {
+      if (userIds && !userIds.includes(lock.userId)) continue;
+      group.delete(name);
+      released.push(lock);
+    }
+    if (group.size === 0) this.groups.delete(sharingCodeId);
+    return released;
+  }
+
+  async requestHandoff(target: LockTarget, token: number, handoffAt: number) {
+    const lock = this.groups
+      .get(target.sharingCodeId)
+      ?.get(getLockName(target));
+    if (
+      !lock ||
+      lock.token !== token ||
+      lock.expiresAt <= Date.now() ||
+      lock.handoffAt !== undefined
+    ) {
+      return null;
+    }
+    lock.handoffAt = handoffAt;
+    return { ...lock };
+  }
+
+  async cancelHandoff(target: LockTarget) {
+    const lock = this.groups
+      .get(target.sharingCodeId)
+      ?.get(getLockName(target));
+    if (lock) delete lock.handoffAt;
+  }
+
+  async list(sharingCodeId: string) {
+    const now = Date.now();
+    return [...(this.groups.get(sharingCodeId)?.values() || [])]
+      .filter((lock) => lock.expiresAt > now)
+      .map((lock) => ({ ...lock }));
+  }
+
+  async collectExpired() {
+    const now = Date.now();
+    const expired: FieldLock[] = [];
+    for (const [sharingCodeId, group] of this.groups) {
+      for (const [name, lock] of group) {
+        if (getDueAt(lock) > now) continue;
+        group.delete(name);
+        expired.push(lock);
+      }
+      if (group.size === 0) this.groups.delete(sharingCodeId);
+    }
+    return expired;
+  }
+
+  async enqueue(target: LockTarget, waiter: LockWaiter) {
+    let group = this.queues.get(target.sharingCodeId);
+    if (!group) {
+      group = new Map();
+      this.queues.set(target.sharingCodeId, group);
+    }
+    const name = getLockName(target);
+    const waiters = group.get(name) || [];
+    if (!waiters.some((queued) => queued.userId === waiter.userId)) {
+      group.set(name, [...waiters, { ...waiter }]);
+    }
+    return toQueue(target, group.get(name)!);
+  }
+
+  async dequeue(target: LockTarget, userId: string) {
+    const group = this.queues.get(target.sharingCodeId);
+    const name = getLockName(target);
+    const waiters = (group?.get(name) || []).filter(
+      (queued) => queued.userId !== userId
+    );
+    if (waiters.length > 0) {
+      group!.set(name, waiters);
+    } else {
+      group?.delete(name);
+      if (group?.size === 0) this.queues.delete(target.sharingCodeId);
+    }
+    return toQueue(target, waiters);
+  }
+
+  async getQueue(target: LockTarget) {
+    return toQueue(
+      target,
+      this.queues.get(target.sharingCodeId)?.get(getLockName(target)) || []
+    );
+  }
+
+  async listQueues(sharingCodeId: string) {
+    return [...(this.queues.get(sharingCodeId)?.entries() || [])].map(
+      ([name, waiters]) => toQueue(parseLockName(sharingCodeId, name), waiters)
+    );
+  }
+
+  async claimMutex(name: string, holder: string, ttl: number) {
+    const now = Date.now();
+    const mutex = this.mutexes.get(name);
+    if (mutex && mutex.holder !== holder && mutex.expiresAt > now) {
+      return false;
+    }
+    this.mutexes.set(name, { holder, expiresAt: now + ttl });
+    return true;
+  }
+
+  async releaseMutex(name: string, holder: string) {
+    if (this.mutexes.get(name)?.holder === holder) this.mutexes.delete(name);
+  }
+}
+
+// Redis layout: one hash per group (lock name -> lock JSON), one hash of
+// queues per group (lock name -> waiters JSON), a counter handing out
+// fencing tokens, and a sorted set of every lock by the moment it is due
+// (expiry or hand-off) so those can be found without scanning the groups
+const FENCING_KEY = "locks:fencing";
+const EXPIRY_KEY = "locks:expiry";
+const getGroupKey = (sharingCodeId: string) => `locks:group:${sharingCodeId}`;
+const getQueueKey = (sharingCodeId: string) => `locks:queue:${sharingCodeId}`;
+const getMutexKey = (name: string) => `locks:mutex:${name}`;
+const getExpiryMember = (target: LockTarget) =>
+  `${target.sharingCodeId}:${getLockName(target)}`;
+
+// Lua twin of getDueAt, shared by the scripts that move a lock's due time
+const DUE_AT_FUNCTION = `
+local function dueAt(lock)
+  if lock.handoffAt and lock.handoffAt < lock.expiresAt then return lock.handoffAt end
+  return lock.expiresAt
+end
+`;
+
+const ACQUIRE_SCRIPT = `${DUE_AT_FUNCTION}
+local request = cjson.decode(ARGV[1])
+local now = tonumber(ARGV[2])
+local name = request.fieldId .. ":" .. request.rowKey
+local held = nil
+local entries = redis.call("HGETALL", KEYS[1])
+for i = 1, #entries, 2 do
+  local lock = cjson.decode(entries[i + 1])
+  if lock.expiresAt > now and lock.fieldId == request.fieldId and
+    (lock.rowKey == "" or request.rowKey == "" or lock.rowKey == request.rowKey) then
+    if lock.userId ~= request.userId then
+      return {0, entries[i + 1]}
+    end
+    if entries[i] == name then
+      held = lock
+    end
+  end
+end
+request.token = held and held.token or redis.call("INCR", KEYS[2])
+request.handoffAt = held and held.handoffAt
+request.expiresAt = now + request.ttl
+local value = cjson.encode(request)
+redis.call("HSET", KEYS[1], name, value)
+redis.call("ZADD", KEYS[3], dueAt(request), request.sharingCodeId .. ":" .. name)
+return {1, value}
+`;
+
+const RENEW_SCRIPT = `${DUE_AT_FUNCTION}
+local value = redis.call("HGET", KEYS[1], ARGV[1])
+if not value then return nil end
+local lock = cjson.decode(value)
+local now = tonumber(ARGV[5])
+if lock.userId ~= ARGV[3] or lock.token ~= tonumber(ARGV[4]) or lock.expiresAt <= now then
+  return nil
+end
+lock.expiresAt = now + lock.ttl
+value = cjson.encode(lock)
+redis.call("HSET", KEYS[1], ARGV[1], value)
+redis.call("ZADD", KEYS[2], dueAt(lock), ARGV[2])
+return value
+`;
+
+const RELEASE_SCRIPT = `
+local value = redis.call("HGET", KEYS[1], ARGV[1])
+if not value then return nil end
+if ARGV[3] ~= "" and cjson.decode(value).userId ~= ARGV[3] then return nil end
+redis.call("HDEL", KEYS[1], ARGV[1])
+redis.call("ZREM", KEYS[2], ARGV[2])
+return value
+`;
+
+const RELEASE_GROUP_SCRIPT = `
+local users = {}
+for i = 2, #ARGV do users[ARGV[i]] = true end
+if #ARGV == 1 then redis.call("DEL", KEYS[3]) end
+local released = {}
+local entries = redis.call("HGETALL", KEYS[1])
+for i = 1, #entries, 2 do
+  local lock = cjson.decode(entries[i + 1])
+  if #ARGV == 1 or users[lock.userId] then
+    redis.call("HDEL", KEYS[1], entries[i])
+    redis.call("ZREM", KEYS[2], ARGV[1] .. ":" .. entries[i])
+    table.insert(released, entries[i + 1])
+  end
+end
+return released
+`;
+
+const REQUEST_HANDOFF_SCRIPT = `${DUE_AT_FUNCTION}
+local value = redis.call("HGET", KEYS[1], ARGV[1])
+if not value then return nil end
+local lock = cjson.decode(value)
+if lock.token ~= tonumber(ARGV[3]) or lock.expiresAt <= tonumber(ARGV[5]) or lock.handoffAt then
+  return nil
+end
+lock.handoffAt = tonumber(ARGV[4])
+value = cjson.encode(lock)
+redis.call("HSET", KEYS[1], ARGV[1], value)
+redis.call("ZADD", KEYS[2], dueAt(lock), ARGV[2])
+return value
+`;
+
+const CANCEL_HANDOFF_SCRIPT = `
+local value = redis.call("HGET", KEYS[1], ARGV[1])
+if not value then return 0 end
+local lock = cjson.decode(value)
+if not lock.handoffAt then return 0 end
+lock.handoffAt = nil
+redis.call("HSET", KEYS[1], ARGV[1], cjson.encode(lock))
+redis.call("ZADD", KEYS[2], lock.expiresAt, ARGV[2])
+return 1
+`;
+
+// Removes a lock found in the expiry set unless it was renewed meanwhile
+const EXPIRE_SCRIPT = `${DUE_AT_FUNCTION}
+local value = redis.call("HGET", KEYS[1], ARGV[1])
+if value and dueAt(cjson.decode(value)) > tonumber(ARGV[3]) then return nil end
+redis.call("ZREM", KEYS[2], ARGV[2])
+if not value then return nil end
+redis.call("HDEL", KEYS[1], ARGV[1])
+return value
+`;
+
+const ENQUEUE_SCRIPT = `
+local value = redis.call("HGET", KEYS[1], ARGV[1])
+local waiters = value and cjson.decode(value) or {}
+local waiter = cjson.decode(ARGV[2])
+for _, queued in ipairs(waiters) do
+  if queued.userId == waiter.userId then return value end
+end
+table.insert(waiters, waiter)
+value = cjson.encode(waiters)
+redis.call("HSET", KEYS[1], ARGV[1], value)
+return value
+`;
+
+// cjson writes an empty table as {}, so empty queues are deleted instead
+const DEQUEUE_SCRIPT = `
+local value = redis.call("HGET", KEYS[1], ARGV[1])
+if not value then return "[]" end
+local waiters = {}
+for _, queued in ipairs(cjson.decode(value)) do
+  if queued.userId ~= ARGV[2] then table.insert(waiters, queued) end
+end
+if #waiters == 0 then
+  redis.call("HDEL", KEYS[1], ARGV[1])
+  return "[]"
+end
+value = cjson.encode(waiters)
+redis.call("HSET", KEYS[1], ARGV[1], value)
+return value
+`;
+
+const RELEASE_MUTEX_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then redis.call("DEL", KEYS[1]) end
+return 1
+`;
+
+// The client may already have parsed JSON replies
+const parseJson = <T>(value: unknown): T =>
+  (typeof value === "string" ? JSON.parse(value) : value) as T;
+
+const parseLock = (value: unknown): FieldLock | null =>
+  value ? parseJson<FieldLock>(value) : null;
+
+const parseWaiters = (value: unknown): LockWaiter[] =>
+  value ? parseJson<LockWaiter[]>(value) : [];
+
+// Shares locks between every server instance through Redis
+export class RedisLockStore implements LockStore {
+  private acquireScript = redis.createScript<[number, unknown]>(ACQUIRE_SCRIPT);
+  private renewScript = redis.createScript<unknown>(RENEW_SCRIPT);
+  private releaseScript = redis.createScript<unknown>(RELEASE_SCRIPT);
+  private releaseGroupScript =
+    redis.createScript<unknown[]>(RELEASE_GROUP_SCRIPT);
+  private requestHandoffScript = redis.createScript<unknown>(
+    REQUEST_HANDOFF_SCRIPT
+  );
+  private cancelHandoffScript = redis.createScript<number>(
+    CANCEL_HANDOFF_SCRIPT
+  );
+  private expireScript = redis.createScript<unknown>(EXPIRE_SCRIPT);
+  private enqueueScript = redis.createScript<unknown>(ENQUEUE_SCRIPT);
+  private dequeueScript = redis.createScript<unknown>(DEQUEUE_SCRIPT);
+  private releaseMutexScript = redis.createScript<number>(RELEASE_MUTEX_SCRIPT);
+
+  async acquire(request: LockRequest, ttl: number): Promise<AcquireResult> {
+    const [acquired, value] = await this.acquireScript.exec(
+      [getGroupKey(request.sharingCodeId), FENCING_KEY, EXPIRY_KEY],
+      [JSON.stringify({ ...request, ttl }), String(Date.now())]
+    );
+    const lock = parseLock(value)!;
+    return acquired === 1 ? { lock } : { conflict: lock };
+  }
+
+  async renew(target: LockTarget, userId: string, token: number) {
+    return parseLock(
+      await this.renewScript.exec(
+        [getGroupKey(target.sharingCodeId), EXPIRY_KEY],
+        [
+          getLockName(target),
+          getExpiryMember(target),
+          userId,
+          String(token),
+          String(Date.now()),
+        ]
+      )
+    );
+  }
+
+  async release(target: LockTarget, userId?: string) {
+    return parseLock(
+      await this.releaseScript.exec(
+        [getGroupKey(target.sharingCodeId), EXPIRY_KEY],
+        [getLockName(target), getExpiryMember(target), userId || ""]
+      )
+    );
+  }
+
+  async releaseGroup(sharingCodeId: string, userIds?: string[]) {
+    // The script reads an empty user list as "everyone"
+    if (userIds && userIds.length === 0) return [];
+    const released = await this.releaseGroupScript.exec(
+      [getGroupKey(sharingCodeId), EXPIRY_KEY, getQueueKey(sharingCodeId)],
+      [sharingCodeId, ...(userIds || [])]
+    );
+    return (released || []).map((value) => parseLock(value)!);
+  }
+
+  async list(sharingCodeId: string) {
+    const now = Date.now();
+    const entries = await redis.hgetall(getGroupKey(sharingCodeId));
+    return Object.values(entries || {})
+      .map((value) => parseLock(value)!)
+      .filter((lock) => lock.expiresAt > now);
+  }
+
+  async requestHandoff(target: LockTarget, token: number, handoffAt: number) {
+    return parseLock(
+      await this.requestHandoffScript.exec(
+        [getGroupKey(target.sharingCodeId), EXPIRY_KEY],
+        [
+          getLockName(target),
+          getExpiryMember(target),
+          String(token),
+          String(handoffAt),
+          String(Date.now()),
+        ]
+      )
+    );
+  }
+
+  async cancelHandoff(target: LockTarget) {
+    await this.cancelHandoffScript.exec(
+      [getGroupKey(target.sharingCodeId), EXPIRY_KEY],
+      [getLockName(target), getExpiryMember(target)]
+    );
+  }
+
+  async collectExpired() {
+    const now = Date.now();
+    const members = await redis.zrangeByScore(EXPIRY_KEY, 0, now);
+
+    const expired = await Promise.all(
+      members.map(async (member) => {
+        const [sharingCodeId, ...name] = String(member).split(":");
+        return parseLock(
+          await this.expireScript.exec(
+            [getGroupKey(sharingCodeId), EXPIRY_KEY],
+            [name.join(":"), member, String(now)]
+          )
+        );
+      })
+    );
+    return expired.filter((lock): lock is FieldLock => lock !== null);
+  }
+
+  async enqueue(target: LockTarget, waiter: LockWaiter) {
+    const value = await this.enqueueScript.exec(
+      [getQueueKey(target.sharingCodeId)],
+      [getLockName(target), JSON.stringify(waiter)]
+    );
+    return toQueue(target, parseWaiters(value));
+  }
+
+  async dequeue(target: LockTarget, userId: string) {
+    const value = await this.dequeueScript.exec(
+      [getQueueKey(target.sharingCodeId)],
+      [getLockName(target), userId]
+    );
+    return toQueue(target, parseWaiters(value));
+  }
+
+  async getQueue(target: LockTarget) {
+    const value = await redis.hget(
+      getQueueKey(target.sharingCodeId),
+      getLockName(target)
+    );
+    return toQueue(target, parseWaiters(value));
+  }
+
+  async listQueues(sharingCodeId: string) {
+    const entries = await redis.hgetall(getQueueKey(sharingCodeId));
+    return Object.entries(entries || {}).map(([name, value]) =>
+      toQueue(parseLockName(sharingCodeId, name), parseWaiters(value))
+    );
+  }
+
+  async claimMutex(name: string, holder: string, ttl: number) {
+    return redis.setIfAbsent(getMutexKey(name), holder, ttl);
+  }
+
+  async releaseMutex(name: string, holder: string) {
+    await this.releaseMutexScript.exec([getMutexKey(name)], [holder]);
+  }
+}
+
+let store: LockStore | null = null;
+
+const createLockStore = (): LockStore => {
+  const driver = process.env.LOCK_STORE_DRIVER || "redis";
+
+  switch (driver) {
+    case "redis":
+      return new RedisLockStore();
+    case "memory":
+      return new MemoryLockStore();
+    default:
+      throw new Error(`Unknown LOCK_STORE_DRIVER: ${driver}`);
+  }
+};
+
+export const getLockStore = (): LockStore => {
+  if (!store) {
+    store = createLockStore();
+  }
+  return store;
+};
+
+// Swap in another backend (e.g. MemoryLockStore in tests) at startup
+export const setLockStore = (nextStore: LockStore) => {
+  store = nextStore;
+};
+
+// A live lock held by someone else that overlaps the requested field/row
+export const findConflictingLock = async (target: LockTarget, userId: string) =>
+  (await getLockStore().list(target.sharingCodeId)).find(
+    (lock) => lock.userId !== userId && overlaps(lock, target)
+  ) || null;
+
+// Whether the lock ended because its hand-off came before its expiry
+export const isHandedOff = (lock: FieldLock) =>
+  getDueAt(lock) !== lock.expiresAt;
+
+// Announce locks as they expire or are handed off. Locks shared through
+// Redis are collected by one elected instance, so every lock is announced
+// once; in-memory locks belong to this process alone. Returns a function
+// that stops watching.
+export const watchLockExpiry = (onExpired: (lock: FieldLock) => void) => {
+  const store = getLockStore();
+  const sweep = async () => {
+    (await store.collectExpired()).forEach(onExpired);
+  };
+
+  if (!(store instanceof MemoryLockStore)) {
+    return runAsLeader("lock-expiry", sweep, EXPIRY_SWEEP_MS);
+  }
+
+  const timer = setInterval(() => {
+    sweep().catch((error) => {
+      console.error("Failed to collect expired locks:", error);
+    });
+  }, EXPIRY_SWEEP_MS);
+  return () => clearInterval(timer);
+};
+
+// An exclusive section may run this long before others get in anyway, so
+// a crashed instance can't block the name for good
+const MUTEX_TTL_MS = 15 * 1000;
+const MUTEX_RETRY_MS = 50;
+
+// Tasks of this process waiting for a name, so they take turns locally
+// instead of all polling the store
+const exclusiveQueues = new Map<string, Promise<unknown>>();
+
+const runWithMutex = async <T>(name: string, task: () => Promise<T>) => {
+  const store = getLockStore();
+  const holder = randomUUID();
+  const giveUpAt = Date.now() + 2 * MUTEX_TTL_MS;
+
+  while (!(await store.claimMutex(name, holder, MUTEX_TTL_MS))) {
+    if (Date.now() > giveUpAt) {
+      throw new Error(`Timed out waiting for ${name}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, MUTEX_RETRY_MS));
+  }
+
+  try {
+    return await task();
+  } finally {
+    await store.releaseMutex(name, holder).catch((error) => {
+      console.error(`Failed to release ${name}:`, error);
+    });
+  }
+};
+
+// Run read-modify-write work on the same name one task at a time, across
+// every server instance
+export const runExclusive = <T>(
+  name: string,
+  task: () => Promise<T>
+): Promise<T> => {
+  const run = () => runWithMutex(name, task);
+  const next = (exclusiveQueues.get(name) || Promise.resolve()).then(run, run);
+  const settled = next.catch(() => undefined);
+  exclusiveQueues.set(name, settled);
+  settled.then(() => {
+    if (exclusiveQueues.get(name) === settled) exclusiveQueues.delete(name);
+  });
+  return next;
+};
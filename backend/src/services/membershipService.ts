@@ -0,0 +1,99 @@
+// src/services/membershipService.ts
+import { supabase } from "../config/supabase";
+
+// Roles inside a closed group. Submitters can do everything editors can.
+export type GroupRole = "VIEWER" | "EDITOR" | "SUBMITTER";
+
+export const GROUP_ROLES: GroupRole[] = ["VIEWER", "EDITOR", "SUBMITTER"];
+
+// Invitation links stop working after this many days
+export const INVITATION_TTL_DAYS = 7;
+
+export interface GroupAccess {
+  // null for open groups and for the form owner
+  role: GroupRole | null;
+  canView: boolean;
+  canEdit: boolean;
+  canSubmit: boolean;
+}
+
+const FULL_ACCESS: GroupAccess = {
+  role: null,
+  canView: true,
+  canEdit: true,
+  canSubmit: true,
+};
+
+const NO_ACCESS: GroupAccess = {
+  role: null,
+  canView: false,
+  canEdit: false,
+  canSubmit: false,
+};
+
+const ROLE_ACCESS: Record<GroupRole, GroupAccess> = {
+  VIEWER: { role: "VIEWER", canView: true, canEdit: false, canSubmit: false },
+  EDITOR: { role: "EDITOR", canView: true, canEdit: true, canSubmit: false },
+  SUBMITTER: {
+    role: "SUBMITTER",
+    canView: true,
+    canEdit: true,
+    canSubmit: true,
+  },
+};
+
+export const isGroupRole = (value: unknown): value is GroupRole =>
+  GROUP_ROLES.includes(value as GroupRole);
+
+// What a user may do in a group. Open groups let everyone with the code
+// in; closed groups only their members and the form's owner.
+export const getGroupAccess = async (
+  sharingCode: { id: string; form_id: string; is_closed?: boolean },
+  userId: string
+): Promise<GroupAccess> => {
+  if (!sharingCode.is_closed) return FULL_ACCESS;
+
+  const [{ data: form }, { data: member }] = await Promise.all([
+    supabase
+      .from("forms")
+      .select("created_by_id")
+      .eq("id", sharingCode.form_id)
+      .single(),
+    supabase
+      .from("group_members")
+      .select("role")
+      .eq("sharing_code_id", sharingCode.id)
+      .eq("user_id", userId)
+      .maybeSingle(),
+  ]);
+
+  if (form?.created_by_id === userId) return FULL_ACCESS;
+  return member && isGroupRole(member.role)
+    ? ROLE_ACCESS[member.role]
+    : NO_ACCESS;
+};
+
+// A sharing code of one of the caller's forms, or null
+export const findOwnedSharingCode = async (
+  formId: string,
+  sharingCodeId: string,
+  userId: string
+) => {
+  const { data: form, error: formError } = await supabase
+    .from("forms")
+    .select("id")
+    .eq("id", formId)
+    .eq("created_by_id", userId)
+    .single();
+
+  if (formError || !form) return null;
+
+  const { data: sharingCode, error } = await supabase
+    .from("form_sharing_codes")
+    .select("*")
+    .eq("id", sharingCodeId)
+    .eq("form_id", formId)
+    .single();
+
+  return error || !sharingCode ? null : sharingCode;
+};
@@ -0,0 +1,220 @@
+// src/services/presenceService.ts
+import { INSTANCE_ID, redis } from "../config/redis";
+
+// How often an instance tells the others it is still alive
+const HEARTBEAT_MS = 10 * 1000;
+// Sockets of an instance silent for longer are no longer counted...
+const INSTANCE_TTL_MS = 30 * 1000;
+// ...and are forgotten once it stayed away this long (crashed or redeployed)
+const FORGET_INSTANCE_MS = 10 * 60 * 1000;
+
+// A socket inside a group room
+export interface PresenceEntry {
+  socketId: string;
+  userId: string;
+  userEmail: string;
+  // Guests are sent away when a group stops allowing them
+  guest: boolean;
+}
+
+// Minimal contract a presence backend has to fulfil
+export interface PresenceStore {
+  // Add the socket unless the group already has `capacity` other people
+  // in it; null lets everyone in. Returns whether the socket joined.
+  join(
+    shareCode: string,
+    entry: PresenceEntry,
+    capacity: number | null
+  ): Promise<boolean>;
+  leave(shareCode: string, socketId: string): Promise<void>;
+  // Forget everyone in a group after its room was emptied
+  clear(shareCode: string): Promise<void>;
+  // Sockets in a group room, on every server instance
+  list(shareCode: string): Promise<PresenceEntry[]>;
+  // Keep this instance's sockets counted
+  heartbeat(): Promise<void>;
+}
+
+// Keeps presence in process memory; for tests and single-instance setups
+export class MemoryPresenceStore implements PresenceStore {
+  private groups = new Map<string, Map<string, PresenceEntry>>();
+
+  async join(shareCode: string, entry: PresenceEntry, capacity: number | null) {
+    let group = this.groups.get(shareCode);
+    if (!group) {
+      group = new Map();
+      this.groups.set(shareCode, group);
+    }
+
+    const userIds = new Set(
+      [...group.values()].map((present) => present.userId)
+    );
+    if (
+      capacity !== null &&
+      !userIds.has(entry.userId) &&
+      userIds.size >= capacity
+    ) {
+      return false;
+    }
+    group.set(entry.socketId, { ...entry });
+    return true;
+  }
+
+  async leave(shareCode: string, socketId: string) {
+    const group = this.groups.get(shareCode);
+    group?.delete(socketId);
+    if (group?.size === 0) this.groups.delete(shareCode);
+  }
+
+  async clear(shareCode: string) {
+    this.groups.delete(shareCode);
+  }
+
+  async list(shareCode: string) {
+    return [...(this.groups.get(shareCode)?.values() || [])].map((entry) => ({
+      ...entry,
+    }));
+  }
+
+  async heartbeat() {}
+}
+
+// Redis layout: one hash per group (socket id -> entry and the instance
+// holding the socket), and a sorted set of instances by last heartbeat.
+// Entries of instances that stopped beating are skipped, so a crashed
+// instance doesn't leave people behind in their groups.
+const INSTANCES_KEY = "presence:instances";
+const getGroupKey = (shareCode: string) => `presence:group:${shareCode}`;
+
+interface StoredEntry extends PresenceEntry {
+  instanceId: string;
+}
+
+// Counts the distinct users on live instances before adding the socket,
+// and records this instance's heartbeat
+const JOIN_SCRIPT = `
+local entry = cjson.decode(ARGV[2])
+if ARGV[3] ~= "" then
+  local liveSince = tonumber(ARGV[4]) - tonumber(ARGV[5])
+  local users = {}
+  local count = 0
+  local entries = redis.call("HGETALL", KEYS[1])
+  for i = 1, #entries, 2 do
+    local present = cjson.decode(entries[i + 1])
+    local seen = redis.call("ZSCORE", KEYS[2], present.instanceId)
+    if seen and tonumber(seen) > liveSince and not users[present.userId] then
+      users[present.userId] = true
+      count = count + 1
+    end
+  end
+  if not users[entry.userId] and count >= tonumber(ARGV[3]) then return 0 end
+end
+redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+redis.call("ZADD", KEYS[2], ARGV[4], entry.instanceId)
+return 1
+`;
+
+// The client may already have parsed JSON replies
+const parseEntry = (value: unknown): StoredEntry =>
+  (typeof value === "string" ? JSON.parse(value) : value) as StoredEntry;
+
+// Shares presence between every server instance through Redis
+export class RedisPresenceStore implements PresenceStore {
+  private joinScript = redis.createScript<number>(JOIN_SCRIPT);
+
+  async join(shareCode: string, entry: PresenceEntry, capacity: number | null) {
+    const joined = await this.joinScript.exec(
+      [getGroupKey(shareCode), INSTANCES_KEY],
+      [
+        entry.socketId,
+        JSON.stringify({ ...entry, instanceId: INSTANCE_ID }),
+        capacity === null ? "" : String(capacity),
+        String(Date.now()),
+        String(INSTANCE_TTL_MS),
+      ]
+    );
+    return Number(joined) === 1;
+  }
+
+  async leave(shareCode: string, socketId: string) {
+    await redis.hdel(getGroupKey(shareCode), socketId);
+  }
+
+  async clear(shareCode: string) {
+    await redis.del(getGroupKey(shareCode));
+  }
+
+  async list(shareCode: string) {
+    const now = Date.now();
+    const [entries, instances] = await Promise.all([
+      redis.hgetall(getGroupKey(shareCode)),
+      redis.zrangeWithScores(INSTANCES_KEY),
+    ]);
+
+    const lastSeen = new Map(instances);
+
+    const present: PresenceEntry[] = [];
+    const forgotten: string[] = [];
+    for (const [socketId, stored] of Object.entries(entries)) {
+      const { instanceId, ...entry } = parseEntry(stored);
+      const seen = lastSeen.get(instanceId);
+      if (seen === undefined) forgotten.push(socketId);
+      else if (seen > now - INSTANCE_TTL_MS) present.push(entry);
+    }
+
+    if (forgotten.length > 0) {
+      await redis.hdel(getGroupKey(shareCode), ...forgotten);
+    }
+    return present;
+  }
+
+  async heartbeat() {
+    const now = Date.now();
+    await Promise.all([
+      redis.zadd(INSTANCES_KEY, now, INSTANCE_ID),
+      redis.zremrangeByScore(INSTANCES_KEY, 0, now - FORGET_INSTANCE_MS),
+    ]);
+  }
+}
+
+let store: PresenceStore | null = null;
+
+const createPresenceStore = (): PresenceStore => {
+  const driver = process.env.PRESENCE_STORE_DRIVER || "redis";
+
+  switch (driver) {
+    case "redis":
+      return new RedisPresenceStore();
+    case "memory":
+      return new MemoryPresenceStore();
+    default:
+      throw new Error(`Unknown PRESENCE_STORE_DRIVER: ${driver}`);
+  }
+};
+
+export const getPresenceStore = (): PresenceStore => {
+  if (!store) {
+    store = createPresenceStore();
+  }
+  return store;
+};
+
+// Swap in another backend (e.g. MemoryPresenceStore in tests) at startup
+export const setPresenceStore = (nextStore: PresenceStore) => {
+  store = nextStore;
+};
+
+// Keep this instance's sockets counted while it runs. Returns a function
+// that stops the heartbeat.
+export const watchPresence = () => {
+  const beat = () =>
+    getPresenceStore()
+      .heartbeat()
+      .catch((error) => {
+        console.error("Presence heartbeat failed:", error);
+      });
+
+  beat();
+  const timer = setInterval(beat, HEARTBEAT_MS);
+  return () => clearInterval(timer);
+};
@@ -2,10 +2,70 @@
 import { Server, Socket } from "socket.io";
 import jwt from "jsonwebtoken";
 import { supabase, supabaseAnon } from "../config/supabase";
+import { getCurrentFormVersion } from "./formVersionService";
+import {
+  AVAILABILITY_COLUMNS,
+  getGroupAvailability,
+  getShareCodeAvailability,
+} from "./availabilityService";
+import { isGuestShareCode } from "./guestService";
+import { GroupAccess, getGroupAccess } from "./membershipService";
+import {
+  applyTextUpdate,
+  CO_EDIT_FIELD_TYPES,
+  discardTextDocuments,
+  encodeTextState,
+  getTextDocument,
+  isCoEditField,
+  releaseResponseTextDocuments,
+  releaseTextDocuments,
+  replaceOpenText,
+} from "./coEditService";
+import {
+  FieldLock,
+  findConflictingLock,
+  getLockStore,
+  isHandedOff,
+  LockQueue,
+  LockTarget,
+  LockWaiter,
+  runExclusive,
+  watchLockExpiry,
+} from "./lockService";
+import { getPresenceStore, watchPresence } from "./presenceService";
+import { FormAvailability } from "../utils/availability";
+import { describeUser } from "../utils/helpers";
+import {
+  parseMatrixValue,
+  serializeMatrixValue,
+  validateFieldValue,
+} from "../utils/fieldValidation";
+import {
+  generateRowId,
+  MAX_REPEATER_ROWS,
+  parseRepeaterValue,
+  RepeaterRow,
+  serializeRepeaterValue,
+} from "../utils/repeaterValues";
+import {
+  getSectionProgress,
+  isSectionField,
+  SectionProgress,
+} from "../utils/sections";
+import {
+  getHandoffDelayMs,
+  getLockTimeoutMs,
+  LOCK_SETTINGS_COLUMNS,
+  LockSettings,
+} from "../utils/lockSettings";
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
   userEmail?: string;
+  // Set for guests, who may only use this share code
+  guestShareCode?: string;
+  // Sharing code ids of the group rooms joined, by share code
+  joinedGroups?: Map<string, string>;
 }
 
 interface SupabasePayload {
@@ -20,108 +80,757 @@ interface ResponseFieldPayload {
   value: string;
   response_id: string;
 }
-const cleanupExpiredLocks = async (io: Server) => {
+
+// Socket.IO server reference so HTTP controllers can notify live groups
+let ioInstance: Server | null = null;
+
+// Broadcast an event to every group room (sharing code) of a form
+export const emitToFormGroups = async (
+  formId: string,
+  event: string,
+  payload: Record<string, any>
+) => {
+  if (!ioInstance) return;
+
   try {
-    // Get expired locks first
-    const { data: expiredLocks, error: selectError } = await supabase
-      .from("field_locks")
-      .select("field_id, sharing_code_id")
-      .lt("expires_at", new Date().toISOString());
-
-    if (selectError) {
-      console.error("Error selecting expired locks:", selectError);
+    const { data: sharingCodes, error } = await supabase
+      .from("form_sharing_codes")
+      .select("share_code")
+      .eq("form_id", formId);
+
+    if (error) {
+      console.error("Error loading sharing codes for broadcast:", error);
       return;
     }
 
-    if (expiredLocks && expiredLocks.length > 0) {
-      console.log(`Found ${expiredLocks.length} expired locks to clean up`);
+    (sharingCodes || []).forEach((sharingCode: any) => {
+      ioInstance!.to(sharingCode.share_code).emit(event, payload);
+    });
+  } catch (error) {
+    console.error(`Failed to broadcast ${event} for form ${formId}:`, error);
+  }
+};
 
-      // Get sharing codes for these locks
-      const sharingCodeIds = [
-        ...new Set(expiredLocks.map((lock) => lock.sharing_code_id)),
-      ];
+// Broadcast an event to a single group room
+export const emitToGroup = (
+  shareCode: string,
+  event: string,
+  payload: Record<string, any>
+) => {
+  ioInstance?.to(shareCode).emit(event, payload);
+};
 
-      const { data: sharingCodes, error: sharingError } = await supabase
-        .from("form_sharing_codes")
-        .select("id, share_code")
-        .in("id", sharingCodeIds);
+// Which pages of a group's draft are complete; null for forms without
+// sections
+const getGroupSectionProgress = async (
+  formId: string,
+  sharingCodeId: string
+): Promise<Record<string, SectionProgress> | null> => {
+  const { data: fields } = await supabase
+    .from("form_fields")
+    .select("*")
+    .eq("form_id", formId)
+    .is("archived_at", null);
+
+  if (!fields || !fields.some(isSectionField)) return null;
+
+  const { data: draft } = await supabase
+    .from("form_responses")
+    .select(`*, response_fields(field_id, value)`)
+    .eq("sharing_code_id", sharingCodeId)
+    .eq("status", "DRAFT")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const values: Record<string, string> = {};
+  (draft?.response_fields || []).forEach((field: any) => {
+    values[field.field_id] = field.value;
+  });
 
-      if (!sharingError && sharingCodes) {
-        const sharingCodeMap = new Map(
-          sharingCodes.map((sc) => [sc.id, sc.share_code])
-        );
+  return getSectionProgress(fields, values);
+};
 
-        // Notify about unlocked fields
-        expiredLocks.forEach((lock: any) => {
-          const shareCode = sharingCodeMap.get(lock.sharing_code_id);
-          if (shareCode) {
-            io.to(shareCode).emit("field-unlocked", {
-              fieldId: lock.field_id,
-            });
-            console.log(
-              `Notified room ${shareCode} about unlocked field ${lock.field_id}`
-            );
-          }
-        });
+// Debounced per group so a burst of keystrokes results in one broadcast
+const sectionProgressTimers = new Map<string, NodeJS.Timeout>();
+
+export const scheduleSectionProgress = (
+  shareCode: string,
+  formId: string,
+  sharingCodeId: string
+) => {
+  clearTimeout(sectionProgressTimers.get(shareCode));
+  sectionProgressTimers.set(
+    shareCode,
+    setTimeout(async () => {
+      sectionProgressTimers.delete(shareCode);
+      try {
+        const progress = await getGroupSectionProgress(formId, sharingCodeId);
+        if (progress) emitToGroup(shareCode, "section-progress", progress);
+      } catch (error) {
+        console.error("Failed to broadcast section progress:", error);
       }
+    }, 300)
+  );
+};
+
+// One timer per group room for its next scheduled opening or closing
+const availabilityTimers = new Map<string, NodeJS.Timeout>();
+// setTimeout can't wait longer than ~24.8 days; later changes are picked
+// up when someone joins again
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const isRoomOccupied = async (shareCode: string) =>
+  (await getPresenceStore().list(shareCode)).length > 0;
+
+export const watchAvailability = (
+  shareCode: string,
+  availability: FormAvailability
+) => {
+  clearTimeout(availabilityTimers.get(shareCode));
+  availabilityTimers.delete(shareCode);
+
+  const boundary =
+    availability.status === "NOT_YET_OPEN"
+      ? availability.opensAt
+      : availability.status === "OPEN"
+      ? availability.closesAt
+      : null;
+  if (!boundary) return;
+
+  const delay = new Date(boundary).getTime() - Date.now();
+  if (delay > MAX_TIMER_DELAY) return;
+
+  availabilityTimers.set(
+    shareCode,
+    setTimeout(() => {
+      availabilityTimers.delete(shareCode);
+      refreshGroupAvailability(shareCode);
+    }, Math.max(0, delay) + 100)
+  );
+};
+
+// Recompute a group's availability and tell everyone in its room
+export const refreshGroupAvailability = async (shareCode: string) => {
+  try {
+    if (!(await isRoomOccupied(shareCode))) return;
+
+    const availability = await getShareCodeAvailability(shareCode);
+    if (!availability) return;
+
+    emitToGroup(shareCode, "form-availability", availability);
+    watchAvailability(shareCode, availability);
+  } catch (error) {
+    console.error(`Failed to refresh availability of ${shareCode}:`, error);
+  }
+};
+
+// After schedule, limit or submission changes that may affect every group
+export const notifyAvailabilityChange = async (formId: string) => {
+  const { data: sharingCodes, error } = await supabase
+    .from("form_sharing_codes")
+    .select("share_code")
+    .eq("form_id", formId);
+
+  if (error) {
+    console.error("Error loading sharing codes for availability:", error);
+    return;
+  }
+
+  await Promise.all(
+    (sharingCodes || []).map((sharingCode: any) =>
+      refreshGroupAvailability(sharingCode.share_code)
+    )
+  );
+};
+
+// People waiting for a place in a full group sit in a room of their own
+const getWaitingRoom = (shareCode: string) => `waiting:${shareCode}`;
+
+// Distinct users connected to a group on any server instance; several tabs
+// count once
+export const getGroupUserIds = async (
+  shareCode: string
+): Promise<Set<string>> =>
+  new Set(
+    (await getPresenceStore().list(shareCode)).map((entry) => entry.userId)
+  );
+
+// Let people waiting for a full group try again after someone left or the
+// capacity was raised
+export const notifyGroupSlotAvailable = (shareCode: string) => {
+  ioInstance
+    ?.to(getWaitingRoom(shareCode))
+    .emit("group-slot-available", { shareCode });
+};
+
+// Disconnect everyone from a group room after its code was deactivated,
+// rotated or deleted, and drop the locks they held. The sockets stay
+// connected so they can join another group.
+export const evictGroup = async (
+  sharingCode: { id: string; share_code: string },
+  reason: string
+) => {
+  const shareCode = sharingCode.share_code;
+  clearTimeout(availabilityTimers.get(shareCode));
+  availabilityTimers.delete(shareCode);
+  clearTimeout(sectionProgressTimers.get(shareCode));
+  sectionProgressTimers.delete(shareCode);
+
+  if (ioInstance) {
+    ioInstance.to(shareCode).emit("group-access-revoked", {
+      shareCode,
+      reason,
+    });
+    ioInstance.in(shareCode).socketsLeave(shareCode);
+  }
+
+  try {
+    await getPresenceStore().clear(shareCode);
+    await getLockStore().releaseGroup(sharingCode.id);
+    await releaseTextDocuments(shareCode);
+  } catch (error) {
+    console.error(
+      `Failed to release presence, locks and text of ${shareCode}:`,
+      error
+    );
+  }
+};
+
+// Remove guests from a group whose code no longer allows them. They are
+// disconnected, which also releases their locks.
+export const evictGuests = async (shareCode: string) => {
+  if (!ioInstance) return;
+
+  for (const guest of await getPresenceStore().list(shareCode)) {
+    if (!guest.guest) continue;
+
+    ioInstance.to(guest.socketId).emit("group-access-revoked", {
+      shareCode,
+      reason: "Guest access to this group has been turned off",
+    });
+    ioInstance.in(guest.socketId).disconnectSockets(true);
+  }
+};
+
+// Re-check what the sockets in a group may do after its membership changed
+// (or only those of one user). Sockets that lost access leave the room and
+// their locks are released; the others are sent their current access.
+export const refreshMemberAccess = async (
+  sharingCode: {
+    id: string;
+    form_id: string;
+    share_code: string;
+    is_closed?: boolean;
+  },
+  userId?: string
+) => {
+  const shareCode = sharingCode.share_code;
+  if (!ioInstance) return;
+
+  const accessByUser = new Map<string, GroupAccess>();
+  const removedUsers = new Set<string>();
+
+  for (const member of await getPresenceStore().list(shareCode)) {
+    if (userId && member.userId !== userId) continue;
+
+    if (!accessByUser.has(member.userId)) {
+      accessByUser.set(
+        member.userId,
+        await getGroupAccess(sharingCode, member.userId)
+      );
+    }
+    const access = accessByUser.get(member.userId)!;
+
+    if (access.canView) {
+      ioInstance.to(member.socketId).emit("group-access", access);
+      continue;
+    }
+
+    ioInstance.to(member.socketId).emit("group-access-revoked", {
+      shareCode,
+      reason: "You are no longer a member of this group",
+    });
+    ioInstance.in(member.socketId).socketsLeave(shareCode);
+    await getPresenceStore().leave(shareCode, member.socketId);
+    removedUsers.add(member.userId);
+  }
+
+  if (removedUsers.size === 0) return;
+
+  await leaveLockQueues(sharingCode.id, shareCode, (waiter) =>
+    removedUsers.has(waiter.userId)
+  );
+  await releaseUserLocks(sharingCode.id, [...removedUsers]);
+  ioInstance
+    .to(shareCode)
+    .emit("active-users", await getActiveUsersInRoom(shareCode));
+  notifyGroupSlotAvailable(shareCode);
+};
 
-      // Delete expired locks
-      const { error: deleteError } = await supabase
-        .from("field_locks")
-        .delete()
-        .lt("expires_at", new Date().toISOString());
+// Changes only count from sockets inside the group's room: guests of
+// another group and people waiting outside a full group are turned away
+const isInGroup = (socket: AuthenticatedSocket, shareCode: string) => {
+  const joined =
+    !!socket.joinedGroups?.get(shareCode) && socket.rooms.has(shareCode);
+  if (!joined) {
+    socket.emit("error", "Join the group before changing its answers");
+  }
+  return joined;
+};
 
-      if (deleteError) {
-        console.error("Error deleting expired locks:", deleteError);
+// Answers stop changing once a group closes, expires or reaches its
+// submission limit
+const isGroupOpen = async (socket: AuthenticatedSocket, shareCode: string) => {
+  const availability = await getShareCodeAvailability(shareCode);
+  if (!availability) {
+    socket.emit("error", "Share code not found");
+    return false;
+  }
+  if (!availability.open) {
+    socket.emit("form-availability", availability);
+    socket.emit("error", availability.message);
+  }
+  return availability.open;
+};
+
+// Closed groups only let editors and submitters change answers
+const canEditGroup = async (
+  socket: AuthenticatedSocket,
+  sharingCode: { id: string; form_id: string; is_closed?: boolean }
+) => {
+  const access = await getGroupAccess(sharingCode, socket.userId!);
+  if (!access.canEdit) {
+    socket.emit("error", "Your role in this group can't change answers");
+  }
+  return access.canEdit;
+};
+
+// Get or create the collaborative draft response for a specific sharing code
+export const getOrCreateCollaborativeResponse = async (
+  formId: string,
+  sharingCodeId: string,
+  userId: string
+) => {
+  try {
+    // Try to get the most recent draft for this form and sharing code
+    let { data: response, error: responseError } = await supabase
+      .from("form_responses")
+      .select("id")
+      .eq("form_id", formId)
+      .eq("sharing_code_id", sharingCodeId)
+      .eq("status", "DRAFT")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .single();
+
+    // If no response exists, create a temporary one for collaborative editing
+    if (responseError && responseError.code === "PGRST116") {
+      const formVersion = await getCurrentFormVersion(formId);
+      const { data: newResponse, error: createError } = await supabase
+        .from("form_responses")
+        .insert({
+          form_id: formId,
+          sharing_code_id: sharingCodeId,
+          user_id: userId,
+          status: "DRAFT",
+          form_version: formVersion,
+        })
+        .select("id")
+        .single();
+
+      if (createError) {
+        console.error("Failed to create collaborative response:", createError);
+        return null;
       } else {
-        console.log(`✅ Cleaned up ${expiredLocks.length} expired locks`);
+        response = newResponse;
+        console.log(
+          "📄 Created new collaborative response for sharing code:",
+          response?.id
+        );
       }
+    } else if (responseError) {
+      console.error("Error getting response:", responseError);
+      return null;
     }
+
+    return response;
+  } catch (error) {
+    console.error("Error in getOrCreateCollaborativeResponse:", error);
+    return null;
+  }
+};
+
+// Key clients use to track locks; MATRIX rows lock independently
+const getLockKey = (fieldId: string, rowKey?: string) =>
+  rowKey ? `${fieldId}:${rowKey}` : fieldId;
+
+const emitFieldUnlocked = (lock: FieldLock, reason?: string) => {
+  ioInstance?.to(lock.shareCode).emit("field-unlocked", {
+    fieldId: lock.fieldId,
+    rowKey: lock.rowKey || undefined,
+    reason,
+  });
+};
+
+// The new holder gets the fencing token its edits have to present; the
+// group learns who holds the field
+const announceLock = (lock: FieldLock) => {
+  ioInstance?.to(lock.socketId).emit("lock-acquired", {
+    fieldId: lock.fieldId,
+    rowKey: lock.rowKey || undefined,
+    token: lock.token,
+    expiresAt: lock.expiresAt,
+  });
+  ioInstance?.to(lock.shareCode).emit("field-locked", {
+    fieldId: lock.fieldId,
+    rowKey: lock.rowKey || undefined,
+    userId: lock.userId,
+    userEmail: lock.userEmail,
+  });
+};
+
+const emitLockQueue = (shareCode: string, queue: LockQueue) => {
+  ioInstance?.to(shareCode).emit("lock-queue", {
+    fieldId: queue.fieldId,
+    rowKey: queue.rowKey || undefined,
+    waiters: queue.waiters.map(({ userId, userEmail }) => ({
+      userId,
+      userEmail,
+    })),
+  });
+};
+
+const getGroupLockSettings = async (
+  sharingCodeId: string
+): Promise<Partial<LockSettings> | null> => {
+  const { data } = await supabase
+    .from("form_sharing_codes")
+    .select(`*, forms(${LOCK_SETTINGS_COLUMNS})`)
+    .eq("id", sharingCodeId)
+    .single();
+  return data?.forms || null;
+};
+
+// Tell the holder someone asked for the field; it moves to the first
+// person waiting once the grace period is over, unless released sooner.
+// The hand-off is kept with the lock, so whichever instance sweeps locks
+// carries it out.
+const scheduleHandoff = async (
+  lock: FieldLock,
+  requestedBy: string,
+  delay: number
+) => {
+  const pending = await getLockStore().requestHandoff(
+    lock,
+    lock.token,
+    Date.now() + delay
+  );
+  if (!pending) return;
+
+  ioInstance?.to(lock.socketId).emit("edit-requested", {
+    fieldId: lock.fieldId,
+    rowKey: lock.rowKey || undefined,
+    requestedBy,
+    handoffAt: pending.handoffAt,
+  });
+};
+
+// Give a field (or row) that just became free to the first person waiting
+const handOffLock = async (released: FieldLock) => {
+  const store = getLockStore();
+  const [next] = (await store.getQueue(released)).waiters;
+  if (!next) return;
+
+  const result = await store.acquire(
+    {
+      sharingCodeId: released.sharingCodeId,
+      shareCode: released.shareCode,
+      fieldId: released.fieldId,
+      rowKey: released.rowKey,
+      ...next,
+    },
+    released.ttl
+  );
+  // Someone else took an overlapping lock first; the queue keeps waiting
+  if ("conflict" in result) return;
+
+  const queue = await store.dequeue(released, next.userId);
+  announceLock(result.lock);
+  emitLockQueue(released.shareCode, queue);
+
+  if (queue.waiters.length > 0) {
+    await scheduleHandoff(
+      result.lock,
+      queue.waiters[0].userEmail,
+      getHandoffDelayMs(await getGroupLockSettings(released.sharingCodeId))
+    );
+  }
+};
+
+// A lock ended (released, expired or handed over): tell the group and pass
+// the field on to whoever waits for it
+const afterLockReleased = async (lock: FieldLock, reason?: string) => {
+  emitFieldUnlocked(lock, reason);
+  try {
+    await handOffLock(lock);
   } catch (error) {
-    console.error("Failed to clean up expired locks:", error);
+    console.error("Failed to hand over lock:", error);
   }
 };
-// Helper function to validate field value based on field type
-const validateFieldValue = (fieldType: string, value: string): boolean => {
-  if (!value || value.trim() === "") return true; // Empty values are allowed
-
-  switch (fieldType) {
-    case "EMAIL":
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      return emailRegex.test(value);
-    case "NUMBER":
-      return !isNaN(Number(value));
-    case "TEXT":
-    case "TEXTAREA":
-    case "DROPDOWN":
-    case "RADIO":
-    case "CHECKBOX":
-      return true; // These types accept any string value
-    default:
-      return true;
+
+// Release what the given users hold in a group and tell the group
+const releaseUserLocks = async (sharingCodeId: string, userIds: string[]) => {
+  try {
+    const released = await getLockStore().releaseGroup(sharingCodeId, userIds);
+    await Promise.all(released.map((lock) => afterLockReleased(lock)));
+  } catch (error) {
+    console.error(`Failed to release locks in group ${sharingCodeId}:`, error);
   }
 };
 
-// Helper function to get active users in a room
-const getActiveUsersInRoom = (io: Server, roomName: string): string[] => {
-  const room = io.sockets.adapter.rooms.get(roomName);
-  const activeUsers: string[] = [];
-
-  if (room) {
-    for (const socketId of room) {
-      const userSocket = io.sockets.sockets.get(
-        socketId
-      ) as AuthenticatedSocket;
-      if (userSocket?.userEmail) {
-        activeUsers.push(userSocket.userEmail);
+// Take the matching waiters out of a group's queues
+const leaveLockQueues = async (
+  sharingCodeId: string,
+  shareCode: string,
+  leaves: (waiter: LockWaiter) => boolean
+) => {
+  try {
+    const store = getLockStore();
+    for (const queue of await store.listQueues(sharingCodeId)) {
+      const leaving = queue.waiters.filter(leaves);
+      if (leaving.length === 0) continue;
+
+      let updated = queue;
+      for (const waiter of leaving) {
+        updated = await store.dequeue(queue, waiter.userId);
       }
+      if (updated.waiters.length === 0) await store.cancelHandoff(queue);
+      emitLockQueue(shareCode, updated);
     }
+  } catch (error) {
+    console.error(`Failed to update lock queues of ${shareCode}:`, error);
   }
+};
 
-  return activeUsers;
+// Edits and heartbeats of locked fields present the fencing token of their
+// lock. A valid token keeps the lock alive; otherwise the sender is told
+// the lock is gone.
+const renewHeldLock = async (
+  socket: AuthenticatedSocket,
+  target: LockTarget,
+  token: unknown,
+  lostReason = "Your lock on this field ended, so the change wasn't saved"
+) => {
+  const lock =
+    typeof token === "number"
+      ? await getLockStore().renew(target, socket.userId!, token)
+      : null;
+
+  if (!lock) {
+    const conflictingLock = await findConflictingLock(target, socket.userId!);
+    socket.emit("lock-lost", {
+      fieldId: target.fieldId,
+      rowKey: target.rowKey || undefined,
+      reason: conflictingLock
+        ? `Field is locked by ${conflictingLock.userEmail}`
+        : lostReason,
+    });
+  }
+  return lock;
 };
 
+// REPEATER and MATRIX row changes are read-modify-write on one stored
+// value; run them one at a time per draft field, on whichever instance they
+// arrive, so rows changed at the same moment don't clobber each other
+const queueFieldChange = <T>(
+  draftId: string,
+  fieldId: string,
+  task: () => Promise<T>
+): Promise<T> => runExclusive(`field:${draftId}:${fieldId}`, task);
+
+// Apply a row change to a REPEATER section of the group's draft. The change
+// returns the new rows, or an error message to send back to the client.
+const changeRepeaterRows = async (
+  socket: AuthenticatedSocket,
+  shareCode: string,
+  fieldId: string,
+  change: (rows: RepeaterRow[]) => RepeaterRow[] | string
+) => {
+  const { data: sharingCodeData } = await supabase
+    .from("form_sharing_codes")
+    .select(`*, forms(id, is_active)`)
+    .eq("share_code", shareCode)
+    .eq("is_active", true)
+    .single();
+
+  if (!sharingCodeData || !sharingCodeData.forms.is_active) {
+    socket.emit("error", "Share code not found or inactive");
+    return null;
+  }
+
+  if (!(await canEditGroup(socket, sharingCodeData))) return null;
+
+  const { data: field } = await supabase
+    .from("form_fields")
+    .select("id, label, type, required, sub_fields, validation")
+    .eq("id", fieldId)
+    .eq("form_id", sharingCodeData.forms.id)
+    .is("archived_at", null)
+    .single();
+
+  if (!field || field.type !== "REPEATER") {
+    socket.emit("error", "Repeating section not found in this form");
+    return null;
+  }
+
+  const draft = await getOrCreateCollaborativeResponse(
+    sharingCodeData.forms.id,
+    sharingCodeData.id,
+    socket.userId!
+  );
+
+  if (!draft) {
+    socket.emit("error", "Failed to update repeating section");
+    return null;
+  }
+
+  return queueFieldChange(draft.id, fieldId, async () => {
+    const { data: storedField } = await supabase
+      .from("response_fields")
+      .select("value")
+      .eq("response_id", draft.id)
+      .eq("field_id", fieldId)
+      .maybeSingle();
+
+    const rows = change(parseRepeaterValue(storedField?.value || ""));
+    const value = typeof rows === "string" ? "" : serializeRepeaterValue(rows);
+    const validationError =
+      typeof rows === "string" ? rows : validateFieldValue(field, value);
+
+    if (validationError) {
+      socket.emit("field-validation-error", {
+        fieldId,
+        error: validationError,
+      });
+      return null;
+    }
+
+    const { error: saveError } = await supabase.from("response_fields").upsert(
+      {
+        response_id: draft.id,
+        field_id: fieldId,
+        value,
+      },
+      {
+        onConflict: "response_id,field_id",
+      }
+    );
+
+    if (saveError) {
+      console.error("Failed to save repeating section:", saveError);
+      socket.emit("error", "Failed to update repeating section");
+      return null;
+    }
+
+    scheduleSectionProgress(
+      shareCode,
+      sharingCodeData.forms.id,
+      sharingCodeData.id
+    );
+
+    return { sharingCodeData, field, rows: rows as RepeaterRow[] };
+  });
+};
+
+// Send the document of every co-edited field of a group to a socket (or
+// the whole room), so the client merges its typing into the same text.
+// Fields without a saved draft start from an empty document on both sides.
+const sendTextStates = async (
+  target: { emit(event: string, payload: Record<string, any>): unknown },
+  sharingCodeData: any,
+  responseId?: string
+) => {
+  const { data: fields } = await supabase
+    .from("form_fields")
+    .select("id, type")
+    .eq("form_id", sharingCodeData.forms.id)
+    .is("archived_at", null)
+    .in("type", CO_EDIT_FIELD_TYPES);
+
+  await Promise.all(
+    (fields || []).map(async (field: any) => {
+      const document = responseId
+        ? await getTextDocument({
+            shareCode: sharingCodeData.share_code,
+            formId: sharingCodeData.forms.id,
+            sharingCodeId: sharingCodeData.id,
+            responseId,
+            fieldId: field.id,
+          })
+        : null;
+
+      target.emit("text-state", {
+        fieldId: field.id,
+        update: document ? await encodeTextState(document) : null,
+      });
+    })
+  );
+};
+
+// A submitted or reset draft starts its co-edited text over: every
+// instance drops its copies, the histories are discarded and the group
+// gets fresh documents of the saved text
+export const restartDraftText = async (sharingCodeData: any) => {
+  if (!ioInstance || sharingCodeData.forms.edit_mode !== "CO_EDIT") return;
+
+  const { data: draft } = await supabase
+    .from("form_responses")
+    .select("id")
+    .eq("sharing_code_id", sharingCodeData.id)
+    .eq("status", "DRAFT")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!draft) return;
+
+  const { data: fields } = await supabase
+    .from("form_fields")
+    .select("id")
+    .eq("form_id", sharingCodeData.forms.id)
+    .is("archived_at", null)
+    .in("type", CO_EDIT_FIELD_TYPES);
+
+  // Only the Redis adapter reaches other instances
+  if (process.env.REDIS_URL) {
+    ioInstance.serverSideEmit("release-text-documents", draft.id);
+  }
+  await discardTextDocuments(
+    draft.id,
+    (fields || []).map((field: any) => field.id)
+  );
+  await sendTextStates(
+    ioInstance.to(sharingCodeData.share_code),
+    sharingCodeData,
+    draft.id
+  );
+};
+
+// Helper function to get active users in a group, on every server instance
+const getActiveUsersInRoom = async (shareCode: string): Promise<string[]> =>
+  (await getPresenceStore().list(shareCode)).map((entry) => entry.userEmail);
+
 export const setupSocketHandlers = (io: Server) => {
+  ioInstance = io;
+
+  // Another instance restarted a draft's co-edited text
+  io.on("release-text-documents", (responseId: string) => {
+    releaseResponseTextDocuments(responseId).catch((error) => {
+      console.error("Failed to release co-edited text:", error);
+    });
+  });
+
   // Authentication middleware for socket connections
   io.use(async (socket: AuthenticatedSocket, next) => {
     try {
@@ -133,7 +842,7 @@ export const setupSocketHandlers = (io: Server) => {
       const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
       const { data: user, error } = await supabase
         .from("users")
-        .select("id, email, role")
+        .select("id, email, role, display_name")
         .eq("id", decoded.userId)
         .single();
 
@@ -141,8 +850,18 @@ export const setupSocketHandlers = (io: Server) => {
         return next(new Error("Authentication error: User not found"));
       }
 
+      if (user.role === "GUEST") {
+        if (
+          !decoded.shareCode ||
+          !(await isGuestShareCode(decoded.shareCode))
+        ) {
+          return next(new Error("Authentication error: Guest access ended"));
+        }
+        socket.guestShareCode = decoded.shareCode;
+      }
+
       socket.userId = user.id;
-      socket.userEmail = user.email;
+      socket.userEmail = describeUser(user);
       next();
     } catch (error) {
       next(new Error("Authentication error: Invalid token"));
@@ -152,6 +871,19 @@ export const setupSocketHandlers = (io: Server) => {
   io.on("connection", (socket: AuthenticatedSocket) => {
     console.log(`✅ User ${socket.userEmail} connected (${socket.id})`);
 
+    // Guests can only send events for their own share code. join-form
+    // sends the code itself, every other event a { shareCode } payload.
+    if (socket.guestShareCode) {
+      socket.use(([, payload], next) => {
+        const shareCode =
+          typeof payload === "string" ? payload : payload?.shareCode;
+        if (shareCode !== undefined && shareCode !== socket.guestShareCode) {
+          return next(new Error("Guests can only join their shared form"));
+        }
+        next();
+      });
+    }
+
     socket.on("join-form", async (shareCode: string) => {
       try {
         console.log(`📝 User ${socket.userEmail} joining group ${shareCode}`);
@@ -162,7 +894,7 @@ export const setupSocketHandlers = (io: Server) => {
           .select(
             `
             *,
-            forms(id, title, is_active)
+            forms(id, title, created_by_id, edit_mode, ${AVAILABILITY_COLUMNS})
           `
           )
           .eq("share_code", shareCode)
@@ -174,11 +906,60 @@ export const setupSocketHandlers = (io: Server) => {
           return;
         }
 
+        const access = await getGroupAccess(sharingCodeData, socket.userId!);
+        if (!access.canView) {
+          socket.emit("error", "This group is members only");
+          return;
+        }
+        socket.emit("group-access", access);
+
+        // Outside the schedule or over the limit nobody can edit the group
+        const availability = await getGroupAvailability(
+          sharingCodeData,
+          sharingCodeData.forms
+        );
+        socket.emit("form-availability", availability);
+        if (!availability.open) {
+          socket.emit("error", availability.message);
+          return;
+        }
+
+        // Full groups put newcomers on hold until someone leaves; people
+        // already inside (e.g. in another tab) and the form owner get in.
+        // Counting and joining happen in one step, so two people can't
+        // both take the last place.
+        const admitted = await getPresenceStore().join(
+          shareCode,
+          {
+            socketId: socket.id,
+            userId: socket.userId!,
+            userEmail: socket.userEmail!,
+            guest: !!socket.guestShareCode,
+          },
+          sharingCodeData.forms.created_by_id === socket.userId
+            ? null
+            : sharingCodeData.capacity
+        );
+        if (!admitted) {
+          socket.join(getWaitingRoom(shareCode));
+          socket.emit("group-full", {
+            shareCode,
+            capacity: sharingCodeData.capacity,
+            message: `${sharingCodeData.group_name} is full (${sharingCodeData.capacity} people). You'll join as soon as a place frees up.`,
+          });
+          return;
+        }
+
         // Join the specific group room
+        socket.leave(getWaitingRoom(shareCode));
         socket.join(shareCode);
+        socket.joinedGroups = (socket.joinedGroups || new Map()).set(
+          shareCode,
+          sharingCodeData.id
+        );
 
         // Get current users in this specific group
-        const currentUsers = getActiveUsersInRoom(io, shareCode);
+        const currentUsers = await getActiveUsersInRoom(shareCode);
 
         // Notify others in this group about new user
         socket.to(shareCode).emit("user-joined", {
@@ -191,6 +972,8 @@ export const setupSocketHandlers = (io: Server) => {
         // Send current active users to everyone in this group
         io.to(shareCode).emit("active-users", currentUsers);
 
+        watchAvailability(shareCode, availability);
+
         // Send group information to the new user
         socket.emit("group-info", {
           shareCode,
@@ -200,26 +983,24 @@ export const setupSocketHandlers = (io: Server) => {
         });
 
         // Send current field locks for this sharing code
-        const { data: existingLocks } = await supabase
-          .from("field_locks")
-          .select(
-            `
-            field_id, 
-            user_id, 
-            expires_at,
-            users(email)
-          `
-          )
-          .eq("sharing_code_id", sharingCodeData.id)
-          .gt("expires_at", new Date().toISOString());
-
-        if (existingLocks && existingLocks.length > 0) {
+        const existingLocks = await getLockStore().list(sharingCodeData.id);
+        if (existingLocks.length > 0) {
           const lockData: Record<string, string> = {};
-          existingLocks.forEach((lock: any) => {
-            lockData[lock.field_id] = lock.users?.email || "Unknown user";
+          existingLocks.forEach((lock) => {
+            lockData[getLockKey(lock.fieldId, lock.rowKey)] = lock.userEmail;
           });
           socket.emit("current-locks", lockData);
         }
+        (await getLockStore().listQueues(sharingCodeData.id)).forEach((queue) =>
+          socket.emit("lock-queue", {
+            fieldId: queue.fieldId,
+            rowKey: queue.rowKey || undefined,
+            waiters: queue.waiters.map(({ userId, userEmail }) => ({
+              userId,
+              userEmail,
+            })),
+          })
+        );
 
         // Load current form data for this sharing code
         const { data: response } = await supabase
@@ -231,6 +1012,7 @@ export const setupSocketHandlers = (io: Server) => {
           `
           )
           .eq("sharing_code_id", sharingCodeData.id)
+          .eq("status", "DRAFT")
           .order("created_at", { ascending: false })
           .limit(1)
           .single();
@@ -242,98 +1024,110 @@ export const setupSocketHandlers = (io: Server) => {
           });
           socket.emit("form-data-sync", currentData);
         }
+
+        if (sharingCodeData.forms.edit_mode === "CO_EDIT") {
+          await sendTextStates(socket, sharingCodeData, response?.id);
+        }
+
+        const progress = await getGroupSectionProgress(
+          sharingCodeData.forms.id,
+          sharingCodeData.id
+        );
+        if (progress) {
+          socket.emit("section-progress", progress);
+        }
       } catch (error) {
         console.error("Join form error:", error);
         socket.emit("error", "Failed to join group");
       }
     });
-    // Enhanced field locking with immediate feedback
+    // Enhanced field locking with immediate feedback; MATRIX fields can
+    // lock a single row so collaborators can answer different rows at once
     socket.on(
       "lock-field",
-      async (data: { shareCode: string; fieldId: string }) => {
+      async (data: { shareCode: string; fieldId: string; rowKey?: string }) => {
         try {
           const { shareCode, fieldId } = data;
+          const rowKey = data.rowKey || "";
+          if (!isInGroup(socket, shareCode)) return;
           console.log(
-            `🔒 Lock request: ${socket.userEmail} wants to lock field ${fieldId}`
+            `🔒 Lock request: ${socket.userEmail} wants to lock ${getLockKey(
+              fieldId,
+              rowKey
+            )}`
           );
 
-          // Get form details
-          const { data: form } = await supabase
-            .from("forms")
-            .select("id, title")
+          // Get sharing code details
+          const { data: sharingCodeData } = await supabase
+            .from("form_sharing_codes")
+            .select(`*, forms(${LOCK_SETTINGS_COLUMNS})`)
             .eq("share_code", shareCode)
             .eq("is_active", true)
             .single();
 
-          if (!form) {
+          if (!sharingCodeData) {
             socket.emit("error", "Form not found");
             return;
           }
 
-          // Check if field is already locked by someone else
-          const { data: existingLock } = await supabase
-            .from("field_locks")
-            .select(
-              `
-            user_id, 
-            expires_at,
-            users(email)
-          `
-            )
-            .eq("form_id", form.id)
-            .eq("field_id", fieldId)
-            .gt("expires_at", new Date().toISOString())
-            .single();
+          if (!(await canEditGroup(socket, sharingCodeData))) return;
 
-          if (existingLock && existingLock.user_id !== socket.userId) {
-            console.log(
-              `❌ Lock failed: Field ${fieldId} already locked by ${
-                Array.isArray(existingLock.users) &&
-                existingLock.users.length > 0
-                  ? existingLock.users[0].email
-                  : "Another user"
-              }`
-            );
+          // People who asked for the field first get it first
+          const store = getLockStore();
+          const target = { sharingCodeId: sharingCodeData.id, fieldId, rowKey };
+          const queue = await store.getQueue(target);
+          const queued = queue.waiters.length > 0;
+          if (queued && queue.waiters[0].userId !== socket.userId) {
             socket.emit("lock-failed", {
               fieldId,
-              reason: "Field already locked",
-              lockedBy:
-                Array.isArray(existingLock.users) &&
-                existingLock.users.length > 0
-                  ? existingLock.users[0].email
-                  : "Another user",
+              rowKey: rowKey || undefined,
+              reason: "Others are waiting for this field",
             });
             return;
           }
 
-          // Create or update lock
-          const expiresAt = new Date(Date.now() + 60000).toISOString(); // 1 minute
-          const { error } = await supabase.from("field_locks").upsert(
+          // Taken unless the field (or this row) is locked by someone else
+          const result = await store.acquire(
             {
-              user_id: socket.userId!,
-              form_id: form.id,
-              field_id: fieldId,
-              expires_at: expiresAt,
+              ...target,
+              shareCode,
+              userId: socket.userId!,
+              userEmail: socket.userEmail!,
+              socketId: socket.id,
             },
-            {
-              onConflict: "form_id,field_id",
-            }
+            getLockTimeoutMs(sharingCodeData.forms)
           );
 
-          if (error) {
-            console.error("Lock creation error:", error);
-            socket.emit("error", "Failed to lock field");
+          if ("conflict" in result) {
+            const lockedBy = result.conflict.userEmail;
+            console.log(
+              `❌ Lock failed: ${getLockKey(
+                fieldId,
+                rowKey
+              )} already locked by ${lockedBy}`
+            );
+            socket.emit("lock-failed", {
+              fieldId,
+              rowKey: rowKey || undefined,
+              reason: "Field already locked",
+              lockedBy,
+            });
             return;
           }
 
-          console.log(`✅ Field ${fieldId} locked by ${socket.userEmail}`);
+          console.log(
+            `✅ ${getLockKey(fieldId, rowKey)} locked by ${
+              socket.userEmail
+            } (token ${result.lock.token})`
+          );
 
-          // Notify room about field lock (including the user who locked it)
-          io.to(shareCode).emit("field-locked", {
-            fieldId,
-            userId: socket.userId,
-            userEmail: socket.userEmail,
-          });
+          announceLock(result.lock);
+          if (queued) {
+            emitLockQueue(
+              shareCode,
+              await store.dequeue(target, socket.userId!)
+            );
+          }
         } catch (error) {
           console.error("Lock field error:", error);
           socket.emit("error", "Failed to lock field");
@@ -344,32 +1138,38 @@ export const setupSocketHandlers = (io: Server) => {
     // Enhanced field unlock
     socket.on(
       "unlock-field",
-      async (data: { shareCode: string; fieldId: string }) => {
+      async (data: { shareCode: string; fieldId: string; rowKey?: string }) => {
         try {
           const { shareCode, fieldId } = data;
+          const rowKey = data.rowKey || "";
           console.log(
-            `🔓 Unlock request: ${socket.userEmail} unlocking field ${fieldId}`
+            `🔓 Unlock request: ${socket.userEmail} unlocking ${getLockKey(
+              fieldId,
+              rowKey
+            )}`
           );
 
-          // Get form details
-          const { data: form } = await supabase
-            .from("forms")
+          // Get sharing code details
+          const { data: sharingCodeData } = await supabase
+            .from("form_sharing_codes")
             .select("id")
             .eq("share_code", shareCode)
             .single();
 
-          if (!form) return;
+          if (!sharingCodeData) return;
 
-          const { error } = await supabase
-            .from("field_locks")
-            .delete()
-            .eq("form_id", form.id)
-            .eq("field_id", fieldId)
-            .eq("user_id", socket.userId!);
+          const released = await getLockStore().release(
+            { sharingCodeId: sharingCodeData.id, fieldId, rowKey },
+            socket.userId!
+          );
 
-          if (!error) {
-            console.log(`✅ Field ${fieldId} unlocked by ${socket.userEmail}`);
-            io.to(shareCode).emit("field-unlocked", { fieldId });
+          if (released) {
+            console.log(
+              `✅ ${getLockKey(fieldId, rowKey)} unlocked by ${
+                socket.userEmail
+              }`
+            );
+            await afterLockReleased(released);
           }
         } catch (error) {
           console.error("Unlock field error:", error);
@@ -378,12 +1178,133 @@ export const setupSocketHandlers = (io: Server) => {
       }
     );
 
+    // Keeps our lock alive while its field is focused, even without typing
+    socket.on(
+      "lock-heartbeat",
+      async (data: {
+        shareCode: string;
+        fieldId: string;
+        rowKey?: string;
+        token: number;
+      }) => {
+        try {
+          const sharingCodeId = socket.joinedGroups?.get(data?.shareCode);
+          if (!sharingCodeId || !socket.rooms.has(data.shareCode)) return;
+
+          await renewHeldLock(
+            socket,
+            { sharingCodeId, fieldId: data.fieldId, rowKey: data.rowKey || "" },
+            data.token,
+            "Your lock on this field ended"
+          );
+        } catch (error) {
+          console.error("Lock heartbeat error:", error);
+        }
+      }
+    );
+
+    // Wait in line for a field someone else holds. The holder is told, and
+    // the field is handed over after the form's grace period.
+    socket.on(
+      "request-edit",
+      async (data: { shareCode: string; fieldId: string; rowKey?: string }) => {
+        try {
+          const { shareCode, fieldId } = data;
+          const rowKey = data.rowKey || "";
+          if (!socket.rooms.has(shareCode)) return;
+
+          const { data: sharingCodeData } = await supabase
+            .from("form_sharing_codes")
+            .select(`*, forms(${LOCK_SETTINGS_COLUMNS})`)
+            .eq("share_code", shareCode)
+            .eq("is_active", true)
+            .single();
+
+          if (!sharingCodeData) {
+            socket.emit("error", "Form not found");
+            return;
+          }
+
+          if (!(await canEditGroup(socket, sharingCodeData))) return;
+
+          const store = getLockStore();
+          const target = { sharingCodeId: sharingCodeData.id, fieldId, rowKey };
+          const holder = (await store.list(sharingCodeData.id)).find(
+            (lock) => lock.fieldId === fieldId && lock.rowKey === rowKey
+          );
+
+          if (!holder || holder.userId === socket.userId) {
+            // Nothing to wait for; the field can simply be taken
+            socket.emit("field-unlocked", {
+              fieldId,
+              rowKey: rowKey || undefined,
+            });
+            return;
+          }
+
+          const queue = await store.enqueue(target, {
+            userId: socket.userId!,
+            userEmail: socket.userEmail!,
+            socketId: socket.id,
+          });
+          emitLockQueue(shareCode, queue);
+
+          console.log(
+            `🙋 ${socket.userEmail} asked for ${getLockKey(
+              fieldId,
+              rowKey
+            )} held by ${holder.userEmail}`
+          );
+
+          await scheduleHandoff(
+            holder,
+            queue.waiters[0].userEmail,
+            getHandoffDelayMs(sharingCodeData.forms)
+          );
+        } catch (error) {
+          console.error("Request edit error:", error);
+          socket.emit("error", "Failed to request the field");
+        }
+      }
+    );
+
+    // Stop waiting for a field
+    socket.on(
+      "cancel-edit-request",
+      async (data: { shareCode: string; fieldId: string; rowKey?: string }) => {
+        try {
+          const sharingCodeId = socket.joinedGroups?.get(data?.shareCode);
+          if (!sharingCodeId) return;
+
+          const target = {
+            sharingCodeId,
+            fieldId: data.fieldId,
+            rowKey: data.rowKey || "",
+          };
+          const store = getLockStore();
+          const queue = await store.dequeue(target, socket.userId!);
+          if (queue.waiters.length === 0) await store.cancelHandoff(target);
+          emitLockQueue(data.shareCode, queue);
+        } catch (error) {
+          console.error("Cancel edit request error:", error);
+        }
+      }
+    );
+
     // Real-time field updates with comprehensive handling
     socket.on(
       "field-update",
-      async (data: { shareCode: string; fieldId: string; value: string }) => {
+      async (data: {
+        shareCode: string;
+        fieldId: string;
+        value: string;
+        rowKey?: string;
+        // Fencing token of the sender's lock on the field (or row)
+        token?: number;
+      }) => {
         try {
           const { shareCode, fieldId, value } = data;
+          const rowKey = data.rowKey || "";
           console.log(
             `📝 Field update: ${fieldId} = "${value}" by ${socket.userEmail} in group ${shareCode}`
           );
@@ -393,9 +1314,11 @@ export const setupSocketHandlers = (io: Server) => {
             socket.emit("error", "Invalid field update data");
             return;
           }
+          if (!isInGroup(socket, shareCode)) return;
+          if (!(await isGroupOpen(socket, shareCode))) return;
 
           // Sanitize value
-          const sanitizedValue = value ? String(value).trim() : "";
+          let sanitizedValue = value ? String(value).trim() : "";
 
           // Get sharing code details
           const { data: sharingCodeData, error: sharingError } = await supabase
@@ -421,12 +1344,17 @@ export const setupSocketHandlers = (io: Server) => {
             return;
           }
 
+          if (!(await canEditGroup(socket, sharingCodeData))) return;
+
           // Verify that the field exists in this form
           const { data: field, error: fieldError } = await supabase
             .from("form_fields")
-            .select("id, label, type, required")
+            .select(
+              "id, label, type, required, options, matrix_rows, validation"
+            )
             .eq("id", fieldId)
             .eq("form_id", sharingCodeData.forms.id)
+            .is("archived_at", null)
             .single();
 
           if (fieldError || !field) {
@@ -435,54 +1363,115 @@ export const setupSocketHandlers = (io: Server) => {
             return;
           }
 
-          // Validate field value based on type
-          if (
-            sanitizedValue &&
-            !validateFieldValue(field.type, sanitizedValue)
-          ) {
-            socket.emit("error", `Invalid value for ${field.type} field`);
+          // Attachments change only through the file upload endpoints
+          if (field.type === "FILE") {
+            socket.emit("field-validation-error", {
+              fieldId,
+              error: "Files must be added or removed through the uploader",
+            });
             return;
           }
 
-          // Check field lock for this specific sharing code (ALTERNATIVE FIX)
-          const { data: lockData, error: lockError } = await supabase
-            .from("field_locks")
-            .select("user_id, expires_at")
-            .eq("sharing_code_id", sharingCodeData.id)
-            .eq("field_id", fieldId)
-            .gt("expires_at", new Date().toISOString())
-            .single();
-
-          let lock = null;
-          let lockedByEmail = "another user";
+          if (field.type === "SECTION") {
+            socket.emit("error", "Sections don't hold a value");
+            return;
+          }
 
-          if (lockData && !lockError) {
-            // Get user email separately to avoid join issues
-            const { data: userData, error: userError } = await supabase
-              .from("users")
-              .select("email")
-              .eq("id", lockData.user_id)
-              .single();
+          if (field.type === "CALCULATED") {
+            socket.emit(
+              "error",
+              "Calculated fields are computed automatically"
+            );
+            return;
+          }
 
-            lock = lockData;
-            lockedByEmail = userData?.email || "another user";
+          // Repeated sections change row by row; only clearing is allowed here
+          if (field.type === "REPEATER" && sanitizedValue) {
+            socket.emit("field-validation-error", {
+              fieldId,
+              error: "Rows must be changed through the row controls",
+            });
+            return;
+          }
 
-            if (userError) {
-              console.error("Error fetching user data for lock:", userError);
+          // Only the holder of the field (or row) lock may write, under
+          // the lock's current fencing token
+          const lock = await renewHeldLock(
+            socket,
+            { sharingCodeId: sharingCodeData.id, fieldId, rowKey },
+            data.token
+          );
+          if (!lock) return;
+
+          // A MATRIX row update carries only that row's column; merge it into
+          // the stored grid, one change at a time, so concurrent answers to
+          // other rows survive. The merged grid is saved right away.
+          const matrixRow = field.type === "MATRIX" && !!rowKey;
+          if (matrixRow) {
+            const draft = await getOrCreateCollaborativeResponse(
+              sharingCodeData.forms.id,
+              sharingCodeData.id,
+              socket.userId!
+            );
+            if (!draft) {
+              socket.emit("error", "Failed to update field");
+              return;
             }
-          } else if (lockError && lockError.code !== "PGRST116") {
-            console.error("Error checking lock:", lockError);
-          }
-
-          // Allow update if no lock exists or user owns the lock
-          const canUpdate = !lock || lock.user_id === socket.userId;
 
-          if (!canUpdate) {
-            socket.emit(
-              "error",
-              `Field is locked by ${lockedByEmail} in this group`
+            const merged = await queueFieldChange(
+              draft.id,
+              fieldId,
+              async () => {
+                const { data: storedField } = await supabase
+                  .from("response_fields")
+                  .select("value")
+                  .eq("response_id", draft.id)
+                  .eq("field_id", fieldId)
+                  .maybeSingle();
+
+                const answers = parseMatrixValue(storedField?.value || "");
+                if (sanitizedValue) {
+                  answers[rowKey] = sanitizedValue;
+                } else {
+                  delete answers[rowKey];
+                }
+                const grid = serializeMatrixValue(answers);
+
+                const validationError = validateFieldValue(field, grid);
+                if (validationError) {
+                  socket.emit("field-validation-error", {
+                    fieldId,
+                    error: validationError,
+                  });
+                  return null;
+                }
+
+                const { error: saveError } = await supabase
+                  .from("response_fields")
+                  .upsert(
+                    { response_id: draft.id, field_id: fieldId, value: grid },
+                    { onConflict: "response_id,field_id" }
+                  );
+                if (saveError) {
+                  console.error("Failed to save grid row:", saveError);
+                  socket.emit("error", "Failed to update field");
+                  return null;
+                }
+                return grid;
+              }
             );
-            return;
+            if (merged === null) return;
+            sanitizedValue = merged;
+          } else {
+            // Validate field value against its type and configured rules
+            const validationError = validateFieldValue(field, sanitizedValue);
+            if (validationError) {
+              socket.emit("field-validation-error", {
+                fieldId,
+                error: validationError,
+              });
+              return;
+            }
           }
 
           // Track field contribution for this specific sharing code
@@ -523,6 +1512,7 @@ export const setupSocketHandlers = (io: Server) => {
           // Immediately broadcast the change to other users in this group only
           socket.to(shareCode).emit("field-updated", {
             fieldId,
+            rowKey: rowKey || undefined,
             value: sanitizedValue,
             updatedBy: socket.userEmail,
             fieldLabel: field.label,
@@ -543,18 +1533,18 @@ export const setupSocketHandlers = (io: Server) => {
             );
 
             if (response) {
-              const { error: fieldUpdateError } = await supabase
-                .from("response_fields")
-                .upsert(
-                  {
-                    response_id: response.id,
-                    field_id: fieldId,
-                    value: sanitizedValue,
-                  },
-                  {
-                    onConflict: "response_id,field_id",
-                  }
-                );
+              const { error: fieldUpdateError } = matrixRow
+                ? { error: null }
+                : await supabase.from("response_fields").upsert(
+                    {
+                      response_id: response.id,
+                      field_id: fieldId,
+                      value: sanitizedValue,
+                    },
+                    {
+                      onConflict: "response_id,field_id",
+                    }
+                  );
 
               if (fieldUpdateError) {
                 console.error(
@@ -565,6 +1555,33 @@ export const setupSocketHandlers = (io: Server) => {
                 console.log(
                   `💾 Updated response field ${field.label} with value: "${sanitizedValue}" for group ${sharingCodeData.group_name}`
                 );
+
+                // Keep an open co-editing document in line with the value
+                const textUpdate = CO_EDIT_FIELD_TYPES.includes(field.type)
+                  ? await replaceOpenText(
+                      {
+                        shareCode,
+                        formId: sharingCodeData.forms.id,
+                        sharingCodeId: sharingCodeData.id,
+                        responseId: response.id,
+                        fieldId,
+                      },
+                      sanitizedValue
+                    )
+                  : null;
+                if (textUpdate) {
+                  io.to(shareCode).emit("text-updated", {
+                    fieldId,
+                    update: textUpdate,
+                    value: sanitizedValue,
+                    updatedBy: socket.userEmail,
+                  });
+                }
+                scheduleSectionProgress(
+                  shareCode,
+                  sharingCodeData.forms.id,
+                  sharingCodeData.id
+                );
               }
             } else {
               console.error("No response available for field update");
@@ -572,113 +1589,377 @@ export const setupSocketHandlers = (io: Server) => {
           } catch (responseUpdateError) {
             console.error("Response update error:", responseUpdateError);
           }
+        } catch (error) {
+          console.error("Field update error:", error);
+          socket.emit("error", "Failed to update field");
+        }
+      }
+    );
 
-          // Extend the field lock if user has it
-          if (lock && lock.user_id === socket.userId) {
-            try {
-              const newExpiresAt = new Date(Date.now() + 60000).toISOString();
-              const { error: lockUpdateError } = await supabase
-                .from("field_locks")
-                .update({ expires_at: newExpiresAt })
-                .eq("sharing_code_id", sharingCodeData.id)
-                .eq("field_id", fieldId)
-                .eq("user_id", socket.userId!);
-
-              if (lockUpdateError) {
-                console.error("Failed to extend lock:", lockUpdateError);
-              } else {
-                console.log(
-                  `⏰ Extended lock for field ${field.label} in group ${sharingCodeData.group_name}`
-                );
-              }
-            } catch (lockError) {
-              console.error("Failed to extend lock:", lockError);
-            }
+    // Co-editing (CO_EDIT forms): TEXT and TEXTAREA fields are shared Yjs
+    // documents. Clients send incremental updates, the server merges them,
+    // relays them to the group and saves the converged text to the draft.
+    socket.on(
+      "text-update",
+      async (data: {
+        shareCode: string;
+        fieldId: string;
+        update: ArrayBuffer | Uint8Array;
+      }) => {
+        try {
+          const { shareCode, fieldId } = data;
+          if (!shareCode || !fieldId || !data.update) {
+            socket.emit("error", "Invalid text update data");
+            return;
+          }
+          if (!isInGroup(socket, shareCode)) return;
+          if (!(await isGroupOpen(socket, shareCode))) return;
+
+          const { data: sharingCodeData } = await supabase
+            .from("form_sharing_codes")
+            .select(`*, forms(id, is_active, edit_mode)`)
+            .eq("share_code", shareCode)
+            .eq("is_active", true)
+            .single();
+
+          if (!sharingCodeData || !sharingCodeData.forms.is_active) {
+            socket.emit("error", "Share code not found or inactive");
+            return;
+          }
+
+          if (!(await canEditGroup(socket, sharingCodeData))) return;
+
+          const { data: field } = await supabase
+            .from("form_fields")
+            .select("id, label, type, required, validation")
+            .eq("id", fieldId)
+            .eq("form_id", sharingCodeData.forms.id)
+            .is("archived_at", null)
+            .single();
+
+          if (
+            !field ||
+            !isCoEditField(sharingCodeData.forms.edit_mode, field)
+          ) {
+            socket.emit("error", "This field isn't edited together");
+            return;
+          }
+
+          const draft = await getOrCreateCollaborativeResponse(
+            sharingCodeData.forms.id,
+            sharingCodeData.id,
+            socket.userId!
+          );
+
+          if (!draft) {
+            socket.emit("error", "Failed to update field");
+            return;
+          }
+
+          const document = await getTextDocument({
+            shareCode,
+            formId: sharingCodeData.forms.id,
+            sharingCodeId: sharingCodeData.id,
+            responseId: draft.id,
+            fieldId,
+          });
+
+          const update = new Uint8Array(data.update);
+          const value = await applyTextUpdate(
+            document,
+            update,
+            socket.userId!,
+            () =>
+              scheduleSectionProgress(
+                shareCode,
+                sharingCodeData.forms.id,
+                sharingCodeData.id
+              )
+          );
+
+          socket.to(shareCode).emit("text-updated", {
+            fieldId,
+            update,
+            value,
+            updatedBy: socket.userEmail,
+          });
+
+          // Merged text is kept even when it breaks a rule (two people
+          // typing can overrun a max length); the typist is told
+          const validationError = validateFieldValue(field, value.trim());
+          if (validationError) {
+            socket.emit("field-validation-error", {
+              fieldId,
+              error: validationError,
+            });
           }
         } catch (error) {
-          console.error("Field update error:", error);
+          console.error("Text update error:", error);
           socket.emit("error", "Failed to update field");
         }
       }
     );
 
-    // Helper function to get or create collaborative response for specific sharing code
-    async function getOrCreateCollaborativeResponse(
-      formId: string,
-      sharingCodeId: string,
-      userId: string
-    ) {
+    // Sent again by clients when the form switches to CO_EDIT mode
+    socket.on("text-sync", async (data: { shareCode: string }) => {
       try {
-        // Try to get the most recent response for this form and sharing code
-        let { data: response, error: responseError } = await supabase
+        if (!socket.rooms.has(data?.shareCode)) return;
+
+        const { data: sharingCodeData } = await supabase
+          .from("form_sharing_codes")
+          .select(`*, forms(id, edit_mode)`)
+          .eq("share_code", data.shareCode)
+          .eq("is_active", true)
+          .single();
+
+        if (sharingCodeData?.forms.edit_mode !== "CO_EDIT") return;
+
+        const { data: draft } = await supabase
           .from("form_responses")
           .select("id")
-          .eq("form_id", formId)
-          .eq("sharing_code_id", sharingCodeId)
+          .eq("sharing_code_id", sharingCodeData.id)
+          .eq("status", "DRAFT")
           .order("created_at", { ascending: false })
           .limit(1)
-          .single();
+          .maybeSingle();
+
+        await sendTextStates(socket, sharingCodeData, draft?.id);
+      } catch (error) {
+        console.error("Text sync error:", error);
+        socket.emit("error", "Failed to load shared text");
+      }
+    });
+
+    // Repeating sections: rows are added, removed and moved for the whole
+    // group, and each row is locked on its own (rowKey = row id)
+    socket.on(
+      "row-add",
+      async (data: { shareCode: string; fieldId: string; index?: number }) => {
+        try {
+          const { shareCode, fieldId } = data;
+          if (!isInGroup(socket, shareCode)) return;
+          if (!(await isGroupOpen(socket, shareCode))) return;
+          const row: RepeaterRow = { id: generateRowId(), values: {} };
+          let index = 0;
+
+          const result = await changeRepeaterRows(
+            socket,
+            shareCode,
+            fieldId,
+            (rows) => {
+              if (rows.length >= MAX_REPEATER_ROWS) {
+                return `Add at most ${MAX_REPEATER_ROWS} rows`;
+              }
+              index =
+                typeof data.index === "number"
+                  ? Math.max(0, Math.min(rows.length, Math.floor(data.index)))
+                  : rows.length;
+              return [...rows.slice(0, index), row, ...rows.slice(index)];
+            }
+          );
+          if (!result) return;
+
+          io.to(shareCode).emit("row-added", {
+            fieldId,
+            row,
+            index,
+            addedBy: socket.userEmail,
+          });
+        } catch (error) {
+          console.error("Row add error:", error);
+          socket.emit("error", "Failed to add row");
+        }
+      }
+    );
+
+    socket.on(
+      "row-remove",
+      async (data: { shareCode: string; fieldId: string; rowId: string }) => {
+        try {
+          const { shareCode, fieldId, rowId } = data;
+          if (!isInGroup(socket, shareCode)) return;
+          if (!(await isGroupOpen(socket, shareCode))) return;
 
-        // If no response exists, create a temporary one for collaborative editing
-        if (responseError && responseError.code === "PGRST116") {
-          const { data: newResponse, error: createError } = await supabase
-            .from("form_responses")
-            .insert({
-              form_id: formId,
-              sharing_code_id: sharingCodeId,
-              user_id: userId,
-            })
+          const { data: sharingCodeData } = await supabase
+            .from("form_sharing_codes")
             .select("id")
+            .eq("share_code", shareCode)
             .single();
 
-          if (createError) {
-            console.error(
-              "Failed to create collaborative response:",
-              createError
-            );
-            return null;
-          } else {
-            response = newResponse;
-            console.log(
-              "📄 Created new collaborative response for sharing code:",
-              response?.id
+          if (!sharingCodeData) {
+            socket.emit("error", "Share code not found");
+            return;
+          }
+
+          // Rows someone else is editing can't be removed from under them
+          const conflictingLock = await findConflictingLock(
+            { sharingCodeId: sharingCodeData.id, fieldId, rowKey: rowId },
+            socket.userId!
+          );
+          if (conflictingLock) {
+            socket.emit(
+              "error",
+              `Row is being edited by ${conflictingLock.userEmail}`
             );
+            return;
           }
-        } else if (responseError) {
-          console.error("Error getting response:", responseError);
-          return null;
+
+          const result = await changeRepeaterRows(
+            socket,
+            shareCode,
+            fieldId,
+            (rows) =>
+              rows.some((row) => row.id === rowId)
+                ? rows.filter((row) => row.id !== rowId)
+                : "Row no longer exists"
+          );
+          if (!result) return;
+
+          // Our own lock on the row goes the way of unlock-field
+          const released = await getLockStore().release(
+            { sharingCodeId: sharingCodeData.id, fieldId, rowKey: rowId },
+            socket.userId!
+          );
+          if (released) await afterLockReleased(released);
+
+          io.to(shareCode).emit("row-removed", {
+            fieldId,
+            rowId,
+            removedBy: socket.userEmail,
+          });
+        } catch (error) {
+          console.error("Row remove error:", error);
+          socket.emit("error", "Failed to remove row");
         }
+      }
+    );
 
-        return response;
-      } catch (error) {
-        console.error("Error in getOrCreateCollaborativeResponse:", error);
-        return null;
+    socket.on(
+      "row-move",
+      async (data: {
+        shareCode: string;
+        fieldId: string;
+        rowId: string;
+        toIndex: number;
+      }) => {
+        try {
+          const { shareCode, fieldId, rowId } = data;
+          if (!isInGroup(socket, shareCode)) return;
+          if (!(await isGroupOpen(socket, shareCode))) return;
+          let toIndex = 0;
+
+          const result = await changeRepeaterRows(
+            socket,
+            shareCode,
+            fieldId,
+            (rows) => {
+              const row = rows.find((r) => r.id === rowId);
+              if (!row) return "Row no longer exists";
+
+              const remaining = rows.filter((r) => r.id !== rowId);
+              toIndex = Math.max(
+                0,
+                Math.min(
+                  remaining.length,
+                  Math.floor(Number(data.toIndex)) || 0
+                )
+              );
+              return [
+                ...remaining.slice(0, toIndex),
+                row,
+                ...remaining.slice(toIndex),
+              ];
+            }
+          );
+          if (!result) return;
+
+          io.to(shareCode).emit("row-moved", {
+            fieldId,
+            rowId,
+            toIndex,
+            movedBy: socket.userEmail,
+          });
+        } catch (error) {
+          console.error("Row move error:", error);
+          socket.emit("error", "Failed to move row");
+        }
       }
-    }
+    );
+
+    socket.on(
+      "row-field-update",
+      async (data: {
+        shareCode: string;
+        fieldId: string;
+        rowId: string;
+        subFieldId: string;
+        value: string;
+        // Fencing token of the sender's lock on the row
+        token?: number;
+      }) => {
+        try {
+          const { shareCode, fieldId, rowId, subFieldId } = data;
+          const value = data.value ? String(data.value).trim() : "";
+
+          if (!shareCode || !fieldId || !rowId || !subFieldId) {
+            socket.emit("error", "Invalid row update data");
+            return;
+          }
+          if (!isInGroup(socket, shareCode)) return;
+          if (!(await isGroupOpen(socket, shareCode))) return;
+
+          const { data: sharingCodeData } = await supabase
+            .from("form_sharing_codes")
+            .select("id")
+            .eq("share_code", shareCode)
+            .single();
+
+          if (!sharingCodeData) {
+            socket.emit("error", "Share code not found");
+            return;
+          }
+
+          const lock = await renewHeldLock(
+            socket,
+            { sharingCodeId: sharingCodeData.id, fieldId, rowKey: rowId },
+            data.token
+          );
+          if (!lock) return;
+
+          const result = await changeRepeaterRows(
+            socket,
+            shareCode,
+            fieldId,
+            (rows) => {
+              if (!rows.some((row) => row.id === rowId)) {
+                return "Row no longer exists";
+              }
+              return rows.map((row) => {
+                if (row.id !== rowId) return row;
+                const values = { ...row.values, [subFieldId]: value };
+                if (!value) delete values[subFieldId];
+                return { ...row, values };
+              });
+            }
+          );
+          if (!result) return;
 
-    // Enhanced field validation function
-    function validateFieldValue(fieldType: string, value: string): boolean {
-      if (!value || value.trim() === "") return true; // Empty values are allowed
-
-      switch (fieldType.toUpperCase()) {
-        case "EMAIL":
-          const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-          return emailRegex.test(value);
-        case "NUMBER":
-          return !isNaN(Number(value)) && isFinite(Number(value));
-        case "TEXT":
-        case "TEXTAREA":
-          return value.length <= 10000; // Reasonable text limit
-        case "DROPDOWN":
-        case "RADIO":
-          return value.length <= 500; // Reasonable option length
-        case "CHECKBOX":
-          // For checkbox, value might be comma-separated
-          return value.split(",").every((v) => v.trim().length <= 500);
-        default:
-          return true;
+          socket.to(shareCode).emit("row-field-updated", {
+            fieldId,
+            rowId,
+            subFieldId,
+            value,
+            updatedBy: socket.userEmail,
+            fieldLabel: result.field.label,
+            groupName: result.sharingCodeData.group_name,
+            timestamp: Date.now(),
+          });
+        } catch (error) {
+          console.error("Row field update error:", error);
+          socket.emit("error", "Failed to update row");
+        }
       }
-    }
+    );
 
     // Handle typing indicators
     socket.on(
@@ -726,7 +2007,7 @@ export const setupSocketHandlers = (io: Server) => {
             .from("form_sharing_codes")
             .select(
               `
-            group_name,
+            *,
             forms(title)
           `
             )
@@ -738,6 +2019,15 @@ export const setupSocketHandlers = (io: Server) => {
             return;
           }
 
+          const access = await getGroupAccess(sharingCodeData, socket.userId!);
+          if (!access.canSubmit) {
+            socket.emit(
+              "error",
+              "Your role in this group can't submit the form"
+            );
+            return;
+          }
+
           // Notify all users in the room about form submission (including submitter)
           io.to(shareCode).emit("form-submitted-all", {
             submittedBy,
@@ -759,61 +2049,65 @@ export const setupSocketHandlers = (io: Server) => {
     );
 
     // Handle form reset for all collaborators
-    socket.on("form-reset", (data: { shareCode: string; resetBy: string }) => {
-      try {
-        const { shareCode, resetBy } = data;
-        console.log(`🔄 Form reset by ${resetBy} in group ${shareCode}`);
+    socket.on(
+      "form-reset",
+      async (data: { shareCode: string; resetBy: string }) => {
+        try {
+          const { shareCode, resetBy } = data;
+          console.log(`🔄 Form reset by ${resetBy} in group ${shareCode}`);
 
-        // Notify all users in the room about form reset (including the one who reset)
-        io.to(shareCode).emit("form-reset-all", {
-          resetBy,
-          timestamp: new Date().toISOString(),
-        });
+          const { data: sharingCodeData } = await supabase
+            .from("form_sharing_codes")
+            .select("*, forms(id, edit_mode)")
+            .eq("share_code", shareCode)
+            .single();
 
-        console.log(
-          `✅ Notified all users in group ${shareCode} about form reset`
-        );
-      } catch (error) {
-        console.error("Form reset broadcast error:", error);
-        socket.emit("error", "Failed to process form reset");
-      }
-    });
-    // Handle form reset
+          if (!sharingCodeData) {
+            socket.emit("error", "Share code not found");
+            return;
+          }
 
-    socket.on("form-reset", (data: { shareCode: string; resetBy: string }) => {
-      try {
-        const { shareCode, resetBy } = data;
-        console.log(`🔄 Form reset by ${resetBy} in room ${shareCode}`);
+          if (!(await canEditGroup(socket, sharingCodeData))) return;
 
-        // Notify all users in the room about form reset (including the one who reset)
-        io.to(shareCode).emit("form-reset-all", {
-          resetBy,
-          timestamp: new Date().toISOString(),
-        });
+          // Notify all users in the room about form reset (including the one who reset)
+          io.to(shareCode).emit("form-reset-all", {
+            resetBy,
+            timestamp: new Date().toISOString(),
+          });
+          await restartDraftText(sharingCodeData);
 
-        console.log(
-          `✅ Notified all users in room ${shareCode} about form reset`
-        );
-      } catch (error) {
-        console.error("Form reset broadcast error:", error);
-        socket.emit("error", "Failed to process form reset");
+          console.log(
+            `✅ Notified all users in group ${shareCode} about form reset`
+          );
+        } catch (error) {
+          console.error("Form reset broadcast error:", error);
+          socket.emit("error", "Failed to process form reset");
+        }
       }
-    });
+    );
 
-    // Handle cursor movement (for advanced collaboration features)
+    // Carets and selections inside text fields, relayed to the rest of the
+    // group. Co-edited fields also carry Yjs relative positions so carets
+    // follow merged edits.
     socket.on(
       "cursor-move",
-      (data: { shareCode: string; fieldId: string; position: number }) => {
+      (data: {
+        shareCode: string;
+        fieldId: string;
+        position: number;
+        relative?: { start: unknown; end: unknown };
+      }) => {
+        if (!socket.rooms.has(data?.shareCode)) return;
         socket.to(data.shareCode).emit("cursor-updated", {
           fieldId: data.fieldId,
           position: data.position,
+          relative: data.relative,
           userEmail: socket.userEmail,
           userId: socket.userId,
         });
       }
     );
 
-    // Handle text selection (for advanced collaboration features)
     socket.on(
       "selection-change",
       (data: {
@@ -821,56 +2115,88 @@ export const setupSocketHandlers = (io: Server) => {
         fieldId: string;
         start: number;
         end: number;
+        relative?: { start: unknown; end: unknown };
       }) => {
+        if (!socket.rooms.has(data?.shareCode)) return;
         socket.to(data.shareCode).emit("selection-updated", {
           fieldId: data.fieldId,
           start: data.start,
           end: data.end,
+          relative: data.relative,
           userEmail: socket.userEmail,
           userId: socket.userId,
         });
       }
     );
 
+    // The caret left a field (blur)
+    socket.on(
+      "cursor-leave",
+      (data: { shareCode: string; fieldId: string }) => {
+        if (!socket.rooms.has(data?.shareCode)) return;
+        socket.to(data.shareCode).emit("cursor-removed", {
+          fieldId: data.fieldId,
+          userId: socket.userId,
+        });
+      }
+    );
+
+    // Rooms are already left by the time "disconnect" fires
+    let leftGroups: string[] = [];
+    socket.on("disconnecting", () => {
+      leftGroups = [...socket.rooms].filter(
+        (room) => room !== socket.id && !room.startsWith("waiting:")
+      );
+    });
+
     // Enhanced disconnect handling
     socket.on("disconnect", () => {
       console.log(`❌ User ${socket.userEmail} disconnected (${socket.id})`);
 
-      // Get all rooms this user was in
-      const rooms = Array.from(socket.rooms);
+      leftGroups.forEach(async (shareCode) => {
+        try {
+          // This instance lets go of its copies of the group's text
+          // documents once none of its sockets edit them; the shared
+          // history stays
+          if (!io.sockets.adapter.rooms.has(shareCode)) {
+            await releaseTextDocuments(shareCode).catch((error) => {
+              console.error(`Failed to save text of ${shareCode}:`, error);
+            });
+          }
+
+          await getPresenceStore().leave(shareCode, socket.id);
+          notifyGroupSlotAvailable(shareCode);
 
-      rooms.forEach(async (room) => {
-        if (room !== socket.id) {
           // Notify others about user leaving
-          socket.to(room).emit("user-left", {
+          socket.to(shareCode).emit("user-left", {
             userId: socket.userId,
             email: socket.userEmail,
           });
 
           // Update active users list for remaining users
-          const remainingUsers = getActiveUsersInRoom(io, room);
-          io.to(room).emit("active-users", remainingUsers);
+          const remainingUsers = await getActiveUsersInRoom(shareCode);
+          io.to(shareCode).emit("active-users", remainingUsers);
 
           console.log(
-            `👥 Updated active users in room ${room}: ${remainingUsers.length} users`
+            `👥 Updated active users in room ${shareCode}: ${remainingUsers.length} users`
           );
-        }
-      });
 
-      // Clean up locks for this user
-      supabase
-        .from("field_locks")
-        .delete()
-        .eq("user_id", socket.userId!)
-        .then(({ error, count }) => {
-          if (error) {
-            console.error("Failed to clean up user locks:", error);
-          } else {
-            console.log(
-              `🧹 Cleaned up ${count || 0} locks for user ${socket.userEmail}`
-            );
+          // Release the user's locks in the groups they no longer have
+          // open in another tab
+          const sharingCodeId = socket.joinedGroups?.get(shareCode);
+          if (!sharingCodeId) return;
+          await leaveLockQueues(
+            sharingCodeId,
+            shareCode,
+            (waiter) => waiter.socketId === socket.id
+          );
+          if (!(await getGroupUserIds(shareCode)).has(socket.userId!)) {
+            await releaseUserLocks(sharingCodeId, [socket.userId!]);
           }
-        });
+        } catch (error) {
+          console.error(`Failed to leave group ${shareCode}:`, error);
+        }
+      });
     });
 
     // Handle connection errors
@@ -879,10 +2205,12 @@ export const setupSocketHandlers = (io: Server) => {
     });
   });
 
-  // Global cleanup interval for expired locks
-  setInterval(() => {
-    cleanupExpiredLocks(io);
-  }, 30000); // Every 30 seconds
+  // Tell groups about locks that ran out without being renewed or were
+  // handed over
+  watchLockExpiry((lock) =>
+    afterLockReleased(lock, isHandedOff(lock) ? "handed-off" : "expired")
+  );
+  watchPresence();
 
   console.log("🚀 Socket.IO handlers setup complete");
 };
@@ -0,0 +1,230 @@
+// src/utils/availability.ts
+
+// Both forms and sharing codes carry these columns; a group can only be
+// filled in while both of them allow it
+export interface AvailabilitySettings {
+  is_active: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_submissions: number | null;
+}
+
+// Sharing codes can also expire, after which the code stops working
+export interface SharingCodeSettings extends AvailabilitySettings {
+  expires_at: string | null;
+}
+
+export type AvailabilityStatus =
+  | "OPEN"
+  | "INACTIVE"
+  | "EXPIRED"
+  | "NOT_YET_OPEN"
+  | "CLOSED"
+  | "LIMIT_REACHED";
+
+export interface FormAvailability {
+  status: AvailabilityStatus;
+  open: boolean;
+  message: string | null;
+  // Effective window: the later opening and the earliest closing or expiry
+  opensAt: string | null;
+  closesAt: string | null;
+  // Submissions left before the tighter of the two caps; null when uncapped
+  remainingSubmissions: number | null;
+}
+
+export interface SubmissionCounts {
+  form: number;
+  group: number;
+}
+
+// Postgres returns "+00:00" offsets; UTC ISO strings compare as text
+const toIsoDates = (dates: (string | null)[]) =>
+  dates
+    .filter((date): date is string => !!date)
+    .map((date) => new Date(date).toISOString())
+    .sort();
+
+const latest = (...dates: (string | null)[]) => toIsoDates(dates).pop() || null;
+
+const earliest = (...dates: (string | null)[]) =>
+  toIsoDates(dates).shift() || null;
+
+export const resolveAvailability = (
+  form: AvailabilitySettings,
+  sharingCode: SharingCodeSettings,
+  counts: SubmissionCounts,
+  now: Date = new Date()
+): FormAvailability => {
+  const opensAt = latest(form.opens_at, sharingCode.opens_at);
+  const closesAt = earliest(
+    form.closes_at,
+    sharingCode.closes_at,
+    sharingCode.expires_at
+  );
+  const remaining = [
+    form.max_submissions !== null ? form.max_submissions - counts.form : null,
+    sharingCode.max_submissions !== null
+      ? sharingCode.max_submissions - counts.group
+      : null,
+  ].filter((value): value is number => value !== null);
+  const remainingSubmissions =
+    remaining.length > 0 ? Math.max(0, Math.min(...remaining)) : null;
+
+  const result = (
+    status: AvailabilityStatus,
+    message: string | null
+  ): FormAvailability => ({
+    status,
+    open: status === "OPEN",
+    message,
+    opensAt,
+    closesAt,
+    remainingSubmissions,
+  });
+
+  const nowIso = now.toISOString();
+  if (!form.is_active || !sharingCode.is_active) {
+    return result("INACTIVE", "This form is not accepting responses");
+  }
+  if (
+    sharingCode.expires_at &&
+    nowIso >= new Date(sharingCode.expires_at).toISOString()
+  ) {
+    return result("EXPIRED", "This share code has expired");
+  }
+  if (opensAt && nowIso < opensAt) {
+    return result("NOT_YET_OPEN", "This form is not open yet");
+  }
+  if (closesAt && nowIso >= closesAt) {
+    return result("CLOSED", "This form has closed");
+  }
+  if (remainingSubmissions === 0) {
+    return result(
+      "LIMIT_REACHED",
+      "This form has reached its submission limit"
+    );
+  }
+  return result("OPEN", null);
+};
+
+// null for an empty value, undefined when the text isn't a date
+const parseOptionalDate = (value: any): string | null | undefined => {
+  if (value === null || value === "") return null;
+  const date = new Date(value);
+  if (typeof value !== "string" || isNaN(date.getTime())) return undefined;
+  return date.toISOString();
+};
+
+// Validate a PUT body; omitted keys are left unchanged
+export const parseAvailabilityUpdate = (
+  body: any
+): { updates: Partial<AvailabilitySettings> } | { error: string } => {
+  const updates: Partial<AvailabilitySettings> = {};
+
+  if (body?.is_active !== undefined) {
+    if (typeof body.is_active !== "boolean") {
+      return { error: "is_active must be true or false" };
+    }
+    updates.is_active = body.is_active;
+  }
+
+  for (const key of ["opens_at", "closes_at"] as const) {
+    if (body?.[key] === undefined) continue;
+    const date = parseOptionalDate(body[key]);
+    if (date === undefined) {
+      return { error: `${key} must be an ISO-8601 date and time` };
+    }
+    updates[key] = date;
+  }
+
+  if (body?.max_submissions !== undefined) {
+    const max = body.max_submissions;
+    if (max !== null && max !== "" && (!Number.isInteger(max) || max < 1)) {
+      return { error: "max_submissions must be a positive whole number" };
+    }
+    updates.max_submissions = max === "" ? null : max;
+  }
+
+  return { updates };
+};
+
+// Checked against the merged stored values so a partial update can't invert
+// the window either
+export const getWindowError = (settings: {
+  opens_at: string | null;
+  closes_at: string | null;
+}): string | null =>
+  settings.opens_at &&
+  settings.closes_at &&
+  new Date(settings.closes_at) <= new Date(settings.opens_at)
+    ? "closes_at must be after opens_at"
+    : null;
+
+export interface SharingCodeUpdate {
+  group_name?: string;
+  is_active?: boolean;
+  expires_at?: string | null;
+  allow_guests?: boolean;
+  is_closed?: boolean;
+  capacity?: number | null;
+}
+
+// Validate a PATCH body for a sharing code; omitted keys are left unchanged
+export const parseSharingCodeUpdate = (
+  body: any
+): { updates: SharingCodeUpdate } | { error: string } => {
+  const updates: SharingCodeUpdate = {};
+
+  if (body?.groupName !== undefined) {
+    const groupName =
+      typeof body.groupName === "string" ? body.groupName.trim() : "";
+    if (!groupName || groupName.length > 50) {
+      return { error: "Group name must be 1 to 50 characters" };
+    }
+    updates.group_name = groupName;
+  }
+
+  if (body?.is_active !== undefined) {
+    if (typeof body.is_active !== "boolean") {
+      return { error: "is_active must be true or false" };
+    }
+    updates.is_active = body.is_active;
+  }
+
+  if (body?.expires_at !== undefined) {
+    const expiresAt = parseOptionalDate(body.expires_at);
+    if (expiresAt === undefined) {
+      return { error: "expires_at must be an ISO-8601 date and time" };
+    }
+    updates.expires_at = expiresAt;
+  }
+
+  if (body?.allow_guests !== undefined) {
+    if (typeof body.allow_guests !== "boolean") {
+      return { error: "allow_guests must be true or false" };
+    }
+    updates.allow_guests = body.allow_guests;
+  }
+
+  if (body?.is_closed !== undefined) {
+    if (typeof body.is_closed !== "boolean") {
+      return { error: "is_closed must be true or false" };
+    }
+    updates.is_closed = body.is_closed;
+  }
+
+  if (body?.capacity !== undefined) {
+    const capacity = body.capacity;
+    if (
+      capacity !== null &&
+      capacity !== "" &&
+      (!Number.isInteger(capacity) || capacity < 1)
+    ) {
+      return { error: "capacity must be a positive whole number" };
+    }
+    updates.capacity = capacity === "" ? null : capacity;
+  }
+
+  return { updates };
+};
@@ -0,0 +1,162 @@
+// src/utils/conditions.test.ts
+import {
+  ConditionGroup,
+  evaluateConditions,
+  getVisibleFieldIds,
+  normalizeConditions,
+} from "./conditions";
+
+const when = (
+  fieldId: string,
+  operator: any,
+  value: string,
+  logic: "AND" | "OR" = "AND"
+): ConditionGroup => ({ logic, rules: [{ fieldId, operator, value }] });
+
+describe("evaluateConditions", () => {
+  it("passes without rules", () => {
+    expect(evaluateConditions(null, {})).toBe(true);
+    expect(evaluateConditions({ logic: "AND", rules: [] }, {})).toBe(true);
+  });
+
+  it("compares text and checkbox answers", () => {
+    const values = { team: " Design ", tools: "Slack,Figma" };
+
+    expect(evaluateConditions(when("team", "equals", "Design"), values)).toBe(
+      true
+    );
+    expect(
+      evaluateConditions(when("team", "not_equals", "Design"), values)
+    ).toBe(false);
+    expect(evaluateConditions(when("tools", "contains", "figma"), values)).toBe(
+      true
+    );
+    expect(evaluateConditions(when("missing", "equals", ""), values)).toBe(
+      true
+    );
+  });
+
+  it("compares numbers, failing on empty or non-numeric answers", () => {
+    const values = { budget: "250", notes: "lots" };
+
+    expect(
+      evaluateConditions(when("budget", "greater_than", "100"), values)
+    ).toBe(true);
+    expect(
+      evaluateConditions(when("budget", "less_or_equal", "250"), values)
+    ).toBe(true);
+    expect(evaluateConditions(when("budget", "less_than", "9"), values)).toBe(
+      false
+    );
+    expect(
+      evaluateConditions(when("notes", "greater_or_equal", "0"), values)
+    ).toBe(false);
+    expect(evaluateConditions(when("empty", "less_than", "5"), values)).toBe(
+      false
+    );
+  });
+
+  it("combines nested groups with AND and OR", () => {
+    const group: ConditionGroup = {
+      logic: "AND",
+      rules: [
+        { fieldId: "remote", operator: "equals", value: "Yes" },
+        {
+          logic: "OR",
+          rules: [
+            { fieldId: "team", operator: "equals", value: "Design" },
+            { fieldId: "budget", operator: "greater_than", value: "1000" },
+          ],
+        },
+      ],
+    };
+
+    expect(evaluateConditions(group, { remote: "Yes", team: "Design" })).toBe(
+      true
+    );
+    expect(evaluateConditions(group, { remote: "Yes", budget: "5000" })).toBe(
+      true
+    );
+    expect(evaluateConditions(group, { remote: "Yes", budget: "10" })).toBe(
+      false
+    );
+    expect(evaluateConditions(group, { remote: "No", team: "Design" })).toBe(
+      false
+    );
+  });
+});
+
+describe("getVisibleFieldIds", () => {
+  it("hides fields whose rules depend on hidden fields", () => {
+    const fields = [
+      { id: "remote" },
+      { id: "city", conditions: when("remote", "equals", "No") },
+      { id: "office", conditions: when("city", "equals", "Berlin") },
+    ];
+
+    expect(
+      getVisibleFieldIds(fields, { remote: "No", city: "Berlin" })
+    ).toEqual(new Set(["remote", "city", "office"]));
+    // The stale city answer doesn't keep office visible
+    expect(
+      getVisibleFieldIds(fields, { remote: "Yes", city: "Berlin" })
+    ).toEqual(new Set(["remote"]));
+  });
+
+  it("hides a section's fields together with the section", () => {
+    const fields = [
+      { id: "travel", field_order: 0 },
+      {
+        id: "trip",
+        type: "SECTION",
+        field_order: 1,
+        conditions: when("travel", "equals", "Yes"),
+      },
+      { id: "destination", field_order: 2 },
+      { id: "wrapup", type: "SECTION", field_order: 3 },
+      { id: "comments", field_order: 4 },
+    ];
+
+    expect(getVisibleFieldIds(fields, { travel: "No" })).toEqual(
+      new Set(["travel", "wrapup", "comments"])
+    );
+  });
+});
+
+describe("normalizeConditions", () => {
+  it("maps builder ids and drops rules that can't be kept", () => {
+    const idMap = new Map([
+      ["field_1", "uuid-1"],
+      ["field_2", "uuid-2"],
+    ]);
+
+    expect(
+      normalizeConditions(
+        {
+          logic: "XOR",
+          rules: [
+            { fieldId: "field_1", operator: "equals", value: 3 },
+            { fieldId: "field_9", operator: "equals", value: "x" },
+            { fieldId: "field_2", operator: "matches", value: "x" },
+            {
+              logic: "OR",
+              rules: [{ fieldId: "field_2", operator: "contains" }],
+            },
+            { logic: "OR", rules: [] },
+          ],
+        },
+        idMap
+      )
+    ).toEqual({
+      logic: "AND",
+      rules: [
+        { fieldId: "uuid-1", operator: "equals", value: "3" },
+        {
+          logic: "OR",
+          rules: [{ fieldId: "uuid-2", operator: "contains", value: "" }],
+        },
+      ],
+    });
+    expect(normalizeConditions({ rules: "none" }, idMap)).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+// src/utils/conditions.ts
+
+export type ConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "greater_than"
+  | "less_than"
+  | "greater_or_equal"
+  | "less_or_equal";
+
+export interface ConditionRule {
+  fieldId: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+export interface ConditionGroup {
+  logic: "AND" | "OR";
+  rules: Array<ConditionRule | ConditionGroup>;
+}
+
+interface ConditionalField {
+  id: string;
+  type?: string;
+  field_order?: number;
+  conditions?: ConditionGroup | null;
+}
+
+const CONDITION_OPERATORS: ConditionOperator[] = [
+  "equals",
+  "not_equals",
+  "contains",
+  "greater_than",
+  "less_than",
+  "greater_or_equal",
+  "less_or_equal",
+];
+
+export const isConditionOperator = (
+  operator: unknown
+): operator is ConditionOperator =>
+  CONDITION_OPERATORS.includes(operator as ConditionOperator);
+
+export const isConditionGroup = (
+  rule: ConditionRule | ConditionGroup
+): rule is ConditionGroup => Array.isArray((rule as ConditionGroup).rules);
+
+const compareNumbers = (
+  actual: string,
+  expected: string,
+  compare: (a: number, b: number) => boolean
+): boolean => {
+  if (actual.trim() === "" || expected.trim() === "") return false;
+  const a = Number(actual);
+  const b = Number(expected);
+  return !isNaN(a) && !isNaN(b) && compare(a, b);
+};
+
+const evaluateRule = (
+  rule: ConditionRule,
+  values: Record<string, string>
+): boolean => {
+  const actual = String(values[rule.fieldId] ?? "").trim();
+  const expected = String(rule.value ?? "").trim();
+
+  switch (rule.operator) {
+    case "equals":
+      return actual === expected;
+    case "not_equals":
+      return actual !== expected;
+    case "contains":
+      // Covers substrings of text and entries of comma-joined CHECKBOX values
+      return actual.toLowerCase().includes(expected.toLowerCase());
+    case "greater_than":
+      return compareNumbers(actual, expected, (a, b) => a > b);
+    case "less_than":
+      return compareNumbers(actual, expected, (a, b) => a < b);
+    case "greater_or_equal":
+      return compareNumbers(actual, expected, (a, b) => a >= b);
+    case "less_or_equal":
+      return compareNumbers(actual, expected, (a, b) => a <= b);
+    default:
+      return true;
+  }
+};
+
+export const evaluateConditions = (
+  group: ConditionGroup | null | undefined,
+  values: Record<string, string>
+): boolean => {
+  if (!group || !Array.isArray(group.rules) || group.rules.length === 0) {
+    return true;
+  }
+
+  const results = group.rules.map((rule) =>
+    isConditionGroup(rule)
+      ? evaluateConditions(rule, values)
+      : evaluateRule(rule, values)
+  );
+
+  return group.logic === "OR" ? results.some(Boolean) : results.every(Boolean);
+};
+
+// Fields after a hidden SECTION, up to the next one, are hidden with it
+const hideSectionContents = (
+  fields: ConditionalField[],
+  visibleIds: Set<string>
+) => {
+  let sectionVisible = true;
+  fields
+    .map((field, index) => ({ field, order: field.field_order ?? index }))
+    .sort((a, b) => a.order - b.order)
+    .forEach(({ field }) => {
+      if (field.type === "SECTION") {
+        sectionVisible = visibleIds.has(field.id);
+      } else if (!sectionVisible) {
+        visibleIds.delete(field.id);
+      }
+    });
+};
+
+// Resolve which fields are visible; hidden fields count as empty so that
+// rules depending on them (directly or through a chain) also fail
+export const getVisibleFieldIds = (
+  fields: ConditionalField[],
+  values: Record<string, string>
+): Set<string> => {
+  let visibleIds = new Set(fields.map((field) => field.id));
+
+  for (let pass = 0; pass <= fields.length; pass++) {
+    const effectiveValues: Record<string, string> = {};
+    Object.entries(values).forEach(([fieldId, value]) => {
+      if (visibleIds.has(fieldId)) effectiveValues[fieldId] = value;
+    });
+
+    const nextVisibleIds = new Set(
+      fields
+        .filter((field) =>
+          evaluateConditions(field.conditions, effectiveValues)
+        )
+        .map((field) => field.id)
+    );
+    hideSectionContents(fields, nextVisibleIds);
+
+    const stable =
+      nextVisibleIds.size === visibleIds.size &&
+      [...nextVisibleIds].every((id) => visibleIds.has(id));
+    visibleIds = nextVisibleIds;
+    if (stable) break;
+  }
+
+  return visibleIds;
+};
+
+// Clean up a submitted rule tree and point its rules at persisted field ids
+export const normalizeConditions = (
+  group: any,
+  idMap: Map<string, string>
+): ConditionGroup | null => {
+  if (!group || !Array.isArray(group.rules)) return null;
+
+  const rules = group.rules
+    .map((rule: any) => {
+      if (isConditionGroup(rule)) {
+        return normalizeConditions(rule, idMap);
+      }
+
+      const fieldId = idMap.get(rule?.fieldId);
+      if (!fieldId || !isConditionOperator(rule.operator)) {
+        return null;
+      }
+
+      return {
+        fieldId,
+        operator: rule.operator,
+        value: String(rule.value ?? ""),
+      };
+    })
+    .filter(Boolean);
+
+  if (rules.length === 0) return null;
+
+  return {
+    logic: group.logic === "OR" ? "OR" : "AND",
+    rules,
+  };
+};
@@ -0,0 +1,71 @@
+// src/utils/dateValues.ts
+
+export type DateFieldType = "DATE" | "TIME" | "DATETIME";
+
+export const DATE_FIELD_TYPES: DateFieldType[] = ["DATE", "TIME", "DATETIME"];
+
+// ISO-8601 shapes stored in response_fields.value
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/;
+const DATETIME_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})T([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d)(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+
+// The same shapes for consumers that only take a pattern, e.g. JSON Schema
+export const DATE_VALUE_PATTERNS: Record<DateFieldType, RegExp> = {
+  DATE: DATE_REGEX,
+  TIME: TIME_REGEX,
+  DATETIME: DATETIME_REGEX,
+};
+
+export const isDateFieldType = (type: string): type is DateFieldType =>
+  DATE_FIELD_TYPES.includes(type as DateFieldType);
+
+const isCalendarDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+};
+
+// Numeric key for comparing and sorting values, or null when malformed
+export const toDateSortKey = (
+  type: DateFieldType,
+  value: string
+): number | null => {
+  const trimmed = value.trim();
+
+  if (type === "DATE") {
+    const match = DATE_REGEX.exec(trimmed);
+    if (!match) return null;
+    const [year, month, day] = match.slice(1, 4).map(Number);
+    return isCalendarDate(year, month, day)
+      ? Date.UTC(year, month - 1, day)
+      : null;
+  }
+
+  if (type === "TIME") {
+    const match = TIME_REGEX.exec(trimmed);
+    if (!match) return null;
+    return (
+      Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] || 0)
+    );
+  }
+
+  const match = DATETIME_REGEX.exec(trimmed);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  if (!isCalendarDate(year, month, day)) return null;
+  const timestamp = Date.parse(trimmed);
+  return isNaN(timestamp) ? null : timestamp;
+};
+
+export const isValidDateValue = (type: DateFieldType, value: string) =>
+  toDateSortKey(type, value) !== null;
+
+export const DATE_FORMAT_HINTS: Record<DateFieldType, string> = {
+  DATE: "YYYY-MM-DD",
+  TIME: "HH:MM",
+  DATETIME: "YYYY-MM-DDTHH:MM",
+};
@@ -0,0 +1,238 @@
+// src/utils/fieldValidation.test.ts
+import {
+  getValidationRulesError,
+  normalizeValidationRules,
+  parseMatrixValue,
+  validateFieldValue,
+  validateFileUpload,
+  validateFormValues,
+} from "./fieldValidation";
+import { serializeRepeaterValue } from "./repeaterValues";
+
+const field = (type: string, extra: Record<string, any> = {}) => ({
+  id: "field-1",
+  label: "Answer",
+  type,
+  ...extra,
+});
+
+describe("validateFieldValue", () => {
+  it("allows empty values", () => {
+    expect(validateFieldValue(field("EMAIL"), "")).toBeNull();
+    expect(validateFieldValue(field("NUMBER"), "  ")).toBeNull();
+  });
+
+  it("checks emails and text rules", () => {
+    const text = field("TEXT", {
+      validation: {
+        minLength: 3,
+        pattern: "^[A-Z]",
+        patternMessage: "Start with a capital",
+      },
+    });
+
+    expect(validateFieldValue(field("EMAIL"), "ada@example")).toBe(
+      "Please enter a valid email address"
+    );
+    expect(validateFieldValue(text, "Al")).toBe(
+      "Must be at least 3 characters"
+    );
+    expect(validateFieldValue(text, "ada")).toBe("Start with a capital");
+    expect(validateFieldValue(text, "Ada")).toBeNull();
+  });
+
+  it("checks number ranges and steps", () => {
+    const number = field("NUMBER", {
+      validation: { min: 1, max: 10, step: 3 },
+    });
+
+    expect(validateFieldValue(number, "abc")).toBe(
+      "Please enter a valid number"
+    );
+    expect(validateFieldValue(number, "0")).toBe("Must be at least 1");
+    expect(validateFieldValue(number, "11")).toBe("Must be at most 10");
+    expect(validateFieldValue(number, "5")).toBe("Must be in increments of 3");
+    expect(validateFieldValue(number, "7")).toBeNull();
+  });
+
+  it("uses default bounds for ratings", () => {
+    expect(validateFieldValue(field("RATING"), "6")).toBe(
+      "Must be between 1 and 5"
+    );
+    expect(validateFieldValue(field("RATING"), "4.5")).toBe(
+      "Must be in increments of 1"
+    );
+    expect(validateFieldValue(field("SCALE"), "0")).toBeNull();
+  });
+
+  it("checks date formats and bounds", () => {
+    const date = field("DATE", {
+      validation: { minDate: "2024-01-01", maxDate: "2024-12-31" },
+    });
+
+    expect(validateFieldValue(date, "2024-02-30")).toMatch(
+      /^Please enter a valid value/
+    );
+    expect(validateFieldValue(date, "2023-12-31")).toBe(
+      "Must be on or after 2024-01-01"
+    );
+    expect(validateFieldValue(date, "2025-01-01")).toBe(
+      "Must be on or before 2024-12-31"
+    );
+    expect(validateFieldValue(date, "2024-06-15")).toBeNull();
+  });
+
+  it("checks checkbox selection counts", () => {
+    const checkbox = field("CHECKBOX", {
+      validation: { minSelected: 2, maxSelected: 3 },
+    });
+
+    expect(validateFieldValue(checkbox, "Slack")).toBe(
+      "Select at least 2 option(s)"
+    );
+    expect(validateFieldValue(checkbox, "a,b,c,d")).toBe(
+      "Select at most 3 option(s)"
+    );
+    expect(validateFieldValue(checkbox, "Slack, Jira")).toBeNull();
+  });
+
+  it("only accepts grid answers within the grid", () => {
+    const matrix = field("MATRIX", {
+      options: ["Low", "High"],
+      matrix_rows: ["Writing", "Planning"],
+    });
+
+    expect(validateFieldValue(matrix, "not json")).toBe("Invalid grid answer");
+    expect(validateFieldValue(matrix, '{"Writing":"Medium"}')).toBe(
+      '"Writing" has an answer that isn\'t in the grid'
+    );
+    expect(validateFieldValue(matrix, '{"Writing":"High"}')).toBeNull();
+  });
+
+  it("validates repeater rows against their columns", () => {
+    const repeater = field("REPEATER", {
+      sub_fields: [
+        { id: "task", label: "Task", type: "TEXT" },
+        { id: "hours", label: "Hours", type: "NUMBER" },
+      ],
+    });
+
+    expect(
+      validateFieldValue(
+        repeater,
+        serializeRepeaterValue([{ id: "row-1", values: { hours: "many" } }])
+      )
+    ).toBe("Row 1, Hours: Please enter a valid number");
+    expect(
+      validateFieldValue(
+        repeater,
+        serializeRepeaterValue([{ id: "row-1", values: { owner: "ada" } }])
+      )
+    ).toBe("Row 1 has an answer for an unknown column");
+  });
+});
+
+describe("validateFormValues", () => {
+  const fields = [
+    field("SECTION", { id: "intro", required: true }),
+    field("TEXT", { id: "name", required: true }),
+    field("EMAIL", { id: "email" }),
+    field("TEXT", { id: "city", required: true }),
+    field("MATRIX", {
+      id: "skills",
+      required: true,
+      options: ["Low", "High"],
+      matrix_rows: ["Writing", "Planning"],
+    }),
+  ];
+
+  it("reports required, invalid and partially answered fields", () => {
+    expect(
+      validateFormValues(fields, {
+        email: "nope",
+        skills: '{"Writing":"High"}',
+      })
+    ).toEqual({
+      name: "This field is required",
+      email: "Please enter a valid email address",
+      city: "This field is required",
+      skills: "Please answer every row",
+    });
+  });
+
+  it("skips fields that aren't visible", () => {
+    expect(
+      validateFormValues(
+        fields,
+        { name: "Ada", skills: '{"Writing":"High","Planning":"Low"}' },
+        new Set(["name", "email", "skills"])
+      )
+    ).toEqual({});
+  });
+});
+
+describe("validateFileUpload", () => {
+  const rules = { maxFileSizeMb: 1, allowedFileTypes: "image/*, .pdf" };
+
+  it("enforces size and type limits", () => {
+    expect(
+      validateFileUpload(rules, { name: "a.png", size: 0, mimeType: "" })
+    ).toBe("File is empty");
+    expect(
+      validateFileUpload(rules, {
+        name: "a.png",
+        size: 2 * 1024 * 1024,
+        mimeType: "image/png",
+      })
+    ).toBe("File must be at most 1 MB");
+    expect(
+      validateFileUpload(rules, {
+        name: "notes.txt",
+        size: 10,
+        mimeType: "text/plain",
+      })
+    ).toBe("File type not allowed (accepted: image/*, .pdf)");
+    expect(
+      validateFileUpload(rules, {
+        name: "Brief.PDF",
+        size: 10,
+        mimeType: "application/octet-stream",
+      })
+    ).toBeNull();
+  });
+});
+
+describe("validation rules", () => {
+  it("keeps only well-formed rules", () => {
+    expect(
+      normalizeValidationRules({
+        min: "2",
+        max: "ten",
+        step: 0,
+        pattern: "([",
+        allowedFileTypes: " .pdf ",
+        unknown: true,
+      })
+    ).toEqual({ min: 2, allowedFileTypes: ".pdf" });
+    expect(normalizeValidationRules({ pattern: " " })).toBeNull();
+  });
+
+  it("reports contradictory rules", () => {
+    expect(getValidationRulesError({ min: 5, max: 1 })).toBe(
+      "Minimum value can't be greater than maximum value"
+    );
+    expect(
+      getValidationRulesError({ minDate: "2024-02-01", maxDate: "2024-01-01" })
+    ).toBe("Earliest value can't be after the latest value");
+    expect(getValidationRulesError({ maxFileSizeMb: 0 })).toBe(
+      "Max file size must be greater than zero"
+    );
+    expect(getValidationRulesError({ minLength: 1, maxLength: 5 })).toBeNull();
+  });
+
+  it("parses only string grid answers", () => {
+    expect(parseMatrixValue('{"Writing":"High","Planning":3}')).toEqual({
+      Writing: "High",
+    });
+  });
+});
@@ -0,0 +1,485 @@
+// src/utils/fieldValidation.ts
+import {
+  DATE_FORMAT_HINTS,
+  isDateFieldType,
+  toDateSortKey,
+} from "./dateValues";
+import {
+  MAX_REPEATER_ROWS,
+  parseRepeaterValue,
+  RepeaterSubField,
+} from "./repeaterValues";
+
+export interface FieldValidationRules {
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  pattern?: string;
+  patternMessage?: string;
+  minSelected?: number;
+  maxSelected?: number;
+  // ISO-8601 bounds for DATE, TIME and DATETIME fields
+  minDate?: string;
+  maxDate?: string;
+  // FILE fields: accept-style type list such as "image/*, .pdf"
+  allowedFileTypes?: string;
+  maxFileSizeMb?: number;
+  maxFiles?: number;
+  // RATING and SCALE endpoint captions, e.g. "Not likely" / "Very likely"
+  minLabel?: string;
+  maxLabel?: string;
+}
+
+interface ValidatableField {
+  id: string;
+  label: string;
+  type: string;
+  required?: boolean;
+  options?: string[];
+  matrix_rows?: string[] | null;
+  sub_fields?: RepeaterSubField[] | null;
+  validation?: FieldValidationRules | null;
+}
+
+const NUMERIC_RULES: (keyof FieldValidationRules)[] = [
+  "minLength",
+  "maxLength",
+  "min",
+  "max",
+  "step",
+  "minSelected",
+  "maxSelected",
+  "maxFileSizeMb",
+  "maxFiles",
+];
+
+// Built-in limits applied regardless of configured rules
+const MAX_TEXT_LENGTH = 10000;
+const MAX_OPTION_LENGTH = 500;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// One entry of an accept-style list: ".pdf", "image/*" or "text/plain"
+const FILE_TYPE_PATTERN = /^(\.[\w.-]+|[\w.+-]+\/(\*|[\w.+-]+))$/;
+
+// Fallback ranges when a RATING or SCALE field has no min/max/step rules
+const SCALE_DEFAULTS: Record<
+  string,
+  { min: number; max: number; step: number }
+> = {
+  RATING: { min: 1, max: 5, step: 1 },
+  SCALE: { min: 0, max: 10, step: 1 },
+};
+
+export const isScaleFieldType = (type: string) =>
+  type === "RATING" || type === "SCALE";
+
+export const getScaleBounds = (
+  type: string,
+  rules?: FieldValidationRules | null
+) => {
+  const defaults = SCALE_DEFAULTS[type] || SCALE_DEFAULTS.SCALE;
+  return {
+    min: rules?.min ?? defaults.min,
+    max: rules?.max ?? defaults.max,
+    step: rules?.step && rules.step > 0 ? rules.step : defaults.step,
+  };
+};
+
+// MATRIX values are stored as a JSON object of row -> chosen column
+export const parseMatrixValue = (value: string): Record<string, string> => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return {};
+    }
+    const answers: Record<string, string> = {};
+    Object.entries(parsed).forEach(([row, column]) => {
+      if (typeof column === "string" && column !== "") answers[row] = column;
+    });
+    return answers;
+  } catch {
+    return {};
+  }
+};
+
+export const serializeMatrixValue = (answers: Record<string, string>) => {
+  const entries = Object.entries(answers).filter(([, column]) => column);
+  return entries.length > 0 ? JSON.stringify(Object.fromEntries(entries)) : "";
+};
+
+export const splitSelectedOptions = (value: string): string[] =>
+  value
+    .split(",")
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+// Keep only well-formed rules so stored definitions stay trustworthy
+export const normalizeValidationRules = (
+  rules: any
+): FieldValidationRules | null => {
+  if (!rules || typeof rules !== "object") return null;
+
+  const normalized: FieldValidationRules = {};
+
+  NUMERIC_RULES.forEach((key) => {
+    const raw = rules[key];
+    if (raw === undefined || raw === null || raw === "") return;
+    const number = Number(raw);
+    if (isFinite(number)) {
+      (normalized as any)[key] = number;
+    }
+  });
+
+  if (normalized.step !== undefined && normalized.step <= 0) {
+    delete normalized.step;
+  }
+
+  if (typeof rules.pattern === "string" && rules.pattern.trim()) {
+    try {
+      new RegExp(rules.pattern);
+      normalized.pattern = rules.pattern;
+      if (typeof rules.patternMessage === "string" && rules.patternMessage) {
+        normalized.patternMessage = rules.patternMessage;
+      }
+    } catch {
+      // Invalid patterns are dropped rather than breaking every submission
+    }
+  }
+
+  (
+    ["minDate", "maxDate", "allowedFileTypes", "minLabel", "maxLabel"] as const
+  ).forEach((key) => {
+    if (typeof rules[key] === "string" && rules[key].trim()) {
+      normalized[key] = rules[key].trim();
+    }
+  });
+
+  return Object.keys(normalized).length > 0 ? normalized : null;
+};
+
+// Contradictory rules in a definition, e.g. a minimum above the maximum
+export const getValidationRulesError = (
+  rules: FieldValidationRules | null | undefined
+): string | null => {
+  if (!rules) return null;
+
+  const ranges: [number | undefined, number | undefined, string][] = [
+    [rules.minLength, rules.maxLength, "length"],
+    [rules.min, rules.max, "value"],
+    [rules.minSelected, rules.maxSelected, "selection count"],
+  ];
+
+  for (const [min, max, name] of ranges) {
+    if (min !== undefined && max !== undefined && min > max) {
+      return `Minimum ${name} can't be greater than maximum ${name}`;
+    }
+  }
+
+  // Date, time and datetime-local inputs all produce sortable ISO strings
+  if (rules.minDate && rules.maxDate && rules.minDate > rules.maxDate) {
+    return "Earliest value can't be after the latest value";
+  }
+
+  if (rules.maxFileSizeMb !== undefined && rules.maxFileSizeMb <= 0) {
+    return "Max file size must be greater than zero";
+  }
+
+  if (rules.step !== undefined && rules.step <= 0) {
+    return "Step must be greater than zero";
+  }
+
+  const fileTypes = splitSelectedOptions(rules.allowedFileTypes || "");
+  if (fileTypes.some((entry) => !FILE_TYPE_PATTERN.test(entry))) {
+    return "Allowed file types must be extensions like .pdf or MIME types like image/*";
+  }
+
+  if (rules.pattern) {
+    try {
+      new RegExp(rules.pattern);
+    } catch {
+      return "Pattern is not a valid regular expression";
+    }
+  }
+
+  return null;
+};
+
+// Returns an error message for a non-empty value, or null when it's valid
+export const validateFieldValue = (
+  field: ValidatableField,
+  value: string
+): string | null => {
+  if (!value || value.trim() === "") return null; // Empty values are allowed
+
+  const rules = field.validation || {};
+  const type = field.type.toUpperCase();
+
+  if (isDateFieldType(type)) {
+    const key = toDateSortKey(type, value);
+    if (key === null) {
+      return `Please enter a valid value (${DATE_FORMAT_HINTS[type]})`;
+    }
+
+    const minKey = rules.minDate ? toDateSortKey(type, rules.minDate) : null;
+    if (minKey !== null && key < minKey) {
+      return `Must be on or after ${rules.minDate}`;
+    }
+
+    const maxKey = rules.maxDate ? toDateSortKey(type, rules.maxDate) : null;
+    if (maxKey !== null && key > maxKey) {
+      return `Must be on or before ${rules.maxDate}`;
+    }
+
+    return null;
+  }
+
+  switch (type) {
+    case "EMAIL":
+      if (!EMAIL_REGEX.test(value)) {
+        return "Please enter a valid email address";
+      }
+      break;
+    case "NUMBER": {
+      const number = Number(value);
+      if (isNaN(number) || !isFinite(number)) {
+        return "Please enter a valid number";
+      }
+      if (rules.min !== undefined && number < rules.min) {
+        return `Must be at least ${rules.min}`;
+      }
+      if (rules.max !== undefined && number > rules.max) {
+        return `Must be at most ${rules.max}`;
+      }
+      if (rules.step !== undefined) {
+        const steps = (number - (rules.min ?? 0)) / rules.step;
+        if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+          return `Must be in increments of ${rules.step}`;
+        }
+      }
+      break;
+    }
+    case "RATING":
+    case "SCALE": {
+      const number = Number(value);
+      const { min, max, step } = getScaleBounds(type, rules);
+      if (isNaN(number) || !isFinite(number)) {
+        return "Please choose a value";
+      }
+      if (number < min || number > max) {
+        return `Must be between ${min} and ${max}`;
+      }
+      const steps = (number - min) / step;
+      if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+        return `Must be in increments of ${step}`;
+      }
+      break;
+    }
+    case "TEXT":
+    case "TEXTAREA":
+      if (value.length > MAX_TEXT_LENGTH) {
+        return `Must be at most ${MAX_TEXT_LENGTH} characters`;
+      }
+      break;
+    case "DROPDOWN":
+    case "RADIO":
+      if (value.length > MAX_OPTION_LENGTH) {
+        return "Selected option is too long";
+      }
+      break;
+    case "FILE": {
+      const fileIds = splitSelectedOptions(value);
+      if (rules.maxFiles !== undefined && fileIds.length > rules.maxFiles) {
+        return `Attach at most ${rules.maxFiles} file(s)`;
+      }
+      break;
+    }
+    case "MATRIX": {
+      const answers = parseMatrixValue(value);
+      if (Object.keys(answers).length === 0) {
+        return "Invalid grid answer";
+      }
+      const rows = field.matrix_rows || [];
+      const columns = field.options || [];
+      const invalid = Object.entries(answers).find(
+        ([row, column]) => !rows.includes(row) || !columns.includes(column)
+      );
+      if (invalid) {
+        return `"${invalid[0]}" has an answer that isn't in the grid`;
+      }
+      break;
+    }
+    case "REPEATER": {
+      const rows = parseRepeaterValue(value);
+      if (rows.length === 0) {
+        return "Invalid rows";
+      }
+      if (rows.length > MAX_REPEATER_ROWS) {
+        return `Add at most ${MAX_REPEATER_ROWS} rows`;
+      }
+      const subFields = field.sub_fields || [];
+      for (const [index, row] of rows.entries()) {
+        for (const subFieldId of Object.keys(row.values)) {
+          if (!subFields.some((subField) => subField.id === subFieldId)) {
+            return `Row ${index + 1} has an answer for an unknown column`;
+          }
+        }
+        for (const subField of subFields) {
+          const error = validateFieldValue(
+            subField,
+            row.values[subField.id] || ""
+          );
+          if (error) {
+            return `Row ${index + 1}, ${subField.label}: ${error}`;
+          }
+        }
+      }
+      break;
+    }
+    case "CHECKBOX": {
+      const selected = splitSelectedOptions(value);
+      if (selected.some((option) => option.length > MAX_OPTION_LENGTH)) {
+        return "Selected option is too long";
+      }
+      if (
+        rules.minSelected !== undefined &&
+        selected.length < rules.minSelected
+      ) {
+        return `Select at least ${rules.minSelected} option(s)`;
+      }
+      if (
+        rules.maxSelected !== undefined &&
+        selected.length > rules.maxSelected
+      ) {
+        return `Select at most ${rules.maxSelected} option(s)`;
+      }
+      break;
+    }
+  }
+
+  if (["TEXT", "TEXTAREA", "EMAIL"].includes(type)) {
+    if (rules.minLength !== undefined && value.length < rules.minLength) {
+      return `Must be at least ${rules.minLength} characters`;
+    }
+    if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+      return `Must be at most ${rules.maxLength} characters`;
+    }
+    if (rules.pattern) {
+      try {
+        if (!new RegExp(rules.pattern).test(value)) {
+          return rules.patternMessage || "Value has an invalid format";
+        }
+      } catch {
+        // Ignore patterns that can't be compiled
+      }
+    }
+  }
+
+  return null;
+};
+
+// Match a file against an accept-style list of MIME types and extensions
+export const matchesAllowedFileType = (
+  allowedFileTypes: string | undefined,
+  mimeType: string,
+  fileName: string
+): boolean => {
+  const allowed = splitSelectedOptions((allowedFileTypes || "").toLowerCase());
+  if (allowed.length === 0) return true;
+
+  const mime = mimeType.toLowerCase();
+  const name = fileName.toLowerCase();
+
+  return allowed.some((entry) => {
+    if (entry.startsWith(".")) return name.endsWith(entry);
+    if (entry.endsWith("/*")) return mime.startsWith(entry.slice(0, -1));
+    return mime === entry;
+  });
+};
+
+// Returns an error message for an upload that breaks the field's limits
+export const validateFileUpload = (
+  rules: FieldValidationRules | null | undefined,
+  file: { name: string; size: number; mimeType: string }
+): string | null => {
+  const limits = rules || {};
+
+  if (file.size === 0) {
+    return "File is empty";
+  }
+  if (
+    limits.maxFileSizeMb !== undefined &&
+    file.size > limits.maxFileSizeMb * 1024 * 1024
+  ) {
+    return `File must be at most ${limits.maxFileSizeMb} MB`;
+  }
+  if (
+    !matchesAllowedFileType(limits.allowedFileTypes, file.mimeType, file.name)
+  ) {
+    return `File type not allowed (accepted: ${limits.allowedFileTypes})`;
+  }
+
+  return null;
+};
+
+// Validate a whole submission; only fields in visibleFieldIds are checked
+export const validateFormValues = (
+  fields: ValidatableField[],
+  values: Record<string, string>,
+  visibleFieldIds?: Set<string>
+): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+
+  fields
+    .filter((field) => !visibleFieldIds || visibleFieldIds.has(field.id))
+    // SECTION headers are layout only and never hold a value
+    .filter((field) => field.type.toUpperCase() !== "SECTION")
+    .forEach((field) => {
+      const value = values[field.id] ?? "";
+
+      if (field.required && value.trim() === "") {
+        fieldErrors[field.id] = "This field is required";
+        return;
+      }
+
+      if (field.required && field.type.toUpperCase() === "MATRIX") {
+        const answers = parseMatrixValue(value);
+        if ((field.matrix_rows || []).some((row) => !answers[row])) {
+          fieldErrors[field.id] = "Please answer every row";
+          return;
+        }
+      }
+
+      const error = validateFieldValue(field, value);
+      if (error) {
+        fieldErrors[field.id] = error;
+        return;
+      }
+
+      if (field.type.toUpperCase() === "REPEATER") {
+        const rows = parseRepeaterValue(value).filter(
+          (row) => Object.keys(row.values).length > 0
+        );
+        if (field.required && rows.length === 0) {
+          fieldErrors[field.id] = "Add at least one row";
+          return;
+        }
+        for (const [index, row] of rows.entries()) {
+          const missing = (field.sub_fields || []).find(
+            (subField) => subField.required && !row.values[subField.id]
+          );
+          if (missing) {
+            fieldErrors[field.id] = `Row ${index + 1}: ${
+              missing.label
+            } is required`;
+            return;
+          }
+        }
+      }
+    });
+
+  return fieldErrors;
+};
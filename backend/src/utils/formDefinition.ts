@@ -0,0 +1,309 @@
+// src/utils/formDefinition.ts
+import { FieldType } from "../config/supabase";
+import { TemplateField } from "../config/formTemplates";
+import { isConditionOperator, normalizeConditions } from "./conditions";
+import {
+  getValidationRulesError,
+  normalizeValidationRules,
+} from "./fieldValidation";
+import { remapFormula } from "./formulas";
+import { normalizeSubFields } from "./repeaterValues";
+
+// Portable form definition used by GET /api/forms/:formId/definition and
+// POST /api/forms/import:
+//
+// {
+//   "format": "collaborative-form-definition",
+//   "version": 1,
+//   "exported_at": "2024-01-01T00:00:00.000Z",   // informational
+//   "title": "Expense Report",
+//   "description": "Optional text",
+//   "fields": [
+//     {
+//       "id": "field_1",        // unique within the document
+//       "label": "Travel",
+//       "type": "NUMBER",       // any FieldType
+//       "required": false,
+//       "options": [],          // choices, or MATRIX columns
+//       "matrix_rows": [...],   // MATRIX only
+//       "sub_fields": [...],    // REPEATER only
+//       "description": "...",   // SECTION only
+//       "formula": "{field_1}", // CALCULATED only, references other ids
+//       "conditions": {...},    // rules reference other field ids
+//       "validation": {...}
+//     }
+//   ],
+//   "sharing_groups": ["Default Group"]
+// }
+//
+// Bump FORM_DEFINITION_VERSION whenever the shape changes incompatibly.
+export const FORM_DEFINITION_FORMAT = "collaborative-form-definition";
+export const FORM_DEFINITION_VERSION = 1;
+
+export interface FormDefinitionDocument {
+  format: typeof FORM_DEFINITION_FORMAT;
+  version: number;
+  exported_at?: string;
+  title: string;
+  description: string | null;
+  fields: TemplateField[];
+  sharing_groups: string[];
+}
+
+// Record keeps this list in step with the FieldType union
+const FIELD_TYPE_LOOKUP: Record<FieldType, true> = {
+  TEXT: true,
+  NUMBER: true,
+  EMAIL: true,
+  DROPDOWN: true,
+  TEXTAREA: true,
+  CHECKBOX: true,
+  RADIO: true,
+  DATE: true,
+  TIME: true,
+  DATETIME: true,
+  FILE: true,
+  RATING: true,
+  SCALE: true,
+  MATRIX: true,
+  REPEATER: true,
+  SECTION: true,
+  CALCULATED: true,
+};
+
+export const isFieldType = (type: unknown): type is FieldType =>
+  typeof type === "string" &&
+  Object.prototype.hasOwnProperty.call(FIELD_TYPE_LOOKUP, type);
+
+const CHOICE_FIELD_TYPES = ["DROPDOWN", "RADIO", "CHECKBOX"];
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Build the document for stored fields, replacing database ids with
+// readable field_1, field_2... keys
+export const toFormDefinition = (
+  form: { title: string; description: string | null },
+  storedFields: any[],
+  groupNames: string[]
+): FormDefinitionDocument => {
+  const ordered = [...storedFields].sort(
+    (a, b) => a.field_order - b.field_order
+  );
+  const keyMap = new Map<string, string>(
+    ordered.map((field, index) => [field.id, `field_${index + 1}`])
+  );
+
+  return {
+    format: FORM_DEFINITION_FORMAT,
+    version: FORM_DEFINITION_VERSION,
+    exported_at: new Date().toISOString(),
+    title: form.title,
+    description: form.description || null,
+    fields: ordered.map((field) => {
+      const exported: TemplateField = {
+        id: keyMap.get(field.id)!,
+        label: field.label,
+        type: field.type,
+        required: field.required,
+        options: field.options || [],
+      };
+      if (field.type === "MATRIX") exported.matrix_rows = field.matrix_rows;
+      if (field.type === "REPEATER") exported.sub_fields = field.sub_fields;
+      if (field.type === "SECTION") exported.description = field.description;
+      if (field.type === "CALCULATED") {
+        exported.formula = remapFormula(field.formula || "", keyMap);
+      }
+      if (field.conditions) {
+        exported.conditions = normalizeConditions(field.conditions, keyMap);
+      }
+      if (field.validation) exported.validation = field.validation;
+      return exported;
+    }),
+    sharing_groups: groupNames,
+  };
+};
+
+// First problem in a rule tree: a malformed group, an unknown operator or a
+// reference to a field that isn't in the document
+const getConditionsError = (
+  group: any,
+  fieldIds: Set<string>
+): string | null => {
+  if (!Array.isArray(group?.rules)) return "conditions must have a rules list";
+
+  for (const rule of group.rules) {
+    if (rule && Array.isArray(rule.rules)) {
+      const error = getConditionsError(rule, fieldIds);
+      if (error) return error;
+    } else if (!fieldIds.has(String(rule?.fieldId))) {
+      return `conditions reference unknown field "${rule?.fieldId}"`;
+    } else if (!isConditionOperator(rule.operator)) {
+      return `conditions use unknown operator "${rule.operator}"`;
+    }
+  }
+  return null;
+};
+
+// Problems with one field of a definition; fieldIds are the ids its
+// conditions may reference
+export const getFieldErrors = (field: any, fieldIds: Set<string>): string[] => {
+  const errors: string[] = [];
+
+  if (typeof field.id !== "string" || !field.id.trim()) {
+    errors.push("id must be a non-empty string");
+  }
+  if (typeof field.label !== "string" || !field.label.trim()) {
+    errors.push("label must be a non-empty string");
+  }
+  if (!isFieldType(field.type)) {
+    errors.push(`unknown type "${field.type}"`);
+    return errors;
+  }
+  if (field.required !== undefined && typeof field.required !== "boolean") {
+    errors.push("required must be true or false");
+  }
+  if (field.options !== undefined && !isStringArray(field.options)) {
+    errors.push("options must be a list of strings");
+  }
+
+  const options = isStringArray(field.options)
+    ? field.options.filter((option: string) => option.trim())
+    : [];
+  if (CHOICE_FIELD_TYPES.includes(field.type)) {
+    if (options.length === 0) {
+      errors.push("needs at least one option");
+    } else if (new Set(options).size !== options.length) {
+      errors.push("has duplicate options");
+    }
+  }
+
+  if (field.type === "MATRIX") {
+    const rows = isStringArray(field.matrix_rows)
+      ? field.matrix_rows.filter((row: string) => row.trim())
+      : [];
+    if (rows.length === 0 || options.length === 0) {
+      errors.push("needs at least one row in matrix_rows and one option");
+    } else if (
+      new Set(rows).size !== rows.length ||
+      new Set(options).size !== options.length
+    ) {
+      errors.push("has duplicate rows or columns");
+    }
+  }
+
+  if (field.type === "REPEATER") {
+    const subFields = Array.isArray(field.sub_fields) ? field.sub_fields : [];
+    if (subFields.length === 0) {
+      errors.push("needs at least one entry in sub_fields");
+    } else if (normalizeSubFields(subFields).length !== subFields.length) {
+      errors.push("sub_fields need a label and a supported type");
+    }
+  }
+
+  if (field.conditions !== undefined && field.conditions !== null) {
+    const conditionsError = getConditionsError(field.conditions, fieldIds);
+    if (conditionsError) errors.push(conditionsError);
+  }
+
+  if (field.validation !== undefined && field.validation !== null) {
+    const rulesError = getValidationRulesError(
+      normalizeValidationRules(field.validation)
+    );
+    if (rulesError) errors.push(rulesError);
+  }
+
+  return errors;
+};
+
+// "fields[2] (Email)" in error messages
+const describeField = (field: any, index: number) =>
+  typeof field?.label === "string" && field.label.trim()
+    ? `fields[${index}] (${field.label.trim()})`
+    : `fields[${index}]`;
+
+// Check an uploaded document; every problem is reported at once so authors
+// can fix the file in one go. Formulas are checked by the create path.
+export const parseFormDefinition = (
+  document: any
+): { definition: FormDefinitionDocument } | { errors: string[] } => {
+  if (!document || typeof document !== "object" || Array.isArray(document)) {
+    return { errors: ["The definition must be a JSON object"] };
+  }
+  if (document.format !== FORM_DEFINITION_FORMAT) {
+    return { errors: [`format must be "${FORM_DEFINITION_FORMAT}"`] };
+  }
+  if (
+    !Number.isInteger(document.version) ||
+    document.version < 1 ||
+    document.version > FORM_DEFINITION_VERSION
+  ) {
+    return {
+      errors: [
+        `Unsupported version ${document.version}; this server reads up to version ${FORM_DEFINITION_VERSION}`,
+      ],
+    };
+  }
+
+  const errors: string[] = [];
+  if (typeof document.title !== "string" || !document.title.trim()) {
+    errors.push("title must be a non-empty string");
+  }
+  if (
+    document.description !== undefined &&
+    document.description !== null &&
+    typeof document.description !== "string"
+  ) {
+    errors.push("description must be a string");
+  }
+  if (
+    document.sharing_groups !== undefined &&
+    !isStringArray(document.sharing_groups)
+  ) {
+    errors.push("sharing_groups must be a list of group names");
+  }
+
+  if (!Array.isArray(document.fields) || document.fields.length === 0) {
+    errors.push("fields must be a non-empty list");
+    return { errors };
+  }
+
+  const fieldIds = new Set<string>();
+  document.fields.forEach((field: any, index: number) => {
+    const name = describeField(field, index);
+    if (!field || typeof field !== "object") {
+      errors.push(`${name}: must be an object`);
+      return;
+    }
+    if (fieldIds.has(field.id)) {
+      errors.push(`${name}: duplicate id "${field.id}"`);
+    }
+    fieldIds.add(field.id);
+  });
+
+  document.fields.forEach((field: any, index: number) => {
+    if (!field || typeof field !== "object") return;
+    getFieldErrors(field, fieldIds).forEach((error) =>
+      errors.push(`${describeField(field, index)}: ${error}`)
+    );
+  });
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    definition: {
+      format: FORM_DEFINITION_FORMAT,
+      version: document.version,
+      title: document.title.trim(),
+      description: document.description || null,
+      fields: document.fields.map((field: any) => ({
+        ...field,
+        required: Boolean(field.required),
+        options: field.options || [],
+      })),
+      sharing_groups: (document.sharing_groups || [])
+        .map((name: string) => name.trim())
+        .filter(Boolean),
+    },
+  };
+};
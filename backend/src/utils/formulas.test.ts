@@ -0,0 +1,176 @@
+// src/utils/formulas.test.ts
+import {
+  computeCalculatedValues,
+  evaluateFormula,
+  findFormulaCycle,
+  getFormulaReferences,
+  parseFormula,
+  remapFormula,
+  validateFormula,
+} from "./formulas";
+
+// Evaluates a formula without references, failing the test on a parse error
+const evaluate = (formula: string, values: Record<string, number> = {}) => {
+  const parsed = parseFormula(formula);
+  if (parsed.error !== undefined) throw new Error(parsed.error);
+  return evaluateFormula(parsed.node, (fieldId) => values[fieldId] ?? 0);
+};
+
+describe("parseFormula", () => {
+  it("follows operator precedence", () => {
+    expect(evaluate("2 + 3 * 4")).toBe(14);
+    expect(evaluate("(2 + 3) * 4")).toBe(20);
+    expect(evaluate("10 - 4 - 3")).toBe(3);
+    expect(evaluate("2 * 3 ^ 2")).toBe(18);
+    expect(evaluate("2 ^ 3 ^ 2")).toBe(512);
+    expect(evaluate("-2 ^ 2")).toBe(-4);
+    expect(evaluate("7 % 4 + 1")).toBe(4);
+  });
+
+  it("calls functions with their argument counts", () => {
+    expect(evaluate("SUM(1, 2, 3)")).toBe(6);
+    expect(evaluate("avg(2, 4)")).toBe(3);
+    expect(evaluate("ROUND(2.345, 2)")).toBe(2.35);
+    expect(evaluate("MAX({a}, {b}) - MIN({a}, {b})", { a: 3, b: 8 })).toBe(5);
+
+    expect(parseFormula("ABS(1, 2)")).toEqual({
+      error: "Wrong number of arguments for ABS",
+    });
+    expect(parseFormula("MEDIAN(1)")).toEqual({
+      error: "Unknown function MEDIAN",
+    });
+  });
+
+  it("reports malformed input", () => {
+    expect(parseFormula("")).toEqual({ error: "Formula is empty" });
+    expect(parseFormula("1 +")).toEqual({
+      error: "Formula ends unexpectedly",
+    });
+    expect(parseFormula("(1 + 2")).toEqual({ error: 'Expected ")"' });
+    expect(parseFormula("1 2")).toEqual({ error: 'Unexpected "2"' });
+    expect(parseFormula("{budget")).toEqual({
+      error: "Field references must look like {field}",
+    });
+    expect(parseFormula("{} + 1")).toEqual({
+      error: "Field references must look like {field}",
+    });
+    expect(parseFormula("1 & 2")).toEqual({
+      error: 'Unexpected character "&"',
+    });
+    expect(parseFormula("1+".repeat(600) + "1").error).toMatch(/at most/);
+  });
+});
+
+describe("evaluateFormula", () => {
+  it("returns null instead of dividing by zero", () => {
+    expect(evaluate("{a} / {b}", { a: 1, b: 0 })).toBeNull();
+    expect(evaluate("{a} % 0", { a: 5 })).toBeNull();
+    expect(evaluate("0 / 0")).toBeNull();
+  });
+});
+
+describe("validateFormula", () => {
+  const known = new Set(["budget", "tax", "total"]);
+
+  it("accepts formulas over known fields", () => {
+    expect(validateFormula("{budget} * (1 + {tax})", "total", known)).toBe(
+      null
+    );
+  });
+
+  it("rejects unknown and self references", () => {
+    expect(validateFormula("{budget} + {tip}", "total", known)).toBe(
+      "Unknown field {tip}"
+    );
+    expect(validateFormula("{total} + 1", "total", known)).toBe(
+      "A formula can't reference itself"
+    );
+    expect(validateFormula(null, "total", known)).toBe("Formula is empty");
+  });
+});
+
+describe("findFormulaCycle", () => {
+  it("finds CALCULATED fields that depend on each other", () => {
+    expect(
+      findFormulaCycle([
+        { id: "a", type: "NUMBER" },
+        { id: "b", type: "CALCULATED", formula: "{a} + {d}" },
+        { id: "c", type: "CALCULATED", formula: "{b} * 2" },
+        { id: "d", type: "CALCULATED", formula: "{c} - 1" },
+      ])
+    ).toEqual(["b", "d", "c"]);
+  });
+
+  it("allows chains without a loop", () => {
+    expect(
+      findFormulaCycle([
+        { id: "a", type: "NUMBER" },
+        { id: "b", type: "CALCULATED", formula: "{a} + 1" },
+        { id: "c", type: "CALCULATED", formula: "{a} + {b}" },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe("computeCalculatedValues", () => {
+  const fields = [
+    { id: "price", type: "NUMBER" },
+    { id: "quantity", type: "NUMBER" },
+    { id: "subtotal", type: "CALCULATED", formula: "{price} * {quantity}" },
+    { id: "total", type: "CALCULATED", formula: "{subtotal} * 1.1" },
+    { id: "ratio", type: "CALCULATED", formula: "{price} / {quantity}" },
+  ];
+
+  it("computes chained fields without floating point noise", () => {
+    expect(
+      computeCalculatedValues(fields, { price: "0.1", quantity: "3" })
+    ).toEqual({ subtotal: "0.3", total: "0.33", ratio: "0.0333333333333" });
+  });
+
+  it("leaves results empty until an answer is given or when undefined", () => {
+    expect(computeCalculatedValues(fields, {})).toEqual({
+      subtotal: "",
+      total: "",
+      ratio: "",
+    });
+    expect(
+      computeCalculatedValues(fields, { price: "4", quantity: "0" })
+    ).toMatchObject({ subtotal: "0", ratio: "" });
+  });
+
+  it("treats non-numeric answers as zero", () => {
+    expect(
+      computeCalculatedValues(fields, { price: "abc", quantity: "2" })
+    ).toMatchObject({ subtotal: "0" });
+  });
+
+  it("stops at a cycle that slipped past validation", () => {
+    expect(
+      computeCalculatedValues(
+        [
+          { id: "a", type: "NUMBER" },
+          { id: "b", type: "CALCULATED", formula: "{a} + {c}" },
+          { id: "c", type: "CALCULATED", formula: "{b} + 1" },
+        ],
+        { a: "1" }
+      )
+    ).toEqual({ b: "1", c: "" });
+  });
+});
+
+describe("remapFormula", () => {
+  it("points known references at new ids and keeps the rest", () => {
+    const idMap = new Map([["field_1", "uuid-1"]]);
+
+    expect(remapFormula("{ field_1 } + {field_2}", idMap)).toBe(
+      "{uuid-1} + {field_2}"
+    );
+  });
+});
+
+describe("getFormulaReferences", () => {
+  it("lists each referenced field once, and none for invalid formulas", () => {
+    expect(getFormulaReferences("SUM({a}, {b}, {a})")).toEqual(["a", "b"]);
+    expect(getFormulaReferences("{a} +")).toEqual([]);
+  });
+});
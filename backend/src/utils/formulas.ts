@@ -0,0 +1,400 @@
+// src/utils/formulas.ts
+
+// Formulas of CALCULATED fields reference other fields as {fieldId} and
+// support + - * / % ^, parentheses, numbers and the functions below.
+// They are parsed into a tree and evaluated without eval().
+
+export type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "ref"; fieldId: string }
+  | { kind: "unary"; operand: FormulaNode }
+  | { kind: "binary"; op: string; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "ref"; value: string }
+  | { type: "name"; value: string }
+  | { type: "symbol"; value: string };
+
+type ParseResult = { node: FormulaNode; error?: undefined } | { error: string };
+
+interface FormulaField {
+  id: string;
+  type: string;
+  formula?: string | null;
+}
+
+const MAX_FORMULA_LENGTH = 1000;
+
+const sum = (args: number[]) => args.reduce((total, arg) => total + arg, 0);
+
+// name -> [min args, max args, implementation]
+const FORMULA_FUNCTIONS: Record<
+  string,
+  [number, number, (args: number[]) => number]
+> = {
+  SUM: [1, Infinity, sum],
+  AVG: [1, Infinity, (args) => sum(args) / args.length],
+  MIN: [1, Infinity, (args) => Math.min(...args)],
+  MAX: [1, Infinity, (args) => Math.max(...args)],
+  ABS: [1, 1, ([value]) => Math.abs(value)],
+  FLOOR: [1, 1, ([value]) => Math.floor(value)],
+  CEIL: [1, 1, ([value]) => Math.ceil(value)],
+  ROUND: [
+    1,
+    2,
+    ([value, digits = 0]) => {
+      const factor = Math.pow(10, Math.round(digits));
+      return Math.round(value * factor) / factor;
+    },
+  ],
+};
+
+export const FORMULA_FUNCTION_NAMES = Object.keys(FORMULA_FUNCTIONS);
+
+const tokenize = (formula: string): Token[] | string => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < formula.length) {
+    const rest = formula.slice(index);
+    const char = formula[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const number = rest.match(/^(\d+(\.\d+)?|\.\d+)/);
+    if (number) {
+      tokens.push({ type: "number", value: Number(number[0]) });
+      index += number[0].length;
+      continue;
+    }
+
+    if (char === "{") {
+      const end = formula.indexOf("}", index);
+      const reference = end === -1 ? "" : formula.slice(index + 1, end).trim();
+      if (!reference || reference.includes("{")) {
+        return "Field references must look like {field}";
+      }
+      tokens.push({ type: "ref", value: reference });
+      index = end + 1;
+      continue;
+    }
+
+    const name = rest.match(/^[A-Za-z_]+/);
+    if (name) {
+      tokens.push({ type: "name", value: name[0].toUpperCase() });
+      index += name[0].length;
+      continue;
+    }
+
+    if ("+-*/%^(),".includes(char)) {
+      tokens.push({ type: "symbol", value: char });
+      index++;
+      continue;
+    }
+
+    return `Unexpected character "${char}"`;
+  }
+
+  return tokens;
+};
+
+// Recursive descent over: expression -> term -> unary -> power -> primary
+export const parseFormula = (formula: string): ParseResult => {
+  if (!formula || !formula.trim()) return { error: "Formula is empty" };
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    return {
+      error: `Formula must be at most ${MAX_FORMULA_LENGTH} characters`,
+    };
+  }
+
+  const tokens = tokenize(formula);
+  if (typeof tokens === "string") return { error: tokens };
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) =>
+    peek()?.type === "symbol" && peek()!.value === value;
+
+  class FormulaSyntaxError extends Error {}
+  const fail = (message: string): never => {
+    throw new FormulaSyntaxError(message);
+  };
+
+  const expect = (value: string) => {
+    if (!isSymbol(value)) fail(`Expected "${value}"`);
+    position++;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (!token) return fail("Formula ends unexpectedly");
+    position++;
+
+    if (token.type === "number") return { kind: "number", value: token.value };
+    if (token.type === "ref") return { kind: "ref", fieldId: token.value };
+
+    if (token.type === "name") {
+      const definition = FORMULA_FUNCTIONS[token.value];
+      if (!definition) return fail(`Unknown function ${token.value}`);
+
+      expect("(");
+      const args: FormulaNode[] = [];
+      if (!isSymbol(")")) {
+        args.push(parseExpression());
+        while (isSymbol(",")) {
+          position++;
+          args.push(parseExpression());
+        }
+      }
+      expect(")");
+
+      const [minArgs, maxArgs] = definition;
+      if (args.length < minArgs || args.length > maxArgs) {
+        fail(`Wrong number of arguments for ${token.value}`);
+      }
+      return { kind: "call", name: token.value, args };
+    }
+
+    if (token.value === "(") {
+      const inner = parseExpression();
+      expect(")");
+      return inner;
+    }
+
+    return fail(`Unexpected "${token.value}"`);
+  };
+
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (isSymbol("^")) {
+      position++;
+      return { kind: "binary", op: "^", left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isSymbol("-")) {
+      position++;
+      return { kind: "unary", operand: parseUnary() };
+    }
+    if (isSymbol("+")) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (isSymbol("*") || isSymbol("/") || isSymbol("%")) {
+      const op = peek()!.value as string;
+      position++;
+      node = { kind: "binary", op, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseExpression = (): FormulaNode => {
+    let node = parseTerm();
+    while (isSymbol("+") || isSymbol("-")) {
+      const op = peek()!.value as string;
+      position++;
+      node = { kind: "binary", op, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  try {
+    const node = parseExpression();
+    if (position < tokens.length) {
+      return { error: `Unexpected "${tokens[position].value}"` };
+    }
+    return { node };
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return { error: error.message };
+    throw error;
+  }
+};
+
+const collectReferences = (node: FormulaNode, references: Set<string>) => {
+  switch (node.kind) {
+    case "ref":
+      references.add(node.fieldId);
+      break;
+    case "unary":
+      collectReferences(node.operand, references);
+      break;
+    case "binary":
+      collectReferences(node.left, references);
+      collectReferences(node.right, references);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectReferences(arg, references));
+      break;
+  }
+};
+
+export const getFormulaReferences = (formula: string): string[] => {
+  const parsed = parseFormula(formula);
+  if (parsed.error !== undefined) return [];
+  const references = new Set<string>();
+  collectReferences(parsed.node, references);
+  return [...references];
+};
+
+// Returns null when the result isn't a finite number (e.g. division by zero)
+export const evaluateFormula = (
+  node: FormulaNode,
+  getValue: (fieldId: string) => number
+): number | null => {
+  const evaluate = (current: FormulaNode): number => {
+    switch (current.kind) {
+      case "number":
+        return current.value;
+      case "ref":
+        return getValue(current.fieldId);
+      case "unary":
+        return -evaluate(current.operand);
+      case "call":
+        return FORMULA_FUNCTIONS[current.name][2](current.args.map(evaluate));
+      case "binary": {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        switch (current.op) {
+          case "+":
+            return left + right;
+          case "-":
+            return left - right;
+          case "*":
+            return left * right;
+          case "/":
+            return left / right;
+          case "%":
+            return left % right;
+          default:
+            return Math.pow(left, right);
+        }
+      }
+    }
+  };
+
+  const result = evaluate(node);
+  return isFinite(result) ? result : null;
+};
+
+// Ids of a chain of CALCULATED fields that depend on each other, if any
+export const findFormulaCycle = (fields: FormulaField[]): string[] | null => {
+  const dependencies = new Map<string, string[]>(
+    fields
+      .filter((field) => field.type === "CALCULATED")
+      .map((field) => [field.id, getFormulaReferences(field.formula || "")])
+  );
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  const visit = (fieldId: string): string[] | null => {
+    if (state.get(fieldId) === "done") return null;
+    if (state.get(fieldId) === "visiting") {
+      return path.slice(path.indexOf(fieldId));
+    }
+
+    state.set(fieldId, "visiting");
+    path.push(fieldId);
+    for (const reference of dependencies.get(fieldId) || []) {
+      const cycle = visit(reference);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(fieldId, "done");
+    return null;
+  };
+
+  for (const fieldId of dependencies.keys()) {
+    const cycle = visit(fieldId);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+// Returns an error message for a formula, or null when it can be saved
+export const validateFormula = (
+  formula: string | null | undefined,
+  fieldId: string,
+  knownFieldIds: Set<string>
+): string | null => {
+  const parsed = parseFormula(formula || "");
+  if (parsed.error !== undefined) return parsed.error;
+
+  const references = new Set<string>();
+  collectReferences(parsed.node, references);
+  if (references.has(fieldId)) return "A formula can't reference itself";
+
+  const unknown = [...references].find((id) => !knownFieldIds.has(id));
+  return unknown ? `Unknown field {${unknown}}` : null;
+};
+
+// Numbers are shown without floating point noise (0.1 + 0.2 -> "0.3")
+const formatResult = (result: number) =>
+  String(parseFloat(result.toPrecision(12)));
+
+// Values of every CALCULATED field, computed from the other answers. A result
+// is empty until at least one referenced answer is filled in.
+export const computeCalculatedValues = (
+  fields: FormulaField[],
+  values: Record<string, string>
+): Record<string, string> => {
+  const formulas = new Map(
+    fields
+      .filter((field) => field.type === "CALCULATED")
+      .map((field) => [field.id, parseFormula(field.formula || "")])
+  );
+  const computed: Record<string, string> = {};
+  const inProgress = new Set<string>();
+
+  const resolve = (fieldId: string): string => {
+    const parsed = formulas.get(fieldId);
+    if (!parsed) return (values[fieldId] || "").trim();
+    if (fieldId in computed) return computed[fieldId];
+    // Cycles are rejected when saving; treat any that slip through as empty
+    if (parsed.error !== undefined || inProgress.has(fieldId)) return "";
+
+    inProgress.add(fieldId);
+    const references = new Set<string>();
+    collectReferences(parsed.node, references);
+    let anyAnswered = false;
+    const result = evaluateFormula(parsed.node, (reference) => {
+      const value = resolve(reference);
+      const number = Number(value);
+      if (value === "" || !isFinite(number)) return 0;
+      anyAnswered = true;
+      return number;
+    });
+    inProgress.delete(fieldId);
+
+    computed[fieldId] =
+      result === null || (references.size > 0 && !anyAnswered)
+        ? ""
+        : formatResult(result);
+    return computed[fieldId];
+  };
+
+  formulas.forEach((_, fieldId) => resolve(fieldId));
+  return computed;
+};
+
+// Point a formula's references at persisted field ids; references to fields
+// that weren't saved are kept as-is and fail validation later
+export const remapFormula = (
+  formula: string,
+  idMap: Map<string, string>
+): string =>
+  formula.replace(/\{([^{}]+)\}/g, (match, reference) => {
+    const mapped = idMap.get(reference.trim());
+    return mapped ? `{${mapped}}` : match;
+  });
@@ -9,3 +9,13 @@ export const validateEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
 };
+
+// Name shown to collaborators and on the responses page; guests have a
+// placeholder email, so they are shown by display name
+export const describeUser = (
+  user: { email?: string; role?: string; display_name?: string | null } | null
+): string => {
+  if (!user) return "Unknown user";
+  if (user.role === "GUEST") return `${user.display_name || "Guest"} (guest)`;
+  return user.email || "Unknown user";
+};
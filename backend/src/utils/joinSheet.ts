@@ -0,0 +1,80 @@
+// src/utils/joinSheet.ts
+import QRCode from "qrcode";
+
+const FRONTEND_URL = (
+  process.env.FRONTEND_URL || "http://localhost:3000"
+).replace(/\/+$/, "");
+
+// Phones scanning a poster often have no account; groups that allow guests
+// get the guest page, which also forwards signed-in users to the form
+export const getJoinUrl = (sharingCode: {
+  share_code: string;
+  allow_guests?: boolean;
+}) =>
+  `${FRONTEND_URL}/${sharingCode.allow_guests ? "guest" : "forms"}/${
+    sharingCode.share_code
+  }`;
+
+// High error correction keeps printed codes scannable when creased
+const QR_OPTIONS = { errorCorrectionLevel: "H" as const, margin: 2 };
+
+export const renderQrPng = (url: string, width = 512) =>
+  QRCode.toBuffer(url, { ...QR_OPTIONS, type: "png", width });
+
+export const renderQrSvg = (url: string) =>
+  QRCode.toString(url, { ...QR_OPTIONS, type: "svg" });
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// A print-ready HTML document with one page per group: form title, group
+// name, code and a QR code of the join link
+export const renderJoinSheet = async (
+  formTitle: string,
+  sharingCodes: {
+    share_code: string;
+    group_name: string;
+    allow_guests?: boolean;
+  }[]
+) => {
+  const pages = await Promise.all(
+    sharingCodes.map(async (sharingCode) => {
+      const url = getJoinUrl(sharingCode);
+      return `<section class="page">
+  <p class="form">${escapeHtml(formTitle)}</p>
+  <h1>${escapeHtml(sharingCode.group_name)}</h1>
+  <div class="qr">${await renderQrSvg(url)}</div>
+  <p>Scan to join, or open the link and enter the code</p>
+  <p class="code">${escapeHtml(sharingCode.share_code)}</p>
+  <p class="url">${escapeHtml(url)}</p>
+</section>`;
+    })
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(formTitle)} – join sheet</title>
+<style>
+  @page { size: A4; margin: 20mm; }
+  body { margin: 0; font-family: system-ui, sans-serif; color: #111827; }
+  .page { min-height: 100vh; display: flex; flex-direction: column; align-items: center; justify-content: center; text-align: center; page-break-after: always; break-after: page; }
+  .page:last-child { page-break-after: auto; break-after: auto; }
+  .form { font-size: 18px; color: #4b5563; margin: 0; }
+  h1 { font-size: 40px; margin: 8px 0 24px; }
+  .qr svg { width: 110mm; height: 110mm; }
+  .code { font-family: ui-monospace, monospace; font-size: 48px; font-weight: bold; letter-spacing: 6px; margin: 8px 0; }
+  .url { font-size: 14px; color: #2563eb; word-break: break-all; }
+</style>
+</head>
+<body>
+${pages.join("\n")}
+</body>
+</html>
+`;
+};
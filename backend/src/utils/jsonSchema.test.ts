@@ -0,0 +1,211 @@
+// src/utils/jsonSchema.test.ts
+import Ajv2020 from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import { serializeMatrixValue, validateFormValues } from "./fieldValidation";
+import { fromJsonSchema, toJsonSchema, toSchemaInstance } from "./jsonSchema";
+import { serializeRepeaterValue } from "./repeaterValues";
+
+const form = {
+  id: "form-1",
+  title: "Project kickoff",
+  description: "Everything the team agrees on",
+};
+
+// One field of every type, in the shape stored in form_fields
+const fields = [
+  { id: "intro", label: "About you", type: "SECTION" },
+  {
+    id: "name",
+    label: "Name",
+    type: "TEXT",
+    required: true,
+    validation: { minLength: 2, maxLength: 80 },
+  },
+  { id: "notes", label: "Notes", type: "TEXTAREA" },
+  { id: "email", label: "Email", type: "EMAIL", required: true },
+  {
+    id: "budget",
+    label: "Budget",
+    type: "NUMBER",
+    validation: { min: 0, max: 100000 },
+  },
+  {
+    id: "team",
+    label: "Team",
+    type: "DROPDOWN",
+    options: ["Design", "Engineering"],
+  },
+  { id: "remote", label: "Remote?", type: "RADIO", options: ["Yes", "No"] },
+  {
+    id: "tools",
+    label: "Tools",
+    type: "CHECKBOX",
+    options: ["Slack", "Jira", "Figma"],
+    validation: { minSelected: 1 },
+  },
+  { id: "start", label: "Start", type: "DATE" },
+  { id: "standup", label: "Stand-up", type: "TIME" },
+  { id: "kickoff", label: "Kickoff", type: "DATETIME" },
+  { id: "brief", label: "Brief", type: "FILE", validation: { maxFiles: 2 } },
+  { id: "confidence", label: "Confidence", type: "RATING" },
+  { id: "risk", label: "Risk", type: "SCALE", validation: { min: 1, max: 7 } },
+  {
+    id: "skills",
+    label: "Skills",
+    type: "MATRIX",
+    required: true,
+    options: ["Low", "High"],
+    matrix_rows: ["Writing", "Planning"],
+  },
+  {
+    id: "actions",
+    label: "Action items",
+    type: "REPEATER",
+    sub_fields: [
+      { id: "task", label: "Task", type: "TEXT", required: true },
+      { id: "hours", label: "Hours", type: "NUMBER" },
+      { id: "due", label: "Due", type: "DATE" },
+      { id: "owner", label: "Owner", type: "EMAIL" },
+      { id: "area", label: "Area", type: "DROPDOWN", options: ["Ops", "Dev"] },
+    ],
+  },
+  { id: "total", label: "Total", type: "CALCULATED", formula: "{budget} * 2" },
+].map((field, index) => ({ ...field, field_order: index }));
+
+// A submitted response as stored in response_fields
+const values: Record<string, string> = {
+  name: "Ada Lovelace",
+  notes: "Prefers mornings",
+  email: "ada@example.com",
+  budget: "2500.5",
+  team: "Engineering",
+  remote: "Yes",
+  tools: "Slack,Figma",
+  start: "2024-03-01",
+  standup: "09:30",
+  kickoff: "2024-03-01T10:00:00Z",
+  brief: "attachment-1,attachment-2",
+  confidence: "4",
+  risk: "3",
+  skills: serializeMatrixValue({ Writing: "High", Planning: "Low" }),
+  actions: serializeRepeaterValue([
+    {
+      id: "row-1",
+      values: {
+        task: "Write the brief",
+        hours: "6",
+        due: "2024-03-08",
+        owner: "ada@example.com",
+        area: "Dev",
+      },
+    },
+    { id: "row-2", values: { task: "Book a room" } },
+  ]),
+  total: "5001",
+};
+
+const compileSchema = () => {
+  const ajv = new Ajv2020({ strict: false, allErrors: true });
+  addFormats(ajv);
+  return ajv.compile(toJsonSchema(form, fields));
+};
+
+describe("toJsonSchema", () => {
+  it("describes every field type except sections", () => {
+    const schema = toJsonSchema(form, fields);
+
+    expect(Object.keys(schema.properties)).toEqual(
+      fields.filter((field) => field.type !== "SECTION").map((f) => f.id)
+    );
+    expect(schema.required).toEqual(["name", "email", "skills"]);
+  });
+
+  it("accepts a submitted response", () => {
+    // The response passes the server's own validation first
+    expect(validateFormValues(fields, values)).toEqual({});
+
+    const validate = compileSchema();
+    const valid = validate(toSchemaInstance(fields, values));
+
+    expect(validate.errors).toBeNull();
+    expect(valid).toBe(true);
+  });
+
+  it("rejects answers outside the form's definition", () => {
+    const validate = compileSchema();
+    const instance = toSchemaInstance(fields, {
+      ...values,
+      team: "Marketing",
+      confidence: "9",
+      skills: serializeMatrixValue({ Writing: "Medium" }),
+    });
+
+    expect(validate(instance)).toBe(false);
+    expect(
+      (validate.errors || []).map((error) => error.instancePath).sort()
+    ).toEqual(
+      expect.arrayContaining([
+        "/confidence",
+        "/skills",
+        "/skills/Writing",
+        "/team",
+      ])
+    );
+  });
+
+  it("rejects a response missing required fields", () => {
+    const validate = compileSchema();
+    const { email, ...withoutEmail } = values;
+
+    expect(validate(toSchemaInstance(fields, withoutEmail))).toBe(false);
+    expect(validate.errors?.[0].params).toEqual({ missingProperty: "email" });
+  });
+});
+
+describe("fromJsonSchema", () => {
+  it("reports drafted fields that fail validation as warnings", () => {
+    const result = fromJsonSchema({
+      type: "object",
+      properties: {
+        team: { type: "string", enum: ["Design", "Design"] },
+        city: {
+          type: "string",
+          "x-conditions": {
+            logic: "AND",
+            rules: [{ fieldId: "remote", operator: "equals", value: "No" }],
+          },
+        },
+        brief: {
+          type: "array",
+          "x-field-type": "FILE",
+          "x-allowedFileTypes": "pdf files",
+        },
+        total: {
+          type: "number",
+          "x-field-type": "CALCULATED",
+          "x-formula": "{budget} * 2",
+        },
+      },
+    });
+
+    if ("error" in result) throw new Error(result.error);
+    expect(result.draft.fields).toMatchObject([{ id: "city" }]);
+    expect(result.draft.fields[0].conditions).toBeUndefined();
+    expect(result.warnings).toEqual([
+      'Skipped "team": has duplicate options',
+      'Dropped the conditions of "city": conditions reference unknown field "remote"',
+      'Skipped "brief": Allowed file types must be extensions like .pdf or MIME types like image/*',
+      'Skipped "total": Unknown field {budget}',
+    ]);
+  });
+
+  it("converts an exported schema back to the same fields", () => {
+    const result = fromJsonSchema(toJsonSchema(form, fields));
+
+    if ("error" in result) throw new Error(result.error);
+    expect(result.warnings).toEqual([]);
+    expect(result.draft.fields.map((field) => field.type)).toEqual(
+      fields.filter((field) => field.type !== "SECTION").map((f) => f.type)
+    );
+  });
+});
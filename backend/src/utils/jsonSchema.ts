@@ -0,0 +1,478 @@
+// src/utils/jsonSchema.ts
+import { TemplateField } from "../config/formTemplates";
+import { DATE_VALUE_PATTERNS, isDateFieldType } from "./dateValues";
+import {
+  FieldValidationRules,
+  getScaleBounds,
+  isScaleFieldType,
+  parseMatrixValue,
+  splitSelectedOptions,
+} from "./fieldValidation";
+import { getFieldErrors } from "./formDefinition";
+import { validateFormula } from "./formulas";
+import {
+  MAX_REPEATER_ROWS,
+  parseRepeaterValue,
+  REPEATER_SUB_FIELD_TYPES,
+  RepeaterSubField,
+} from "./repeaterValues";
+
+// Responses are described by JSON Schema draft 2020-12. Properties are keyed
+// by field id and hold typed values (see toSchemaInstance). Details JSON
+// Schema can't express are kept in "x-" keywords so a schema produced here
+// converts back to the same fields.
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+export type JsonSchema = Record<string, any>;
+
+const NUMERIC_TYPES = ["NUMBER", "RATING", "SCALE", "CALCULATED"];
+const LIST_TYPES = ["CHECKBOX", "FILE"];
+
+const withoutUndefined = (schema: JsonSchema): JsonSchema =>
+  Object.fromEntries(
+    Object.entries(schema).filter(([, value]) => value !== undefined)
+  );
+
+const stringSchema = (rules: FieldValidationRules): JsonSchema => ({
+  type: "string",
+  minLength: rules.minLength,
+  maxLength: rules.maxLength,
+  pattern: rules.pattern,
+});
+
+const dateSchema = (type: string, rules: FieldValidationRules): JsonSchema => ({
+  type: "string",
+  ...(type === "DATE" ? { format: "date" } : {}),
+  pattern: isDateFieldType(type) ? DATE_VALUE_PATTERNS[type].source : undefined,
+  // Inclusive ISO-8601 bounds; no standard keyword compares dates
+  "x-minDate": rules.minDate,
+  "x-maxDate": rules.maxDate,
+});
+
+const subFieldSchema = (subField: RepeaterSubField): JsonSchema => {
+  if (subField.type === "NUMBER") return { type: "number" };
+  if (subField.type === "EMAIL") return { type: "string", format: "email" };
+  if (subField.type === "DROPDOWN") {
+    return { type: "string", enum: subField.options || [] };
+  }
+  if (isDateFieldType(subField.type)) return dateSchema(subField.type, {});
+  return { type: "string" };
+};
+
+const valueSchema = (field: any): JsonSchema => {
+  const rules: FieldValidationRules = field.validation || {};
+  const options: string[] = field.options || [];
+
+  switch (field.type) {
+    case "EMAIL":
+      return { ...stringSchema(rules), format: "email" };
+    case "NUMBER":
+      return { type: "number", minimum: rules.min, maximum: rules.max };
+    case "RATING":
+    case "SCALE": {
+      const bounds = getScaleBounds(field.type, rules);
+      return {
+        type: Number.isInteger(bounds.step) ? "integer" : "number",
+        minimum: bounds.min,
+        maximum: bounds.max,
+        "x-step": bounds.step,
+        "x-minLabel": rules.minLabel,
+        "x-maxLabel": rules.maxLabel,
+      };
+    }
+    case "CALCULATED":
+      return { type: "number", readOnly: true, "x-formula": field.formula };
+    case "DROPDOWN":
+    case "RADIO":
+      return { type: "string", enum: options };
+    case "CHECKBOX":
+      return {
+        type: "array",
+        items: { type: "string", enum: options },
+        uniqueItems: true,
+        minItems: rules.minSelected,
+        maxItems: rules.maxSelected,
+      };
+    case "DATE":
+    case "TIME":
+    case "DATETIME":
+      return dateSchema(field.type, rules);
+    case "FILE":
+      // Attachment ids
+      return {
+        type: "array",
+        items: { type: "string" },
+        maxItems: rules.maxFiles,
+        "x-allowedFileTypes": rules.allowedFileTypes,
+        "x-maxFileSizeMb": rules.maxFileSizeMb,
+      };
+    case "MATRIX":
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          (field.matrix_rows || []).map((row: string) => [
+            row,
+            { type: "string", enum: options },
+          ])
+        ),
+        ...(field.required ? { required: field.matrix_rows || [] } : {}),
+        additionalProperties: false,
+      };
+    case "REPEATER": {
+      const subFields: RepeaterSubField[] = field.sub_fields || [];
+      return {
+        type: "array",
+        maxItems: MAX_REPEATER_ROWS,
+        ...(field.required ? { minItems: 1 } : {}),
+        items: {
+          type: "object",
+          properties: Object.fromEntries(
+            subFields.map((subField) => [
+              subField.id,
+              { title: subField.label, ...subFieldSchema(subField) },
+            ])
+          ),
+          required: subFields
+            .filter((subField) => subField.required)
+            .map((subField) => subField.id),
+          additionalProperties: false,
+        },
+      };
+    }
+    default:
+      return stringSchema(rules);
+  }
+};
+
+// Schema for a form's responses. Fields behind visibility conditions can be
+// hidden, so they are never listed as required.
+export const toJsonSchema = (
+  form: { id: string; title: string; description: string | null },
+  storedFields: any[]
+): JsonSchema => {
+  const fields = [...storedFields]
+    .sort((a, b) => a.field_order - b.field_order)
+    .filter((field) => field.type !== "SECTION");
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: `urn:collaborative-forms:form:${form.id}`,
+    title: form.title,
+    ...(form.description ? { description: form.description } : {}),
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((field) => [
+        field.id,
+        withoutUndefined({
+          title: field.label,
+          ...valueSchema(field),
+          "x-field-type": field.type,
+          "x-conditions": field.conditions || undefined,
+        }),
+      ])
+    ),
+    required: fields
+      .filter((field) => field.required && !field.conditions)
+      .map((field) => field.id),
+    additionalProperties: false,
+  };
+};
+
+// Typed JSON for stored response values, matching toJsonSchema
+export const toSchemaInstance = (
+  fields: any[],
+  values: Record<string, string>
+): Record<string, unknown> => {
+  const instance: Record<string, unknown> = {};
+
+  fields
+    .filter((field) => field.type !== "SECTION")
+    .forEach((field) => {
+      const value = (values[field.id] || "").trim();
+      if (!value) return;
+
+      if (NUMERIC_TYPES.includes(field.type)) {
+        instance[field.id] = Number(value);
+      } else if (LIST_TYPES.includes(field.type)) {
+        instance[field.id] = splitSelectedOptions(value);
+      } else if (field.type === "MATRIX") {
+        instance[field.id] = parseMatrixValue(value);
+      } else if (field.type === "REPEATER") {
+        const numberColumns = new Set(
+          (field.sub_fields || [])
+            .filter((subField: RepeaterSubField) => subField.type === "NUMBER")
+            .map((subField: RepeaterSubField) => subField.id)
+        );
+        instance[field.id] = parseRepeaterValue(value).map((row) =>
+          Object.fromEntries(
+            Object.entries(row.values).map(([columnId, cell]) => [
+              columnId,
+              numberColumns.has(columnId) ? Number(cell) : cell,
+            ])
+          )
+        );
+      } else {
+        instance[field.id] = value;
+      }
+    });
+
+  return instance;
+};
+
+const isStringEnum = (schema: any): schema is { enum: string[] } =>
+  Array.isArray(schema?.enum) &&
+  schema.enum.length > 0 &&
+  schema.enum.every((option: unknown) => typeof option === "string");
+
+const schemaType = (schema: any): string | undefined =>
+  Array.isArray(schema?.type)
+    ? schema.type.find((type: string) => type !== "null")
+    : schema?.type;
+
+const toSubField = (id: string, schema: any): RepeaterSubField | null => {
+  const type = schemaType(schema);
+  const base = { id, label: schema?.title || id, required: false };
+
+  if (type === "number" || type === "integer") {
+    return { ...base, type: "NUMBER" };
+  }
+  if (type !== "string") return null;
+  if (isStringEnum(schema)) {
+    return { ...base, type: "DROPDOWN", options: schema.enum };
+  }
+  if (schema.format === "email") return { ...base, type: "EMAIL" };
+  if (schema.format === "date") return { ...base, type: "DATE" };
+  if (schema.format === "date-time") return { ...base, type: "DATETIME" };
+  if (schema.format === "time") return { ...base, type: "TIME" };
+  return { ...base, type: "TEXT" };
+};
+
+const compactRules = (
+  rules: FieldValidationRules
+): FieldValidationRules | null => {
+  const defined = withoutUndefined(rules);
+  return Object.keys(defined).length > 0 ? defined : null;
+};
+
+// Rules that map straight back from standard and "x-" keywords
+const toValidationRules = (schema: any): FieldValidationRules | null =>
+  compactRules({
+    minLength: schema.minLength,
+    maxLength: schema.maxLength,
+    pattern: schema.pattern,
+    min: schema.minimum,
+    max: schema.maximum,
+    step: schema["x-step"],
+    minSelected: schema.minItems,
+    maxSelected: schema.maxItems,
+    minDate: schema["x-minDate"],
+    maxDate: schema["x-maxDate"],
+    allowedFileTypes: schema["x-allowedFileTypes"],
+    maxFileSizeMb: schema["x-maxFileSizeMb"],
+    minLabel: schema["x-minLabel"],
+    maxLabel: schema["x-maxLabel"],
+  });
+
+// Guess the closest field for a property; null when nothing fits
+const toField = (id: string, schema: any): TemplateField | null => {
+  const type = schemaType(schema);
+  const label = String(schema?.title || id);
+  const field = (
+    fieldType: TemplateField["type"],
+    extra: Partial<TemplateField> = {}
+  ): TemplateField => ({
+    id,
+    label,
+    type: fieldType,
+    required: false,
+    options: [],
+    ...extra,
+  });
+  const hinted = schema?.["x-field-type"];
+
+  if (hinted === "CALCULATED" && typeof schema["x-formula"] === "string") {
+    return field("CALCULATED", { formula: schema["x-formula"] });
+  }
+
+  if (type === "number" || type === "integer") {
+    const scaleType = isScaleFieldType(hinted) ? hinted : null;
+    return field(scaleType || "NUMBER", {
+      validation: toValidationRules(schema),
+    });
+  }
+
+  if (type === "boolean") return field("RADIO", { options: ["Yes", "No"] });
+
+  if (type === "string") {
+    if (isStringEnum(schema)) {
+      return field(hinted === "RADIO" ? "RADIO" : "DROPDOWN", {
+        options: schema.enum,
+      });
+    }
+    const stringType =
+      schema.format === "email"
+        ? "EMAIL"
+        : schema.format === "date"
+        ? "DATE"
+        : schema.format === "date-time"
+        ? "DATETIME"
+        : schema.format === "time"
+        ? "TIME"
+        : ["TEXTAREA", "TIME", "DATETIME"].includes(hinted)
+        ? hinted
+        : "TEXT";
+    // Date patterns come from the field type itself
+    const rules = toValidationRules({
+      ...schema,
+      pattern: isDateFieldType(stringType) ? undefined : schema.pattern,
+    });
+    return field(stringType, { validation: rules });
+  }
+
+  if (type === "array") {
+    if (hinted === "FILE") {
+      return field("FILE", {
+        validation: compactRules({
+          maxFiles: schema.maxItems,
+          allowedFileTypes: schema["x-allowedFileTypes"],
+          maxFileSizeMb: schema["x-maxFileSizeMb"],
+        }),
+      });
+    }
+    if (isStringEnum(schema.items)) {
+      return field("CHECKBOX", {
+        options: schema.items.enum,
+        validation: compactRules({
+          minSelected: schema.minItems,
+          maxSelected: schema.maxItems,
+        }),
+      });
+    }
+    if (schemaType(schema.items) === "object" && schema.items.properties) {
+      const requiredColumns: string[] = schema.items.required || [];
+      const subFields = Object.entries(schema.items.properties)
+        .map(([columnId, columnSchema]) => toSubField(columnId, columnSchema))
+        .filter((subField): subField is RepeaterSubField => !!subField)
+        .filter((subField) => REPEATER_SUB_FIELD_TYPES.includes(subField.type))
+        .map((subField) => ({
+          ...subField,
+          required: requiredColumns.includes(subField.id),
+        }));
+      if (subFields.length > 0) {
+        return field("REPEATER", { sub_fields: subFields });
+      }
+    }
+    return null;
+  }
+
+  if (type === "object" && schema.properties) {
+    const rows = Object.entries(schema.properties);
+    const columns = rows.length > 0 ? (rows[0][1] as any)?.enum : null;
+    if (
+      isStringEnum({ enum: columns }) &&
+      rows.every(
+        ([, rowSchema]: [string, any]) =>
+          isStringEnum(rowSchema) &&
+          JSON.stringify(rowSchema.enum) === JSON.stringify(columns)
+      )
+    ) {
+      return field("MATRIX", {
+        options: columns,
+        matrix_rows: rows.map(([row]) => row),
+      });
+    }
+  }
+
+  return null;
+};
+
+// Draft form fields for an object schema. Properties that don't map to a
+// field type, or whose field fails validation, are reported in warnings.
+export const fromJsonSchema = (
+  schema: any
+):
+  | {
+      draft: { title: string; description: string; fields: TemplateField[] };
+      warnings: string[];
+    }
+  | { error: string } => {
+  if (
+    !schema ||
+    typeof schema !== "object" ||
+    schemaType(schema) !== "object" ||
+    !schema.properties ||
+    typeof schema.properties !== "object"
+  ) {
+    return { error: "The schema must describe an object with properties" };
+  }
+
+  const required: string[] = Array.isArray(schema.required)
+    ? schema.required
+    : [];
+  const warnings: string[] = [];
+  const fields: TemplateField[] = [];
+
+  Object.entries(schema.properties).forEach(([id, propertySchema]) => {
+    const field = toField(id, propertySchema);
+    if (!field) {
+      warnings.push(`Skipped "${id}": no matching field type`);
+      return;
+    }
+
+    const conditions = (propertySchema as any)?.["x-conditions"];
+    fields.push({
+      ...field,
+      required:
+        field.type !== "CALCULATED" &&
+        (required.includes(id) ||
+          (field.type === "MATRIX" &&
+            (propertySchema as any)?.required?.length > 0) ||
+          (field.type === "REPEATER" && (propertySchema as any)?.minItems > 0)),
+      ...(conditions ? { conditions } : {}),
+    });
+  });
+
+  // Drafts get the same checks as imported definitions. Broken conditions
+  // are dropped; fields with other problems are skipped.
+  const fieldIds = new Set(fields.map((field) => field.id));
+  const getDraftFieldErrors = (field: TemplateField) => {
+    const errors = getFieldErrors(field, fieldIds);
+    const formulaError =
+      field.type === "CALCULATED" &&
+      validateFormula(field.formula, field.id, fieldIds);
+    return formulaError ? [...errors, formulaError] : errors;
+  };
+
+  const draftFields = fields.flatMap((field) => {
+    const errors = getDraftFieldErrors(field);
+    if (errors.length === 0) return [field];
+
+    if (field.conditions) {
+      const { conditions, ...withoutConditions } = field;
+      if (getDraftFieldErrors(withoutConditions).length === 0) {
+        warnings.push(
+          `Dropped the conditions of "${field.id}": ${errors.join("; ")}`
+        );
+        return [withoutConditions];
+      }
+    }
+
+    warnings.push(`Skipped "${field.id}": ${errors.join("; ")}`);
+    return [];
+  });
+
+  if (draftFields.length === 0) {
+    return { error: "None of the schema's properties map to a form field" };
+  }
+
+  return {
+    draft: {
+      title: typeof schema.title === "string" ? schema.title : "",
+      description:
+        typeof schema.description === "string" ? schema.description : "",
+      fields: draftFields,
+    },
+    warnings,
+  };
+};
@@ -0,0 +1,54 @@
+// src/utils/lockSettings.ts
+
+// Per-form timing of field locks
+export interface LockSettings {
+  // A lock expires this long after its last edit or heartbeat
+  lock_timeout_seconds: number;
+  // How long a holder keeps a field after someone asked to edit it
+  lock_handoff_seconds: number;
+}
+
+export const LOCK_SETTINGS_COLUMNS =
+  "lock_timeout_seconds, lock_handoff_seconds";
+
+export const DEFAULT_LOCK_SETTINGS: LockSettings = {
+  lock_timeout_seconds: 60,
+  lock_handoff_seconds: 10,
+};
+
+// Focused fields send a heartbeat every 5 seconds, so even the shortest
+// timeout survives a couple of lost ones
+const LIMITS: Record<keyof LockSettings, [number, number]> = {
+  lock_timeout_seconds: [15, 600],
+  lock_handoff_seconds: [0, 120],
+};
+
+// Validate lock settings in a create or update body; omitted keys are left
+// unchanged
+export const parseLockSettings = (
+  body: any
+): { updates: Partial<LockSettings> } | { error: string } => {
+  const updates: Partial<LockSettings> = {};
+
+  for (const key of Object.keys(LIMITS) as (keyof LockSettings)[]) {
+    if (body?.[key] === undefined) continue;
+    const [min, max] = LIMITS[key];
+    const value = body[key];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return {
+        error: `${key} must be a whole number from ${min} to ${max}`,
+      };
+    }
+    updates[key] = value;
+  }
+
+  return { updates };
+};
+
+export const getLockTimeoutMs = (form: Partial<LockSettings> | null) =>
+  (form?.lock_timeout_seconds ?? DEFAULT_LOCK_SETTINGS.lock_timeout_seconds) *
+  1000;
+
+export const getHandoffDelayMs = (form: Partial<LockSettings> | null) =>
+  (form?.lock_handoff_seconds ?? DEFAULT_LOCK_SETTINGS.lock_handoff_seconds) *
+  1000;
@@ -0,0 +1,117 @@
+// src/utils/repeaterValues.ts
+import { randomBytes } from "crypto";
+
+// Field types a REPEATER section can use for its columns
+export const REPEATER_SUB_FIELD_TYPES = [
+  "TEXT",
+  "TEXTAREA",
+  "NUMBER",
+  "EMAIL",
+  "DATE",
+  "TIME",
+  "DATETIME",
+  "DROPDOWN",
+];
+
+// Built-in cap on rows per section
+export const MAX_REPEATER_ROWS = 200;
+
+export interface RepeaterSubField {
+  id: string;
+  label: string;
+  type: string;
+  required?: boolean;
+  options?: string[];
+}
+
+export interface RepeaterRow {
+  id: string;
+  values: Record<string, string>;
+}
+
+const SUB_FIELD_ID_REGEX = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const generateRowId = (): string => randomBytes(6).toString("hex");
+
+// REPEATER values are stored as a JSON array of rows, in display order
+export const parseRepeaterValue = (value: string): RepeaterRow[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+
+    const seen = new Set<string>();
+    return parsed
+      .filter(
+        (row: any) =>
+          row &&
+          typeof row.id === "string" &&
+          row.id &&
+          !seen.has(row.id) &&
+          seen.add(row.id)
+      )
+      .map((row: any) => {
+        const values: Record<string, string> = {};
+        if (row.values && typeof row.values === "object") {
+          Object.entries(row.values).forEach(([subFieldId, subValue]) => {
+            if (typeof subValue === "string" && subValue !== "") {
+              values[subFieldId] = subValue;
+            }
+          });
+        }
+        return { id: row.id, values };
+      });
+  } catch {
+    return [];
+  }
+};
+
+export const serializeRepeaterValue = (rows: RepeaterRow[]) =>
+  rows.length > 0
+    ? JSON.stringify(
+        rows.map((row) => ({
+          id: row.id,
+          values: Object.fromEntries(
+            Object.entries(row.values).filter(([, value]) => value !== "")
+          ),
+        }))
+      )
+    : "";
+
+// Keep only well-formed column definitions with unique ids
+export const normalizeSubFields = (subFields: any): RepeaterSubField[] => {
+  if (!Array.isArray(subFields)) return [];
+
+  const seen = new Set<string>();
+  return subFields
+    .filter(
+      (subField: any) =>
+        subField &&
+        typeof subField.label === "string" &&
+        subField.label.trim() &&
+        REPEATER_SUB_FIELD_TYPES.includes(subField.type)
+    )
+    .map((subField: any) => {
+      let id =
+        typeof subField.id === "string" && SUB_FIELD_ID_REGEX.test(subField.id)
+          ? subField.id
+          : generateRowId();
+      while (seen.has(id)) id = generateRowId();
+      seen.add(id);
+
+      const normalized: RepeaterSubField = {
+        id,
+        label: subField.label.trim(),
+        type: subField.type,
+        required: Boolean(subField.required),
+      };
+      if (subField.type === "DROPDOWN") {
+        normalized.options = (
+          Array.isArray(subField.options) ? subField.options : []
+        )
+          .filter((option: any) => typeof option === "string" && option.trim())
+          .map((option: string) => option.trim());
+      }
+      return normalized;
+    });
+};
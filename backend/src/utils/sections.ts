@@ -0,0 +1,87 @@
+// src/utils/sections.ts
+import { getVisibleFieldIds } from "./conditions";
+import { validateFormValues } from "./fieldValidation";
+import { computeCalculatedValues } from "./formulas";
+
+// SECTION fields are layout only: they start a new page and hold no value
+export const isSectionField = (field: { type: string }) =>
+  field.type === "SECTION";
+
+// Key of the page holding the fields before the first SECTION
+export const START_PAGE_KEY = "start";
+
+export interface FormPage<T> {
+  key: string;
+  section: T | null;
+  fields: T[];
+}
+
+export interface SectionProgress {
+  answered: number;
+  required: number;
+  requiredAnswered: number;
+  complete: boolean;
+}
+
+// Split fields (already in display order) into pages at each SECTION
+export const splitIntoPages = <T extends { id: string; type: string }>(
+  fields: T[]
+): FormPage<T>[] => {
+  const pages: FormPage<T>[] = [
+    { key: START_PAGE_KEY, section: null, fields: [] },
+  ];
+
+  fields.forEach((field) => {
+    if (isSectionField(field)) {
+      pages.push({ key: field.id, section: field, fields: [] });
+    } else {
+      pages[pages.length - 1].fields.push(field);
+    }
+  });
+
+  // Only keep the leading page if something comes before the first section
+  return pages.filter((page) => page.section || page.fields.length > 0);
+};
+
+// Completion of each visible page, keyed by FormPage.key. A page is complete
+// once its required fields are answered, nothing is invalid and it has at
+// least one answer (optional-only pages count once someone fills them in).
+// CALCULATED fields fill themselves in, so they never count as answers.
+export const getSectionProgress = (
+  fields: any[],
+  draftValues: Record<string, string>
+): Record<string, SectionProgress> => {
+  const ordered = [...fields].sort((a, b) => a.field_order - b.field_order);
+  const values = {
+    ...draftValues,
+    ...computeCalculatedValues(ordered, draftValues),
+  };
+  const visibleFieldIds = getVisibleFieldIds(ordered, values);
+  const fieldErrors = validateFormValues(ordered, values, visibleFieldIds);
+  const progress: Record<string, SectionProgress> = {};
+
+  splitIntoPages(ordered)
+    .filter((page) => !page.section || visibleFieldIds.has(page.section.id))
+    .forEach((page) => {
+      const visibleFields = page.fields.filter(
+        (field) => visibleFieldIds.has(field.id) && field.type !== "CALCULATED"
+      );
+      const isAnswered = (field: any) => (values[field.id] || "").trim() !== "";
+      const requiredFields = visibleFields.filter((field) => field.required);
+
+      const answered = visibleFields.filter(isAnswered).length;
+      const requiredAnswered = requiredFields.filter(isAnswered).length;
+
+      progress[page.key] = {
+        answered,
+        required: requiredFields.length,
+        requiredAnswered,
+        complete:
+          requiredAnswered === requiredFields.length &&
+          !visibleFields.some((field) => fieldErrors[field.id]) &&
+          (answered > 0 || visibleFields.length === 0),
+      };
+    });
+
+  return progress;
+};
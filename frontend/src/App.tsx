@@ -9,6 +9,8 @@ import FormBuilder from "./pages/FormBuilder";
 import CollaborativeForm from "./pages/CollaborativeForm";
 import FormResponses from "./pages/FormResponses";
 import JoinForm from "./pages/JoinForm";
+import GuestJoin from "./pages/GuestJoin";
+import AcceptInvitation from "./pages/AcceptInvitation";
 import ProtectedRoute from "./components/ProtectedRoute";
 
 function App() {
@@ -19,6 +21,7 @@ function App() {
           <div className="min-h-screen bg-gray-50">
             <Routes>
               <Route path="/login" element={<Login />} />
+              <Route path="/guest/:shareCode" element={<GuestJoin />} />
               <Route
                 path="/"
                 element={
@@ -35,6 +38,22 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/join/:joinCode"
+                element={
+                  <ProtectedRoute>
+                    <JoinForm />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/invitations/:token"
+                element={
+                  <ProtectedRoute>
+                    <AcceptInvitation />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/forms/create"
                 element={
@@ -43,10 +62,18 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/forms/:formId/edit"
+                element={
+                  <ProtectedRoute adminOnly>
+                    <FormBuilder />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/forms/:shareCode"
                 element={
-                  <ProtectedRoute>
+                  <ProtectedRoute allowGuests>
                     <CollaborativeForm />
                   </ProtectedRoute>
                 }
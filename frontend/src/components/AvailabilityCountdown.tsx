@@ -0,0 +1,56 @@
+// src/components/AvailabilityCountdown.tsx
+import React, { useEffect, useRef, useState } from "react";
+
+interface AvailabilityCountdownProps {
+  target: string;
+  onElapsed?: () => void;
+}
+
+// "2d 3h 04m 05s", dropping leading zero units
+const formatRemaining = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  if (days > 0) return `${days}d ${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m ${pad(seconds)}s`;
+  return `${minutes}m ${pad(seconds)}s`;
+};
+
+const AvailabilityCountdown: React.FC<AvailabilityCountdownProps> = ({
+  target,
+  onElapsed,
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const targetTime = new Date(target).getTime();
+  const remaining = targetTime - now;
+
+  // Read through a ref so a new callback doesn't restart the timer
+  const onElapsedRef = useRef(onElapsed);
+  onElapsedRef.current = onElapsed;
+
+  useEffect(() => {
+    if (targetTime <= Date.now()) return;
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= targetTime) {
+        clearInterval(interval);
+        onElapsedRef.current?.();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [targetTime]);
+
+  return (
+    <span className="font-mono font-semibold tabular-nums">
+      {formatRemaining(remaining)}
+    </span>
+  );
+};
+
+export default AvailabilityCountdown;
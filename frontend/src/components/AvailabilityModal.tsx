@@ -0,0 +1,177 @@
+// src/components/AvailabilityModal.tsx
+import React, { useState } from "react";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+
+// Columns shared by forms and sharing codes
+export interface AvailabilitySettings {
+  is_active: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_submissions: number | null;
+}
+
+interface AvailabilityModalProps {
+  title: string;
+  // Explains how this level combines with the other one
+  hint: string;
+  settings: AvailabilitySettings;
+  onSave: (settings: AvailabilitySettings) => Promise<string | null>;
+  onClose: () => void;
+}
+
+// <input type="datetime-local"> works in local time without an offset
+export const toLocalInput = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+export const fromLocalInput = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+const AvailabilityModal: React.FC<AvailabilityModalProps> = ({
+  title,
+  hint,
+  settings,
+  onSave,
+  onClose,
+}) => {
+  const [isActive, setIsActive] = useState(settings.is_active);
+  const [opensAt, setOpensAt] = useState(toLocalInput(settings.opens_at));
+  const [closesAt, setClosesAt] = useState(toLocalInput(settings.closes_at));
+  const [maxSubmissions, setMaxSubmissions] = useState(
+    settings.max_submissions !== null ? String(settings.max_submissions) : ""
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSave = async () => {
+    if (opensAt && closesAt && new Date(closesAt) <= new Date(opensAt)) {
+      setError("The closing time must be after the opening time");
+      return;
+    }
+    const max = maxSubmissions.trim() ? Number(maxSubmissions) : null;
+    if (max !== null && (!Number.isInteger(max) || max < 1)) {
+      setError("The submission limit must be a positive whole number");
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    const saveError = await onSave({
+      is_active: isActive,
+      opens_at: fromLocalInput(opensAt),
+      closes_at: fromLocalInput(closesAt),
+      max_submissions: max,
+    });
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center w-full h-full overflow-y-auto bg-gray-600 bg-opacity-50">
+      <div className="relative w-full max-w-md mx-4 bg-white rounded-lg shadow-xl">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-bold text-gray-900">{title}</h3>
+            <button
+              onClick={onClose}
+              className="text-gray-400 transition-colors hover:text-gray-600"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          </div>
+
+          <p className="mb-4 text-sm text-gray-600">{hint}</p>
+
+          <div className="mb-4">
+            <label className="inline-flex items-center text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+                disabled={saving}
+                className="mr-2"
+              />
+              Accepting responses
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 mb-4 sm:grid-cols-2">
+            <div>
+              <label className="block mb-2 text-sm font-medium text-gray-700">
+                Opens at
+              </label>
+              <input
+                type="datetime-local"
+                value={opensAt}
+                onChange={(e) => setOpensAt(e.target.value)}
+                disabled={saving}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block mb-2 text-sm font-medium text-gray-700">
+                Closes at
+              </label>
+              <input
+                type="datetime-local"
+                value={closesAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+                disabled={saving}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <label className="block mb-2 text-sm font-medium text-gray-700">
+              Submission limit
+            </label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={maxSubmissions}
+              onChange={(e) => setMaxSubmissions(e.target.value)}
+              disabled={saving}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              placeholder="No limit"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Leave the times or the limit empty to remove them.
+            </p>
+          </div>
+
+          {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-gray-700 transition-colors bg-gray-200 rounded-md hover:bg-gray-300 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white transition-colors bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityModal;
@@ -0,0 +1,211 @@
+// src/components/ConditionEditor.tsx
+import React from "react";
+import { TrashIcon } from "@heroicons/react/24/outline";
+import { ConditionGroup, ConditionRule } from "../types";
+import { conditionOperators, isConditionGroup } from "../utils/conditions";
+
+interface SourceField {
+  id: string;
+  label: string;
+  type: string;
+  options: string[];
+}
+
+interface ConditionEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup | null) => void;
+  sourceFields: SourceField[];
+  depth?: number;
+}
+
+const valueInputTypes: Record<string, string> = {
+  NUMBER: "number",
+  DATE: "date",
+  TIME: "time",
+  DATETIME: "datetime-local",
+};
+
+const ConditionEditor: React.FC<ConditionEditorProps> = ({
+  group,
+  onChange,
+  sourceFields,
+  depth = 0,
+}) => {
+  const updateRules = (rules: Array<ConditionRule | ConditionGroup>) => {
+    onChange(rules.length > 0 ? { ...group, rules } : null);
+  };
+
+  const updateRule = (index: number, updates: Partial<ConditionRule>) => {
+    updateRules(
+      group.rules.map((rule, i) =>
+        i === index && !isConditionGroup(rule) ? { ...rule, ...updates } : rule
+      )
+    );
+  };
+
+  const replaceRule = (index: number, next: ConditionGroup | null) => {
+    updateRules(
+      next
+        ? group.rules.map((rule, i) => (i === index ? next : rule))
+        : group.rules.filter((_, i) => i !== index)
+    );
+  };
+
+  const removeRule = (index: number) => {
+    updateRules(group.rules.filter((_, i) => i !== index));
+  };
+
+  const newRule = (): ConditionRule => ({
+    fieldId: sourceFields[0]?.id || "",
+    operator: "equals",
+    value: "",
+  });
+
+  const renderValueInput = (rule: ConditionRule, index: number) => {
+    const source = sourceFields.find((field) => field.id === rule.fieldId);
+    const inputClasses =
+      "flex-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+    if (source && source.options.some((option) => option.trim())) {
+      return (
+        <select
+          value={rule.value}
+          onChange={(e) => updateRule(index, { value: e.target.value })}
+          className={inputClasses}
+        >
+          <option value="">Select a value</option>
+          {source.options
+            .filter((option) => option.trim())
+            .map((option, optionIndex) => (
+              <option key={optionIndex} value={option}>
+                {option}
+              </option>
+            ))}
+        </select>
+      );
+    }
+
+    return (
+      <input
+        type={valueInputTypes[source?.type || ""] || "text"}
+        value={rule.value}
+        onChange={(e) => updateRule(index, { value: e.target.value })}
+        className={inputClasses}
+        placeholder="Value"
+      />
+    );
+  };
+
+  return (
+    <div
+      className={`p-3 space-y-2 border rounded-md ${
+        depth === 0 ? "border-gray-200 bg-gray-50" : "border-blue-200 bg-white"
+      }`}
+    >
+      <div className="flex items-center space-x-2 text-sm text-gray-700">
+        <span>{depth === 0 ? "Show this field when" : "Group: when"}</span>
+        <select
+          value={group.logic}
+          onChange={(e) =>
+            onChange({ ...group, logic: e.target.value as "AND" | "OR" })
+          }
+          className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="AND">all</option>
+          <option value="OR">any</option>
+        </select>
+        <span>of the following match</span>
+      </div>
+
+      {group.rules.map((rule, index) =>
+        isConditionGroup(rule) ? (
+          <div key={index} className="flex items-start space-x-2">
+            <div className="flex-1">
+              <ConditionEditor
+                group={rule}
+                onChange={(next) => replaceRule(index, next)}
+                sourceFields={sourceFields}
+                depth={depth + 1}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => removeRule(index)}
+              className="p-2 text-red-400 hover:text-red-600"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <div key={index} className="flex items-center space-x-2">
+            <select
+              value={rule.fieldId}
+              onChange={(e) =>
+                updateRule(index, { fieldId: e.target.value, value: "" })
+              }
+              className="flex-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              {sourceFields.map((field) => (
+                <option key={field.id} value={field.id}>
+                  {field.label || "Untitled field"}
+                </option>
+              ))}
+            </select>
+            <select
+              value={rule.operator}
+              onChange={(e) =>
+                updateRule(index, {
+                  operator: e.target.value as ConditionRule["operator"],
+                })
+              }
+              className="border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            >
+              {conditionOperators.map((operator) => (
+                <option key={operator.value} value={operator.value}>
+                  {operator.label}
+                </option>
+              ))}
+            </select>
+            {renderValueInput(rule, index)}
+            <button
+              type="button"
+              onClick={() => removeRule(index)}
+              className="p-2 text-red-400 hover:text-red-600"
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )
+      )}
+
+      <div className="flex items-center space-x-4">
+        <button
+          type="button"
+          onClick={() => updateRules([...group.rules, newRule()])}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add Rule
+        </button>
+        {depth === 0 && (
+          <button
+            type="button"
+            onClick={() =>
+              updateRules([
+                ...group.rules,
+                {
+                  logic: group.logic === "AND" ? "OR" : "AND",
+                  rules: [newRule()],
+                },
+              ])
+            }
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add Group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConditionEditor;
@@ -1,20 +1,35 @@
 // src/components/FormField.tsx
-import React from "react";
-import { LockClosedIcon, UserIcon } from "@heroicons/react/24/outline";
+import React, { useEffect, useState } from "react";
+import {
+  ArrowDownTrayIcon,
+  LockClosedIcon,
+  PaperClipIcon,
+  UserIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import { StarIcon } from "@heroicons/react/24/solid";
+import {
+  FieldAttachment,
+  FieldType,
+  FieldValidationRules,
+  RepeaterSubField,
+} from "../types";
+import RepeaterField from "./RepeaterField";
+import RemoteCursors from "./RemoteCursors";
+import { formatFileSize } from "../utils/files";
+import { getScaleBounds, parseMatrixValue } from "../utils/fieldValidation";
+import { RemoteCursor } from "../utils/remoteCursors";
+import { EditRequest } from "../utils/fieldLocks";
 
 interface FormFieldType {
   id: string;
   label: string;
-  type:
-    | "TEXT"
-    | "NUMBER"
-    | "EMAIL"
-    | "DROPDOWN"
-    | "TEXTAREA"
-    | "CHECKBOX"
-    | "RADIO";
+  type: FieldType;
   required: boolean;
   options: string[];
+  matrix_rows?: string[] | null;
+  sub_fields?: RepeaterSubField[] | null;
+  validation?: FieldValidationRules | null;
   field_order: number;
 }
 
@@ -28,8 +43,41 @@ interface FormFieldProps {
   lockedBy?: string;
   currentUser: string;
   typingUser?: string;
+  // People waiting for the field, and our place in line (0 = not waiting)
+  queueLength?: number;
+  queuePosition?: number;
+  // Someone asked for the field while we hold it
+  editRequest?: EditRequest;
+  onRequestEdit?: () => void;
+  onCancelEditRequest?: () => void;
+  onHandOver?: () => void;
+  error?: string;
+  attachments?: FieldAttachment[];
+  isUploading?: boolean;
+  onFileUpload?: (files: File[]) => void;
+  onFileRemove?: (fileId: string) => void;
+  onFileDownload?: (file: FieldAttachment) => void;
+  // MATRIX and REPEATER rows lock individually: row -> lock holder's email
+  rowLocks?: Record<string, string>;
+  onRowChange?: (row: string, column: string) => void;
+  onRowFocus?: (row: string) => void;
+  onRowBlur?: (row: string) => void;
+  onRowAdd?: () => void;
+  onRowRemove?: (rowId: string) => void;
+  onRowMove?: (rowId: string, toIndex: number) => void;
+  onRowFieldChange?: (rowId: string, subFieldId: string, value: string) => void;
+  // Carets and selections of other collaborators in a text field
+  remoteCursors?: RemoteCursor[];
+  onSelectionChange?: (start: number, end: number) => void;
 }
 
+// Native pickers emit the same ISO-8601 strings the backend validates
+const dateInputTypes = {
+  DATE: "date",
+  TIME: "time",
+  DATETIME: "datetime-local",
+};
+
 const FormField: React.FC<FormFieldProps> = ({
   field,
   value,
@@ -40,30 +88,88 @@ const FormField: React.FC<FormFieldProps> = ({
   lockedBy,
   currentUser,
   typingUser,
+  queueLength = 0,
+  queuePosition = 0,
+  editRequest,
+  onRequestEdit,
+  onCancelEditRequest,
+  onHandOver,
+  error,
+  attachments = [],
+  isUploading = false,
+  onFileUpload,
+  onFileRemove,
+  onFileDownload,
+  rowLocks = {},
+  onRowChange,
+  onRowFocus,
+  onRowBlur,
+  onRowAdd,
+  onRowRemove,
+  onRowMove,
+  onRowFieldChange,
+  remoteCursors = [],
+  onSelectionChange,
 }) => {
+  // The text input or textarea, for drawing remote cursors over it
+  const [textInput, setTextInput] = useState<
+    HTMLInputElement | HTMLTextAreaElement | null
+  >(null);
   const isLockedByOther = isLocked && lockedBy !== currentUser;
   const isLockedByMe = isLocked && lockedBy === currentUser;
   const isTyping = typingUser && typingUser !== currentUser;
 
+  // Ticks the hand-over countdown
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!editRequest) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [editRequest]);
+
   // Allow typing if not locked by others or if locked by current user
   const canEdit = !isLockedByOther || isLockedByMe;
+  const rules = field.validation || {};
 
   const baseInputClasses = `
     w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500
     ${!canEdit ? "bg-gray-100 cursor-not-allowed" : "bg-white"}
     ${isLockedByMe ? "ring-2 ring-blue-500 border-blue-500" : "border-gray-300"}
     ${isTyping ? "ring-2 ring-yellow-400 border-yellow-400" : ""}
+    ${error ? "border-red-500" : ""}
   `;
 
+  const handleSelect = (
+    e: React.SyntheticEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    // Email inputs don't expose a selection
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    if (selectionStart !== null && selectionEnd !== null) {
+      onSelectionChange?.(selectionStart, selectionEnd);
+    }
+  };
+
+  const withRemoteCursors = (input: React.ReactNode) => (
+    <div className="relative">
+      {input}
+      <RemoteCursors input={textInput} value={value} cursors={remoteCursors} />
+    </div>
+  );
+
   const renderInput = () => {
     switch (field.type) {
       case "TEXT":
       case "EMAIL":
-        return (
+        return withRemoteCursors(
           <input
+            ref={setTextInput}
             type={field.type.toLowerCase()}
+            name={field.id}
             value={value}
+            maxLength={rules.maxLength}
             onChange={(e) => canEdit && onChange(e.target.value)}
+            onSelect={handleSelect}
             onFocus={onFocus}
             onBlur={onBlur}
             disabled={!canEdit}
@@ -77,6 +183,9 @@ const FormField: React.FC<FormFieldProps> = ({
           <input
             type="number"
             value={value}
+            min={rules.min}
+            max={rules.max}
+            step={rules.step ?? "any"}
             onChange={(e) => canEdit && onChange(e.target.value)}
             onFocus={onFocus}
             onBlur={onBlur}
@@ -86,11 +195,219 @@ const FormField: React.FC<FormFieldProps> = ({
           />
         );
 
-      case "TEXTAREA":
+      // Computed from other answers, so there is nothing to type or lock
+      case "CALCULATED":
+        return (
+          <output className="block w-full px-3 py-2 border border-gray-200 rounded-md bg-gray-50 text-gray-900">
+            {value || (
+              <span className="text-gray-400">
+                Filled in from other answers
+              </span>
+            )}
+          </output>
+        );
+
+      case "DATE":
+      case "TIME":
+      case "DATETIME":
+        return (
+          <input
+            type={dateInputTypes[field.type]}
+            value={value}
+            min={rules.minDate}
+            max={rules.maxDate}
+            onChange={(e) => canEdit && onChange(e.target.value)}
+            onFocus={onFocus}
+            onBlur={onBlur}
+            disabled={!canEdit}
+            className={baseInputClasses}
+          />
+        );
+
+      case "RATING": {
+        const { min, max, step } = getScaleBounds(field.type, rules);
+        const stars: number[] = [];
+        for (let star = min; star <= max + 1e-9; star += step) {
+          stars.push(Number(star.toFixed(6)));
+        }
+        const selected = value === "" ? null : Number(value);
+
+        return (
+          <div className="flex items-center space-x-3">
+            <div className="flex items-center space-x-1" onBlur={onBlur}>
+              {stars.map((star) => (
+                <button
+                  key={star}
+                  type="button"
+                  onClick={() => canEdit && onChange(String(star))}
+                  onFocus={onFocus}
+                  disabled={!canEdit}
+                  title={String(star)}
+                  className="disabled:cursor-not-allowed"
+                >
+                  <StarIcon
+                    className={`w-7 h-7 ${
+                      selected !== null && star <= selected
+                        ? "text-yellow-400"
+                        : "text-gray-300"
+                    }`}
+                  />
+                </button>
+              ))}
+            </div>
+            {selected !== null && canEdit && (
+              <button
+                type="button"
+                onClick={() => onChange("")}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        );
+      }
+
+      case "SCALE": {
+        const { min, max, step } = getScaleBounds(field.type, rules);
+
         return (
+          <div className="space-y-1">
+            <div className="flex items-center space-x-3">
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value === "" ? min : value}
+                onChange={(e) => canEdit && onChange(e.target.value)}
+                // A click on the unset slider should still record its value
+                onMouseUp={(e) =>
+                  canEdit && value === "" && onChange(e.currentTarget.value)
+                }
+                onFocus={onFocus}
+                onBlur={onBlur}
+                disabled={!canEdit}
+                className={`flex-1 ${value === "" ? "opacity-50" : ""}`}
+              />
+              <span className="w-10 text-sm font-medium text-right text-gray-700">
+                {value === "" ? "–" : value}
+              </span>
+            </div>
+            <div className="flex justify-between text-xs text-gray-500">
+              <span>
+                {min}
+                {rules.minLabel && ` · ${rules.minLabel}`}
+              </span>
+              <span>
+                {rules.maxLabel && `${rules.maxLabel} · `}
+                {max}
+              </span>
+            </div>
+          </div>
+        );
+      }
+
+      case "MATRIX": {
+        const answers = parseMatrixValue(value);
+
+        return (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th></th>
+                  {field.options.map((column) => (
+                    <th
+                      key={column}
+                      className="px-3 py-2 text-xs font-medium text-center text-gray-600"
+                    >
+                      {column}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {(field.matrix_rows || []).map((row) => {
+                  const rowLockedBy = rowLocks[row];
+                  const canEditRow =
+                    canEdit && (!rowLockedBy || rowLockedBy === currentUser);
+
+                  return (
+                    <tr
+                      key={row}
+                      className={
+                        rowLockedBy && rowLockedBy !== currentUser
+                          ? "bg-gray-50"
+                          : rowLockedBy
+                          ? "bg-blue-50"
+                          : ""
+                      }
+                    >
+                      <td className="py-2 pr-3 text-gray-700">
+                        <div>{row}</div>
+                        {rowLockedBy && (
+                          <div className="flex items-center mt-0.5 space-x-1 text-xs text-gray-500">
+                            <LockClosedIcon className="w-3 h-3" />
+                            <span>
+                              {rowLockedBy === currentUser
+                                ? "You"
+                                : rowLockedBy}
+                            </span>
+                          </div>
+                        )}
+                      </td>
+                      {field.options.map((column) => (
+                        <td key={column} className="px-3 py-2 text-center">
+                          <input
+                            type="radio"
+                            name={`${field.id}-${row}`}
+                            checked={answers[row] === column}
+                            onChange={() =>
+                              canEditRow && onRowChange?.(row, column)
+                            }
+                            onFocus={() => onRowFocus?.(row)}
+                            onBlur={() => onRowBlur?.(row)}
+                            disabled={!canEditRow}
+                            className="text-blue-600"
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+
+      case "REPEATER":
+        return (
+          <RepeaterField
+            subFields={field.sub_fields || []}
+            value={value}
+            canEdit={canEdit}
+            currentUser={currentUser}
+            rowLocks={rowLocks}
+            onRowAdd={onRowAdd}
+            onRowRemove={onRowRemove}
+            onRowMove={onRowMove}
+            onRowFieldChange={onRowFieldChange}
+            onRowFocus={onRowFocus}
+            onRowBlur={onRowBlur}
+          />
+        );
+
+      case "TEXTAREA":
+        return withRemoteCursors(
           <textarea
+            ref={setTextInput}
+            name={field.id}
             value={value}
+            maxLength={rules.maxLength}
             onChange={(e) => canEdit && onChange(e.target.value)}
+            onSelect={handleSelect}
             onFocus={onFocus}
             onBlur={onBlur}
             disabled={!canEdit}
@@ -184,6 +501,69 @@ const FormField: React.FC<FormFieldProps> = ({
           </div>
         );
 
+      case "FILE":
+        return (
+          <div className="space-y-2">
+            {attachments.length > 0 && (
+              <ul className="border border-gray-200 divide-y divide-gray-200 rounded-md">
+                {attachments.map((file) => (
+                  <li
+                    key={file.id}
+                    className="flex items-center justify-between px-3 py-2 text-sm"
+                  >
+                    <div className="flex items-center min-w-0 space-x-2">
+                      <PaperClipIcon className="flex-shrink-0 w-4 h-4 text-gray-400" />
+                      <span className="text-gray-700 truncate">
+                        {file.file_name}
+                      </span>
+                      <span className="flex-shrink-0 text-xs text-gray-400">
+                        {formatFileSize(file.size)}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => onFileDownload?.(file)}
+                        className="p-1 text-gray-400 hover:text-blue-600"
+                        title="Download"
+                      >
+                        <ArrowDownTrayIcon className="w-4 h-4" />
+                      </button>
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => onFileRemove?.(file.id)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Remove"
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <input
+              type="file"
+              multiple={rules.maxFiles === undefined || rules.maxFiles > 1}
+              accept={rules.allowedFileTypes}
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = "";
+                if (canEdit && files.length > 0) onFileUpload?.(files);
+              }}
+              onFocus={onFocus}
+              onBlur={onBlur}
+              disabled={!canEdit || isUploading}
+              className="block w-full text-sm text-gray-600 file:mr-3 file:py-2 file:px-4 file:border-0 file:rounded-md file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+            {isUploading && (
+              <p className="text-xs text-gray-500">Uploading...</p>
+            )}
+          </div>
+        );
+
       default:
         return null;
     }
@@ -231,12 +611,60 @@ const FormField: React.FC<FormFieldProps> = ({
 
       {renderInput()}
 
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
       {isLockedByOther && !isTyping && (
         <p className="text-xs text-gray-500">
           This field is currently being edited by {lockedBy}
         </p>
       )}
 
+      {isLockedByOther && onRequestEdit && (
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span>
+            {queuePosition > 0
+              ? `You're #${queuePosition} in line for this field`
+              : queueLength > 0
+              ? `${queueLength} waiting for this field`
+              : ""}
+          </span>
+          {queuePosition > 0 ? (
+            <button
+              type="button"
+              onClick={onCancelEditRequest}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              Leave line
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={onRequestEdit}
+              className="font-medium text-blue-600 hover:text-blue-800"
+            >
+              Request edit
+            </button>
+          )}
+        </div>
+      )}
+
+      {isLockedByMe && editRequest && (
+        <div className="flex items-center justify-between px-3 py-2 text-xs rounded-md text-amber-800 bg-amber-50">
+          <span>
+            {editRequest.requestedBy} asked to edit this field. Handing over in{" "}
+            {Math.max(0, Math.ceil((editRequest.handoffAt - now) / 1000))}s
+            {queueLength > 1 && ` (${queueLength} waiting)`}.
+          </span>
+          <button
+            type="button"
+            onClick={onHandOver}
+            className="font-medium text-amber-900 hover:underline"
+          >
+            Hand over now
+          </button>
+        </div>
+      )}
+
       {isTyping && (
         <p className="text-xs text-yellow-600">
           {typingUser} is typing in this field...
@@ -0,0 +1,61 @@
+// src/components/FormulaEditor.tsx
+import React from "react";
+import { FORMULA_FUNCTION_NAMES } from "../utils/formulas";
+
+interface FormulaEditorProps {
+  // Formula as shown to the form author, referencing fields as {Label}
+  formula: string;
+  onChange: (formula: string) => void;
+  sourceFields: { id: string; label: string }[];
+}
+
+const FormulaEditor: React.FC<FormulaEditorProps> = ({
+  formula,
+  onChange,
+  sourceFields,
+}) => {
+  const insertReference = (label: string) => {
+    const separator = formula && !formula.endsWith(" ") ? " " : "";
+    onChange(`${formula}${separator}{${label.trim()}}`);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700">
+        Formula *
+      </label>
+      <input
+        type="text"
+        value={formula}
+        onChange={(e) => onChange(e.target.value)}
+        className="block w-full mt-1 font-mono border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        placeholder="e.g. {Quantity} * {Unit Price}"
+      />
+
+      {sourceFields.some((field) => field.label.trim()) && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {sourceFields
+            .filter((field) => field.label.trim())
+            .map((field) => (
+              <button
+                key={field.id}
+                type="button"
+                onClick={() => insertReference(field.label)}
+                className="px-2 py-0.5 text-xs text-blue-700 bg-blue-50 rounded-full hover:bg-blue-100"
+              >
+                {`{${field.label.trim()}}`}
+              </button>
+            ))}
+        </div>
+      )}
+
+      <p className="mt-2 text-xs text-gray-500">
+        Use + - * / % ^ and parentheses, or the functions{" "}
+        {FORMULA_FUNCTION_NAMES.join(", ")}. Empty or non-numeric answers count
+        as 0.
+      </p>
+    </div>
+  );
+};
+
+export default FormulaEditor;
@@ -0,0 +1,270 @@
+// src/components/GroupMembersPanel.tsx
+import React, { useEffect, useState } from "react";
+import { ClipboardDocumentIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { GroupRole } from "../types";
+
+interface GroupMember {
+  id: string;
+  user_id: string;
+  email: string;
+  role: GroupRole;
+  created_at: string;
+}
+
+interface GroupInvitation {
+  id: string;
+  email: string;
+  role: GroupRole;
+  token: string;
+  expires_at: string;
+  created_at: string;
+}
+
+interface GroupMembersPanelProps {
+  formId: string;
+  sharingCodeId: string;
+}
+
+const ROLE_LABELS: Record<GroupRole, string> = {
+  VIEWER: "Viewer",
+  EDITOR: "Editor",
+  SUBMITTER: "Submitter",
+};
+
+const ROLE_OPTIONS = Object.keys(ROLE_LABELS) as GroupRole[];
+
+// Members and pending invitations of one group, shown in the Dashboard's
+// Manage Groups modal
+const GroupMembersPanel: React.FC<GroupMembersPanelProps> = ({
+  formId,
+  sharingCodeId,
+}) => {
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  const [invitations, setInvitations] = useState<GroupInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<GroupRole>("EDITOR");
+  const [inviting, setInviting] = useState(false);
+
+  const baseUrl = `${
+    import.meta.env.VITE_BACKEND_URL
+  }/api/forms/${formId}/sharing-codes/${sharingCodeId}`;
+  const authHeaders = {
+    Authorization: `Bearer ${localStorage.getItem("token")}`,
+  };
+
+  useEffect(() => {
+    const loadMembers = async () => {
+      try {
+        const response = await fetch(`${baseUrl}/members`, {
+          headers: authHeaders,
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setMembers(data.members);
+          setInvitations(data.invitations);
+        }
+      } catch (error) {
+        console.error("Failed to load members:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMembers();
+  }, [formId, sharingCodeId]);
+
+  const copyInvitationLink = (token: string) => {
+    navigator.clipboard.writeText(
+      `${window.location.origin}/invitations/${token}`
+    );
+    alert("Invitation link copied to clipboard!");
+  };
+
+  const inviteMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setInviting(true);
+    try {
+      const response = await fetch(`${baseUrl}/invitations`, {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim(), role }),
+      });
+
+      if (response.ok) {
+        const invitation = await response.json();
+        setInvitations((prev) => [...prev, invitation]);
+        setEmail("");
+        copyInvitationLink(invitation.token);
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to invite member");
+      }
+    } catch (error) {
+      alert("Failed to invite member");
+      console.error("Invite member error:", error);
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const revokeInvitation = async (invitation: GroupInvitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${baseUrl}/invitations/${invitation.id}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+      if (response.ok) {
+        setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to revoke invitation");
+      }
+    } catch (error) {
+      alert("Failed to revoke invitation");
+      console.error("Revoke invitation error:", error);
+    }
+  };
+
+  const changeRole = async (member: GroupMember, newRole: GroupRole) => {
+    try {
+      const response = await fetch(`${baseUrl}/members/${member.id}`, {
+        method: "PATCH",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ role: newRole }),
+      });
+      if (response.ok) {
+        setMembers((prev) =>
+          prev.map((m) => (m.id === member.id ? { ...m, role: newRole } : m))
+        );
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to change role");
+      }
+    } catch (error) {
+      alert("Failed to change role");
+      console.error("Change role error:", error);
+    }
+  };
+
+  const removeMember = async (member: GroupMember) => {
+    if (!window.confirm(`Remove ${member.email} from this group?`)) return;
+
+    try {
+      const response = await fetch(`${baseUrl}/members/${member.id}`, {
+        method: "DELETE",
+        headers: authHeaders,
+      });
+      if (response.ok) {
+        setMembers((prev) => prev.filter((m) => m.id !== member.id));
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to remove member");
+      }
+    } catch (error) {
+      alert("Failed to remove member");
+      console.error("Remove member error:", error);
+    }
+  };
+
+  if (loading) {
+    return <p className="mt-2 text-xs text-gray-500">Loading members...</p>;
+  }
+
+  return (
+    <div className="pt-2 mt-2 space-y-2 text-xs border-t border-gray-100">
+      {members.length === 0 && invitations.length === 0 && (
+        <p className="text-gray-500">No members yet.</p>
+      )}
+
+      {members.map((member) => (
+        <div key={member.id} className="flex items-center justify-between">
+          <span className="text-gray-800 truncate">{member.email}</span>
+          <div className="flex items-center ml-2 space-x-1">
+            <select
+              value={member.role}
+              onChange={(e) => changeRole(member, e.target.value as GroupRole)}
+              className="px-1 py-0.5 border border-gray-300 rounded"
+            >
+              {ROLE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {ROLE_LABELS[option]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => removeMember(member)}
+              title="Remove member"
+              className="p-1 text-red-600 rounded hover:bg-red-50"
+            >
+              <TrashIcon className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {invitations.map((invitation) => (
+        <div key={invitation.id} className="flex items-center justify-between">
+          <span className="text-gray-500 truncate">
+            {invitation.email} · {ROLE_LABELS[invitation.role]} · invited,
+            expires {new Date(invitation.expires_at).toLocaleDateString()}
+          </span>
+          <div className="flex items-center ml-2 space-x-1">
+            <button
+              onClick={() => copyInvitationLink(invitation.token)}
+              title="Copy invitation link"
+              className="p-1 text-blue-600 rounded hover:bg-blue-50"
+            >
+              <ClipboardDocumentIcon className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => revokeInvitation(invitation)}
+              title="Revoke invitation"
+              className="p-1 text-red-600 rounded hover:bg-red-50"
+            >
+              <TrashIcon className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <form onSubmit={inviteMember} className="flex items-center space-x-1">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Invite by email"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          disabled={inviting}
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as GroupRole)}
+          className="px-1 py-1 border border-gray-300 rounded"
+          disabled={inviting}
+        >
+          {ROLE_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {ROLE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={inviting || !email.trim()}
+          className="px-2 py-1 text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {inviting ? "Inviting..." : "Invite"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default GroupMembersPanel;
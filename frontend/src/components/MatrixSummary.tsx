@@ -0,0 +1,52 @@
+// src/components/MatrixSummary.tsx
+import React from "react";
+import { MatrixRowStats } from "../utils/matrixStats";
+
+interface MatrixSummaryProps {
+  label: string;
+  rows: MatrixRowStats[];
+}
+
+const MatrixSummary: React.FC<MatrixSummaryProps> = ({ label, rows }) => (
+  <div className="p-4 border border-gray-200 rounded-lg">
+    <h5 className="mb-3 font-medium text-gray-900">{label}</h5>
+
+    <div className="space-y-4">
+      {rows.map(({ row, answered, counts }) => {
+        const maxCount = Math.max(1, ...counts.map((c) => c.count));
+
+        return (
+          <div key={row}>
+            <div className="flex items-baseline justify-between mb-1">
+              <span className="text-sm font-medium text-gray-700">{row}</span>
+              <span className="text-xs text-gray-500">
+                {answered} answer{answered === 1 ? "" : "s"}
+              </span>
+            </div>
+            <div className="space-y-1">
+              {counts.map(({ column, count }) => (
+                <div
+                  key={column}
+                  className="flex items-center space-x-2 text-xs"
+                >
+                  <span className="w-24 text-right text-gray-600 truncate">
+                    {column}
+                  </span>
+                  <div className="flex-1 h-3 bg-gray-100 rounded">
+                    <div
+                      className="h-3 bg-indigo-500 rounded"
+                      style={{ width: `${(count / maxCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-8 text-gray-600">{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default MatrixSummary;
@@ -6,11 +6,14 @@ import { useAuth } from "../contexts/AuthContext";
 interface ProtectedRouteProps {
   children: React.ReactNode;
   adminOnly?: boolean;
+  // Guests may only see the form they were invited to
+  allowGuests?: boolean;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
   adminOnly = false,
+  allowGuests = false,
 }) => {
   const { user, loading, isAuthenticated } = useAuth();
   const location = useLocation();
@@ -32,6 +35,10 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  if (user.role === "GUEST" && !allowGuests) {
+    return <Navigate to={`/forms/${user.share_code}`} replace />;
+  }
+
   // Check admin access if required
   if (adminOnly && user.role !== "ADMIN") {
     return (
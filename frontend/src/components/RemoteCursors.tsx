@@ -0,0 +1,148 @@
+// src/components/RemoteCursors.tsx
+import React, { useEffect, useState } from "react";
+import { getCursorColor, RemoteCursor } from "../utils/remoteCursors";
+
+interface RemoteCursorsProps {
+  // The text input or textarea the cursors belong to
+  input: HTMLInputElement | HTMLTextAreaElement | null;
+  value: string;
+  cursors: RemoteCursor[];
+}
+
+// Room above the field for the name flag of a caret on the first line
+const LABEL_SPACE = "1.25rem";
+
+// Other collaborators' carets and selections drawn over a text field. A
+// transparent copy of the text with the field's font and padding lays
+// them out exactly where the characters are.
+const RemoteCursors: React.FC<RemoteCursorsProps> = ({
+  input,
+  value,
+  cursors,
+}) => {
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+
+  useEffect(() => {
+    if (!input) return;
+    const updateScroll = () =>
+      setScroll({ top: input.scrollTop, left: input.scrollLeft });
+    updateScroll();
+    input.addEventListener("scroll", updateScroll);
+    return () => input.removeEventListener("scroll", updateScroll);
+  }, [input, value]);
+
+  if (!input || cursors.length === 0) return null;
+
+  const multiline = input instanceof HTMLTextAreaElement;
+  const style = window.getComputedStyle(input);
+  const scrollbarWidth =
+    input.offsetWidth -
+    input.clientWidth -
+    parseFloat(style.borderLeftWidth) -
+    parseFloat(style.borderRightWidth);
+
+  // Cut the text wherever a selection starts or ends or a caret sits
+  const boundaries = [
+    ...new Set([
+      0,
+      value.length,
+      ...cursors.flatMap((cursor) => [cursor.start, cursor.end]),
+    ]),
+  ].sort((a, b) => a - b);
+
+  const renderCarets = (index: number) =>
+    cursors
+      .filter((cursor) => cursor.end === index)
+      .map((cursor) => {
+        const color = getCursorColor(cursor.userId);
+        return (
+          <span
+            key={`caret-${cursor.userId}`}
+            className="relative inline-block align-text-bottom"
+            style={{
+              height: "1.2em",
+              borderLeft: `2px solid ${color}`,
+              margin: "0 -1px",
+            }}
+          >
+            <span
+              className="absolute left-0 px-1 text-xs leading-4 text-white rounded whitespace-nowrap"
+              style={{ bottom: "100%", backgroundColor: color }}
+            >
+              {cursor.name}
+            </span>
+          </span>
+        );
+      });
+
+  const pieces: React.ReactNode[] = [];
+  boundaries.forEach((index, i) => {
+    pieces.push(...renderCarets(index));
+
+    const next = boundaries[i + 1];
+    if (next === undefined || next === index) return;
+
+    const selectedBy = cursors.find(
+      (cursor) => cursor.start <= index && cursor.end >= next
+    );
+    const text = value.slice(index, next);
+    pieces.push(
+      selectedBy ? (
+        <span
+          key={`text-${index}`}
+          style={{
+            backgroundColor: `${getCursorColor(selectedBy.userId)}40`,
+          }}
+        >
+          {text}
+        </span>
+      ) : (
+        text
+      )
+    );
+  });
+
+  return (
+    <div
+      aria-hidden="true"
+      className="absolute inset-0 pointer-events-none"
+      style={{
+        boxSizing: "border-box",
+        borderStyle: "solid",
+        borderColor: "transparent",
+        borderWidth: style.borderWidth,
+        paddingTop: style.paddingTop,
+        paddingBottom: style.paddingBottom,
+        paddingLeft: style.paddingLeft,
+        paddingRight: `calc(${style.paddingRight} + ${Math.max(
+          0,
+          scrollbarWidth
+        )}px)`,
+        fontFamily: style.fontFamily,
+        fontSize: style.fontSize,
+        fontWeight: style.fontWeight,
+        lineHeight: style.lineHeight,
+        letterSpacing: style.letterSpacing,
+        // Leave room for name flags above the field, except where scrolled
+        // away lines would show through
+        clipPath: scroll.top > 0 ? "inset(0)" : `inset(-${LABEL_SPACE} 0 0 0)`,
+        overflow: "visible",
+      }}
+    >
+      <div
+        className="text-transparent"
+        style={{
+          whiteSpace: multiline ? "pre-wrap" : "pre",
+          overflowWrap: multiline ? "break-word" : "normal",
+          transform: `translate(${-scroll.left}px, ${-scroll.top}px)`,
+        }}
+      >
+        {pieces}
+        {/* Keeps the height of a trailing empty line */}
+        {"\u200b"}
+      </div>
+    </div>
+  );
+};
+
+export default RemoteCursors;
@@ -0,0 +1,227 @@
+// src/components/RepeaterField.tsx
+import React from "react";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  LockClosedIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { RepeaterSubField } from "../types";
+import { MAX_REPEATER_ROWS, parseRepeaterValue } from "../utils/repeaterValues";
+
+interface RepeaterFieldProps {
+  subFields: RepeaterSubField[];
+  value: string;
+  canEdit: boolean;
+  currentUser: string;
+  // Row id -> email of the collaborator editing that row
+  rowLocks: Record<string, string>;
+  onRowAdd?: () => void;
+  onRowRemove?: (rowId: string) => void;
+  onRowMove?: (rowId: string, toIndex: number) => void;
+  onRowFieldChange?: (rowId: string, subFieldId: string, value: string) => void;
+  onRowFocus?: (rowId: string) => void;
+  onRowBlur?: (rowId: string) => void;
+}
+
+const inputTypes: Record<string, string> = {
+  TEXT: "text",
+  EMAIL: "email",
+  NUMBER: "number",
+  DATE: "date",
+  TIME: "time",
+  DATETIME: "datetime-local",
+};
+
+const RepeaterField: React.FC<RepeaterFieldProps> = ({
+  subFields,
+  value,
+  canEdit,
+  currentUser,
+  rowLocks,
+  onRowAdd,
+  onRowRemove,
+  onRowMove,
+  onRowFieldChange,
+  onRowFocus,
+  onRowBlur,
+}) => {
+  const rows = parseRepeaterValue(value);
+
+  const renderCell = (
+    rowId: string,
+    subField: RepeaterSubField,
+    cellValue: string,
+    canEditRow: boolean
+  ) => {
+    const cellClasses = `w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+      canEditRow ? "bg-white" : "bg-gray-100 cursor-not-allowed"
+    }`;
+    const handlers = {
+      onFocus: () => onRowFocus?.(rowId),
+      onBlur: () => onRowBlur?.(rowId),
+      disabled: !canEditRow,
+      className: cellClasses,
+    };
+
+    if (subField.type === "DROPDOWN") {
+      return (
+        <select
+          value={cellValue}
+          onChange={(e) =>
+            canEditRow && onRowFieldChange?.(rowId, subField.id, e.target.value)
+          }
+          {...handlers}
+        >
+          <option value="">Select</option>
+          {(subField.options || []).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
+    if (subField.type === "TEXTAREA") {
+      return (
+        <textarea
+          value={cellValue}
+          rows={2}
+          onChange={(e) =>
+            canEditRow && onRowFieldChange?.(rowId, subField.id, e.target.value)
+          }
+          {...handlers}
+        />
+      );
+    }
+
+    return (
+      <input
+        type={inputTypes[subField.type] || "text"}
+        value={cellValue}
+        step={subField.type === "NUMBER" ? "any" : undefined}
+        onChange={(e) =>
+          canEditRow && onRowFieldChange?.(rowId, subField.id, e.target.value)
+        }
+        {...handlers}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr>
+              <th className="w-8"></th>
+              {subFields.map((subField) => (
+                <th
+                  key={subField.id}
+                  className="px-2 py-2 text-xs font-medium text-left text-gray-600"
+                >
+                  {subField.label}
+                  {subField.required && (
+                    <span className="ml-1 text-red-500">*</span>
+                  )}
+                </th>
+              ))}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row, index) => {
+              const rowLockedBy = rowLocks[row.id];
+              const canEditRow =
+                canEdit && (!rowLockedBy || rowLockedBy === currentUser);
+
+              return (
+                <tr
+                  key={row.id}
+                  className={
+                    rowLockedBy && rowLockedBy !== currentUser
+                      ? "bg-gray-50"
+                      : rowLockedBy
+                      ? "bg-blue-50"
+                      : ""
+                  }
+                >
+                  <td className="py-2 pr-2 text-xs text-gray-500 align-top">
+                    <div>{index + 1}</div>
+                    {rowLockedBy && (
+                      <div
+                        className="mt-1"
+                        title={
+                          rowLockedBy === currentUser ? "You" : rowLockedBy
+                        }
+                      >
+                        <LockClosedIcon className="w-3 h-3" />
+                      </div>
+                    )}
+                  </td>
+                  {subFields.map((subField) => (
+                    <td key={subField.id} className="px-2 py-2 align-top">
+                      {renderCell(
+                        row.id,
+                        subField,
+                        row.values[subField.id] || "",
+                        canEditRow
+                      )}
+                    </td>
+                  ))}
+                  <td className="py-2 pl-2 align-top whitespace-nowrap">
+                    <button
+                      type="button"
+                      onClick={() => onRowMove?.(row.id, index - 1)}
+                      disabled={!canEdit || index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUpIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRowMove?.(row.id, index + 1)}
+                      disabled={!canEdit || index === rows.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDownIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onRowRemove?.(row.id)}
+                      disabled={!canEditRow}
+                      className="p-1 text-red-400 hover:text-red-600 disabled:opacity-30"
+                      title="Remove row"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-sm text-gray-500">No rows yet</p>
+      )}
+
+      <button
+        type="button"
+        onClick={onRowAdd}
+        disabled={!canEdit || rows.length >= MAX_REPEATER_ROWS}
+        className="inline-flex items-center px-3 py-1 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50"
+      >
+        <PlusIcon className="w-4 h-4 mr-1" />
+        Add row
+      </button>
+    </div>
+  );
+};
+
+export default RepeaterField;
@@ -0,0 +1,82 @@
+// src/components/ScaleSummary.tsx
+import React from "react";
+import { StarIcon } from "@heroicons/react/24/solid";
+import { ScaleStats } from "../utils/scaleStats";
+
+interface ScaleSummaryProps {
+  label: string;
+  type: string;
+  stats: ScaleStats;
+}
+
+const ScaleSummary: React.FC<ScaleSummaryProps> = ({ label, type, stats }) => {
+  const maxCount = Math.max(1, ...stats.distribution.map((d) => d.count));
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <h5 className="font-medium text-gray-900">{label}</h5>
+          <p className="text-xs text-gray-500">
+            {stats.count} answer{stats.count === 1 ? "" : "s"}
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="flex items-center justify-end text-2xl font-bold text-gray-900">
+            {stats.average !== null ? stats.average.toFixed(2) : "—"}
+            {type === "RATING" && (
+              <StarIcon className="w-5 h-5 ml-1 text-yellow-400" />
+            )}
+          </div>
+          <p className="text-xs text-gray-500">average</p>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        {stats.distribution.map(({ value, count }) => (
+          <div key={value} className="flex items-center space-x-2 text-xs">
+            <span className="w-8 text-right text-gray-600">{value}</span>
+            <div className="flex-1 h-3 bg-gray-100 rounded">
+              <div
+                className="h-3 bg-blue-500 rounded"
+                style={{ width: `${(count / maxCount) * 100}%` }}
+              />
+            </div>
+            <span className="w-8 text-gray-600">{count}</span>
+          </div>
+        ))}
+      </div>
+
+      {stats.nps && (
+        <div className="grid grid-cols-4 gap-2 pt-3 mt-3 text-center border-t border-gray-100">
+          <div>
+            <div className="text-lg font-bold text-gray-900">
+              {stats.nps.score}
+            </div>
+            <div className="text-xs text-gray-500">NPS</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-green-600">
+              {stats.nps.promoters}
+            </div>
+            <div className="text-xs text-gray-500">Promoters</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-gray-600">
+              {stats.nps.passives}
+            </div>
+            <div className="text-xs text-gray-500">Passives</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-red-600">
+              {stats.nps.detractors}
+            </div>
+            <div className="text-xs text-gray-500">Detractors</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScaleSummary;
@@ -0,0 +1,69 @@
+// src/components/SectionProgressBar.tsx
+import React from "react";
+import { CheckCircleIcon } from "@heroicons/react/24/solid";
+import { SectionProgress } from "../utils/sections";
+
+interface SectionProgressBarProps {
+  pages: { key: string; title: string }[];
+  currentIndex: number;
+  // Shared by the server so every collaborator sees the same state
+  progress: Record<string, SectionProgress>;
+  onSelect: (index: number) => void;
+}
+
+const SectionProgressBar: React.FC<SectionProgressBarProps> = ({
+  pages,
+  currentIndex,
+  progress,
+  onSelect,
+}) => {
+  const completed = pages.filter((page) => progress[page.key]?.complete);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+        <span>
+          Page {currentIndex + 1} of {pages.length}
+        </span>
+        <span>
+          {completed.length} of {pages.length} sections complete
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {pages.map((page, index) => {
+          const pageProgress = progress[page.key];
+          const isCurrent = index === currentIndex;
+
+          return (
+            <button
+              key={page.key}
+              type="button"
+              onClick={() => onSelect(index)}
+              className={`flex items-center px-3 py-1 text-sm rounded-full border transition-colors ${
+                isCurrent
+                  ? "border-blue-600 bg-blue-50 text-blue-700"
+                  : "border-gray-200 text-gray-600 hover:bg-gray-50"
+              }`}
+            >
+              {pageProgress?.complete ? (
+                <CheckCircleIcon className="w-4 h-4 mr-1 text-green-600" />
+              ) : (
+                <span className="flex items-center justify-center w-4 h-4 mr-1 text-xs border border-current rounded-full">
+                  {index + 1}
+                </span>
+              )}
+              <span className="truncate max-w-[10rem]">{page.title}</span>
+              {pageProgress && pageProgress.required > 0 && (
+                <span className="ml-1 text-xs text-gray-500">
+                  {pageProgress.requiredAnswered}/{pageProgress.required}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SectionProgressBar;
@@ -0,0 +1,141 @@
+// src/components/SubFieldsEditor.tsx
+import React from "react";
+import { TrashIcon } from "@heroicons/react/24/outline";
+import { RepeaterSubField } from "../types";
+import { REPEATER_SUB_FIELD_TYPES } from "../utils/repeaterValues";
+
+interface SubFieldsEditorProps {
+  subFields: RepeaterSubField[];
+  onChange: (subFields: RepeaterSubField[]) => void;
+}
+
+const subFieldTypeLabels: Record<string, string> = {
+  TEXT: "Text",
+  TEXTAREA: "Text Area",
+  NUMBER: "Number",
+  EMAIL: "Email",
+  DATE: "Date",
+  TIME: "Time",
+  DATETIME: "Date & Time",
+  DROPDOWN: "Dropdown",
+};
+
+const inputClasses =
+  "border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+const SubFieldsEditor: React.FC<SubFieldsEditorProps> = ({
+  subFields,
+  onChange,
+}) => {
+  const addSubField = () => {
+    onChange([
+      ...subFields,
+      {
+        id: `${Date.now()}${Math.random().toString(36).slice(2, 6)}`,
+        label: "",
+        type: "TEXT",
+        required: false,
+      },
+    ]);
+  };
+
+  const updateSubField = (
+    index: number,
+    updates: Partial<RepeaterSubField>
+  ) => {
+    onChange(
+      subFields.map((subField, i) =>
+        i === index ? { ...subField, ...updates } : subField
+      )
+    );
+  };
+
+  const removeSubField = (index: number) => {
+    onChange(subFields.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Columns
+        </label>
+        <button
+          type="button"
+          onClick={addSubField}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add Column
+        </button>
+      </div>
+      <div className="space-y-2">
+        {subFields.map((subField, index) => (
+          <div key={subField.id} className="p-2 rounded-md bg-gray-50">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={subField.label}
+                onChange={(e) =>
+                  updateSubField(index, { label: e.target.value })
+                }
+                className={`flex-1 ${inputClasses}`}
+                placeholder={`Column ${index + 1}`}
+              />
+              <select
+                value={subField.type}
+                onChange={(e) =>
+                  updateSubField(index, {
+                    type: e.target.value,
+                    options: e.target.value === "DROPDOWN" ? [] : undefined,
+                  })
+                }
+                className={inputClasses}
+              >
+                {REPEATER_SUB_FIELD_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {subFieldTypeLabels[type]}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!subField.required}
+                  onChange={(e) =>
+                    updateSubField(index, { required: e.target.checked })
+                  }
+                  className="mr-1 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Required
+              </label>
+              <button
+                type="button"
+                onClick={() => removeSubField(index)}
+                className="p-2 text-red-400 hover:text-red-600"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+            {subField.type === "DROPDOWN" && (
+              <input
+                type="text"
+                value={(subField.options || []).join(", ")}
+                onChange={(e) =>
+                  updateSubField(index, {
+                    options: e.target.value
+                      .split(",")
+                      .map((o) => o.trimStart()),
+                  })
+                }
+                className={`block w-full mt-2 ${inputClasses}`}
+                placeholder="Choices, separated by commas"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SubFieldsEditor;
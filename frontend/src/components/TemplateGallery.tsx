@@ -0,0 +1,107 @@
+// src/components/TemplateGallery.tsx
+import React from "react";
+import {
+  DocumentPlusIcon,
+  Squares2X2Icon,
+  TrashIcon,
+} from "@heroicons/react/24/outline";
+import { FormTemplate } from "../types";
+
+interface TemplateGalleryProps {
+  templates: FormTemplate[];
+  selectedId: string | null;
+  currentUserId?: string;
+  onSelect: (template: FormTemplate | null) => void;
+  onDelete: (template: FormTemplate) => void;
+}
+
+const visibilityLabels: Record<FormTemplate["visibility"], string> = {
+  BUILT_IN: "Built-in",
+  PERSONAL: "Personal",
+  WORKSPACE: "Workspace",
+};
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({
+  templates,
+  selectedId,
+  currentUserId,
+  onSelect,
+  onDelete,
+}) => {
+  const cardClasses = (selected: boolean) =>
+    `relative p-4 text-left border rounded-lg transition-colors ${
+      selected
+        ? "border-blue-500 ring-2 ring-blue-200 bg-blue-50"
+        : "border-gray-200 hover:border-blue-300 bg-white"
+    }`;
+
+  return (
+    <div className="p-6 bg-white rounded-lg shadow">
+      <h2 className="flex items-center mb-4 text-lg font-medium text-gray-900">
+        <Squares2X2Icon className="w-5 h-5 mr-2 text-blue-600" />
+        Start From
+      </h2>
+
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        <button
+          type="button"
+          onClick={() => onSelect(null)}
+          className={cardClasses(selectedId === null)}
+        >
+          <DocumentPlusIcon className="w-6 h-6 mb-2 text-gray-400" />
+          <p className="text-sm font-medium text-gray-900">Blank Form</p>
+          <p className="mt-1 text-xs text-gray-500">Add every field yourself</p>
+        </button>
+
+        {templates.map((template) => (
+          <div
+            key={template.id}
+            role="button"
+            tabIndex={0}
+            onClick={() => onSelect(template)}
+            onKeyDown={(e) => e.key === "Enter" && onSelect(template)}
+            className={`cursor-pointer ${cardClasses(
+              selectedId === template.id
+            )}`}
+          >
+            <div className="flex items-start justify-between">
+              <p className="text-sm font-medium text-gray-900">
+                {template.title}
+              </p>
+              <span className="ml-2 px-2 py-0.5 text-xs text-gray-600 bg-gray-100 rounded-full whitespace-nowrap">
+                {visibilityLabels[template.visibility]}
+              </span>
+            </div>
+            {template.description && (
+              <p className="mt-1 text-xs text-gray-500 line-clamp-2">
+                {template.description}
+              </p>
+            )}
+            <div className="flex items-center justify-between mt-2">
+              <p className="text-xs text-gray-400">
+                {template.fields.length} field
+                {template.fields.length === 1 ? "" : "s"}
+              </p>
+              {template.created_by_id &&
+                template.created_by_id === currentUserId && (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDelete(template);
+                    }}
+                    className="p-1 text-red-400 hover:text-red-600"
+                    title="Delete template"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TemplateGallery;
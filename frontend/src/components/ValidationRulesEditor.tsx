@@ -0,0 +1,200 @@
+// src/components/ValidationRulesEditor.tsx
+import React from "react";
+import { FieldValidationRules } from "../types";
+import { getScaleBounds } from "../utils/fieldValidation";
+
+interface ValidationRulesEditorProps {
+  fieldType: string;
+  rules: FieldValidationRules | null | undefined;
+  onChange: (rules: FieldValidationRules | null) => void;
+}
+
+type NumericRule = Exclude<
+  keyof FieldValidationRules,
+  | "pattern"
+  | "patternMessage"
+  | "minDate"
+  | "maxDate"
+  | "allowedFileTypes"
+  | "minLabel"
+  | "maxLabel"
+>;
+
+const dateInputTypes: Record<string, string> = {
+  DATE: "date",
+  TIME: "time",
+  DATETIME: "datetime-local",
+};
+
+const inputClasses =
+  "block w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+const ValidationRulesEditor: React.FC<ValidationRulesEditorProps> = ({
+  fieldType,
+  rules,
+  onChange,
+}) => {
+  const current = rules || {};
+
+  const setRule = (key: keyof FieldValidationRules, value: any) => {
+    const next: FieldValidationRules = { ...current };
+    if (value === undefined || value === "") {
+      delete next[key];
+    } else {
+      (next as any)[key] = value;
+    }
+    onChange(Object.keys(next).length > 0 ? next : null);
+  };
+
+  const numberInput = (key: NumericRule, label: string, step = "1") => (
+    <div key={key}>
+      <label className="block text-xs font-medium text-gray-600">{label}</label>
+      <input
+        type="number"
+        step={step}
+        value={current[key] ?? ""}
+        onChange={(e) =>
+          setRule(
+            key,
+            e.target.value === "" ? undefined : Number(e.target.value)
+          )
+        }
+        className={inputClasses}
+      />
+    </div>
+  );
+
+  const dateInput = (key: "minDate" | "maxDate", label: string) => (
+    <div key={key}>
+      <label className="block text-xs font-medium text-gray-600">{label}</label>
+      <input
+        type={dateInputTypes[fieldType]}
+        value={current[key] ?? ""}
+        onChange={(e) => setRule(key, e.target.value)}
+        className={inputClasses}
+      />
+    </div>
+  );
+
+  let content: React.ReactNode = null;
+
+  if (["TEXT", "TEXTAREA", "EMAIL"].includes(fieldType)) {
+    content = (
+      <>
+        <div className="grid grid-cols-2 gap-3">
+          {numberInput("minLength", "Min length")}
+          {numberInput("maxLength", "Max length")}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600">
+              Pattern (regex)
+            </label>
+            <input
+              type="text"
+              value={current.pattern ?? ""}
+              onChange={(e) => setRule("pattern", e.target.value)}
+              className={`${inputClasses} font-mono`}
+              placeholder="e.g. ^[A-Z]{3}-\d+$"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600">
+              Pattern error message
+            </label>
+            <input
+              type="text"
+              value={current.patternMessage ?? ""}
+              onChange={(e) => setRule("patternMessage", e.target.value)}
+              className={inputClasses}
+              placeholder="e.g. Use the format ABC-123"
+            />
+          </div>
+        </div>
+      </>
+    );
+  } else if (fieldType === "NUMBER") {
+    content = (
+      <div className="grid grid-cols-3 gap-3">
+        {numberInput("min", "Minimum", "any")}
+        {numberInput("max", "Maximum", "any")}
+        {numberInput("step", "Step", "any")}
+      </div>
+    );
+  } else if (fieldType === "CHECKBOX") {
+    content = (
+      <div className="grid grid-cols-2 gap-3">
+        {numberInput("minSelected", "Min selected")}
+        {numberInput("maxSelected", "Max selected")}
+      </div>
+    );
+  } else if (fieldType === "RATING" || fieldType === "SCALE") {
+    const defaults = getScaleBounds(fieldType);
+    content = (
+      <>
+        <div className="grid grid-cols-3 gap-3">
+          {numberInput("min", `Minimum (default ${defaults.min})`, "any")}
+          {numberInput("max", `Maximum (default ${defaults.max})`, "any")}
+          {numberInput("step", `Step (default ${defaults.step})`, "any")}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          {(["minLabel", "maxLabel"] as const).map((key) => (
+            <div key={key}>
+              <label className="block text-xs font-medium text-gray-600">
+                {key === "minLabel" ? "Low end label" : "High end label"}
+              </label>
+              <input
+                type="text"
+                value={current[key] ?? ""}
+                onChange={(e) => setRule(key, e.target.value)}
+                className={inputClasses}
+                placeholder={
+                  key === "minLabel" ? "e.g. Not likely" : "e.g. Very likely"
+                }
+              />
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  } else if (fieldType === "FILE") {
+    content = (
+      <>
+        <div className="grid grid-cols-2 gap-3">
+          {numberInput("maxFileSizeMb", "Max size per file (MB)", "any")}
+          {numberInput("maxFiles", "Max files")}
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600">
+            Allowed file types
+          </label>
+          <input
+            type="text"
+            value={current.allowedFileTypes ?? ""}
+            onChange={(e) => setRule("allowedFileTypes", e.target.value)}
+            className={inputClasses}
+            placeholder="e.g. image/*, application/pdf, .docx"
+          />
+        </div>
+      </>
+    );
+  } else if (dateInputTypes[fieldType]) {
+    content = (
+      <div className="grid grid-cols-2 gap-3">
+        {dateInput("minDate", "Earliest")}
+        {dateInput("maxDate", "Latest")}
+      </div>
+    );
+  }
+
+  if (!content) return null;
+
+  return (
+    <div className="p-3 space-y-3 border border-gray-200 rounded-md">
+      <h4 className="text-sm font-medium text-gray-700">Validation</h4>
+      {content}
+    </div>
+  );
+};
+
+export default ValidationRulesEditor;
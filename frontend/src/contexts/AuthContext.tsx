@@ -9,8 +9,11 @@ import React, {
 
 interface User {
   id: string;
+  // For guests this is their display name, as collaborators see it
   email: string;
-  role: "ADMIN" | "USER";
+  role: "ADMIN" | "USER" | "GUEST";
+  display_name?: string;
+  share_code?: string;
 }
 
 interface AuthContextType {
@@ -22,6 +25,7 @@ interface AuthContextType {
     password: string,
     role?: "ADMIN" | "USER"
   ) => Promise<void>;
+  joinAsGuest: (shareCode: string, displayName: string) => Promise<void>;
   logout: () => void;
   loading: boolean;
   isAuthenticated: boolean;
@@ -134,6 +138,46 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Short-lived session scoped to one share code, for people without an
+  // account
+  const joinAsGuest = async (
+    shareCode: string,
+    displayName: string
+  ): Promise<void> => {
+    try {
+      setLoading(true);
+      const response = await fetch(
+        `${process.env.VITE_BACKEND_URL}/api/auth/guest`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ shareCode, displayName }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to join as guest");
+      }
+
+      const data = await response.json();
+
+      setUser(data.user);
+      setToken(data.token);
+
+      // Store in localStorage
+      localStorage.setItem("token", data.token);
+      localStorage.setItem("user", JSON.stringify(data.user));
+    } catch (error) {
+      console.error("Guest join error:", error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const logout = () => {
     setUser(null);
     setToken(null);
@@ -146,6 +190,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     token,
     login,
     register,
+    joinAsGuest,
     logout,
     loading,
     isAuthenticated: !!user && !!token,
@@ -0,0 +1,140 @@
+// src/pages/AcceptInvitation.tsx
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { EnvelopeOpenIcon } from "@heroicons/react/24/outline";
+import { GroupRole } from "../types";
+
+interface InvitationDetails {
+  email: string;
+  role: GroupRole;
+  share_code: string;
+  group_name: string;
+  form_title: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<GroupRole, string> = {
+  VIEWER: "see the group's answers",
+  EDITOR: "fill in the form with the group",
+  SUBMITTER: "fill in and submit the form for the group",
+};
+
+// Landing page of invitation links (/invitations/:token) to closed groups
+const AcceptInvitation: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState("");
+  const navigate = useNavigate();
+
+  const invitationUrl = `${
+    import.meta.env.VITE_BACKEND_URL
+  }/api/invitations/${token}`;
+
+  useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        const response = await fetch(invitationUrl, {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        });
+        const data = await response.json();
+        if (response.ok) {
+          setInvitation(data);
+        } else {
+          setError(data.error || "Invitation not found");
+        }
+      } catch (err) {
+        setError("Failed to load invitation");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    setAccepting(true);
+    setError("");
+
+    try {
+      const response = await fetch(`${invitationUrl}/accept`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        navigate(`/forms/${data.share_code}`, { replace: true });
+      } else {
+        setError(data.error || "Failed to accept invitation");
+      }
+    } catch (err) {
+      setError("Failed to accept invitation");
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen px-4 py-12 bg-gray-50 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-8">
+        <div>
+          <div className="flex items-center justify-center w-12 h-12 mx-auto bg-blue-100 rounded-full">
+            <EnvelopeOpenIcon className="w-6 h-6 text-blue-600" />
+          </div>
+          <h2 className="mt-6 text-3xl font-extrabold text-center text-gray-900">
+            Group Invitation
+          </h2>
+          {invitation && (
+            <p className="mt-2 text-sm text-center text-gray-600">
+              You've been invited to join{" "}
+              <span className="font-bold">{invitation.group_name}</span> on{" "}
+              <span className="font-bold">{invitation.form_title}</span> to{" "}
+              {ROLE_DESCRIPTIONS[invitation.role]}.
+            </p>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center">
+            <div className="w-8 h-8 border-b-2 border-blue-600 rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {error && (
+              <div className="p-4 rounded-md bg-red-50">
+                <div className="text-sm text-red-800">{error}</div>
+              </div>
+            )}
+
+            {invitation && (
+              <button
+                onClick={handleAccept}
+                disabled={accepting}
+                className="relative flex justify-center w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md group hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {accepting ? "Joining..." : "Accept and Open Form"}
+              </button>
+            )}
+
+            <div className="text-center">
+              <Link
+                to="/"
+                className="text-sm font-medium text-blue-600 hover:text-blue-500"
+              >
+                Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
@@ -1,24 +1,78 @@
 // src/pages/CollaborativeForm.tsx
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import * as Y from "yjs";
 import { useParams, useNavigate } from "react-router-dom";
 import { useSocket } from "../contexts/SocketContext";
 import { useAuth } from "../contexts/AuthContext";
 import FormField from "../components/FormField";
 import ActiveUsers from "../components/ActiveUsers";
+import SectionProgressBar from "../components/SectionProgressBar";
+import AvailabilityCountdown from "../components/AvailabilityCountdown";
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ClockIcon,
+} from "@heroicons/react/24/outline";
+import {
+  ConditionGroup,
+  EditMode,
+  FieldAttachment,
+  FieldType,
+  FormAvailability,
+  FieldValidationRules,
+  GroupAccess,
+  RepeaterRow,
+  RepeaterSubField,
+} from "../types";
+import {
+  applyTextChange,
+  captureSelection,
+  getSharedText,
+  isCoEditField,
+  LOCAL_ORIGIN,
+  REMOTE_ORIGIN,
+  restoreSelection,
+} from "../utils/coEditing";
+import { getVisibleFieldIds } from "../utils/conditions";
+import {
+  CURSOR_THROTTLE_MS,
+  RemoteCursor,
+  RelativeSelection,
+  resolveCursor,
+  toRelativeSelection,
+} from "../utils/remoteCursors";
+import { computeCalculatedValues } from "../utils/formulas";
+import {
+  parseMatrixValue,
+  serializeMatrixValue,
+  splitSelectedOptions,
+  validateFieldValue,
+  validateFileUpload,
+  validateFormValues,
+} from "../utils/fieldValidation";
+import { downloadFile } from "../utils/files";
+import { SectionProgress, splitIntoPages } from "../utils/sections";
+import {
+  parseRepeaterValue,
+  serializeRepeaterValue,
+} from "../utils/repeaterValues";
+import {
+  EditRequest,
+  LOCK_HEARTBEAT_MS,
+  LockWaiter,
+} from "../utils/fieldLocks";
 
 interface FormFieldType {
   id: string;
   label: string;
-  type:
-    | "TEXT"
-    | "NUMBER"
-    | "EMAIL"
-    | "DROPDOWN"
-    | "TEXTAREA"
-    | "CHECKBOX"
-    | "RADIO";
+  type: FieldType;
   required: boolean;
   options: string[];
+  matrix_rows?: string[] | null;
+  sub_fields?: RepeaterSubField[] | null;
+  description?: string | null;
+  conditions?: ConditionGroup | null;
+  validation?: FieldValidationRules | null;
   field_order: number;
 }
 
@@ -29,6 +83,7 @@ interface FormResponse {
   created_at: string;
   updated_at: string;
   response_fields: ResponseField[];
+  response_files?: FieldAttachment[];
 }
 
 interface ResponseField {
@@ -48,8 +103,16 @@ interface Form {
   updated_at: string;
   form_fields: FormFieldType[];
   form_responses: FormResponse[];
+  availability?: FormAvailability;
+  group_access?: GroupAccess;
+  edit_mode?: EditMode;
 }
 
+// Lock keys match the server: MATRIX and REPEATER rows are locked as
+// "<fieldId>:<row>"
+const getLockKey = (fieldId: string, rowKey?: string) =>
+  rowKey ? `${fieldId}:${rowKey}` : fieldId;
+
 const CollaborativeForm: React.FC = () => {
   const { shareCode } = useParams<{ shareCode: string }>();
   const { socket } = useSocket();
@@ -60,9 +123,61 @@ const CollaborativeForm: React.FC = () => {
   const [form, setForm] = useState<Form | null>(null);
   const [formData, setFormData] = useState<Record<string, string>>({});
   const [lockedFields, setLockedFields] = useState<Record<string, string>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [attachments, setAttachments] = useState<
+    Record<string, FieldAttachment>
+  >({});
+  const [uploadingFields, setUploadingFields] = useState<Set<string>>(
+    new Set()
+  );
   const [activeUsers, setActiveUsers] = useState<string[]>([]);
+  // Each collaborator pages through the form on their own
+  const [pageIndex, setPageIndex] = useState(0);
+  const [sectionProgress, setSectionProgress] = useState<
+    Record<string, SectionProgress>
+  >({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
+  // Schedule and submission cap of this group; a closed group only gets
+  // this and the form title from the server
+  const [availability, setAvailability] = useState<FormAvailability | null>(
+    null
+  );
+  const [closedFormTitle, setClosedFormTitle] = useState<string>("");
+  // Role in a members-only group; null means full access
+  const [groupAccess, setGroupAccess] = useState<GroupAccess | null>(null);
+  // Set while the group is at capacity and we wait for a place
+  const [groupFullMessage, setGroupFullMessage] = useState("");
+  // Shared text documents of co-edited fields (CO_EDIT forms), by field id
+  const textDocsRef = useRef<Map<string, Y.Doc>>(new Map());
+  // Other collaborators' carets: field id -> user id -> cursor
+  const [remoteCursors, setRemoteCursors] = useState<
+    Record<string, Record<string, RemoteCursor>>
+  >({});
+  // Our own caret is sent at most every CURSOR_THROTTLE_MS; the latest
+  // position waits in a timer
+  const cursorThrottleRef = useRef<{ lastSent: number; timer?: number }>({
+    lastSent: 0,
+  });
+  // Fencing tokens of the locks we hold, by lock key; edits present them
+  const lockTokensRef = useRef<Map<string, number>>(new Map());
+  // The latest edit of a field (or row) whose lock was asked for but not
+  // granted yet, by lock key
+  const pendingEditsRef = useRef<Map<string, (token: number) => void>>(
+    new Map()
+  );
+  // The field (or row) being edited, kept locked by heartbeats
+  const focusedLockRef = useRef<{ fieldId: string; rowKey?: string } | null>(
+    null
+  );
+  // People waiting for locked fields, by lock key, first in line first
+  const [lockQueues, setLockQueues] = useState<Record<string, LockWaiter[]>>(
+    {}
+  );
+  // Requests to hand over fields we hold, by lock key
+  const [editRequests, setEditRequests] = useState<Record<string, EditRequest>>(
+    {}
+  );
 
   // Submission state
   const [submitStatus, setSubmitStatus] = useState<string>("");
@@ -80,6 +195,71 @@ const CollaborativeForm: React.FC = () => {
       timestamp: string;
     } | null>(null);
 
+  // formData mirrors each document; only our own typing goes to the server
+  const createTextDoc = (fieldId: string) => {
+    const doc = new Y.Doc();
+    doc.on("update", (update: Uint8Array, origin: unknown) => {
+      setFormData((prev) => ({
+        ...prev,
+        [fieldId]: getSharedText(doc).toString(),
+      }));
+      if (origin === LOCAL_ORIGIN) {
+        socket?.emit("text-update", { shareCode, fieldId, update });
+      }
+    });
+    textDocsRef.current.set(fieldId, doc);
+    return doc;
+  };
+
+  const destroyTextDocs = () => {
+    textDocsRef.current.forEach((doc) => doc.destroy());
+    textDocsRef.current.clear();
+  };
+
+  // Merge someone else's typing without moving our caret in that field
+  const applyRemoteText = (doc: Y.Doc, fieldId: string, update: Uint8Array) => {
+    const active = document.activeElement;
+    const input =
+      (active instanceof HTMLInputElement ||
+        active instanceof HTMLTextAreaElement) &&
+      active.name === fieldId
+        ? active
+        : null;
+    const selection = input ? captureSelection(doc, input) : null;
+
+    Y.applyUpdate(doc, update, REMOTE_ORIGIN);
+
+    if (input && selection) {
+      requestAnimationFrame(() => restoreSelection(doc, input, selection));
+    }
+  };
+
+  // Remove a collaborator's caret from one field, or from all of them
+  const removeRemoteCursor = (userId: string, fieldId?: string) => {
+    setRemoteCursors((prev) => {
+      const updated: typeof prev = {};
+      Object.entries(prev).forEach(([id, cursors]) => {
+        const { [userId]: removed, ...rest } = cursors;
+        updated[id] = fieldId && id !== fieldId ? cursors : rest;
+      });
+      return updated;
+    });
+  };
+
+  // A collaborator has one caret; moving it to a field takes it off others
+  const setRemoteCursor = (fieldId: string, cursor: RemoteCursor) => {
+    if (cursor.userId === user?.id) return;
+    setRemoteCursors((prev) => {
+      const updated: typeof prev = {};
+      Object.entries(prev).forEach(([id, cursors]) => {
+        const { [cursor.userId]: removed, ...rest } = cursors;
+        updated[id] = rest;
+      });
+      updated[fieldId] = { ...updated[fieldId], [cursor.userId]: cursor };
+      return updated;
+    });
+  };
+
   useEffect(() => {
     if (shareCode && socket) {
       // Join form room
@@ -108,25 +288,348 @@ const CollaborativeForm: React.FC = () => {
         setActiveUsers((prev) =>
           prev.filter((email) => email !== userData.email)
         );
+        removeRemoteCursor(userData.userId);
       });
 
-      socket.on("field-locked", ({ fieldId, userEmail }) => {
-        setLockedFields((prev) => ({ ...prev, [fieldId]: userEmail }));
+      // Carets and selections of others inside text fields
+      socket.on(
+        "cursor-updated",
+        (data: {
+          fieldId: string;
+          position: number;
+          relative?: RelativeSelection;
+          userId: string;
+          userEmail: string;
+        }) => {
+          setRemoteCursor(data.fieldId, {
+            userId: data.userId,
+            name: data.userEmail,
+            start: data.position,
+            end: data.position,
+            relative: data.relative,
+          });
+        }
+      );
+
+      socket.on(
+        "selection-updated",
+        (data: {
+          fieldId: string;
+          start: number;
+          end: number;
+          relative?: RelativeSelection;
+          userId: string;
+          userEmail: string;
+        }) => {
+          setRemoteCursor(data.fieldId, {
+            userId: data.userId,
+            name: data.userEmail,
+            start: data.start,
+            end: data.end,
+            relative: data.relative,
+          });
+        }
+      );
+
+      socket.on(
+        "cursor-removed",
+        ({ fieldId, userId }: { fieldId: string; userId: string }) => {
+          removeRemoteCursor(userId, fieldId);
+        }
+      );
+
+      socket.on("current-locks", (locks: Record<string, string>) => {
+        setLockedFields(locks || {});
       });
 
-      socket.on("field-unlocked", ({ fieldId }) => {
+      socket.on("field-locked", ({ fieldId, rowKey, userEmail }) => {
+        setLockedFields((prev) => ({
+          ...prev,
+          [getLockKey(fieldId, rowKey)]: userEmail,
+        }));
+      });
+
+      socket.on("field-unlocked", ({ fieldId, rowKey }) => {
+        lockTokensRef.current.delete(getLockKey(fieldId, rowKey));
         setLockedFields((prev) => {
           const updated = { ...prev };
-          delete updated[fieldId];
+          delete updated[getLockKey(fieldId, rowKey)];
+          return updated;
+        });
+        setEditRequests((prev) => {
+          const updated = { ...prev };
+          delete updated[getLockKey(fieldId, rowKey)];
           return updated;
         });
       });
 
+      socket.on(
+        "lock-queue",
+        ({
+          fieldId,
+          rowKey,
+          waiters,
+        }: {
+          fieldId: string;
+          rowKey?: string;
+          waiters: LockWaiter[];
+        }) => {
+          setLockQueues((prev) => {
+            const updated = { ...prev };
+            if (waiters.length > 0) {
+              updated[getLockKey(fieldId, rowKey)] = waiters;
+            } else {
+              delete updated[getLockKey(fieldId, rowKey)];
+            }
+            return updated;
+          });
+        }
+      );
+
+      // Someone asked for a field we hold
+      socket.on(
+        "edit-requested",
+        ({
+          fieldId,
+          rowKey,
+          ...request
+        }: EditRequest & { fieldId: string; rowKey?: string }) => {
+          setEditRequests((prev) => ({
+            ...prev,
+            [getLockKey(fieldId, rowKey)]: request,
+          }));
+        }
+      );
+
+      // Our lock was granted; send the edit that waited for it
+      socket.on(
+        "lock-acquired",
+        ({
+          fieldId,
+          rowKey,
+          token,
+        }: {
+          fieldId: string;
+          rowKey?: string;
+          token: number;
+        }) => {
+          const lockKey = getLockKey(fieldId, rowKey);
+          lockTokensRef.current.set(lockKey, token);
+          const send = pendingEditsRef.current.get(lockKey);
+          pendingEditsRef.current.delete(lockKey);
+          send?.(token);
+        }
+      );
+
+      socket.on("lock-failed", ({ fieldId, rowKey }) => {
+        pendingEditsRef.current.delete(getLockKey(fieldId, rowKey));
+      });
+
+      // Our lock ran out or was taken over, and the edit was dropped
+      socket.on("lock-lost", ({ fieldId, rowKey, reason }) => {
+        lockTokensRef.current.delete(getLockKey(fieldId, rowKey));
+        setFieldError(fieldId, reason);
+      });
+
       socket.on("field-updated", ({ fieldId, value, updatedBy }) => {
         setFormData((prev) => ({ ...prev, [fieldId]: value }));
+        setFieldError(fieldId, null);
         console.log(`Field ${fieldId} updated by ${updatedBy}: ${value}`);
       });
 
+      // Co-edited fields: the server's document on joining, then the
+      // updates merged from everyone else
+      socket.on(
+        "text-state",
+        ({
+          fieldId,
+          update,
+        }: {
+          fieldId: string;
+          update: ArrayBuffer | null;
+        }) => {
+          textDocsRef.current.get(fieldId)?.destroy();
+          const doc = createTextDoc(fieldId);
+          if (update) {
+            applyRemoteText(doc, fieldId, new Uint8Array(update));
+          }
+          setFormData((prev) => ({
+            ...prev,
+            [fieldId]: getSharedText(doc).toString(),
+          }));
+        }
+      );
+
+      socket.on(
+        "text-updated",
+        ({
+          fieldId,
+          update,
+          value,
+        }: {
+          fieldId: string;
+          update: ArrayBuffer;
+          value: string;
+        }) => {
+          const doc = textDocsRef.current.get(fieldId);
+          if (doc) {
+            applyRemoteText(doc, fieldId, new Uint8Array(update));
+          } else {
+            setFormData((prev) => ({ ...prev, [fieldId]: value }));
+          }
+          setFieldError(fieldId, null);
+        }
+      );
+
+      // Repeating section rows changed by anyone in the group. Applied to the
+      // local rows so in-flight edits to other rows aren't lost.
+      socket.on(
+        "row-added",
+        (data: { fieldId: string; row: RepeaterRow; index: number }) => {
+          updateRepeaterRows(data.fieldId, (rows) =>
+            rows.some((row) => row.id === data.row.id)
+              ? rows
+              : [
+                  ...rows.slice(0, data.index),
+                  data.row,
+                  ...rows.slice(data.index),
+                ]
+          );
+        }
+      );
+
+      socket.on("row-removed", (data: { fieldId: string; rowId: string }) => {
+        updateRepeaterRows(data.fieldId, (rows) =>
+          rows.filter((row) => row.id !== data.rowId)
+        );
+      });
+
+      socket.on(
+        "row-moved",
+        (data: { fieldId: string; rowId: string; toIndex: number }) => {
+          updateRepeaterRows(data.fieldId, (rows) => {
+            const row = rows.find((r) => r.id === data.rowId);
+            if (!row) return rows;
+            const remaining = rows.filter((r) => r.id !== data.rowId);
+            return [
+              ...remaining.slice(0, data.toIndex),
+              row,
+              ...remaining.slice(data.toIndex),
+            ];
+          });
+        }
+      );
+
+      socket.on(
+        "row-field-updated",
+        (data: {
+          fieldId: string;
+          rowId: string;
+          subFieldId: string;
+          value: string;
+        }) => {
+          updateRepeaterRows(data.fieldId, (rows) =>
+            setRepeaterCell(rows, data.rowId, data.subFieldId, data.value)
+          );
+        }
+      );
+
+      socket.on(
+        "section-progress",
+        (progress: Record<string, SectionProgress>) => {
+          setSectionProgress(progress || {});
+        }
+      );
+
+      // Server rejected a value against the field's validation rules
+      socket.on(
+        "field-validation-error",
+        ({ fieldId, error }: { fieldId: string; error: string }) => {
+          setFieldError(fieldId, error);
+        }
+      );
+
+      // Attachments uploaded or removed by anyone in the group
+      socket.on(
+        "file-uploaded",
+        (data: { fieldId: string; file: FieldAttachment; value: string }) => {
+          setAttachments((prev) => ({ ...prev, [data.file.id]: data.file }));
+          setFormData((prev) => ({ ...prev, [data.fieldId]: data.value }));
+          setFieldError(data.fieldId, null);
+        }
+      );
+
+      socket.on(
+        "file-removed",
+        (data: { fieldId: string; fileId: string; value: string }) => {
+          setFormData((prev) => ({ ...prev, [data.fieldId]: data.value }));
+        }
+      );
+
+      // Opened, closed or filled up while people are in the room
+      socket.on("form-availability", (data: FormAvailability) => {
+        setAvailability(data);
+      });
+
+      // The group is at capacity; the server tells us when to try again
+      socket.on("group-full", ({ message }: { message: string }) => {
+        setGroupFullMessage(message);
+      });
+
+      socket.on("group-slot-available", () => {
+        socket.emit("join-form", shareCode);
+      });
+
+      // Sent once we're in the room
+      socket.on("group-info", () => {
+        setGroupFullMessage("");
+      });
+
+      // Our role in a members-only group was set or changed
+      socket.on("group-access", (data: GroupAccess) => {
+        setGroupAccess(data);
+      });
+
+      // The owner deactivated, deleted or replaced this group's code, or
+      // removed us from it; the server already removed us from the room
+      socket.on(
+        "group-access-revoked",
+        ({ reason }: { shareCode: string; reason: string }) => {
+          setForm(null);
+          setError(reason);
+        }
+      );
+
+      // Re-render with the new definition when the form owner edits it
+      socket.on(
+        "form-schema-changed",
+        (data: {
+          formId: string;
+          title: string;
+          description: string | null;
+          fields: FormFieldType[];
+          editMode: EditMode;
+        }) => {
+          setForm((prev) =>
+            prev
+              ? {
+                  ...prev,
+                  title: data.title,
+                  description: data.description,
+                  form_fields: data.fields,
+                  edit_mode: data.editMode,
+                }
+              : prev
+          );
+          // Fetch the documents again, including those of new text fields
+          destroyTextDocs();
+          if (data.editMode === "CO_EDIT") {
+            socket.emit("text-sync", { shareCode });
+          }
+          console.log(`🛠️ Form ${data.formId} definition updated`);
+        }
+      );
+
       // Handle collaborative form submission - UPDATED
       socket.on(
         "form-submitted-all",
@@ -178,14 +681,65 @@ const CollaborativeForm: React.FC = () => {
         socket.off("user-joined");
         socket.off("active-users");
         socket.off("user-left");
+        socket.off("cursor-updated");
+        socket.off("selection-updated");
+        socket.off("cursor-removed");
+        socket.off("current-locks");
         socket.off("field-locked");
         socket.off("field-unlocked");
+        socket.off("lock-acquired");
+        socket.off("lock-failed");
+        socket.off("lock-lost");
+        socket.off("lock-queue");
+        socket.off("edit-requested");
         socket.off("field-updated");
+        socket.off("text-state");
+        socket.off("text-updated");
+        socket.off("field-validation-error");
+        socket.off("file-uploaded");
+        socket.off("file-removed");
+        socket.off("section-progress");
+        socket.off("row-added");
+        socket.off("row-removed");
+        socket.off("row-moved");
+        socket.off("row-field-updated");
+        socket.off("form-availability");
+        socket.off("group-full");
+        socket.off("group-slot-available");
+        socket.off("group-info");
+        socket.off("group-access");
+        socket.off("group-access-revoked");
+        socket.off("form-schema-changed");
         socket.off("form-submitted-all");
         socket.off("form-reset-all");
+        destroyTextDocs();
       };
     }
   }, [shareCode, socket]);
+
+  // Keep the lock of the focused field alive while its holder thinks
+  useEffect(() => {
+    if (!socket) return;
+    const timer = window.setInterval(() => {
+      const focused = focusedLockRef.current;
+      if (!focused) return;
+      const token = lockTokensRef.current.get(
+        getLockKey(focused.fieldId, focused.rowKey)
+      );
+      if (token !== undefined) {
+        socket.emit("lock-heartbeat", { shareCode, ...focused, token });
+      }
+    }, LOCK_HEARTBEAT_MS);
+    return () => window.clearInterval(timer);
+  }, [shareCode, socket]);
+
+  // Called when a scheduled form opens while the closed screen is showing;
+  // the server refused the first join
+  const rejoinForm = () => {
+    socket?.emit("join-form", shareCode);
+    loadForm();
+  };
+
   const loadForm = async () => {
     try {
       setLoading(true);
@@ -203,6 +757,8 @@ const CollaborativeForm: React.FC = () => {
       if (response.ok) {
         const formData = await response.json();
         setForm(formData);
+        setAvailability(formData.availability || null);
+        setGroupAccess(formData.group_access || null);
 
         // Initialize form data with existing responses
         const initialData: Record<string, string> = {};
@@ -215,10 +771,27 @@ const CollaborativeForm: React.FC = () => {
             }
           });
         }
+        // Documents received over the socket are newer than the saved text
+        textDocsRef.current.forEach((doc, fieldId) => {
+          initialData[fieldId] = getSharedText(doc).toString();
+        });
         setFormData(initialData);
+        setAttachments(
+          Object.fromEntries(
+            (responses[0]?.response_files || []).map(
+              (file: FieldAttachment) => [file.id, file]
+            )
+          )
+        );
       } else {
         const errorData = await response.json();
-        setError(errorData.error || "Failed to load form");
+        if (response.status === 403 && errorData.availability) {
+          setForm(null);
+          setAvailability(errorData.availability);
+          setClosedFormTitle(errorData.form_title || "");
+        } else {
+          setError(errorData.error || "Failed to load form");
+        }
       }
     } catch (error: any) {
       console.error("Failed to load form:", error);
@@ -228,51 +801,433 @@ const CollaborativeForm: React.FC = () => {
     }
   };
 
-  const handleFieldFocus = (fieldId: string) => {
-    if (socket && !lockedFields[fieldId]) {
-      socket.emit("lock-field", { shareCode, fieldId });
+  // Co-edited fields are never locked
+  const isCoEdited = (fieldId: string) => {
+    const field = form?.form_fields.find((f) => f.id === fieldId);
+    return !!field && isCoEditField(form?.edit_mode, field);
+  };
+
+  const handleFieldFocus = (fieldId: string, rowKey?: string) => {
+    if (!rowKey && isCoEdited(fieldId)) return;
+    focusedLockRef.current = { fieldId, rowKey };
+    if (socket && !lockedFields[getLockKey(fieldId, rowKey)]) {
+      socket.emit("lock-field", { shareCode, fieldId, rowKey });
+    }
+  };
+
+  // Send an edit of a field (or row) under our lock's fencing token. Until
+  // the lock is granted the latest edit waits for its token.
+  const sendLocked = (
+    fieldId: string,
+    rowKey: string | undefined,
+    send: (token: number) => void
+  ) => {
+    if (!socket) return;
+    const lockKey = getLockKey(fieldId, rowKey);
+    const token = lockTokensRef.current.get(lockKey);
+    if (token !== undefined) {
+      send(token);
+      return;
+    }
+    if (!pendingEditsRef.current.has(lockKey)) {
+      socket.emit("lock-field", { shareCode, fieldId, rowKey });
+    }
+    pendingEditsRef.current.set(lockKey, send);
+  };
+
+  // Send our caret or selection in a text field, throttled; co-edited
+  // fields add relative positions that survive concurrent edits
+  const handleSelectionChange = (
+    fieldId: string,
+    start: number,
+    end: number
+  ) => {
+    if (!socket) return;
+
+    const doc = textDocsRef.current.get(fieldId);
+    const relative = doc ? toRelativeSelection(doc, start, end) : undefined;
+    const send = () => {
+      cursorThrottleRef.current.lastSent = Date.now();
+      if (start === end) {
+        socket.emit("cursor-move", {
+          shareCode,
+          fieldId,
+          position: start,
+          relative,
+        });
+      } else {
+        socket.emit("selection-change", {
+          shareCode,
+          fieldId,
+          start,
+          end,
+          relative,
+        });
+      }
+    };
+
+    const throttle = cursorThrottleRef.current;
+    clearTimeout(throttle.timer);
+    const wait = CURSOR_THROTTLE_MS - (Date.now() - throttle.lastSent);
+    if (wait <= 0) {
+      send();
+    } else {
+      throttle.timer = window.setTimeout(send, wait);
     }
   };
 
-  const handleFieldBlur = (fieldId: string) => {
-    if (socket && lockedFields[fieldId] === user?.email) {
+  const getRemoteCursors = (fieldId: string) =>
+    Object.values(remoteCursors[fieldId] || {}).map((cursor) =>
+      resolveCursor(
+        cursor,
+        (formData[fieldId] || "").length,
+        textDocsRef.current.get(fieldId)
+      )
+    );
+
+  const handleFieldBlur = (fieldId: string, rowKey?: string) => {
+    if (socket && !rowKey) {
+      clearTimeout(cursorThrottleRef.current.timer);
+      socket.emit("cursor-leave", { shareCode, fieldId });
+    }
+
+    const lockKey = getLockKey(fieldId, rowKey);
+    const focused = focusedLockRef.current;
+    if (focused?.fieldId === fieldId && focused.rowKey === rowKey) {
+      focusedLockRef.current = null;
+    }
+    if (socket && lockedFields[lockKey] === user?.email) {
       // Delay unlock to allow for quick refocus
       setTimeout(() => {
-        if (lockedFields[fieldId] === user?.email) {
-          socket.emit("unlock-field", { shareCode, fieldId });
+        if (lockedFields[lockKey] === user?.email) {
+          socket.emit("unlock-field", { shareCode, fieldId, rowKey });
         }
       }, 500);
     }
   };
 
+  // Wait in line for a field someone else is editing
+  const handleRequestEdit = (fieldId: string) => {
+    socket?.emit("request-edit", { shareCode, fieldId });
+  };
+
+  const handleCancelEditRequest = (fieldId: string) => {
+    socket?.emit("cancel-edit-request", { shareCode, fieldId });
+  };
+
+  // Give a requested field away before the grace period is over
+  const handleHandOver = (fieldId: string) => {
+    socket?.emit("unlock-field", { shareCode, fieldId });
+  };
+
+  const getQueuePosition = (fieldId: string) =>
+    (lockQueues[fieldId] || []).findIndex(
+      (waiter) => waiter.userId === user?.id
+    ) + 1;
+
+  // Answer one MATRIX row; only that row is sent so parallel edits merge
+  const handleMatrixRowChange = (
+    fieldId: string,
+    rowKey: string,
+    column: string
+  ) => {
+    const lockKey = getLockKey(fieldId, rowKey);
+    const value = serializeMatrixValue({
+      ...parseMatrixValue(formData[fieldId] || ""),
+      [rowKey]: column,
+    });
+    setFormData((prev) => ({ ...prev, [fieldId]: value }));
+    setFieldError(fieldId, null);
+
+    if (
+      socket &&
+      (!lockedFields[lockKey] || lockedFields[lockKey] === user?.email)
+    ) {
+      sendLocked(fieldId, rowKey, (token) =>
+        socket.emit("field-update", {
+          shareCode,
+          fieldId,
+          rowKey,
+          value: column,
+          token,
+        })
+      );
+    }
+  };
+
+  const getRowLocks = (field: FormFieldType) =>
+    Object.fromEntries(
+      (field.type === "REPEATER"
+        ? parseRepeaterValue(formData[field.id] || "").map((row) => row.id)
+        : field.matrix_rows || []
+      )
+        .filter((row) => lockedFields[getLockKey(field.id, row)])
+        .map((row) => [row, lockedFields[getLockKey(field.id, row)]])
+    );
+
+  const updateRepeaterRows = (
+    fieldId: string,
+    update: (rows: RepeaterRow[]) => RepeaterRow[]
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      [fieldId]: serializeRepeaterValue(
+        update(parseRepeaterValue(prev[fieldId] || ""))
+      ),
+    }));
+  };
+
+  const setRepeaterCell = (
+    rows: RepeaterRow[],
+    rowId: string,
+    subFieldId: string,
+    value: string
+  ) =>
+    rows.map((row) =>
+      row.id === rowId
+        ? { ...row, values: { ...row.values, [subFieldId]: value } }
+        : row
+    );
+
+  // Rows are added, moved and removed by the server so every collaborator
+  // sees the same order; cell edits are applied locally right away
+  const handleRowAdd = (fieldId: string) => {
+    socket?.emit("row-add", { shareCode, fieldId });
+  };
+
+  const handleRowRemove = (fieldId: string, rowId: string) => {
+    socket?.emit("row-remove", { shareCode, fieldId, rowId });
+  };
+
+  const handleRowMove = (fieldId: string, rowId: string, toIndex: number) => {
+    socket?.emit("row-move", { shareCode, fieldId, rowId, toIndex });
+  };
+
+  const handleRowFieldChange = (
+    fieldId: string,
+    rowId: string,
+    subFieldId: string,
+    value: string
+  ) => {
+    const lockKey = getLockKey(fieldId, rowId);
+    updateRepeaterRows(fieldId, (rows) =>
+      setRepeaterCell(rows, rowId, subFieldId, value)
+    );
+    setFieldError(fieldId, null);
+
+    if (
+      socket &&
+      (!lockedFields[lockKey] || lockedFields[lockKey] === user?.email)
+    ) {
+      sendLocked(fieldId, rowId, (token) =>
+        socket.emit("row-field-update", {
+          shareCode,
+          fieldId,
+          rowId,
+          subFieldId,
+          value,
+          token,
+        })
+      );
+    }
+  };
+
+  const setFieldError = (fieldId: string, error: string | null) => {
+    setFieldErrors((prev) => {
+      const updated = { ...prev };
+      if (error) {
+        updated[fieldId] = error;
+      } else {
+        delete updated[fieldId];
+      }
+      return updated;
+    });
+  };
+
   const handleFieldChange = (fieldId: string, value: string) => {
     // Always update local state immediately for better UX
     setFormData((prev) => ({ ...prev, [fieldId]: value }));
 
+    const field = form?.form_fields.find((f) => f.id === fieldId);
+    const validationError = field ? validateFieldValue(field, value) : null;
+    setFieldError(fieldId, validationError);
+
+    // Co-edited text is merged as it is typed, even while it breaks a rule
+    if (field && isCoEditField(form?.edit_mode, field)) {
+      applyTextChange(
+        textDocsRef.current.get(fieldId) || createTextDoc(fieldId),
+        value
+      );
+      return;
+    }
+
+    // Invalid values stay local; the server would reject them anyway
+    if (validationError) return;
+
     // Only send updates if user has the lock or no one has it
     if (
       socket &&
       (!lockedFields[fieldId] || lockedFields[fieldId] === user?.email)
     ) {
-      // Auto-lock if not locked
-      if (!lockedFields[fieldId]) {
-        socket.emit("lock-field", { shareCode, fieldId });
+      // Locks the field first if we don't hold it yet
+      sendLocked(fieldId, undefined, (token) =>
+        socket.emit("field-update", { shareCode, fieldId, value, token })
+      );
+    }
+  };
+
+  const setFieldUploading = (fieldId: string, uploading: boolean) => {
+    setUploadingFields((prev) => {
+      const updated = new Set(prev);
+      if (uploading) {
+        updated.add(fieldId);
+      } else {
+        updated.delete(fieldId);
+      }
+      return updated;
+    });
+  };
+
+  const handleFileUpload = async (fieldId: string, files: File[]) => {
+    const field = form?.form_fields.find((f) => f.id === fieldId);
+    if (!field) return;
+
+    setFieldUploading(fieldId, true);
+    setFieldError(fieldId, null);
+
+    try {
+      for (const file of files) {
+        const uploadError = validateFileUpload(field.validation, {
+          name: file.name,
+          size: file.size,
+          mimeType: file.type,
+        });
+        if (uploadError) {
+          setFieldError(fieldId, `${file.name}: ${uploadError}`);
+          continue;
+        }
+
+        const response = await fetch(
+          `${
+            import.meta.env.VITE_BACKEND_URL
+          }/api/forms/share/${shareCode}/fields/${fieldId}/files`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/octet-stream",
+              "X-File-Name": encodeURIComponent(file.name),
+              "X-File-Type": file.type || "application/octet-stream",
+              Authorization: `Bearer ${localStorage.getItem("token")}`,
+            },
+            body: file,
+          }
+        );
+        const result = await response.json();
+
+        if (!response.ok) {
+          setFieldError(fieldId, `${file.name}: ${result.error}`);
+          continue;
+        }
+
+        setAttachments((prev) => ({ ...prev, [result.file.id]: result.file }));
+        setFormData((prev) => ({ ...prev, [fieldId]: result.value }));
+      }
+    } catch (error) {
+      console.error("File upload failed:", error);
+      setFieldError(fieldId, "Upload failed: Network error");
+    } finally {
+      setFieldUploading(fieldId, false);
+    }
+  };
+
+  const handleFileRemove = async (fieldId: string, fileId: string) => {
+    try {
+      const response = await fetch(
+        `${
+          import.meta.env.VITE_BACKEND_URL
+        }/api/forms/share/${shareCode}/fields/${fieldId}/files/${fileId}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+      const result = await response.json();
+
+      if (response.ok) {
+        setFormData((prev) => ({ ...prev, [fieldId]: result.value }));
+      } else {
+        setFieldError(fieldId, result.error || "Failed to remove file");
       }
-      socket.emit("field-update", { shareCode, fieldId, value });
+    } catch (error) {
+      console.error("File removal failed:", error);
+      setFieldError(fieldId, "Failed to remove file");
     }
   };
 
+  const handleFileDownload = (file: FieldAttachment) => {
+    downloadFile(
+      `/api/forms/share/${shareCode}/files/${file.id}`,
+      file.file_name
+    ).catch((error) => {
+      console.error("File download failed:", error);
+      setFieldError(file.field_id, "Failed to download file");
+    });
+  };
+
+  const getFieldAttachments = (fieldId: string) =>
+    splitSelectedOptions(formData[fieldId] || "")
+      .map((id) => attachments[id])
+      .filter(Boolean);
+
+  // Calculated fields follow every collaborator's edits; the server
+  // recomputes them on submit
+  const fieldValues = {
+    ...formData,
+    ...computeCalculatedValues(form?.form_fields || [], formData),
+  };
+
+  // Re-evaluated on every render so collaborators' edits show/hide fields live
+  const visibleFieldIds = getVisibleFieldIds(
+    form?.form_fields || [],
+    fieldValues
+  );
+
+  // Pages split at each SECTION; hidden sections are skipped entirely
+  const pages = splitIntoPages(
+    [...(form?.form_fields || [])].sort((a, b) => a.field_order - b.field_order)
+  ).filter((page) => !page.section || visibleFieldIds.has(page.section.id));
+  // Clamped, since a condition can hide the page someone is on
+  const currentPageIndex = Math.min(pageIndex, Math.max(0, pages.length - 1));
+  const currentPage = pages[currentPageIndex];
+  const isLastPage = currentPageIndex >= pages.length - 1;
+
+  const goToPage = (index: number) => {
+    setPageIndex(Math.max(0, Math.min(pages.length - 1, index)));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
   const validateForm = () => {
     if (!form) return false;
 
-    const requiredFields = form.form_fields.filter((field) => field.required);
-    const missingFields = requiredFields.filter(
-      (field) => !formData[field.id] || formData[field.id].trim() === ""
+    const errors = validateFormValues(
+      form.form_fields,
+      fieldValues,
+      visibleFieldIds
     );
+    setFieldErrors(errors);
+
+    const invalidFields = form.form_fields.filter((field) => errors[field.id]);
+    if (invalidFields.length > 0) {
+      // Take the user to the first page that needs attention
+      const firstInvalidPage = pages.findIndex((page) =>
+        page.fields.some((field) => errors[field.id])
+      );
+      if (firstInvalidPage !== -1) goToPage(firstInvalidPage);
 
-    if (missingFields.length > 0) {
       setSubmitStatus(
-        `Please fill in required fields: ${missingFields
+        `Please fix the following fields: ${invalidFields
           .map((f) => f.label)
           .join(", ")}`
       );
@@ -288,11 +1243,14 @@ const CollaborativeForm: React.FC = () => {
     setSubmitStatus("Submitting...");
 
     try {
-      // Filter out empty values before submission
+      // Filter out empty values and hidden fields before submission
       const cleanFormData = Object.fromEntries(
         Object.entries(formData).filter(
           ([key, value]) =>
-            value !== null && value !== undefined && String(value).trim() !== ""
+            visibleFieldIds.has(key) &&
+            value !== null &&
+            value !== undefined &&
+            String(value).trim() !== ""
         )
       );
 
@@ -331,6 +1289,12 @@ const CollaborativeForm: React.FC = () => {
         // This ensures all users get the success screen simultaneously
       } else {
         console.error("Submission failed:", result);
+        if (result.availability) {
+          setAvailability(result.availability);
+        }
+        if (result.fieldErrors) {
+          setFieldErrors(result.fieldErrors);
+        }
         setSubmitStatus(
           `Submission failed: ${result.error || "Unknown error"}`
         );
@@ -476,6 +1440,61 @@ const CollaborativeForm: React.FC = () => {
     );
   }
 
+  // Closed Group State - the server only sent the schedule
+  if (!form && availability && !availability.open) {
+    return (
+      <div className="container px-4 py-8 mx-auto">
+        <div className="max-w-md mx-auto text-center">
+          <div className="flex items-center justify-center w-12 h-12 mx-auto mb-4 bg-yellow-100 rounded-full">
+            <ClockIcon className="w-6 h-6 text-yellow-600" />
+          </div>
+          <h1 className="mb-2 text-2xl font-bold text-gray-900">
+            {closedFormTitle || "Form Unavailable"}
+          </h1>
+          <p className="mb-4 text-gray-600">{availability.message}</p>
+          {availability.status === "NOT_YET_OPEN" && availability.opensAt && (
+            <p className="mb-6 text-gray-700">
+              Opens {new Date(availability.opensAt).toLocaleString()} — in{" "}
+              <AvailabilityCountdown
+                target={availability.opensAt}
+                onElapsed={rejoinForm}
+              />
+            </p>
+          )}
+          <button
+            onClick={() => navigate("/")}
+            className="px-4 py-2 text-white transition-colors bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Full Group State - the room has no place for us yet
+  if (groupFullMessage && !error) {
+    return (
+      <div className="container px-4 py-8 mx-auto">
+        <div className="max-w-md mx-auto text-center">
+          <div className="flex items-center justify-center w-12 h-12 mx-auto mb-4 bg-yellow-100 rounded-full">
+            <ClockIcon className="w-6 h-6 text-yellow-600" />
+          </div>
+          <h1 className="mb-2 text-2xl font-bold text-gray-900">
+            {form?.title || "Waiting for a Place"}
+          </h1>
+          <p className="mb-6 text-gray-600">{groupFullMessage}</p>
+          <button
+            onClick={() => navigate("/")}
+            className="px-4 py-2 text-white transition-colors bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Error State
   if (error) {
     return (
@@ -547,6 +1566,9 @@ const CollaborativeForm: React.FC = () => {
   }
 
   const formFields = form?.form_fields || [];
+  const isClosed = !!availability && !availability.open;
+  const canEdit = groupAccess?.canEdit !== false;
+  const canSubmit = groupAccess?.canSubmit !== false;
 
   // Main Form Component
   return (
@@ -577,32 +1599,165 @@ const CollaborativeForm: React.FC = () => {
             <ActiveUsers users={activeUsers} />
           </div>
 
-          {/* Form Fields */}
-          <div className="space-y-6">
-            {formFields.length > 0 ? (
-              formFields
-                .sort((a, b) => a.field_order - b.field_order)
+          {isClosed ? (
+            <div className="flex items-start p-4 mb-6 border border-red-200 rounded-lg bg-red-50">
+              <ClockIcon className="flex-shrink-0 w-5 h-5 mt-0.5 mr-3 text-red-600" />
+              <div className="text-sm text-red-800">
+                <p className="font-medium">{availability.message}</p>
+                {availability.status === "NOT_YET_OPEN" &&
+                availability.opensAt ? (
+                  <p className="mt-1">
+                    Editing resumes in{" "}
+                    <AvailabilityCountdown target={availability.opensAt} />
+                  </p>
+                ) : (
+                  <p className="mt-1">
+                    Answers can no longer be changed or submitted.
+                  </p>
+                )}
+              </div>
+            </div>
+          ) : (
+            availability &&
+            (availability.closesAt ||
+              availability.remainingSubmissions !== null) && (
+              <div className="flex flex-wrap items-center gap-x-6 gap-y-1 p-3 mb-6 text-sm text-yellow-800 border border-yellow-200 rounded-lg bg-yellow-50">
+                {availability.closesAt && (
+                  <span className="inline-flex items-center">
+                    <ClockIcon className="w-4 h-4 mr-1" />
+                    Closes in&nbsp;
+                    <AvailabilityCountdown target={availability.closesAt} />
+                  </span>
+                )}
+                {availability.remainingSubmissions !== null && (
+                  <span>
+                    {availability.remainingSubmissions} submission
+                    {availability.remainingSubmissions === 1 ? "" : "s"} left
+                  </span>
+                )}
+              </div>
+            )
+          )}
+
+          {groupAccess?.role && !canSubmit && (
+            <div className="p-3 mb-6 text-sm text-blue-800 border border-blue-200 rounded-lg bg-blue-50">
+              {canEdit
+                ? "You're an editor in this group: you can fill in answers, but a submitter sends the form."
+                : "You're a viewer in this group: you can follow the answers but not change them."}
+            </div>
+          )}
+
+          {pages.length > 1 && (
+            <SectionProgressBar
+              pages={pages.map((page, index) => ({
+                key: page.key,
+                title: page.section?.label || (index === 0 ? "Start" : ""),
+              }))}
+              currentIndex={currentPageIndex}
+              progress={sectionProgress}
+              onSelect={goToPage}
+            />
+          )}
+
+          {currentPage?.section && (
+            <div className="pb-4 mb-6 border-b">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {currentPage.section.label}
+              </h2>
+              {currentPage.section.description && (
+                <p className="mt-1 text-gray-600">
+                  {currentPage.section.description}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Form Fields - read-only once the group closes or for viewers */}
+          <fieldset disabled={isClosed || !canEdit} className="space-y-6">
+            {currentPage && currentPage.fields.length > 0 ? (
+              currentPage.fields
+                .filter((field) => visibleFieldIds.has(field.id))
                 .map((field: FormFieldType) => (
                   <FormField
                     key={field.id}
                     field={field}
-                    value={formData[field.id] || ""}
+                    value={fieldValues[field.id] || ""}
                     onChange={(value) => handleFieldChange(field.id, value)}
                     onFocus={() => handleFieldFocus(field.id)}
                     onBlur={() => handleFieldBlur(field.id)}
-                    isLocked={!!lockedFields[field.id]}
+                    isLocked={!isCoEdited(field.id) && !!lockedFields[field.id]}
                     lockedBy={lockedFields[field.id]}
                     currentUser={user?.email || ""}
+                    queueLength={(lockQueues[field.id] || []).length}
+                    queuePosition={getQueuePosition(field.id)}
+                    editRequest={editRequests[field.id]}
+                    onRequestEdit={() => handleRequestEdit(field.id)}
+                    onCancelEditRequest={() =>
+                      handleCancelEditRequest(field.id)
+                    }
+                    onHandOver={() => handleHandOver(field.id)}
+                    error={fieldErrors[field.id]}
+                    attachments={getFieldAttachments(field.id)}
+                    isUploading={uploadingFields.has(field.id)}
+                    onFileUpload={(files) => handleFileUpload(field.id, files)}
+                    onFileRemove={(fileId) =>
+                      handleFileRemove(field.id, fileId)
+                    }
+                    onFileDownload={handleFileDownload}
+                    rowLocks={getRowLocks(field)}
+                    onRowChange={(row, column) =>
+                      handleMatrixRowChange(field.id, row, column)
+                    }
+                    onRowFocus={(row) => handleFieldFocus(field.id, row)}
+                    onRowBlur={(row) => handleFieldBlur(field.id, row)}
+                    onRowAdd={() => handleRowAdd(field.id)}
+                    onRowRemove={(rowId) => handleRowRemove(field.id, rowId)}
+                    onRowMove={(rowId, toIndex) =>
+                      handleRowMove(field.id, rowId, toIndex)
+                    }
+                    remoteCursors={getRemoteCursors(field.id)}
+                    onSelectionChange={(start, end) =>
+                      handleSelectionChange(field.id, start, end)
+                    }
+                    onRowFieldChange={(rowId, subFieldId, value) =>
+                      handleRowFieldChange(field.id, rowId, subFieldId, value)
+                    }
                   />
                 ))
             ) : (
               <div className="py-8 text-center">
                 <p className="text-gray-500">
-                  No fields available in this form.
+                  {formFields.length > 0
+                    ? "No questions on this page."
+                    : "No fields available in this form."}
                 </p>
               </div>
             )}
-          </div>
+          </fieldset>
+
+          {pages.length > 1 && (
+            <div className="flex items-center justify-between mt-8">
+              <button
+                type="button"
+                onClick={() => goToPage(currentPageIndex - 1)}
+                disabled={currentPageIndex === 0}
+                className="inline-flex items-center px-4 py-2 text-gray-700 transition-colors bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeftIcon className="w-4 h-4 mr-1" />
+                Back
+              </button>
+              {!isLastPage && (
+                <button
+                  type="button"
+                  onClick={() => goToPage(currentPageIndex + 1)}
+                  className="inline-flex items-center px-4 py-2 text-white transition-colors bg-blue-600 rounded-md hover:bg-blue-700"
+                >
+                  Next
+                  <ChevronRightIcon className="w-4 h-4 ml-1" />
+                </button>
+              )}
+            </div>
+          )}
 
           {/* Form Actions */}
           <div className="pt-6 mt-8 border-t">
@@ -626,25 +1781,32 @@ const CollaborativeForm: React.FC = () => {
               </div>
 
               <div className="flex flex-col items-end space-y-2">
-                <button
-                  type="button"
-                  disabled={isSubmitting}
-                  className={`px-6 py-2 rounded-md font-medium transition-colors ${
-                    isSubmitting
-                      ? "bg-gray-400 cursor-not-allowed"
-                      : "bg-green-600 hover:bg-green-700"
-                  } text-white`}
-                  onClick={handleSubmit}
-                >
-                  {isSubmitting ? (
-                    <div className="flex items-center">
-                      <div className="w-4 h-4 mr-2 border-b-2 border-white rounded-full animate-spin"></div>
-                      Submitting...
-                    </div>
-                  ) : (
-                    "Submit Form"
-                  )}
-                </button>
+                {isLastPage && (
+                  <button
+                    type="button"
+                    disabled={isSubmitting || isClosed || !canSubmit}
+                    title={
+                      canSubmit
+                        ? undefined
+                        : "Only submitters can submit this group's form"
+                    }
+                    className={`px-6 py-2 rounded-md font-medium transition-colors ${
+                      isSubmitting || isClosed || !canSubmit
+                        ? "bg-gray-400 cursor-not-allowed"
+                        : "bg-green-600 hover:bg-green-700"
+                    } text-white`}
+                    onClick={handleSubmit}
+                  >
+                    {isSubmitting ? (
+                      <div className="flex items-center">
+                        <div className="w-4 h-4 mr-2 border-b-2 border-white rounded-full animate-spin"></div>
+                        Submitting...
+                      </div>
+                    ) : (
+                      "Submit Form"
+                    )}
+                  </button>
+                )}
 
                 {submitStatus && (
                   <p
@@ -12,7 +12,25 @@ import {
   ClipboardDocumentIcon,
   UserGroupIcon,
   XMarkIcon,
+  PencilSquareIcon,
+  DocumentDuplicateIcon,
+  BookmarkIcon,
+  ClockIcon,
+  ArrowPathIcon,
+  NoSymbolIcon,
+  CheckCircleIcon,
+  Cog6ToothIcon,
+  LockClosedIcon,
+  QrCodeIcon,
+  PrinterIcon,
 } from "@heroicons/react/24/outline";
+import AvailabilityModal, {
+  AvailabilitySettings,
+  fromLocalInput,
+  toLocalInput,
+} from "../components/AvailabilityModal";
+import GroupMembersPanel from "../components/GroupMembersPanel";
+import { downloadFile } from "../utils/files";
 
 interface FormField {
   id: string;
@@ -28,15 +46,40 @@ interface SharingCode {
   share_code: string;
   group_name: string;
   is_active: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_submissions: number | null;
+  expires_at: string | null;
+  allow_guests: boolean;
+  is_closed: boolean;
+  capacity: number | null;
   created_at: string;
   response_count: number;
 }
 
+type JoinStrategy =
+  | "ROUND_ROBIN"
+  | "FILL_TO_CAPACITY"
+  | "LEAST_ACTIVE"
+  | "SELF_SELECT";
+
+const JOIN_STRATEGY_LABELS: Record<JoinStrategy, string> = {
+  ROUND_ROBIN: "Round-robin",
+  FILL_TO_CAPACITY: "Fill each group to capacity",
+  LEAST_ACTIVE: "Least active group",
+  SELF_SELECT: "Let people choose",
+};
+
 interface Form {
   id: string;
   title: string;
   description: string | null;
   is_active: boolean;
+  opens_at: string | null;
+  closes_at: string | null;
+  max_submissions: number | null;
+  join_code: string | null;
+  join_strategy: JoinStrategy;
   created_at: string;
   updated_at: string;
   form_fields: FormField[];
@@ -56,6 +99,14 @@ const Dashboard: React.FC = () => {
   >(null);
   const [newGroupName, setNewGroupName] = useState("");
   const [creatingShareCode, setCreatingShareCode] = useState(false);
+  // Group whose members are shown in the Manage Groups modal
+  const [membersGroupId, setMembersGroupId] = useState<string | null>(null);
+
+  // Schedule and limit editing for a whole form or a single group
+  const [availabilityTarget, setAvailabilityTarget] = useState<{
+    form: Form;
+    sharingCode?: SharingCode;
+  } | null>(null);
 
   // Statistics state
   const [stats, setStats] = useState({
@@ -121,8 +172,11 @@ const Dashboard: React.FC = () => {
     }
   };
 
-  const copyShareLink = (shareCode: string) => {
-    const shareUrl = `${window.location.origin}/forms/${shareCode}`;
+  // Guest links let people without an account join groups that allow it
+  const copyShareLink = (shareCode: string, asGuest = false) => {
+    const shareUrl = `${window.location.origin}/${
+      asGuest ? "guest" : "forms"
+    }/${shareCode}`;
     navigator.clipboard
       .writeText(shareUrl)
       .then(() => {
@@ -165,6 +219,69 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  // The copy starts with its own default group and no responses
+  const duplicateForm = async (formId: string) => {
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/forms/${formId}/duplicate`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify({}),
+        }
+      );
+
+      if (response.ok) {
+        loadForms();
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to duplicate form");
+      }
+    } catch (error) {
+      alert("Failed to duplicate form");
+      console.error("Duplicate form error:", error);
+    }
+  };
+
+  const saveAsTemplate = async (form: Form) => {
+    const title = window.prompt("Template name", form.title);
+    if (title === null) return;
+    const shareWithWorkspace = window.confirm(
+      "Share this template with all form builders? Cancel keeps it personal."
+    );
+
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/templates`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify({
+            formId: form.id,
+            title: title.trim() || form.title,
+            visibility: shareWithWorkspace ? "WORKSPACE" : "PERSONAL",
+          }),
+        }
+      );
+
+      if (response.ok) {
+        alert("Template saved! It is now available when creating a form.");
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to save template");
+      }
+    } catch (error) {
+      alert("Failed to save template");
+      console.error("Save template error:", error);
+    }
+  };
+
   const createNewSharingCode = async (formId: string) => {
     if (!newGroupName.trim()) {
       alert("Please enter a group name");
@@ -207,9 +324,296 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  const saveAvailability = async (
+    settings: AvailabilitySettings
+  ): Promise<string | null> => {
+    if (!availabilityTarget) return null;
+    const { form, sharingCode } = availabilityTarget;
+    const path = sharingCode
+      ? `${form.id}/sharing-codes/${sharingCode.id}/availability`
+      : `${form.id}/availability`;
+
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/forms/${path}`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify(settings),
+        }
+      );
+
+      if (response.ok) {
+        loadForms();
+        return null;
+      }
+      const errorData = await response.json();
+      return errorData.error || "Failed to update availability";
+    } catch (error) {
+      console.error("Update availability error:", error);
+      return "Failed to update availability";
+    }
+  };
+
+  // "Opens 5/1/2025, 9:00:00 AM • 10 max" for forms and groups with a schedule
+  const describeAvailability = (settings: AvailabilitySettings) =>
+    [
+      settings.opens_at &&
+        `Opens ${new Date(settings.opens_at).toLocaleString()}`,
+      settings.closes_at &&
+        `Closes ${new Date(settings.closes_at).toLocaleString()}`,
+      settings.max_submissions !== null && `${settings.max_submissions} max`,
+    ]
+      .filter(Boolean)
+      .join(" • ");
+
+  // One link for the whole form that sends each person to a group
+  const updateJoinLink = async (
+    formId: string,
+    updates: { enabled?: boolean; strategy?: JoinStrategy }
+  ) => {
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/forms/${formId}/join-link`,
+        {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify(updates),
+        }
+      );
+
+      if (response.ok) {
+        const updated = await response.json();
+        setForms((prev) =>
+          prev.map((form) =>
+            form.id === formId ? { ...form, ...updated } : form
+          )
+        );
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to update join link");
+      }
+    } catch (error) {
+      alert("Failed to update join link");
+      console.error("Update join link error:", error);
+    }
+  };
+
+  const copyJoinLink = (joinCode: string) => {
+    navigator.clipboard
+      .writeText(`${window.location.origin}/join/${joinCode}`)
+      .then(() => alert("Join link copied to clipboard!"))
+      .catch(() => alert("Failed to copy link"));
+  };
+
+  // QR code of a group's join link, for projecting or printing
+  const downloadQrCode = (
+    formId: string,
+    sharingCode: SharingCode,
+    format: "png" | "svg"
+  ) => {
+    downloadFile(
+      `/api/forms/${formId}/sharing-codes/${sharingCode.id}/qr.${format}${
+        format === "png" ? "?size=1024" : ""
+      }`,
+      `${sharingCode.group_name} ${sharingCode.share_code}.${format}`
+    ).catch((error) => {
+      alert("Failed to download QR code");
+      console.error("QR code download error:", error);
+    });
+  };
+
+  // One printable page per active group with its name, code and QR code
+  const downloadJoinSheet = (form: Form) => {
+    downloadFile(
+      `/api/forms/${form.id}/join-sheet`,
+      `${form.title || "form"} join sheet.html`
+    ).catch((error) => {
+      alert("Failed to download join sheet. Is any group active?");
+      console.error("Join sheet download error:", error);
+    });
+  };
+
+  // Keep the modal open and its counts intact while a group changes
+  const replaceSharingCode = (formId: string, updated: SharingCode) => {
+    setForms((prev) =>
+      prev.map((form) =>
+        form.id === formId
+          ? {
+              ...form,
+              form_sharing_codes: form.form_sharing_codes.map((code) =>
+                code.id === updated.id ? { ...code, ...updated } : code
+              ),
+            }
+          : form
+      )
+    );
+  };
+
+  // Rename a group, switch it on or off, change when its code expires or
+  // who may join it
+  const updateSharingCode = async (
+    formId: string,
+    sharingCodeId: string,
+    updates: {
+      groupName?: string;
+      is_active?: boolean;
+      expires_at?: string | null;
+      allow_guests?: boolean;
+      is_closed?: boolean;
+      capacity?: number | null;
+    }
+  ) => {
+    try {
+      const response = await fetch(
+        `${
+          import.meta.env.VITE_BACKEND_URL
+        }/api/forms/${formId}/sharing-codes/${sharingCodeId}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify(updates),
+        }
+      );
+
+      if (response.ok) {
+        replaceSharingCode(formId, await response.json());
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to update group");
+      }
+    } catch (error) {
+      alert("Failed to update group");
+      console.error("Update sharing code error:", error);
+    }
+  };
+
+  const renameSharingCode = (formId: string, sharingCode: SharingCode) => {
+    const groupName = window.prompt("Group name", sharingCode.group_name);
+    if (groupName === null || groupName.trim() === sharingCode.group_name) {
+      return;
+    }
+    updateSharingCode(formId, sharingCode.id, { groupName });
+  };
+
+  const toggleSharingCode = (formId: string, sharingCode: SharingCode) => {
+    if (
+      sharingCode.is_active &&
+      !window.confirm(
+        `Deactivate "${sharingCode.group_name}"? Everyone working in this group will be disconnected.`
+      )
+    ) {
+      return;
+    }
+    updateSharingCode(formId, sharingCode.id, {
+      is_active: !sharingCode.is_active,
+    });
+  };
+
+  const rotateSharingCode = async (
+    formId: string,
+    sharingCode: SharingCode
+  ) => {
+    if (
+      !window.confirm(
+        `Replace the code ${sharingCode.share_code} of "${sharingCode.group_name}"? The old code stops working and people using it are disconnected. The group's answers are kept.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `${
+          import.meta.env.VITE_BACKEND_URL
+        }/api/forms/${formId}/sharing-codes/${sharingCode.id}/rotate`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const updated = await response.json();
+        replaceSharingCode(formId, updated);
+        alert(
+          `New code for ${updated.group_name}: ${updated.share_code}\n\nShare it with the group's members.`
+        );
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to rotate code");
+      }
+    } catch (error) {
+      alert("Failed to rotate code");
+      console.error("Rotate sharing code error:", error);
+    }
+  };
+
+  const deleteSharingCode = async (
+    formId: string,
+    sharingCode: SharingCode
+  ) => {
+    if (
+      !window.confirm(
+        `Delete "${sharingCode.group_name}"? This will delete the group's draft and its ${sharingCode.response_count} responses.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `${
+          import.meta.env.VITE_BACKEND_URL
+        }/api/forms/${formId}/sharing-codes/${sharingCode.id}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        setForms((prev) =>
+          prev.map((form) =>
+            form.id === formId
+              ? {
+                  ...form,
+                  form_sharing_codes: form.form_sharing_codes.filter(
+                    (code) => code.id !== sharingCode.id
+                  ),
+                  total_responses:
+                    form.total_responses - sharingCode.response_count,
+                }
+              : form
+          )
+        );
+      } else {
+        const errorData = await response.json();
+        alert(errorData.error || "Failed to delete group");
+      }
+    } catch (error) {
+      alert("Failed to delete group");
+      console.error("Delete sharing code error:", error);
+    }
+  };
+
   const closeModal = () => {
     setSelectedFormForSharing(null);
     setNewGroupName("");
+    setMembersGroupId(null);
   };
 
   if (loading) {
@@ -469,6 +873,13 @@ const Dashboard: React.FC = () => {
                         </span>
                       </div>
 
+                      {describeAvailability(form) && (
+                        <p className="flex items-center mb-4 text-xs text-yellow-700">
+                          <ClockIcon className="w-3 h-3 mr-1" />
+                          {describeAvailability(form)}
+                        </p>
+                      )}
+
                       {/* Sharing Codes Section */}
                       <div className="mb-4">
                         <div className="flex items-center justify-between mb-2">
@@ -477,13 +888,27 @@ const Dashboard: React.FC = () => {
                             {form.form_sharing_codes?.length || 0})
                           </h5>
                           {user?.role === "ADMIN" && (
-                            <button
-                              onClick={() => setSelectedFormForSharing(form.id)}
-                              className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-700 transition-colors bg-blue-100 border border-transparent rounded hover:bg-blue-200"
-                            >
-                              <PlusIcon className="w-3 h-3 mr-1" />
-                              Add Group
-                            </button>
+                            <div className="flex items-center space-x-1">
+                              {form.form_sharing_codes?.length > 0 && (
+                                <button
+                                  onClick={() => downloadJoinSheet(form)}
+                                  title="Printable page per group with its code and QR code"
+                                  className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 transition-colors bg-gray-100 border border-transparent rounded hover:bg-gray-200"
+                                >
+                                  <PrinterIcon className="w-3 h-3 mr-1" />
+                                  Join Sheet
+                                </button>
+                              )}
+                              <button
+                                onClick={() =>
+                                  setSelectedFormForSharing(form.id)
+                                }
+                                className="inline-flex items-center px-2 py-1 text-xs font-medium text-blue-700 transition-colors bg-blue-100 border border-transparent rounded hover:bg-blue-200"
+                              >
+                                <Cog6ToothIcon className="w-3 h-3 mr-1" />
+                                Manage Groups
+                              </button>
+                            </div>
                           )}
                         </div>
 
@@ -528,6 +953,19 @@ const Dashboard: React.FC = () => {
                                         ).toLocaleDateString()}
                                       </span>
                                     </div>
+                                    {sharingCode.expires_at && (
+                                      <div className="mt-1 text-xs text-gray-500">
+                                        Code expires{" "}
+                                        {new Date(
+                                          sharingCode.expires_at
+                                        ).toLocaleString()}
+                                      </div>
+                                    )}
+                                    {describeAvailability(sharingCode) && (
+                                      <div className="mt-1 text-xs text-yellow-700">
+                                        {describeAvailability(sharingCode)}
+                                      </div>
+                                    )}
                                   </div>
 
                                   <div className="flex items-center ml-3 space-x-1">
@@ -547,6 +985,35 @@ const Dashboard: React.FC = () => {
                                       <ClipboardDocumentIcon className="w-3 h-3 mr-1" />
                                       Copy
                                     </button>
+                                    {user?.role === "ADMIN" && (
+                                      <button
+                                        onClick={() =>
+                                          downloadQrCode(
+                                            form.id,
+                                            sharingCode,
+                                            "png"
+                                          )
+                                        }
+                                        title="Download QR code"
+                                        className="inline-flex items-center px-2 py-1 text-xs text-gray-700 transition-colors bg-gray-100 rounded hover:bg-gray-200"
+                                      >
+                                        <QrCodeIcon className="w-3 h-3" />
+                                      </button>
+                                    )}
+                                    {user?.role === "ADMIN" && (
+                                      <button
+                                        onClick={() =>
+                                          setAvailabilityTarget({
+                                            form,
+                                            sharingCode,
+                                          })
+                                        }
+                                        title="Schedule & limits"
+                                        className="inline-flex items-center px-2 py-1 text-xs text-yellow-700 transition-colors bg-yellow-100 rounded hover:bg-yellow-200"
+                                      >
+                                        <ClockIcon className="w-3 h-3" />
+                                      </button>
+                                    )}
                                   </div>
                                 </div>
                               )
@@ -571,6 +1038,42 @@ const Dashboard: React.FC = () => {
                               View Responses
                             </Link>
                           )}
+                          {user?.role === "ADMIN" && (
+                            <Link
+                              to={`/forms/${form.id}/edit`}
+                              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-blue-700 bg-blue-100 hover:bg-blue-200 transition-colors"
+                            >
+                              <PencilSquareIcon className="w-3 h-3 mr-1" />
+                              Edit Form
+                            </Link>
+                          )}
+                          {user?.role === "ADMIN" && (
+                            <button
+                              onClick={() => duplicateForm(form.id)}
+                              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+                            >
+                              <DocumentDuplicateIcon className="w-3 h-3 mr-1" />
+                              Duplicate
+                            </button>
+                          )}
+                          {user?.role === "ADMIN" && (
+                            <button
+                              onClick={() => saveAsTemplate(form)}
+                              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-green-700 bg-green-100 hover:bg-green-200 transition-colors"
+                            >
+                              <BookmarkIcon className="w-3 h-3 mr-1" />
+                              Save as Template
+                            </button>
+                          )}
+                          {user?.role === "ADMIN" && (
+                            <button
+                              onClick={() => setAvailabilityTarget({ form })}
+                              className="inline-flex items-center px-3 py-1.5 border border-transparent text-xs font-medium rounded text-yellow-700 bg-yellow-100 hover:bg-yellow-200 transition-colors"
+                            >
+                              <ClockIcon className="w-3 h-3 mr-1" />
+                              Schedule & Limits
+                            </button>
+                          )}
                         </div>
 
                         {user?.role === "ADMIN" && (
@@ -592,14 +1095,32 @@ const Dashboard: React.FC = () => {
         </div>
       </main>
 
-      {/* Modal for creating new sharing code */}
+      {availabilityTarget && (
+        <AvailabilityModal
+          title={
+            availabilityTarget.sharingCode
+              ? `Schedule: ${availabilityTarget.sharingCode.group_name}`
+              : `Schedule: ${availabilityTarget.form.title || "Untitled Form"}`
+          }
+          hint={
+            availabilityTarget.sharingCode
+              ? "Applies to this group only. The form's own schedule and limit still apply."
+              : "Applies to every group. The limit counts submissions across all groups."
+          }
+          settings={availabilityTarget.sharingCode || availabilityTarget.form}
+          onSave={saveAvailability}
+          onClose={() => setAvailabilityTarget(null)}
+        />
+      )}
+
+      {/* Modal for managing and creating sharing codes */}
       {selectedFormForSharing && (
         <div className="fixed inset-0 z-50 flex items-center justify-center w-full h-full overflow-y-auto bg-gray-600 bg-opacity-50">
-          <div className="relative w-full max-w-md mx-4 bg-white rounded-lg shadow-xl">
+          <div className="relative w-full max-w-2xl mx-4 bg-white rounded-lg shadow-xl">
             <div className="p-6">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="text-lg font-bold text-gray-900">
-                  Create New Group
+                  Manage Groups
                 </h3>
                 <button
                   onClick={closeModal}
@@ -609,6 +1130,312 @@ const Dashboard: React.FC = () => {
                 </button>
               </div>
 
+              {(() => {
+                const sharingForm = forms.find(
+                  (form) => form.id === selectedFormForSharing
+                );
+                if (!sharingForm) return null;
+                return (
+                  <div className="p-3 mb-4 text-sm border border-blue-200 rounded-md bg-blue-50">
+                    <div className="flex items-center justify-between">
+                      <label className="inline-flex items-center font-medium text-gray-900">
+                        <input
+                          type="checkbox"
+                          checked={!!sharingForm.join_code}
+                          onChange={(e) =>
+                            updateJoinLink(sharingForm.id, {
+                              enabled: e.target.checked,
+                            })
+                          }
+                          className="mr-2"
+                        />
+                        One join link for all groups
+                      </label>
+                      {sharingForm.join_code && (
+                        <button
+                          onClick={() =>
+                            copyJoinLink(sharingForm.join_code as string)
+                          }
+                          className="inline-flex items-center text-xs text-green-700 hover:text-green-800"
+                        >
+                          <ClipboardDocumentIcon className="w-3 h-3 mr-1" />
+                          Copy join link
+                        </button>
+                      )}
+                    </div>
+                    {sharingForm.join_code && (
+                      <label className="flex items-center mt-2 text-xs text-gray-600">
+                        Assign people by
+                        <select
+                          value={sharingForm.join_strategy}
+                          onChange={(e) =>
+                            updateJoinLink(sharingForm.id, {
+                              strategy: e.target.value as JoinStrategy,
+                            })
+                          }
+                          className="px-2 py-1 ml-2 border border-gray-300 rounded"
+                        >
+                          {(
+                            Object.keys(JOIN_STRATEGY_LABELS) as JoinStrategy[]
+                          ).map((strategy) => (
+                            <option key={strategy} value={strategy}>
+                              {JOIN_STRATEGY_LABELS[strategy]}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                    <p className="mt-1 text-xs text-gray-500">
+                      Members-only groups and groups not open right now are
+                      skipped. When every group is at capacity, people wait
+                      until a place frees up.
+                    </p>
+                  </div>
+                );
+              })()}
+
+              <div className="mb-6 space-y-2 overflow-y-auto max-h-80">
+                {(
+                  forms.find((form) => form.id === selectedFormForSharing)
+                    ?.form_sharing_codes || []
+                ).map((sharingCode) => (
+                  <div
+                    key={sharingCode.id}
+                    className="p-3 border border-gray-200 rounded-md"
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="min-w-0">
+                        <span className="font-medium text-gray-900">
+                          {sharingCode.group_name}
+                        </span>
+                        <span className="ml-2 font-mono text-sm text-gray-600">
+                          {sharingCode.share_code}
+                        </span>
+                        {!sharingCode.is_active && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            (inactive)
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center ml-3 space-x-1">
+                        <button
+                          onClick={() =>
+                            setMembersGroupId(
+                              membersGroupId === sharingCode.id
+                                ? null
+                                : sharingCode.id
+                            )
+                          }
+                          title="Members"
+                          className={`p-1 transition-colors rounded hover:bg-gray-100 ${
+                            membersGroupId === sharingCode.id
+                              ? "text-blue-600"
+                              : "text-gray-600"
+                          }`}
+                        >
+                          <UsersIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() =>
+                            renameSharingCode(
+                              selectedFormForSharing,
+                              sharingCode
+                            )
+                          }
+                          title="Rename"
+                          className="p-1 text-gray-600 transition-colors rounded hover:bg-gray-100"
+                        >
+                          <PencilSquareIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() =>
+                            toggleSharingCode(
+                              selectedFormForSharing,
+                              sharingCode
+                            )
+                          }
+                          title={
+                            sharingCode.is_active ? "Deactivate" : "Activate"
+                          }
+                          className="p-1 text-gray-600 transition-colors rounded hover:bg-gray-100"
+                        >
+                          {sharingCode.is_active ? (
+                            <NoSymbolIcon className="w-4 h-4" />
+                          ) : (
+                            <CheckCircleIcon className="w-4 h-4" />
+                          )}
+                        </button>
+                        <button
+                          onClick={() =>
+                            rotateSharingCode(
+                              selectedFormForSharing,
+                              sharingCode
+                            )
+                          }
+                          title="Replace code"
+                          className="p-1 text-gray-600 transition-colors rounded hover:bg-gray-100"
+                        >
+                          <ArrowPathIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() =>
+                            deleteSharingCode(
+                              selectedFormForSharing,
+                              sharingCode
+                            )
+                          }
+                          title="Delete group"
+                          className="p-1 text-red-600 transition-colors rounded hover:bg-red-50"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                    <label className="flex items-center mt-2 text-xs text-gray-600">
+                      Code expires
+                      <input
+                        type="datetime-local"
+                        defaultValue={toLocalInput(sharingCode.expires_at)}
+                        key={sharingCode.expires_at || "never"}
+                        onBlur={(e) => {
+                          if (
+                            e.target.value !==
+                            toLocalInput(sharingCode.expires_at)
+                          ) {
+                            updateSharingCode(
+                              selectedFormForSharing,
+                              sharingCode.id,
+                              { expires_at: fromLocalInput(e.target.value) }
+                            );
+                          }
+                        }}
+                        className="px-2 py-1 ml-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <span className="ml-2 text-gray-400">
+                        (empty = never)
+                      </span>
+                    </label>
+                    <label className="flex items-center mt-2 text-xs text-gray-600">
+                      Capacity
+                      <input
+                        type="number"
+                        min={1}
+                        defaultValue={sharingCode.capacity ?? ""}
+                        key={sharingCode.capacity ?? "unlimited"}
+                        onBlur={(e) => {
+                          const capacity = e.target.value
+                            ? Number(e.target.value)
+                            : null;
+                          if (capacity !== sharingCode.capacity) {
+                            updateSharingCode(
+                              selectedFormForSharing,
+                              sharingCode.id,
+                              { capacity }
+                            );
+                          }
+                        }}
+                        className="w-20 px-2 py-1 ml-2 border border-gray-300 rounded focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                      />
+                      <span className="ml-2 text-gray-400">
+                        people at once (empty = no limit)
+                      </span>
+                    </label>
+                    <div className="flex items-center mt-2 text-xs text-gray-600">
+                      <label className="inline-flex items-center">
+                        <input
+                          type="checkbox"
+                          checked={sharingCode.allow_guests}
+                          onChange={(e) =>
+                            updateSharingCode(
+                              selectedFormForSharing,
+                              sharingCode.id,
+                              { allow_guests: e.target.checked }
+                            )
+                          }
+                          className="mr-2"
+                        />
+                        Allow guests without an account
+                      </label>
+                      {sharingCode.allow_guests && (
+                        <button
+                          onClick={() =>
+                            copyShareLink(sharingCode.share_code, true)
+                          }
+                          className="inline-flex items-center ml-3 text-green-700 hover:text-green-800"
+                        >
+                          <ClipboardDocumentIcon className="w-3 h-3 mr-1" />
+                          Copy guest link
+                        </button>
+                      )}
+                      <span className="inline-flex items-center ml-auto">
+                        <QrCodeIcon className="w-3 h-3 mr-1" />
+                        QR code:
+                        <button
+                          onClick={() =>
+                            downloadQrCode(
+                              selectedFormForSharing,
+                              sharingCode,
+                              "png"
+                            )
+                          }
+                          className="ml-1 text-blue-600 hover:text-blue-800"
+                        >
+                          PNG
+                        </button>
+                        <button
+                          onClick={() =>
+                            downloadQrCode(
+                              selectedFormForSharing,
+                              sharingCode,
+                              "svg"
+                            )
+                          }
+                          className="ml-1 text-blue-600 hover:text-blue-800"
+                        >
+                          SVG
+                        </button>
+                      </span>
+                    </div>
+                    <label className="flex items-center mt-2 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={sharingCode.is_closed}
+                        onChange={(e) => {
+                          if (
+                            e.target.checked &&
+                            !window.confirm(
+                              `Make "${sharingCode.group_name}" members only? Everyone else working in it will be disconnected.`
+                            )
+                          ) {
+                            return;
+                          }
+                          updateSharingCode(
+                            selectedFormForSharing,
+                            sharingCode.id,
+                            { is_closed: e.target.checked }
+                          );
+                          if (e.target.checked) {
+                            setMembersGroupId(sharingCode.id);
+                          }
+                        }}
+                        className="mr-2"
+                      />
+                      <LockClosedIcon className="w-3 h-3 mr-1" />
+                      Closed group (members only)
+                    </label>
+                    {membersGroupId === sharingCode.id && (
+                      <GroupMembersPanel
+                        formId={selectedFormForSharing}
+                        sharingCodeId={sharingCode.id}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <h4 className="mb-2 text-sm font-medium text-gray-900">
+                Create New Group
+              </h4>
               <p className="mb-4 text-sm text-gray-600">
                 Create a new sharing code for a different group to collaborate
                 on this form.
@@ -1,6 +1,6 @@
 // src/pages/FormBuilder.tsx
-import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import React, { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import {
   PlusIcon,
@@ -8,33 +8,95 @@ import {
   ArrowUpIcon,
   ArrowDownIcon,
   DocumentTextIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
 } from "@heroicons/react/24/outline";
+import ConditionEditor from "../components/ConditionEditor";
+import ValidationRulesEditor from "../components/ValidationRulesEditor";
+import SubFieldsEditor from "../components/SubFieldsEditor";
+import FormulaEditor from "../components/FormulaEditor";
+import TemplateGallery from "../components/TemplateGallery";
+import {
+  ConditionGroup,
+  EditMode,
+  FieldType,
+  FieldValidationRules,
+  FormTemplate,
+  RepeaterSubField,
+} from "../types";
+import { removeFieldFromConditions } from "../utils/conditions";
+import { getValidationRulesError } from "../utils/fieldValidation";
+import {
+  findFormulaCycle,
+  formulaFromLabels,
+  formulaToLabels,
+  validateFormula,
+} from "../utils/formulas";
 
 interface FormField {
   id: string;
   label: string;
-  type:
-    | "TEXT"
-    | "NUMBER"
-    | "EMAIL"
-    | "DROPDOWN"
-    | "TEXTAREA"
-    | "CHECKBOX"
-    | "RADIO";
+  type: FieldType;
   required: boolean;
   options: string[];
+  matrix_rows?: string[];
+  sub_fields?: RepeaterSubField[];
+  description?: string | null;
+  // Edited with {Label} references; converted to {id} when saving
+  formula?: string;
+  conditions?: ConditionGroup | null;
+  validation?: FieldValidationRules | null;
 }
 
+// MATRIX fields keep their columns in options and statements in matrix_rows
+type OptionListKey = "options" | "matrix_rows";
+
+// Stored fields (of a form or a template) as the builder edits them
+const toBuilderFields = (sourceFields: any[]): FormField[] =>
+  sourceFields.map((field) => ({
+    id: field.id,
+    label: field.label,
+    type: field.type,
+    required: field.required,
+    options: field.options || [],
+    matrix_rows: field.matrix_rows || [],
+    sub_fields: field.sub_fields || [],
+    description: field.description || null,
+    formula: formulaToLabels(field.formula || "", sourceFields),
+    conditions: field.conditions || null,
+    validation: field.validation || null,
+  }));
+
 const FormBuilder: React.FC = () => {
   const navigate = useNavigate();
+  const { formId } = useParams<{ formId: string }>();
+  const isEditMode = !!formId;
   const { user } = useAuth();
   const [formData, setFormData] = useState({
     title: "",
     description: "",
   });
   const [fields, setFields] = useState<FormField[]>([]);
+  // How collaborators share TEXT and TEXTAREA fields
+  const [editMode, setEditMode] = useState<EditMode>("LOCK");
+  // How long locks last without activity, and how long a holder keeps a
+  // field after someone asked for it, in seconds
+  const [lockSettings, setLockSettings] = useState({
+    lock_timeout_seconds: 60,
+    lock_handoff_seconds: 10,
+  });
   const [loading, setLoading] = useState(false);
+  const [loadingForm, setLoadingForm] = useState(isEditMode);
   const [error, setError] = useState("");
+  // Per-field problems reported by the server for an imported definition
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  // Schema properties that had no matching field type
+  const [schemaWarnings, setSchemaWarnings] = useState<string[]>([]);
+  const [templates, setTemplates] = useState<FormTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(
+    null
+  );
 
   const fieldTypes = [
     { value: "TEXT", label: "Text Input" },
@@ -44,8 +106,268 @@ const FormBuilder: React.FC = () => {
     { value: "DROPDOWN", label: "Dropdown" },
     { value: "RADIO", label: "Radio Buttons" },
     { value: "CHECKBOX", label: "Checkboxes" },
+    { value: "DATE", label: "Date" },
+    { value: "TIME", label: "Time" },
+    { value: "DATETIME", label: "Date & Time" },
+    { value: "FILE", label: "File Upload" },
+    { value: "RATING", label: "Star Rating" },
+    { value: "SCALE", label: "Linear Scale" },
+    { value: "MATRIX", label: "Matrix / Grid" },
+    { value: "REPEATER", label: "Repeating Section" },
+    { value: "SECTION", label: "Section / Page Break" },
+    { value: "CALCULATED", label: "Calculated" },
   ];
 
+  useEffect(() => {
+    if (formId) {
+      loadForm(formId);
+    } else {
+      loadTemplates();
+    }
+  }, [formId]);
+
+  const loadTemplates = async () => {
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/templates`,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setTemplates(Array.isArray(data) ? data : []);
+      }
+    } catch (error) {
+      console.error("Load templates error:", error);
+    }
+  };
+
+  // Replaces the current definition, so confirm before discarding work
+  const applyTemplate = (template: FormTemplate | null) => {
+    if (
+      fields.length > 0 &&
+      !window.confirm("Replace the current fields with this starting point?")
+    ) {
+      return;
+    }
+
+    setSelectedTemplateId(template?.id ?? null);
+    setFormData({
+      title: template?.title || "",
+      description: template?.description || "",
+    });
+    setFields(template ? toBuilderFields(template.fields) : []);
+    setError("");
+  };
+
+  const deleteTemplate = async (template: FormTemplate) => {
+    if (!window.confirm(`Delete the template "${template.title}"?`)) return;
+
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/templates/${template.id}`,
+        {
+          method: "DELETE",
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        setTemplates(templates.filter((t) => t.id !== template.id));
+        if (selectedTemplateId === template.id) setSelectedTemplateId(null);
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to delete template");
+      }
+    } catch (error) {
+      setError("Failed to delete template");
+      console.error("Delete template error:", error);
+    }
+  };
+
+  // Preload the existing definition when editing a form
+  const loadForm = async (id: string) => {
+    try {
+      setLoadingForm(true);
+      setError("");
+
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/forms/${id}`,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+
+      if (response.ok) {
+        const form = await response.json();
+        setFormData({
+          title: form.title || "",
+          description: form.description || "",
+        });
+        setEditMode(form.edit_mode === "CO_EDIT" ? "CO_EDIT" : "LOCK");
+        setLockSettings({
+          lock_timeout_seconds: form.lock_timeout_seconds ?? 60,
+          lock_handoff_seconds: form.lock_handoff_seconds ?? 10,
+        });
+        setFields(toBuilderFields(form.form_fields || []));
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to load form");
+      }
+    } catch (error) {
+      setError("Failed to load form");
+      console.error("Load form error:", error);
+    } finally {
+      setLoadingForm(false);
+    }
+  };
+
+  // Downloads /api/forms/:formId/<path>, named after the form title
+  const exportJson = async (path: string, extension: string) => {
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/forms/${formId}/${path}`,
+        {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to export form");
+        return;
+      }
+
+      const exported = await response.json();
+      const url = URL.createObjectURL(
+        new Blob([JSON.stringify(exported, null, 2) + "\n"], {
+          type: "application/json",
+        })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${
+        formData.title.replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "form"
+      }${extension}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setError("Failed to export form");
+      console.error("Export form error:", error);
+    }
+  };
+
+  const readJsonFile = async (file: File): Promise<unknown> => {
+    try {
+      return JSON.parse(await file.text());
+    } catch {
+      setError(`${file.name} is not valid JSON`);
+      return undefined;
+    }
+  };
+
+  // A JSON Schema only produces a draft: the fields load into the builder
+  // and nothing is saved until the form is created
+  const importJsonSchema = async (file: File) => {
+    setError("");
+    setImportErrors([]);
+    setSchemaWarnings([]);
+
+    const schema = await readJsonFile(file);
+    if (schema === undefined) return;
+
+    setImporting(true);
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/forms/schema-drafts`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify(schema),
+        }
+      );
+
+      const result = await response.json();
+      if (!response.ok) {
+        setError(result.error || "Failed to import JSON Schema");
+        return;
+      }
+
+      if (
+        fields.length > 0 &&
+        !window.confirm("Replace the current fields with the imported schema?")
+      ) {
+        return;
+      }
+
+      setSelectedTemplateId(null);
+      setFormData({
+        title: result.draft.title || formData.title,
+        description: result.draft.description || formData.description,
+      });
+      setFields(toBuilderFields(result.draft.fields));
+      setSchemaWarnings(result.warnings || []);
+    } catch (error) {
+      setError("Failed to import JSON Schema");
+      console.error("Import JSON Schema error:", error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Imported definitions go straight to the server, which validates them and
+  // creates the form the same way as the builder does
+  const importDefinition = async (file: File) => {
+    setError("");
+    setImportErrors([]);
+
+    const definition = await readJsonFile(file);
+    if (definition === undefined) return;
+
+    setImporting(true);
+    try {
+      const response = await fetch(
+        `${import.meta.env.VITE_BACKEND_URL}/api/forms/import`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify(definition),
+        }
+      );
+
+      if (response.ok) {
+        navigate("/");
+      } else {
+        const errorData = await response.json();
+        setError(errorData.error || "Failed to import form");
+        setImportErrors(
+          Array.isArray(errorData.details) ? errorData.details : []
+        );
+      }
+    } catch (error) {
+      setError("Failed to import form");
+      console.error("Import form error:", error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const addField = () => {
     const newField: FormField = {
       id: Date.now().toString(),
@@ -66,7 +388,28 @@ const FormBuilder: React.FC = () => {
   };
 
   const removeField = (id: string) => {
-    setFields(fields.filter((field) => field.id !== id));
+    setFields(
+      fields
+        .filter((field) => field.id !== id)
+        .map((field) => ({
+          ...field,
+          conditions: removeFieldFromConditions(field.conditions, id),
+        }))
+    );
+  };
+
+  const addCondition = (fieldId: string) => {
+    const sourceField = fields.find(
+      (f) => f.id !== fieldId && f.type !== "SECTION"
+    );
+    if (!sourceField) return;
+
+    updateField(fieldId, {
+      conditions: {
+        logic: "AND",
+        rules: [{ fieldId: sourceField.id, operator: "equals", value: "" }],
+      },
+    });
   };
 
   const moveField = (id: string, direction: "up" | "down") => {
@@ -87,37 +430,43 @@ const FormBuilder: React.FC = () => {
     setFields(newFields);
   };
 
-  const addOption = (fieldId: string) => {
+  const addOption = (fieldId: string, key: OptionListKey = "options") => {
     updateField(fieldId, {
-      options: [...(fields.find((f) => f.id === fieldId)?.options || []), ""],
+      [key]: [...(fields.find((f) => f.id === fieldId)?.[key] || []), ""],
     });
   };
 
   const updateOption = (
     fieldId: string,
     optionIndex: number,
-    value: string
+    value: string,
+    key: OptionListKey = "options"
   ) => {
     const field = fields.find((f) => f.id === fieldId);
     if (field) {
-      const newOptions = [...field.options];
+      const newOptions = [...(field[key] || [])];
       newOptions[optionIndex] = value;
-      updateField(fieldId, { options: newOptions });
+      updateField(fieldId, { [key]: newOptions });
     }
   };
 
-  const removeOption = (fieldId: string, optionIndex: number) => {
+  const removeOption = (
+    fieldId: string,
+    optionIndex: number,
+    key: OptionListKey = "options"
+  ) => {
     const field = fields.find((f) => f.id === fieldId);
     if (field) {
-      const newOptions = field.options.filter(
+      const newOptions = (field[key] || []).filter(
         (_, index) => index !== optionIndex
       );
-      updateField(fieldId, { options: newOptions });
+      updateField(fieldId, { [key]: newOptions });
     }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    setImportErrors([]);
 
     if (!formData.title.trim()) {
       setError("Form title is required");
@@ -129,6 +478,9 @@ const FormBuilder: React.FC = () => {
       return;
     }
 
+    // Formulas reference fields by label while editing
+    const formulas: Record<string, string> = {};
+
     // Validate fields
     for (const field of fields) {
       if (!field.label.trim()) {
@@ -143,6 +495,83 @@ const FormBuilder: React.FC = () => {
         setError(`Field "${field.label}" must have at least one option`);
         return;
       }
+
+      if (field.type === "MATRIX") {
+        const rows = (field.matrix_rows || []).filter((row) => row.trim());
+        const columns = field.options.filter((column) => column.trim());
+        if (rows.length === 0 || columns.length === 0) {
+          setError(
+            `Field "${field.label}" needs at least one row and one column`
+          );
+          return;
+        }
+        if (
+          new Set(rows).size !== rows.length ||
+          new Set(columns).size !== columns.length
+        ) {
+          setError(`Field "${field.label}" has duplicate rows or columns`);
+          return;
+        }
+      }
+
+      if (field.type === "REPEATER") {
+        const subFields = field.sub_fields || [];
+        if (subFields.length === 0) {
+          setError(`Field "${field.label}" needs at least one column`);
+          return;
+        }
+        if (subFields.some((subField) => !subField.label.trim())) {
+          setError(`All columns of "${field.label}" must have a label`);
+          return;
+        }
+        if (
+          subFields.some(
+            (subField) =>
+              subField.type === "DROPDOWN" &&
+              !(subField.options || []).some((option) => option.trim())
+          )
+        ) {
+          setError(`Dropdown columns of "${field.label}" need choices`);
+          return;
+        }
+      }
+
+      if (field.type === "CALCULATED") {
+        const converted = formulaFromLabels(
+          field.formula || "",
+          fields.filter((f) => f.type !== "SECTION")
+        );
+        const formulaError =
+          converted.error ||
+          validateFormula(
+            converted.formula,
+            field.id,
+            new Set(fields.map((f) => f.id))
+          );
+        if (formulaError) {
+          setError(`Field "${field.label}": ${formulaError}`);
+          return;
+        }
+        formulas[field.id] = converted.formula;
+      }
+
+      const rulesError = getValidationRulesError(field.validation);
+      if (rulesError) {
+        setError(`Field "${field.label}": ${rulesError}`);
+        return;
+      }
+    }
+
+    const cycle = findFormulaCycle(
+      fields.map((field) => ({ ...field, formula: formulas[field.id] }))
+    );
+    if (cycle) {
+      setError(
+        `Formulas reference each other in a loop: ${cycle
+          .map((id) => fields.find((field) => field.id === id)?.label)
+          .join(" -> ")}`
+      );
+      return;
     }
 
     setLoading(true);
@@ -150,11 +579,11 @@ const FormBuilder: React.FC = () => {
 
     try {
       const response = await fetch(
-        `${
-          process.env.REACT_APP_BACKEND_URL || "http://localhost:5000"
-        }/api/forms`,
+        `${import.meta.env.VITE_BACKEND_URL}/api/forms${
+          isEditMode ? `/${formId}` : ""
+        }`,
         {
-          method: "POST",
+          method: isEditMode ? "PUT" : "POST",
           headers: {
             "Content-Type": "application/json",
             Authorization: `Bearer ${localStorage.getItem("token")}`,
@@ -162,11 +591,25 @@ const FormBuilder: React.FC = () => {
           body: JSON.stringify({
             title: formData.title,
             description: formData.description,
+            edit_mode: editMode,
+            ...lockSettings,
             fields: fields.map((field) => ({
+              id: field.id,
               label: field.label,
               type: field.type,
               required: field.required,
               options: field.options.filter((option) => option.trim() !== ""),
+              matrix_rows:
+                field.type === "MATRIX"
+                  ? (field.matrix_rows || []).filter((row) => row.trim())
+                  : null,
+              sub_fields:
+                field.type === "REPEATER" ? field.sub_fields || [] : null,
+              description:
+                field.type === "SECTION" ? field.description || null : null,
+              formula: formulas[field.id] ?? null,
+              conditions: field.conditions || null,
+              validation: field.validation || null,
             })),
           }),
         }
@@ -176,16 +619,57 @@ const FormBuilder: React.FC = () => {
         navigate("/");
       } else {
         const errorData = await response.json();
-        setError(errorData.error || "Failed to create form");
+        setError(
+          errorData.error ||
+            (isEditMode ? "Failed to update form" : "Failed to create form")
+        );
       }
     } catch (error) {
-      setError("Failed to create form");
-      console.error("Create form error:", error);
+      setError(isEditMode ? "Failed to update form" : "Failed to create form");
+      console.error(
+        isEditMode ? "Update form error:" : "Create form error:",
+        error
+      );
     } finally {
       setLoading(false);
     }
   };
 
+  const renderImportButton = (label: string, onFile: (file: File) => void) => (
+    <label
+      className={`inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md ${
+        importing
+          ? "opacity-50 cursor-not-allowed"
+          : "cursor-pointer hover:bg-gray-50"
+      }`}
+    >
+      <ArrowUpTrayIcon className="w-4 h-4 mr-2" />
+      {importing ? "Importing..." : label}
+      <input
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        disabled={importing}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) onFile(file);
+        }}
+      />
+    </label>
+  );
+
+  if (loadingForm) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-50">
+        <div className="flex flex-col items-center space-y-4">
+          <div className="w-12 h-12 border-b-2 border-blue-600 rounded-full animate-spin"></div>
+          <p className="text-gray-600">Loading form...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -202,10 +686,35 @@ const FormBuilder: React.FC = () => {
               <div className="flex items-center space-x-2">
                 <DocumentTextIcon className="w-6 h-6 text-blue-600" />
                 <h1 className="text-xl font-bold text-gray-900">
-                  Form Builder
+                  {isEditMode ? "Edit Form" : "Form Builder"}
                 </h1>
               </div>
             </div>
+            {isEditMode ? (
+              <div className="flex items-center space-x-2">
+                <button
+                  type="button"
+                  onClick={() => exportJson("definition", ".json")}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  <ArrowDownTrayIcon className="w-4 h-4 mr-2" />
+                  Export JSON
+                </button>
+                <button
+                  type="button"
+                  onClick={() => exportJson("schema.json", ".schema.json")}
+                  className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  <ArrowDownTrayIcon className="w-4 h-4 mr-2" />
+                  JSON Schema
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2">
+                {renderImportButton("Import JSON", importDefinition)}
+                {renderImportButton("Import JSON Schema", importJsonSchema)}
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -213,6 +722,16 @@ const FormBuilder: React.FC = () => {
       {/* Main Content */}
       <main className="max-w-4xl px-4 py-6 mx-auto sm:px-6 lg:px-8">
         <form onSubmit={handleSubmit} className="space-y-6">
+          {!isEditMode && templates.length > 0 && (
+            <TemplateGallery
+              templates={templates}
+              selectedId={selectedTemplateId}
+              currentUserId={user?.id}
+              onSelect={applyTemplate}
+              onDelete={deleteTemplate}
+            />
+          )}
+
           {/* Form Details */}
           <div className="p-6 bg-white rounded-lg shadow">
             <h2 className="mb-4 text-lg font-medium text-gray-900">
@@ -222,6 +741,24 @@ const FormBuilder: React.FC = () => {
             {error && (
               <div className="px-4 py-3 mb-4 text-red-700 border border-red-200 rounded bg-red-50">
                 {error}
+                {importErrors.length > 0 && (
+                  <ul className="mt-2 ml-5 text-sm list-disc">
+                    {importErrors.map((importError) => (
+                      <li key={importError}>{importError}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {schemaWarnings.length > 0 && (
+              <div className="px-4 py-3 mb-4 text-yellow-800 border border-yellow-200 rounded bg-yellow-50">
+                Imported as a draft; review the fields before creating the form.
+                <ul className="mt-2 ml-5 text-sm list-disc">
+                  {schemaWarnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
               </div>
             )}
 
@@ -264,6 +801,84 @@ const FormBuilder: React.FC = () => {
                   placeholder="Enter form description"
                 />
               </div>
+
+              <div>
+                <label
+                  htmlFor="editMode"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Text Fields
+                </label>
+                <select
+                  id="editMode"
+                  value={editMode}
+                  onChange={(e) => setEditMode(e.target.value as EditMode)}
+                  className="block w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                >
+                  <option value="LOCK">Lock while someone is typing</option>
+                  <option value="CO_EDIT">Edit together in real time</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  {editMode === "CO_EDIT"
+                    ? "Everyone in a group can type in the same text field at once; changes are merged as they happen."
+                    : "A text field is locked for others while one person edits it."}
+                </p>
+              </div>
+
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label
+                    htmlFor="lockTimeout"
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Lock timeout (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    id="lockTimeout"
+                    min={15}
+                    max={600}
+                    value={lockSettings.lock_timeout_seconds}
+                    onChange={(e) =>
+                      setLockSettings({
+                        ...lockSettings,
+                        lock_timeout_seconds: Number(e.target.value),
+                      })
+                    }
+                    className="block w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    A focused field stays locked; the lock is freed after this
+                    long without activity, e.g. when a connection drops.
+                  </p>
+                </div>
+                <div>
+                  <label
+                    htmlFor="lockHandoff"
+                    className="block text-sm font-medium text-gray-700"
+                  >
+                    Hand-over grace period (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    id="lockHandoff"
+                    min={0}
+                    max={120}
+                    value={lockSettings.lock_handoff_seconds}
+                    onChange={(e) =>
+                      setLockSettings({
+                        ...lockSettings,
+                        lock_handoff_seconds: Number(e.target.value),
+                      })
+                    }
+                    className="block w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    When someone requests a locked field, its editor keeps it
+                    this long before it passes to them.
+                  </p>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -342,7 +957,9 @@ const FormBuilder: React.FC = () => {
                     <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
                       <div>
                         <label className="block text-sm font-medium text-gray-700">
-                          Field Label *
+                          {field.type === "SECTION"
+                            ? "Section Title *"
+                            : "Field Label *"}
                         </label>
                         <input
                           type="text"
@@ -365,13 +982,26 @@ const FormBuilder: React.FC = () => {
                           onChange={(e) =>
                             updateField(field.id, {
                               type: e.target.value as FormField["type"],
+                              validation: null,
+                              required: ["SECTION", "CALCULATED"].includes(
+                                e.target.value
+                              )
+                                ? false
+                                : field.required,
                               options: [
                                 "DROPDOWN",
                                 "RADIO",
                                 "CHECKBOX",
+                                "MATRIX",
                               ].includes(e.target.value)
                                 ? [""]
                                 : [],
+                              matrix_rows:
+                                e.target.value === "MATRIX" ? [""] : [],
+                              sub_fields:
+                                e.target.value === "REPEATER"
+                                  ? field.sub_fields || []
+                                  : [],
                             })
                           }
                           className="block w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
@@ -385,37 +1015,180 @@ const FormBuilder: React.FC = () => {
                       </div>
                     </div>
 
-                    <div className="mt-4">
-                      <label className="flex items-center">
-                        <input
-                          type="checkbox"
-                          checked={field.required}
+                    {field.type === "SECTION" ? (
+                      <div className="mt-4">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Description
+                        </label>
+                        <textarea
+                          value={field.description || ""}
                           onChange={(e) =>
                             updateField(field.id, {
-                              required: e.target.checked,
+                              description: e.target.value,
                             })
                           }
-                          className="text-blue-600 border-gray-300 rounded shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                          rows={2}
+                          className="block w-full mt-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                          placeholder="Shown under the section title (optional)"
                         />
-                        <span className="ml-2 text-sm text-gray-700">
-                          Required field
-                        </span>
-                      </label>
+                        <p className="mt-1 text-xs text-gray-500">
+                          Starts a new page; the fields below it belong to this
+                          section until the next one.
+                        </p>
+                      </div>
+                    ) : field.type === "CALCULATED" ? (
+                      <div className="mt-4">
+                        <FormulaEditor
+                          formula={field.formula || ""}
+                          onChange={(formula) =>
+                            updateField(field.id, { formula })
+                          }
+                          sourceFields={fields.filter(
+                            (f) => f.id !== field.id && f.type !== "SECTION"
+                          )}
+                        />
+                      </div>
+                    ) : (
+                      <div className="mt-4">
+                        <label className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={field.required}
+                            onChange={(e) =>
+                              updateField(field.id, {
+                                required: e.target.checked,
+                              })
+                            }
+                            className="text-blue-600 border-gray-300 rounded shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                          />
+                          <span className="ml-2 text-sm text-gray-700">
+                            Required field
+                          </span>
+                        </label>
+                      </div>
+                    )}
+
+                    {/* Validation rules for the selected type */}
+                    <div className="mt-4">
+                      <ValidationRulesEditor
+                        fieldType={field.type}
+                        rules={field.validation}
+                        onChange={(validation) =>
+                          updateField(field.id, { validation })
+                        }
+                      />
                     </div>
 
+                    {/* Conditional visibility */}
+                    <div className="mt-4">
+                      {field.conditions ? (
+                        <ConditionEditor
+                          group={field.conditions}
+                          onChange={(conditions) =>
+                            updateField(field.id, { conditions })
+                          }
+                          sourceFields={fields.filter(
+                            (f) => f.id !== field.id && f.type !== "SECTION"
+                          )}
+                        />
+                      ) : (
+                        fields.some(
+                          (f) => f.id !== field.id && f.type !== "SECTION"
+                        ) && (
+                          <button
+                            type="button"
+                            onClick={() => addCondition(field.id)}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            + Add Visibility Condition
+                          </button>
+                        )
+                      )}
+                    </div>
+
+                    {/* Columns of a repeating section */}
+                    {field.type === "REPEATER" && (
+                      <div className="mt-4">
+                        <SubFieldsEditor
+                          subFields={field.sub_fields || []}
+                          onChange={(sub_fields) =>
+                            updateField(field.id, { sub_fields })
+                          }
+                        />
+                      </div>
+                    )}
+
+                    {/* Rows for matrix fields; their columns use the options editor */}
+                    {field.type === "MATRIX" && (
+                      <div className="mt-4">
+                        <div className="flex items-center justify-between mb-2">
+                          <label className="block text-sm font-medium text-gray-700">
+                            Rows
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => addOption(field.id, "matrix_rows")}
+                            className="text-sm text-blue-600 hover:text-blue-800"
+                          >
+                            + Add Row
+                          </button>
+                        </div>
+                        <div className="space-y-2">
+                          {(field.matrix_rows || []).map((row, rowIndex) => (
+                            <div
+                              key={rowIndex}
+                              className="flex items-center space-x-2"
+                            >
+                              <input
+                                type="text"
+                                value={row}
+                                onChange={(e) =>
+                                  updateOption(
+                                    field.id,
+                                    rowIndex,
+                                    e.target.value,
+                                    "matrix_rows"
+                                  )
+                                }
+                                className="flex-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                                placeholder={`Row ${rowIndex + 1}`}
+                              />
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  removeOption(
+                                    field.id,
+                                    rowIndex,
+                                    "matrix_rows"
+                                  )
+                                }
+                                className="p-2 text-red-400 hover:text-red-600"
+                              >
+                                <TrashIcon className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Options for dropdown, radio, and checkbox fields */}
-                    {["DROPDOWN", "RADIO", "CHECKBOX"].includes(field.type) && (
+                    {["DROPDOWN", "RADIO", "CHECKBOX", "MATRIX"].includes(
+                      field.type
+                    ) && (
                       <div className="mt-4">
                         <div className="flex items-center justify-between mb-2">
                           <label className="block text-sm font-medium text-gray-700">
-                            Options
+                            {field.type === "MATRIX" ? "Columns" : "Options"}
                           </label>
                           <button
                             type="button"
                             onClick={() => addOption(field.id)}
                             className="text-sm text-blue-600 hover:text-blue-800"
                           >
-                            + Add Option
+                            {field.type === "MATRIX"
+                              ? "+ Add Column"
+                              : "+ Add Option"}
                           </button>
                         </div>
                         <div className="space-y-2">
@@ -435,7 +1208,9 @@ const FormBuilder: React.FC = () => {
                                   )
                                 }
                                 className="flex-1 border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-                                placeholder={`Option ${optionIndex + 1}`}
+                                placeholder={`${
+                                  field.type === "MATRIX" ? "Column" : "Option"
+                                } ${optionIndex + 1}`}
                               />
                               <button
                                 type="button"
@@ -474,8 +1249,10 @@ const FormBuilder: React.FC = () => {
               {loading ? (
                 <div className="flex items-center">
                   <div className="w-4 h-4 mr-2 border-b-2 border-white rounded-full animate-spin"></div>
-                  Creating...
+                  {isEditMode ? "Saving..." : "Creating..."}
                 </div>
+              ) : isEditMode ? (
+                "Save Changes"
               ) : (
                 "Create Form"
               )}
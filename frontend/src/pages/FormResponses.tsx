@@ -14,7 +14,30 @@ import {
   ChevronUpIcon,
   CalendarIcon,
   HashtagIcon,
+  PaperClipIcon,
 } from "@heroicons/react/24/outline";
+import ScaleSummary from "../components/ScaleSummary";
+import MatrixSummary from "../components/MatrixSummary";
+import {
+  FieldAttachment,
+  FieldValidationRules,
+  RepeaterSubField,
+} from "../types";
+import {
+  getScaleBounds,
+  isScaleFieldType,
+  parseMatrixValue,
+} from "../utils/fieldValidation";
+import { summarizeScale } from "../utils/scaleStats";
+import { summarizeMatrix } from "../utils/matrixStats";
+import { parseRepeaterValue } from "../utils/repeaterValues";
+import { isSectionField, START_PAGE_KEY } from "../utils/sections";
+import { downloadFile, formatFileSize } from "../utils/files";
+import {
+  formatDateValue,
+  isDateFieldType,
+  toDateSortKey,
+} from "../utils/dateValues";
 
 interface ResponseField {
   id: string;
@@ -24,9 +47,11 @@ interface ResponseField {
 
 interface FormResponse {
   id: string;
+  form_version: number | null;
   created_at: string;
   updated_at: string;
   response_fields: ResponseField[];
+  response_files?: FieldAttachment[];
   users: {
     email: string;
   };
@@ -39,15 +64,26 @@ interface FormField {
   required: boolean;
   field_order: number;
   options: string[];
+  matrix_rows?: string[] | null;
+  sub_fields?: RepeaterSubField[] | null;
+  description?: string | null;
+  validation?: FieldValidationRules | null;
 }
 
 interface FormData {
   id: string;
   title: string;
   description: string;
+  current_version: number | null;
   form_fields: FormField[];
 }
 
+interface FormVersion {
+  version_number: number;
+  fields: FormField[];
+  created_at: string;
+}
+
 interface FieldContributor {
   email: string;
   value: string;
@@ -60,6 +96,7 @@ const FormResponses: React.FC = () => {
 
   // State management
   const [form, setForm] = useState<FormData | null>(null);
+  const [versions, setVersions] = useState<FormVersion[]>([]);
   const [responses, setResponses] = useState<FormResponse[]>([]);
   const [fieldContributors, setFieldContributors] = useState<
     Record<string, FieldContributor[]>
@@ -75,8 +112,10 @@ const FormResponses: React.FC = () => {
   const [expandedResponses, setExpandedResponses] = useState<Set<string>>(
     new Set()
   );
-  const [sortBy, setSortBy] = useState<"newest" | "oldest">("newest");
+  // "newest", "oldest" or "<fieldId>:asc|desc" for date fields
+  const [sortBy, setSortBy] = useState<string>("newest");
   const [filterBy, setFilterBy] = useState<string>("all");
+  const [columnMode, setColumnMode] = useState<"current" | "merged">("current");
 
   useEffect(() => {
     loadFormResponses();
@@ -105,6 +144,7 @@ const FormResponses: React.FC = () => {
       if (response.ok) {
         const data = await response.json();
         setForm(data.form);
+        setVersions(data.versions || []);
         setResponses(data.responses || []);
         setFieldContributors(data.fieldContributors || {});
         setSubmissionCount(data.submissionCount || 0);
@@ -125,13 +165,180 @@ const FormResponses: React.FC = () => {
     return field?.value || "";
   };
 
+  const sortFields = (fields: FormField[]): FormField[] =>
+    [...fields].sort((a, b) => a.field_order - b.field_order);
+
+  // Fields of a given version, falling back to the live definition
+  const getVersionFields = (versionNumber: number | null): FormField[] => {
+    const version = versions.find((v) => v.version_number === versionNumber);
+    return sortFields(version?.fields || form?.form_fields || []);
+  };
+
+  // Each submission renders against the version it was filled against
+  const getResponseFields = (response: FormResponse): FormField[] =>
+    getVersionFields(response.form_version ?? form?.current_version ?? null);
+
+  // Columns for the table and export: current version, or every field
+  // that ever existed across versions (newest definition wins)
+  const getColumnFields = (): FormField[] =>
+    getColumnFieldsWithSections().filter((field) => !isSectionField(field));
+
+  // Data columns grouped under the SECTION they follow, for the table header
+  const getColumnSections = () => {
+    const groups: { key: string; title: string; span: number }[] = [];
+    getColumnFieldsWithSections().forEach((field) => {
+      if (isSectionField(field)) {
+        groups.push({ key: field.id, title: field.label, span: 0 });
+      } else if (groups.length === 0) {
+        groups.push({ key: START_PAGE_KEY, title: "", span: 1 });
+      } else {
+        groups[groups.length - 1].span++;
+      }
+    });
+    return groups.filter((group) => group.span > 0);
+  };
+
+  const getColumnFieldsWithSections = (): FormField[] => {
+    const currentFields = getVersionFields(form?.current_version ?? null);
+    if (columnMode === "current") return currentFields;
+
+    const seen = new Set(currentFields.map((f) => f.id));
+    const merged = [...currentFields];
+    [...versions].reverse().forEach((version) => {
+      sortFields(version.fields).forEach((field) => {
+        if (!seen.has(field.id)) {
+          seen.add(field.id);
+          merged.push(field);
+        }
+      });
+    });
+    return merged;
+  };
+
+  const isRemovedField = (field: FormField): boolean =>
+    !getVersionFields(form?.current_version ?? null).some(
+      (f) => f.id === field.id
+    );
+
+  const getColumnLabel = (field: FormField): string =>
+    isRemovedField(field) ? `${field.label} (removed)` : field.label;
+
+  // Field definition as the response saw it, if it was part of its version
+  const getResponseField = (
+    response: FormResponse,
+    fieldId: string
+  ): FormField | undefined =>
+    getResponseFields(response).find((f) => f.id === fieldId);
+
   const getFieldContributorsList = (fieldId: string): FieldContributor[] => {
     return fieldContributors[fieldId] || [];
   };
 
+  // Files submitted for a FILE field
+  const getAttachments = (
+    response: FormResponse,
+    fieldId: string
+  ): FieldAttachment[] =>
+    (response.response_files || []).filter((file) => file.field_id === fieldId);
+
+  const getAttachmentNames = (response: FormResponse, fieldId: string) =>
+    getAttachments(response, fieldId)
+      .map((file) => file.file_name)
+      .join(", ");
+
+  const handleDownload = (file: FieldAttachment) => {
+    downloadFile(`/api/forms/${formId}/files/${file.id}`, file.file_name).catch(
+      (error) => {
+        console.error("File download failed:", error);
+        setError("Failed to download file");
+      }
+    );
+  };
+
+  // "Label: value, ..." per row, rows separated by " | "
+  const formatRepeaterRows = (field: FormField, value: string) =>
+    parseRepeaterValue(value)
+      .map((row) =>
+        (field.sub_fields || [])
+          .filter((subField) => row.values[subField.id])
+          .map((subField) => `${subField.label}: ${row.values[subField.id]}`)
+          .join(", ")
+      )
+      .join(" | ");
+
+  // Rich rendering for the card views; FILE answers become download links
+  // and repeating sections small tables
+  const renderFieldValue = (
+    response: FormResponse,
+    field: FormField,
+    value: string
+  ) => {
+    if (field.type === "REPEATER") {
+      const rows = parseRepeaterValue(value);
+      if (rows.length === 0) return "Not answered";
+
+      return (
+        <table className="min-w-full text-xs border border-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {(field.sub_fields || []).map((subField) => (
+                <th
+                  key={subField.id}
+                  className="px-2 py-1 font-medium text-left text-gray-600"
+                >
+                  {subField.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((row) => (
+              <tr key={row.id}>
+                {(field.sub_fields || []).map((subField) => (
+                  <td key={subField.id} className="px-2 py-1 text-gray-900">
+                    {row.values[subField.id] || "—"}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+
+    if (field.type !== "FILE") return formatFieldValue(field, value);
+
+    const files = getAttachments(response, field.id);
+    if (files.length === 0) return "Not answered";
+
+    return (
+      <ul className="space-y-1">
+        {files.map((file) => (
+          <li key={file.id}>
+            <button
+              type="button"
+              onClick={() => handleDownload(file)}
+              className="inline-flex items-center text-blue-600 hover:text-blue-800"
+            >
+              <PaperClipIcon className="w-4 h-4 mr-1" />
+              {file.file_name}
+              <span className="ml-1 text-xs text-gray-500">
+                ({formatFileSize(file.size)})
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
   const formatFieldValue = (field: FormField, value: string): string => {
     if (!value || value === "") return "Not answered";
 
+    if (isDateFieldType(field.type)) {
+      return formatDateValue(field.type, value);
+    }
+
     switch (field.type) {
       case "CHECKBOX":
         return (
@@ -147,6 +354,21 @@ const FormResponses: React.FC = () => {
         return value;
       case "NUMBER":
         return value;
+      case "RATING":
+      case "SCALE":
+        return `${value} / ${getScaleBounds(field.type, field.validation).max}`;
+      case "REPEATER": {
+        const count = parseRepeaterValue(value).length;
+        return count > 0
+          ? `${count} row${count === 1 ? "" : "s"}`
+          : "Not answered";
+      }
+      case "MATRIX":
+        return (
+          Object.entries(parseMatrixValue(value))
+            .map(([row, column]) => `${row}: ${column}`)
+            .join("; ") || "Not answered"
+        );
       case "TEXTAREA":
         return value.length > 100 ? value.substring(0, 100) + "..." : value;
       default:
@@ -167,7 +389,25 @@ const FormResponses: React.FC = () => {
   const getSortedResponses = () => {
     let sorted = [...responses];
 
-    if (sortBy === "newest") {
+    const [sortFieldId, direction] = sortBy.split(":");
+    const sortField = getColumnFields().find(
+      (field) => field.id === sortFieldId
+    );
+
+    if (sortField && isDateFieldType(sortField.type)) {
+      const type = sortField.type;
+      const getKey = (response: FormResponse) =>
+        toDateSortKey(type, getFieldValue(response, sortField.id));
+
+      sorted.sort((a, b) => {
+        const keyA = getKey(a);
+        const keyB = getKey(b);
+        // Unanswered or malformed values always go last
+        if (keyA === null) return keyB === null ? 0 : 1;
+        if (keyB === null) return -1;
+        return direction === "desc" ? keyB - keyA : keyA - keyB;
+      });
+    } else if (sortBy === "newest") {
       sorted.sort(
         (a, b) =>
           new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
@@ -186,6 +426,41 @@ const FormResponses: React.FC = () => {
     return sorted;
   };
 
+  // Averages and distributions for rating/scale fields, over the shown responses
+  const getScaleSummaries = () =>
+    getColumnFields()
+      .filter((field) => isScaleFieldType(field.type))
+      .map((field) => {
+        const values = getSortedResponses()
+          .filter((response) => getResponseField(response, field.id))
+          .map((response) => getFieldValue(response, field.id))
+          .filter((value) => value !== "" && !isNaN(Number(value)))
+          .map(Number);
+
+        return {
+          field,
+          stats: summarizeScale(
+            values,
+            getScaleBounds(field.type, field.validation)
+          ),
+        };
+      });
+
+  // Per-row column counts for matrix fields, over the shown responses
+  const getMatrixSummaries = () =>
+    getColumnFields()
+      .filter((field) => field.type === "MATRIX")
+      .map((field) => ({
+        field,
+        rows: summarizeMatrix(
+          getSortedResponses().map((response) =>
+            getFieldValue(response, field.id)
+          ),
+          field.matrix_rows || [],
+          field.options || []
+        ),
+      }));
+
   const getUniqueSubmitters = () => {
     const submitters = new Set(
       responses.map((r) => r.users?.email).filter(Boolean)
@@ -193,37 +468,123 @@ const FormResponses: React.FC = () => {
     return Array.from(submitters);
   };
 
+  // Plain-text value used by the exports; FILE answers become file names
+  const getExportValue = (response: FormResponse, field: FormField) => {
+    if (field.type === "FILE") return getAttachmentNames(response, field.id);
+    const value = getFieldValue(response, field.id);
+    return field.type === "REPEATER" ? formatRepeaterRows(field, value) : value;
+  };
+
+  const toCSVCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+  const saveExport = (content: string, type: string, fileName: string) => {
+    const blob = new Blob([content], { type });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
   const exportToCSV = () => {
     if (!form || responses.length === 0) return;
 
+    // Rows follow the on-screen order; date values stay in ISO-8601
+    const columnFields = getColumnFields();
     const headers = [
       "Submission ID",
       "Submitted By",
       "Submitted At",
-      ...form.form_fields.map((f) => f.label),
+      "Form Version",
+      ...columnFields.map((f) => toCSVCell(getColumnLabel(f))),
     ];
     const csvContent = [
       headers.join(","),
-      ...responses.map((response) =>
+      ...getSortedResponses().map((response) =>
         [
           response.id,
           response.users?.email || "Anonymous",
           new Date(response.created_at).toLocaleString(),
-          ...form.form_fields.map((field) => {
-            const value = getFieldValue(response, field.id);
-            return `"${value.replace(/"/g, '""')}"`;
-          }),
+          response.form_version ?? "",
+          ...columnFields.map((field) =>
+            toCSVCell(getExportValue(response, field))
+          ),
         ].join(",")
       ),
     ].join("\n");
 
-    const blob = new Blob([csvContent], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${form.title}_responses.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+    saveExport(csvContent, "text/csv", `${form.title}_responses.csv`);
+  };
+
+  // One CSV line per repeated item of a repeating section
+  const exportRowsToCSV = (field: FormField) => {
+    if (!form || responses.length === 0) return;
+
+    const subFields = field.sub_fields || [];
+    const headers = [
+      "Submission ID",
+      "Submitted By",
+      "Submitted At",
+      "Row",
+      ...subFields.map((subField) => toCSVCell(subField.label)),
+    ];
+    const lines = getSortedResponses().flatMap((response) =>
+      parseRepeaterValue(getFieldValue(response, field.id)).map((row, index) =>
+        [
+          response.id,
+          response.users?.email || "Anonymous",
+          new Date(response.created_at).toLocaleString(),
+          index + 1,
+          ...subFields.map((subField) =>
+            toCSVCell(row.values[subField.id] || "")
+          ),
+        ].join(",")
+      )
+    );
+
+    saveExport(
+      [headers.join(","), ...lines].join("\n"),
+      "text/csv",
+      `${form.title}_${field.label}_rows.csv`
+    );
+  };
+
+  // Nested export: repeating sections stay arrays of label -> value objects
+  const exportToJSON = () => {
+    if (!form || responses.length === 0) return;
+
+    const columnFields = getColumnFields();
+    const submissions = getSortedResponses().map((response) => ({
+      id: response.id,
+      submitted_by: response.users?.email || null,
+      submitted_at: response.created_at,
+      form_version: response.form_version,
+      answers: Object.fromEntries(
+        columnFields
+          .filter((field) => getFieldValue(response, field.id) !== "")
+          .map((field) => [
+            getColumnLabel(field),
+            field.type === "REPEATER"
+              ? parseRepeaterValue(getFieldValue(response, field.id)).map(
+                  (row) =>
+                    Object.fromEntries(
+                      (field.sub_fields || []).map((subField) => [
+                        subField.label,
+                        row.values[subField.id] ?? null,
+                      ])
+                    )
+                )
+              : getExportValue(response, field),
+          ])
+      ),
+    }));
+
+    saveExport(
+      JSON.stringify({ form: form.title, submissions }, null, 2),
+      "application/json",
+      `${form.title}_responses.json`
+    );
   };
 
   // Loading State
@@ -428,13 +789,23 @@ const FormResponses: React.FC = () => {
                       </label>
                       <select
                         value={sortBy}
-                        onChange={(e) =>
-                          setSortBy(e.target.value as "newest" | "oldest")
-                        }
+                        onChange={(e) => setSortBy(e.target.value)}
                         className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
                       >
                         <option value="newest">Newest First</option>
                         <option value="oldest">Oldest First</option>
+                        {getColumnFields()
+                          .filter((field) => isDateFieldType(field.type))
+                          .map((field) => (
+                            <React.Fragment key={field.id}>
+                              <option value={`${field.id}:asc`}>
+                                {getColumnLabel(field)} (earliest first)
+                              </option>
+                              <option value={`${field.id}:desc`}>
+                                {getColumnLabel(field)} (latest first)
+                              </option>
+                            </React.Fragment>
+                          ))}
                       </select>
                     </div>
 
@@ -456,15 +827,55 @@ const FormResponses: React.FC = () => {
                         ))}
                       </select>
                     </div>
+
+                    {/* Column Controls */}
+                    {versions.length > 1 && (
+                      <div className="flex items-center space-x-2">
+                        <label className="text-sm font-medium text-gray-700">
+                          Columns:
+                        </label>
+                        <select
+                          value={columnMode}
+                          onChange={(e) =>
+                            setColumnMode(
+                              e.target.value as "current" | "merged"
+                            )
+                          }
+                          className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                        >
+                          <option value="current">Current Version</option>
+                          <option value="merged">All Versions (Merged)</option>
+                        </select>
+                      </div>
+                    )}
                   </div>
 
-                  {/* Export Button */}
-                  <button
-                    onClick={exportToCSV}
-                    className="px-4 py-2 text-sm font-medium text-white transition-colors bg-green-600 rounded-md hover:bg-green-700"
-                  >
-                    Export CSV
-                  </button>
+                  {/* Export Buttons */}
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      onClick={exportToCSV}
+                      className="px-4 py-2 text-sm font-medium text-white transition-colors bg-green-600 rounded-md hover:bg-green-700"
+                    >
+                      Export CSV
+                    </button>
+                    <button
+                      onClick={exportToJSON}
+                      className="px-4 py-2 text-sm font-medium text-green-700 transition-colors border border-green-600 rounded-md hover:bg-green-50"
+                    >
+                      Export JSON
+                    </button>
+                    {getColumnFields()
+                      .filter((field) => field.type === "REPEATER")
+                      .map((field) => (
+                        <button
+                          key={field.id}
+                          onClick={() => exportRowsToCSV(field)}
+                          className="px-4 py-2 text-sm font-medium text-green-700 transition-colors border border-green-600 rounded-md hover:bg-green-50"
+                        >
+                          {getColumnLabel(field)} rows (CSV)
+                        </button>
+                      ))}
+                  </div>
                 </div>
               )}
             </div>
@@ -497,6 +908,31 @@ const FormResponses: React.FC = () => {
                       Response Summary ({getSortedResponses().length})
                     </h4>
 
+                    {getScaleSummaries().length > 0 && (
+                      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                        {getScaleSummaries().map(({ field, stats }) => (
+                          <ScaleSummary
+                            key={field.id}
+                            label={getColumnLabel(field)}
+                            type={field.type}
+                            stats={stats}
+                          />
+                        ))}
+                      </div>
+                    )}
+
+                    {getMatrixSummaries().length > 0 && (
+                      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                        {getMatrixSummaries().map(({ field, rows }) => (
+                          <MatrixSummary
+                            key={field.id}
+                            label={getColumnLabel(field)}
+                            rows={rows}
+                          />
+                        ))}
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-1 gap-6">
                       {getSortedResponses().map((response, index) => (
                         <div
@@ -519,6 +955,12 @@ const FormResponses: React.FC = () => {
                                     response.created_at
                                   ).toLocaleString()}
                                 </p>
+                                {response.form_version && (
+                                  <p className="flex items-center mt-1">
+                                    <HashtagIcon className="w-4 h-4 mr-1" />
+                                    Form version {response.form_version}
+                                  </p>
+                                )}
                               </div>
                             </div>
 
@@ -544,62 +986,73 @@ const FormResponses: React.FC = () => {
 
                           {expandedResponses.has(response.id) ? (
                             <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-                              {form?.form_fields
-                                ?.sort((a, b) => a.field_order - b.field_order)
-                                .map((field) => {
-                                  const value = getFieldValue(
-                                    response,
-                                    field.id
-                                  );
-                                  const contributors = getFieldContributorsList(
-                                    field.id
-                                  );
-
+                              {getResponseFields(response).map((field) => {
+                                if (isSectionField(field)) {
                                   return (
-                                    <div
+                                    <h6
                                       key={field.id}
-                                      className="p-3 border border-gray-100 rounded"
+                                      className="pt-2 text-sm font-semibold text-gray-900 border-b border-gray-200 md:col-span-2"
                                     >
-                                      <div className="flex items-start justify-between mb-2">
-                                        <span className="text-sm font-medium text-gray-700">
-                                          {field.label}
-                                          {field.required && (
-                                            <span className="ml-1 text-red-500">
-                                              *
-                                            </span>
-                                          )}
-                                        </span>
-                                        {contributors.length > 0 && (
-                                          <span className="text-xs text-gray-500">
-                                            {contributors.length} contributor(s)
-                                          </span>
-                                        )}
-                                      </div>
+                                      {field.label}
+                                    </h6>
+                                  );
+                                }
 
-                                      <div className="mb-2 text-sm text-gray-900">
-                                        {formatFieldValue(field, value)}
-                                      </div>
+                                const value = getFieldValue(response, field.id);
+                                const contributors = getFieldContributorsList(
+                                  field.id
+                                );
 
+                                return (
+                                  <div
+                                    key={field.id}
+                                    className="p-3 border border-gray-100 rounded"
+                                  >
+                                    <div className="flex items-start justify-between mb-2">
+                                      <span className="text-sm font-medium text-gray-700">
+                                        {field.label}
+                                        {field.required && (
+                                          <span className="ml-1 text-red-500">
+                                            *
+                                          </span>
+                                        )}
+                                      </span>
                                       {contributors.length > 0 && (
-                                        <div className="text-xs text-gray-500">
-                                          Contributors:{" "}
-                                          {contributors
-                                            .slice(0, 2)
-                                            .map((c) => c.email)
-                                            .join(", ")}
-                                          {contributors.length > 2 &&
-                                            ` +${contributors.length - 2} more`}
-                                        </div>
+                                        <span className="text-xs text-gray-500">
+                                          {contributors.length} contributor(s)
+                                        </span>
                                       )}
                                     </div>
-                                  );
-                                })}
+
+                                    <div className="mb-2 text-sm text-gray-900">
+                                      {renderFieldValue(response, field, value)}
+                                    </div>
+
+                                    {contributors.length > 0 && (
+                                      <div className="text-xs text-gray-500">
+                                        Contributors:{" "}
+                                        {contributors
+                                          .slice(0, 2)
+                                          .map((c) => c.email)
+                                          .join(", ")}
+                                        {contributors.length > 2 &&
+                                          ` +${contributors.length - 2} more`}
+                                      </div>
+                                    )}
+                                  </div>
+                                );
+                              })}
                             </div>
                           ) : (
                             <div className="text-sm text-gray-600">
                               <p>
                                 Answered {response.response_fields.length} of{" "}
-                                {form?.form_fields?.length || 0} questions
+                                {
+                                  getResponseFields(response).filter(
+                                    (field) => !isSectionField(field)
+                                  ).length
+                                }{" "}
+                                questions
                               </p>
                             </div>
                           )}
@@ -626,6 +1079,11 @@ const FormResponses: React.FC = () => {
                             <h5 className="font-medium text-gray-900">
                               Submission #{responses.length - index} -{" "}
                               {response.users?.email || "Anonymous"}
+                              {response.form_version && (
+                                <span className="ml-2 text-xs font-normal text-gray-500">
+                                  (v{response.form_version})
+                                </span>
+                              )}
                             </h5>
                             <div className="text-sm text-gray-500">
                               {new Date(response.created_at).toLocaleString()}
@@ -635,73 +1093,87 @@ const FormResponses: React.FC = () => {
 
                         <div className="p-6">
                           <div className="space-y-4">
-                            {form?.form_fields
-                              ?.sort((a, b) => a.field_order - b.field_order)
-                              .map((field) => {
-                                const value = getFieldValue(response, field.id);
-                                const contributors = getFieldContributorsList(
-                                  field.id
-                                );
-
+                            {getResponseFields(response).map((field) => {
+                              if (isSectionField(field)) {
                                 return (
                                   <div
                                     key={field.id}
-                                    className="p-4 border border-gray-100 rounded-lg"
+                                    className="pt-2 pb-1 border-b border-gray-200"
                                   >
-                                    <div className="flex items-start justify-between mb-3">
-                                      <div>
-                                        <h6 className="font-medium text-gray-900">
-                                          {field.label}
-                                          {field.required && (
-                                            <span className="ml-1 text-red-500">
-                                              *
-                                            </span>
-                                          )}
-                                        </h6>
-                                        <span className="inline-block px-2 py-1 mt-1 text-xs text-gray-500 bg-gray-100 rounded">
-                                          {field.type}
-                                        </span>
-                                      </div>
+                                    <h6 className="text-lg font-semibold text-gray-900">
+                                      {field.label}
+                                    </h6>
+                                    {field.description && (
+                                      <p className="text-sm text-gray-500">
+                                        {field.description}
+                                      </p>
+                                    )}
+                                  </div>
+                                );
+                              }
+
+                              const value = getFieldValue(response, field.id);
+                              const contributors = getFieldContributorsList(
+                                field.id
+                              );
+
+                              return (
+                                <div
+                                  key={field.id}
+                                  className="p-4 border border-gray-100 rounded-lg"
+                                >
+                                  <div className="flex items-start justify-between mb-3">
+                                    <div>
+                                      <h6 className="font-medium text-gray-900">
+                                        {field.label}
+                                        {field.required && (
+                                          <span className="ml-1 text-red-500">
+                                            *
+                                          </span>
+                                        )}
+                                      </h6>
+                                      <span className="inline-block px-2 py-1 mt-1 text-xs text-gray-500 bg-gray-100 rounded">
+                                        {field.type}
+                                      </span>
                                     </div>
+                                  </div>
 
-                                    <div className="mb-3">
+                                  <div className="mb-3">
+                                    <span className="text-sm font-medium text-gray-700">
+                                      Response:
+                                    </span>
+                                    <div className="p-3 mt-1 text-gray-900 rounded bg-blue-50">
+                                      {renderFieldValue(response, field, value)}
+                                    </div>
+                                  </div>
+
+                                  {contributors.length > 0 && (
+                                    <div>
                                       <span className="text-sm font-medium text-gray-700">
-                                        Response:
+                                        Contributors:
                                       </span>
-                                      <div className="p-3 mt-1 text-gray-900 rounded bg-blue-50">
-                                        {formatFieldValue(field, value)}
+                                      <div className="mt-1 space-y-1">
+                                        {contributors.map((contributor, i) => (
+                                          <div
+                                            key={i}
+                                            className="flex items-center justify-between p-2 text-sm rounded bg-gray-50"
+                                          >
+                                            <span className="text-gray-600">
+                                              {contributor.email}
+                                            </span>
+                                            <span className="text-xs text-gray-500">
+                                              {new Date(
+                                                contributor.last_edited
+                                              ).toLocaleString()}
+                                            </span>
+                                          </div>
+                                        ))}
                                       </div>
                                     </div>
-
-                                    {contributors.length > 0 && (
-                                      <div>
-                                        <span className="text-sm font-medium text-gray-700">
-                                          Contributors:
-                                        </span>
-                                        <div className="mt-1 space-y-1">
-                                          {contributors.map(
-                                            (contributor, i) => (
-                                              <div
-                                                key={i}
-                                                className="flex items-center justify-between p-2 text-sm rounded bg-gray-50"
-                                              >
-                                                <span className="text-gray-600">
-                                                  {contributor.email}
-                                                </span>
-                                                <span className="text-xs text-gray-500">
-                                                  {new Date(
-                                                    contributor.last_edited
-                                                  ).toLocaleString()}
-                                                </span>
-                                              </div>
-                                            )
-                                          )}
-                                        </div>
-                                      </div>
-                                    )}
-                                  </div>
-                                );
-                              })}
+                                  )}
+                                </div>
+                              );
+                            })}
                           </div>
                         </div>
                       </div>
@@ -719,6 +1191,20 @@ const FormResponses: React.FC = () => {
                     <div className="overflow-x-auto">
                       <table className="min-w-full divide-y divide-gray-200">
                         <thead className="bg-gray-50">
+                          {getColumnSections().some((group) => group.title) && (
+                            <tr className="border-b border-gray-200">
+                              <th colSpan={4}></th>
+                              {getColumnSections().map((group) => (
+                                <th
+                                  key={group.key}
+                                  colSpan={group.span}
+                                  className="px-6 pt-3 text-xs font-semibold text-left text-gray-700 border-l border-gray-200"
+                                >
+                                  {group.title}
+                                </th>
+                              ))}
+                            </tr>
+                          )}
                           <tr>
                             <th className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
                               #
@@ -729,19 +1215,20 @@ const FormResponses: React.FC = () => {
                             <th className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
                               Submitted At
                             </th>
-                            {form?.form_fields
-                              ?.sort((a, b) => a.field_order - b.field_order)
-                              .map((field) => (
-                                <th
-                                  key={field.id}
-                                  className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
-                                >
-                                  {field.label}
-                                  {field.required && (
-                                    <span className="ml-1 text-red-500">*</span>
-                                  )}
-                                </th>
-                              ))}
+                            <th className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase">
+                              Version
+                            </th>
+                            {getColumnFields().map((field) => (
+                              <th
+                                key={field.id}
+                                className="px-6 py-3 text-xs font-medium tracking-wider text-left text-gray-500 uppercase"
+                              >
+                                {getColumnLabel(field)}
+                                {field.required && (
+                                  <span className="ml-1 text-red-500">*</span>
+                                )}
+                              </th>
+                            ))}
                           </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
@@ -761,27 +1248,40 @@ const FormResponses: React.FC = () => {
                               <td className="px-6 py-4 text-sm text-gray-500 whitespace-nowrap">
                                 {new Date(response.created_at).toLocaleString()}
                               </td>
-                              {form?.form_fields
-                                ?.sort((a, b) => a.field_order - b.field_order)
-                                .map((field) => (
+                              <td className="px-6 py-4 text-sm text-gray-500 whitespace-nowrap">
+                                {response.form_version ?? "-"}
+                              </td>
+                              {getColumnFields().map((field) => {
+                                const responseField = getResponseField(
+                                  response,
+                                  field.id
+                                );
+                                // Field wasn't part of the version this
+                                // response was filled against
+                                const displayValue = !responseField
+                                  ? "—"
+                                  : responseField.type === "FILE"
+                                  ? getAttachmentNames(response, field.id) ||
+                                    "Not answered"
+                                  : formatFieldValue(
+                                      responseField,
+                                      getFieldValue(response, field.id)
+                                    );
+
+                                return (
                                   <td
                                     key={field.id}
                                     className="max-w-xs px-6 py-4 text-sm text-gray-900"
                                   >
                                     <div
                                       className="truncate"
-                                      title={formatFieldValue(
-                                        field,
-                                        getFieldValue(response, field.id)
-                                      )}
+                                      title={displayValue}
                                     >
-                                      {formatFieldValue(
-                                        field,
-                                        getFieldValue(response, field.id)
-                                      )}
+                                      {displayValue}
                                     </div>
                                   </td>
-                                ))}
+                                );
+                              })}
                             </tr>
                           ))}
                         </tbody>
@@ -0,0 +1,112 @@
+// src/pages/GuestJoin.tsx
+import React, { useState } from "react";
+import { Link, Navigate, useNavigate, useParams } from "react-router-dom";
+import { UserIcon } from "@heroicons/react/24/outline";
+import { useAuth } from "../contexts/AuthContext";
+
+// Entry point of guest links (/guest/:shareCode) for people without an
+// account
+const GuestJoin: React.FC = () => {
+  const { shareCode } = useParams<{ shareCode: string }>();
+  const { user, joinAsGuest } = useAuth();
+  const [displayName, setDisplayName] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const navigate = useNavigate();
+
+  // Signed-in users and guests of this group can open the form directly
+  if (
+    user &&
+    shareCode &&
+    (user.role !== "GUEST" || user.share_code === shareCode)
+  ) {
+    return <Navigate to={`/forms/${shareCode}`} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!shareCode || !displayName.trim()) {
+      setError("Please enter your name");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+
+    try {
+      await joinAsGuest(shareCode, displayName.trim());
+      navigate(`/forms/${shareCode}`, { replace: true });
+    } catch (err: any) {
+      setError(err.message || "Failed to join as guest");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen px-4 py-12 bg-gray-50 sm:px-6 lg:px-8">
+      <div className="w-full max-w-md space-y-8">
+        <div>
+          <div className="flex items-center justify-center w-12 h-12 mx-auto bg-blue-100 rounded-full">
+            <UserIcon className="w-6 h-6 text-blue-600" />
+          </div>
+          <h2 className="mt-6 text-3xl font-extrabold text-center text-gray-900">
+            Join as a Guest
+          </h2>
+          <p className="mt-2 text-sm text-center text-gray-600">
+            Enter the name your collaborators will see to work on form{" "}
+            <span className="font-mono font-bold">{shareCode}</span>
+          </p>
+        </div>
+
+        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {error && (
+            <div className="p-4 rounded-md bg-red-50">
+              <div className="text-sm text-red-800">{error}</div>
+            </div>
+          )}
+
+          <div>
+            <label
+              htmlFor="displayName"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Your Name
+            </label>
+            <input
+              id="displayName"
+              name="displayName"
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              className="relative block w-full px-3 py-2 mt-1 text-gray-900 placeholder-gray-500 border border-gray-300 rounded-md appearance-none focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm"
+              placeholder="e.g., Alex from Acme"
+              maxLength={40}
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="relative flex justify-center w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md group hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? "Joining..." : "Join Form"}
+          </button>
+
+          <div className="text-center">
+            <Link
+              to="/login"
+              state={{ from: { pathname: `/forms/${shareCode}` } }}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Have an account? Sign in
+            </Link>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GuestJoin;
@@ -1,14 +1,115 @@
 // src/pages/JoinForm.tsx
-import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { DocumentTextIcon } from "@heroicons/react/24/outline";
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ClockIcon, DocumentTextIcon } from "@heroicons/react/24/outline";
+
+interface JoinLinkGroup {
+  id: string;
+  group_name: string;
+  capacity: number | null;
+  active: number;
+  full: boolean;
+}
+
+interface JoinLinkInfo {
+  form_title: string;
+  form_description: string | null;
+  strategy: string;
+  // Only sent when people choose their group
+  groups?: JoinLinkGroup[];
+}
+
+// How often people waiting for a place ask again
+const WAITING_RETRY_MS = 10000;
 
 const JoinForm: React.FC = () => {
+  // Set on form-level join links (/join/:joinCode)
+  const { joinCode } = useParams<{ joinCode?: string }>();
   const [shareCode, setShareCode] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [joinLink, setJoinLink] = useState<JoinLinkInfo | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+  const [waitingMessage, setWaitingMessage] = useState("");
   const navigate = useNavigate();
 
+  const joinLinkUrl = `${
+    import.meta.env.VITE_BACKEND_URL
+  }/api/forms/join/${joinCode}`;
+
+  const loadJoinLink = async () => {
+    const response = await fetch(joinLinkUrl, {
+      headers: {
+        Authorization: `Bearer ${localStorage.getItem("token")}`,
+      },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Join link not found");
+    }
+    setJoinLink(data);
+    return data as JoinLinkInfo;
+  };
+
+  // Ask the server for a group; it answers 409 while every group is full
+  const requestGroup = async (sharingCodeId?: string) => {
+    setLoading(true);
+    setError("");
+
+    try {
+      const response = await fetch(joinLinkUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+        body: JSON.stringify({ sharingCodeId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        navigate(`/forms/${data.share_code}`, { replace: true });
+      } else if (response.status === 409 && data.waiting) {
+        setWaitingMessage(data.error);
+      } else {
+        setWaitingMessage("");
+        setError(data.error || "Failed to join form");
+      }
+    } catch (err) {
+      setError("Failed to join form. Please check your connection.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!joinCode) return;
+
+    loadJoinLink()
+      .then((info) => {
+        if (info.strategy !== "SELF_SELECT") requestGroup();
+      })
+      .catch((err) => setError(err.message));
+  }, [joinCode]);
+
+  useEffect(() => {
+    if (!waitingMessage) return;
+
+    const timer = setInterval(() => {
+      if (joinLink?.strategy === "SELF_SELECT") {
+        loadJoinLink().catch(() => undefined);
+      }
+      requestGroup(selectedGroupId || undefined);
+    }, WAITING_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [waitingMessage, selectedGroupId, joinLink?.strategy]);
+
+  const chooseGroup = (groupId: string) => {
+    setSelectedGroupId(groupId);
+    setWaitingMessage("");
+    requestGroup(groupId);
+  };
+
   const handleJoinByCode = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -54,7 +155,9 @@ const JoinForm: React.FC = () => {
         const pathParts = urlObj.pathname.split("/");
         const codeFromUrl = pathParts[pathParts.length - 1];
 
-        if (codeFromUrl) {
+        if (codeFromUrl && pathParts[pathParts.length - 2] === "join") {
+          navigate(`/join/${codeFromUrl}`);
+        } else if (codeFromUrl) {
           setShareCode(codeFromUrl);
         } else {
           setError("Invalid form URL");
@@ -65,6 +168,103 @@ const JoinForm: React.FC = () => {
     }
   };
 
+  if (joinCode) {
+    return (
+      <div className="flex items-center justify-center min-h-screen px-4 py-12 bg-gray-50 sm:px-6 lg:px-8">
+        <div className="w-full max-w-md space-y-8">
+          <div>
+            <div className="flex items-center justify-center w-12 h-12 mx-auto bg-blue-100 rounded-full">
+              <DocumentTextIcon className="w-6 h-6 text-blue-600" />
+            </div>
+            <h2 className="mt-6 text-3xl font-extrabold text-center text-gray-900">
+              {joinLink?.form_title || "Join a Collaborative Form"}
+            </h2>
+            {joinLink?.form_description && (
+              <p className="mt-2 text-sm text-center text-gray-600">
+                {joinLink.form_description}
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-4 rounded-md bg-red-50">
+              <div className="text-sm text-red-800">{error}</div>
+            </div>
+          )}
+
+          {waitingMessage && (
+            <div className="flex items-start p-4 border border-yellow-200 rounded-md bg-yellow-50">
+              <ClockIcon className="flex-shrink-0 w-5 h-5 mr-3 text-yellow-600" />
+              <div className="text-sm text-yellow-800">
+                <p className="font-medium">{waitingMessage}</p>
+                <p className="mt-1">
+                  This page checks again every {WAITING_RETRY_MS / 1000}{" "}
+                  seconds.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {joinLink?.strategy === "SELF_SELECT" ? (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">
+                Choose your group
+              </p>
+              {(joinLink.groups || []).map((group) => (
+                <button
+                  key={group.id}
+                  type="button"
+                  onClick={() => chooseGroup(group.id)}
+                  disabled={loading}
+                  className={`flex items-center justify-between w-full px-4 py-3 text-sm border rounded-md disabled:opacity-50 ${
+                    selectedGroupId === group.id
+                      ? "border-blue-500 bg-blue-50"
+                      : "border-gray-300 bg-white hover:bg-gray-50"
+                  }`}
+                >
+                  <span className="font-medium text-gray-900">
+                    {group.group_name}
+                  </span>
+                  <span
+                    className={group.full ? "text-red-600" : "text-gray-500"}
+                  >
+                    {group.capacity !== null
+                      ? `${group.active}/${group.capacity}${
+                          group.full ? " full" : ""
+                        }`
+                      : `${group.active} here`}
+                  </span>
+                </button>
+              ))}
+              {joinLink.groups?.length === 0 && (
+                <p className="text-sm text-gray-500">
+                  No groups are open right now.
+                </p>
+              )}
+            </div>
+          ) : (
+            !error &&
+            !waitingMessage && (
+              <div className="flex justify-center">
+                <div className="w-8 h-8 border-b-2 border-blue-600 rounded-full animate-spin"></div>
+              </div>
+            )
+          )}
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => navigate("/")}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="flex items-center justify-center min-h-screen px-4 py-12 bg-gray-50 sm:px-6 lg:px-8">
       <div className="w-full max-w-md space-y-8">
@@ -18,6 +18,8 @@ const Login: React.FC = () => {
   const location = useLocation();
 
   const from = location.state?.from?.pathname || "/";
+  // Shared form links can also be opened as a guest if the group allows it
+  const sharedFormCode = from.match(/^\/forms\/([A-Z0-9]+)$/)?.[1];
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
@@ -197,6 +199,17 @@ const Login: React.FC = () => {
                 : "Already have an account? Sign in"}
             </button>
           </div>
+
+          {sharedFormCode && (
+            <div className="text-center">
+              <Link
+                to={`/guest/${sharedFormCode}`}
+                className="text-sm font-medium text-gray-600 hover:text-gray-500"
+              >
+                Continue as a guest instead
+              </Link>
+            </div>
+          )}
         </form>
       </div>
     </div>
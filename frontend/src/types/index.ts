@@ -2,25 +2,156 @@
 export interface User {
   id: string;
   email: string;
-  role: "ADMIN" | "USER";
+  role: "ADMIN" | "USER" | "GUEST";
+  // Guests only: their name and the one share code they can open
+  display_name?: string;
+  share_code?: string;
+}
+
+export type FieldType =
+  | "TEXT"
+  | "NUMBER"
+  | "EMAIL"
+  | "DROPDOWN"
+  | "TEXTAREA"
+  | "CHECKBOX"
+  | "RADIO"
+  | "DATE"
+  | "TIME"
+  | "DATETIME"
+  | "FILE"
+  | "RATING"
+  | "SCALE"
+  | "MATRIX"
+  | "REPEATER"
+  | "SECTION"
+  | "CALCULATED";
+
+// Metadata of a file attached to a FILE field
+export interface FieldAttachment {
+  id: string;
+  field_id: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  uploaded_by: string;
+  created_at: string;
+}
+
+// Column of a REPEATER section; every row answers each of these
+export interface RepeaterSubField {
+  id: string;
+  label: string;
+  type: string;
+  required?: boolean;
+  options?: string[];
+}
+
+export interface RepeaterRow {
+  id: string;
+  values: Record<string, string>;
+}
+
+export type ConditionOperator =
+  | "equals"
+  | "not_equals"
+  | "contains"
+  | "greater_than"
+  | "less_than"
+  | "greater_or_equal"
+  | "less_or_equal";
+
+export interface ConditionRule {
+  fieldId: string;
+  operator: ConditionOperator;
+  value: string;
+}
+
+export interface ConditionGroup {
+  logic: "AND" | "OR";
+  rules: Array<ConditionRule | ConditionGroup>;
+}
+
+export interface FieldValidationRules {
+  minLength?: number;
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  step?: number;
+  pattern?: string;
+  patternMessage?: string;
+  minSelected?: number;
+  maxSelected?: number;
+  // ISO-8601 bounds for DATE, TIME and DATETIME fields
+  minDate?: string;
+  maxDate?: string;
+  // FILE fields: accept-style type list such as "image/*, .pdf"
+  allowedFileTypes?: string;
+  maxFileSizeMb?: number;
+  maxFiles?: number;
+  // RATING and SCALE endpoint captions, e.g. "Not likely" / "Very likely"
+  minLabel?: string;
+  maxLabel?: string;
 }
 
 export interface FormField {
   id: string;
   label: string;
-  type:
-    | "TEXT"
-    | "NUMBER"
-    | "EMAIL"
-    | "DROPDOWN"
-    | "TEXTAREA"
-    | "CHECKBOX"
-    | "RADIO";
+  type: FieldType;
   required: boolean;
   options: string[];
+  sub_fields?: RepeaterSubField[] | null;
+  // Intro text of a SECTION page
+  description?: string | null;
+  // Expression of a CALCULATED field, referencing fields as {id}
+  formula?: string | null;
+  conditions?: ConditionGroup | null;
+  validation?: FieldValidationRules | null;
   order: number;
 }
 
+// Reusable form definition; BUILT_IN templates ship with the backend
+export interface FormTemplate {
+  id: string;
+  title: string;
+  description: string | null;
+  fields: (Omit<FormField, "order"> & { matrix_rows?: string[] | null })[];
+  visibility: "BUILT_IN" | "PERSONAL" | "WORKSPACE";
+  created_by_id: string | null;
+}
+
+// Whether a group can be filled in right now, resolved by the server from
+// the form's and the group's schedule and submission caps
+export interface FormAvailability {
+  status:
+    | "OPEN"
+    | "INACTIVE"
+    | "EXPIRED"
+    | "NOT_YET_OPEN"
+    | "CLOSED"
+    | "LIMIT_REACHED";
+  open: boolean;
+  message: string | null;
+  opensAt: string | null;
+  closesAt: string | null;
+  remainingSubmissions: number | null;
+}
+
+export type GroupRole = "VIEWER" | "EDITOR" | "SUBMITTER";
+
+// What the current user may do in a group; role is null in open groups and
+// for the form's owner
+export interface GroupAccess {
+  role: GroupRole | null;
+  canView: boolean;
+  canEdit: boolean;
+  canSubmit: boolean;
+}
+
+// LOCK hands a field to one person at a time; CO_EDIT merges everyone's
+// typing in TEXT and TEXTAREA fields
+export type EditMode = "LOCK" | "CO_EDIT";
+
 export interface Form {
   id: string;
   title: string;
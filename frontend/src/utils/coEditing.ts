@@ -0,0 +1,81 @@
+// src/utils/coEditing.ts
+// Kept in sync with backend/src/services/coEditService.ts
+import * as Y from "yjs";
+import { EditMode, FieldType } from "../types";
+
+export type { EditMode };
+
+// Field types edited as shared text documents in CO_EDIT mode
+export const CO_EDIT_FIELD_TYPES: FieldType[] = ["TEXT", "TEXTAREA"];
+
+export const isCoEditField = (
+  editMode: EditMode | undefined,
+  field: { type: FieldType }
+) => editMode === "CO_EDIT" && CO_EDIT_FIELD_TYPES.includes(field.type);
+
+// Name of the Y.Text in every document, as on the server
+const TEXT_NAME = "value";
+
+// Transaction origins: only local typing is sent to the server
+export const LOCAL_ORIGIN = "local";
+export const REMOTE_ORIGIN = "remote";
+
+export const getSharedText = (doc: Y.Doc) => doc.getText(TEXT_NAME);
+
+// Turn an edited input value into the smallest replacement of the shared
+// text (common start and end kept), so what others type elsewhere in the
+// field survives the merge
+export const applyTextChange = (doc: Y.Doc, value: string) => {
+  const text = getSharedText(doc);
+  const current = text.toString();
+  if (current === value) return;
+
+  let start = 0;
+  while (
+    start < current.length &&
+    start < value.length &&
+    current[start] === value[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < value.length - start &&
+    current[current.length - 1 - end] === value[value.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  doc.transact(() => {
+    const removed = current.length - start - end;
+    if (removed > 0) text.delete(start, removed);
+    const inserted = value.slice(start, value.length - end);
+    if (inserted) text.insert(start, inserted);
+  }, LOCAL_ORIGIN);
+};
+
+// Caret and selection of a focused input, anchored to the characters
+// around them so they stay in place when text before them changes
+export const captureSelection = (
+  doc: Y.Doc,
+  input: HTMLInputElement | HTMLTextAreaElement
+) => {
+  const text = getSharedText(doc);
+  return [input.selectionStart ?? 0, input.selectionEnd ?? 0].map((index) =>
+    Y.createRelativePositionFromTypeIndex(text, index)
+  );
+};
+
+export const restoreSelection = (
+  doc: Y.Doc,
+  input: HTMLInputElement | HTMLTextAreaElement,
+  selection: Y.RelativePosition[]
+) => {
+  const [start, end] = selection.map(
+    (position) =>
+      Y.createAbsolutePositionFromRelativePosition(position, doc)?.index ?? 0
+  );
+  input.setSelectionRange(start, end);
+};
@@ -0,0 +1,151 @@
+// src/utils/conditions.ts
+import { ConditionGroup, ConditionOperator, ConditionRule } from "../types";
+
+interface ConditionalField {
+  id: string;
+  type?: string;
+  field_order?: number;
+  conditions?: ConditionGroup | null;
+}
+
+export const conditionOperators: {
+  value: ConditionOperator;
+  label: string;
+}[] = [
+  { value: "equals", label: "equals" },
+  { value: "not_equals", label: "does not equal" },
+  { value: "contains", label: "contains" },
+  { value: "greater_than", label: "is greater than" },
+  { value: "less_than", label: "is less than" },
+  { value: "greater_or_equal", label: "is at least" },
+  { value: "less_or_equal", label: "is at most" },
+];
+
+export const isConditionGroup = (
+  rule: ConditionRule | ConditionGroup
+): rule is ConditionGroup => Array.isArray((rule as ConditionGroup).rules);
+
+const compareNumbers = (
+  actual: string,
+  expected: string,
+  compare: (a: number, b: number) => boolean
+): boolean => {
+  if (actual.trim() === "" || expected.trim() === "") return false;
+  const a = Number(actual);
+  const b = Number(expected);
+  return !isNaN(a) && !isNaN(b) && compare(a, b);
+};
+
+// Mirrors the server-side evaluator in backend/src/utils/conditions.ts
+const evaluateRule = (
+  rule: ConditionRule,
+  values: Record<string, string>
+): boolean => {
+  const actual = String(values[rule.fieldId] ?? "").trim();
+  const expected = String(rule.value ?? "").trim();
+
+  switch (rule.operator) {
+    case "equals":
+      return actual === expected;
+    case "not_equals":
+      return actual !== expected;
+    case "contains":
+      return actual.toLowerCase().includes(expected.toLowerCase());
+    case "greater_than":
+      return compareNumbers(actual, expected, (a, b) => a > b);
+    case "less_than":
+      return compareNumbers(actual, expected, (a, b) => a < b);
+    case "greater_or_equal":
+      return compareNumbers(actual, expected, (a, b) => a >= b);
+    case "less_or_equal":
+      return compareNumbers(actual, expected, (a, b) => a <= b);
+    default:
+      return true;
+  }
+};
+
+export const evaluateConditions = (
+  group: ConditionGroup | null | undefined,
+  values: Record<string, string>
+): boolean => {
+  if (!group || !Array.isArray(group.rules) || group.rules.length === 0) {
+    return true;
+  }
+
+  const results = group.rules.map((rule) =>
+    isConditionGroup(rule)
+      ? evaluateConditions(rule, values)
+      : evaluateRule(rule, values)
+  );
+
+  return group.logic === "OR" ? results.some(Boolean) : results.every(Boolean);
+};
+
+// Fields after a hidden SECTION, up to the next one, are hidden with it
+const hideSectionContents = (
+  fields: ConditionalField[],
+  visibleIds: Set<string>
+) => {
+  let sectionVisible = true;
+  fields
+    .map((field, index) => ({ field, order: field.field_order ?? index }))
+    .sort((a, b) => a.order - b.order)
+    .forEach(({ field }) => {
+      if (field.type === "SECTION") {
+        sectionVisible = visibleIds.has(field.id);
+      } else if (!sectionVisible) {
+        visibleIds.delete(field.id);
+      }
+    });
+};
+
+// Hidden fields count as empty so chained rules hide their dependants too
+export const getVisibleFieldIds = (
+  fields: ConditionalField[],
+  values: Record<string, string>
+): Set<string> => {
+  let visibleIds = new Set(fields.map((field) => field.id));
+
+  for (let pass = 0; pass <= fields.length; pass++) {
+    const effectiveValues: Record<string, string> = {};
+    Object.entries(values).forEach(([fieldId, value]) => {
+      if (visibleIds.has(fieldId)) effectiveValues[fieldId] = value;
+    });
+
+    const nextVisibleIds = new Set(
+      fields
+        .filter((field) =>
+          evaluateConditions(field.conditions, effectiveValues)
+        )
+        .map((field) => field.id)
+    );
+    hideSectionContents(fields, nextVisibleIds);
+
+    const stable =
+      nextVisibleIds.size === visibleIds.size &&
+      [...nextVisibleIds].every((id) => visibleIds.has(id));
+    visibleIds = nextVisibleIds;
+    if (stable) break;
+  }
+
+  return visibleIds;
+};
+
+// Drop rules that point at a field which no longer exists
+export const removeFieldFromConditions = (
+  group: ConditionGroup | null | undefined,
+  fieldId: string
+): ConditionGroup | null => {
+  if (!group) return null;
+
+  const rules = group.rules
+    .map((rule) =>
+      isConditionGroup(rule) ? removeFieldFromConditions(rule, fieldId) : rule
+    )
+    .filter(
+      (rule): rule is ConditionRule | ConditionGroup =>
+        !!rule && (isConditionGroup(rule) || rule.fieldId !== fieldId)
+    );
+
+  return rules.length > 0 ? { ...group, rules } : null;
+};
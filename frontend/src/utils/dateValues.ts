@@ -0,0 +1,85 @@
+// src/utils/dateValues.ts
+// Kept in sync with backend/src/utils/dateValues.ts
+
+export type DateFieldType = "DATE" | "TIME" | "DATETIME";
+
+export const DATE_FIELD_TYPES: DateFieldType[] = ["DATE", "TIME", "DATETIME"];
+
+// ISO-8601 shapes stored in response_fields.value
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/;
+const DATETIME_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})T([01]\d|2[0-3]):([0-5]\d)(?::([0-5]\d)(?:\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+
+export const isDateFieldType = (type: string): type is DateFieldType =>
+  DATE_FIELD_TYPES.includes(type as DateFieldType);
+
+const isCalendarDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+};
+
+// Numeric key for comparing and sorting values, or null when malformed
+export const toDateSortKey = (
+  type: DateFieldType,
+  value: string
+): number | null => {
+  const trimmed = value.trim();
+
+  if (type === "DATE") {
+    const match = DATE_REGEX.exec(trimmed);
+    if (!match) return null;
+    const [year, month, day] = match.slice(1, 4).map(Number);
+    return isCalendarDate(year, month, day)
+      ? Date.UTC(year, month - 1, day)
+      : null;
+  }
+
+  if (type === "TIME") {
+    const match = TIME_REGEX.exec(trimmed);
+    if (!match) return null;
+    return (
+      Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] || 0)
+    );
+  }
+
+  const match = DATETIME_REGEX.exec(trimmed);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  if (!isCalendarDate(year, month, day)) return null;
+  const timestamp = Date.parse(trimmed);
+  return isNaN(timestamp) ? null : timestamp;
+};
+
+export const isValidDateValue = (type: DateFieldType, value: string) =>
+  toDateSortKey(type, value) !== null;
+
+export const DATE_FORMAT_HINTS: Record<DateFieldType, string> = {
+  DATE: "YYYY-MM-DD",
+  TIME: "HH:MM",
+  DATETIME: "YYYY-MM-DDTHH:MM",
+};
+
+// Human-readable rendering of a stored ISO-8601 value
+export const formatDateValue = (type: DateFieldType, value: string): string => {
+  const key = toDateSortKey(type, value);
+  if (key === null) return value;
+
+  if (type === "DATE") {
+    const [year, month, day] = value.trim().split("-").map(Number);
+    // Build a local date so the calendar day doesn't shift with the timezone
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+
+  if (type === "TIME") {
+    const date = new Date(1970, 0, 1);
+    date.setSeconds(key);
+    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  }
+
+  return new Date(key).toLocaleString();
+};
@@ -0,0 +1,18 @@
+// src/utils/fieldLocks.ts
+
+// Someone waiting in line for a locked field
+export interface LockWaiter {
+  userId: string;
+  userEmail: string;
+}
+
+// Another collaborator asked for a field we hold; it is handed over to
+// them at handoffAt
+export interface EditRequest {
+  requestedBy: string;
+  handoffAt: number;
+}
+
+// A focused field's lock is renewed this often. Forms allow lock timeouts
+// down to 15 seconds, so a couple of heartbeats may get lost.
+export const LOCK_HEARTBEAT_MS = 5000;
@@ -0,0 +1,28 @@
+// src/utils/matrixStats.ts
+import { parseMatrixValue } from "./fieldValidation";
+
+export interface MatrixRowStats {
+  row: string;
+  answered: number;
+  counts: { column: string; count: number }[];
+}
+
+export const summarizeMatrix = (
+  values: string[],
+  rows: string[],
+  columns: string[]
+): MatrixRowStats[] => {
+  const answers = values.map(parseMatrixValue);
+
+  return rows.map((row) => {
+    const counts = columns.map((column) => ({
+      column,
+      count: answers.filter((answer) => answer[row] === column).length,
+    }));
+    return {
+      row,
+      answered: counts.reduce((sum, { count }) => sum + count, 0),
+      counts,
+    };
+  });
+};
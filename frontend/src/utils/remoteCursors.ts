@@ -0,0 +1,85 @@
+// src/utils/remoteCursors.ts
+import * as Y from "yjs";
+import { getSharedText } from "./coEditing";
+
+// Yjs relative positions (as JSON) of a selection in a co-edited field
+export interface RelativeSelection {
+  start: unknown;
+  end: unknown;
+}
+
+// Caret (start === end) or selection of another collaborator in a field
+export interface RemoteCursor {
+  userId: string;
+  name: string;
+  start: number;
+  end: number;
+  relative?: RelativeSelection | null;
+}
+
+// Carets are sent at most this often while someone types or drags
+export const CURSOR_THROTTLE_MS = 100;
+
+const CURSOR_COLORS = [
+  "#ef4444",
+  "#f59e0b",
+  "#10b981",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#14b8a6",
+  "#f97316",
+];
+
+// A collaborator gets the same colour on every screen
+export const getCursorColor = (userId: string) => {
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+export const toRelativeSelection = (
+  doc: Y.Doc,
+  start: number,
+  end: number
+): RelativeSelection => {
+  const text = getSharedText(doc);
+  return {
+    start: Y.relativePositionToJSON(
+      Y.createRelativePositionFromTypeIndex(text, start)
+    ),
+    end: Y.relativePositionToJSON(
+      Y.createRelativePositionFromTypeIndex(text, end)
+    ),
+  };
+};
+
+// Where a remote cursor is in the text we show. Relative positions are
+// resolved against our copy of the document, so edits merged since it was
+// sent move it along; plain offsets are only kept inside the text.
+export const resolveCursor = (
+  cursor: RemoteCursor,
+  textLength: number,
+  doc?: Y.Doc
+): RemoteCursor => {
+  let { start, end } = cursor;
+
+  if (doc && cursor.relative) {
+    const resolve = (json: unknown, fallback: number) =>
+      Y.createAbsolutePositionFromRelativePosition(
+        Y.createRelativePositionFromJSON(json),
+        doc
+      )?.index ?? fallback;
+    start = resolve(cursor.relative.start, start);
+    end = resolve(cursor.relative.end, end);
+  }
+
+  const clamp = (index: number) => Math.max(0, Math.min(textLength, index));
+  return {
+    ...cursor,
+    start: clamp(Math.min(start, end)),
+    end: clamp(Math.max(start, end)),
+  };
+};
@@ -0,0 +1,65 @@
+// src/utils/repeaterValues.ts
+// Kept in sync with backend/src/utils/repeaterValues.ts
+import { RepeaterRow, RepeaterSubField } from "../types";
+
+export type { RepeaterRow, RepeaterSubField };
+
+// Field types a REPEATER section can use for its columns
+export const REPEATER_SUB_FIELD_TYPES = [
+  "TEXT",
+  "TEXTAREA",
+  "NUMBER",
+  "EMAIL",
+  "DATE",
+  "TIME",
+  "DATETIME",
+  "DROPDOWN",
+];
+
+// Built-in cap on rows per section
+export const MAX_REPEATER_ROWS = 200;
+
+// REPEATER values are stored as a JSON array of rows, in display order
+export const parseRepeaterValue = (value: string): RepeaterRow[] => {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return [];
+
+    const seen = new Set<string>();
+    return parsed
+      .filter(
+        (row: any) =>
+          row &&
+          typeof row.id === "string" &&
+          row.id &&
+          !seen.has(row.id) &&
+          seen.add(row.id)
+      )
+      .map((row: any) => {
+        const values: Record<string, string> = {};
+        if (row.values && typeof row.values === "object") {
+          Object.entries(row.values).forEach(([subFieldId, subValue]) => {
+            if (typeof subValue === "string" && subValue !== "") {
+              values[subFieldId] = subValue;
+            }
+          });
+        }
+        return { id: row.id, values };
+      });
+  } catch {
+    return [];
+  }
+};
+
+export const serializeRepeaterValue = (rows: RepeaterRow[]) =>
+  rows.length > 0
+    ? JSON.stringify(
+        rows.map((row) => ({
+          id: row.id,
+          values: Object.fromEntries(
+            Object.entries(row.values).filter(([, value]) => value !== "")
+          ),
+        }))
+      )
+    : "";
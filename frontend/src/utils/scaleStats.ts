@@ -0,0 +1,50 @@
+// src/utils/scaleStats.ts
+
+export interface ScaleStats {
+  count: number;
+  average: number | null;
+  distribution: { value: number; count: number }[];
+  // Only for 0–10 scales, the standard Net Promoter range
+  nps: {
+    score: number;
+    promoters: number;
+    passives: number;
+    detractors: number;
+  } | null;
+}
+
+export const summarizeScale = (
+  values: number[],
+  bounds: { min: number; max: number; step: number }
+): ScaleStats => {
+  const counts = new Map<number, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+
+  const distribution: { value: number; count: number }[] = [];
+  for (
+    let value = bounds.min;
+    value <= bounds.max + 1e-9;
+    value += bounds.step
+  ) {
+    const rounded = Number(value.toFixed(6));
+    distribution.push({ value: rounded, count: counts.get(rounded) || 0 });
+  }
+
+  const count = values.length;
+  const average =
+    count > 0 ? values.reduce((sum, value) => sum + value, 0) / count : null;
+
+  let nps: ScaleStats["nps"] = null;
+  if (bounds.min === 0 && bounds.max === 10 && count > 0) {
+    const promoters = values.filter((value) => value >= 9).length;
+    const detractors = values.filter((value) => value <= 6).length;
+    nps = {
+      score: Math.round(((promoters - detractors) / count) * 100),
+      promoters,
+      passives: count - promoters - detractors,
+      detractors,
+    };
+  }
+
+  return { count, average, distribution, nps };
+};
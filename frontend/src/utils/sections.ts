@@ -0,0 +1,43 @@
+// src/utils/sections.ts
+// Kept in sync with backend/src/utils/sections.ts
+
+// SECTION fields are layout only: they start a new page and hold no value
+export const isSectionField = (field: { type: string }) =>
+  field.type === "SECTION";
+
+// Key of the page holding the fields before the first SECTION
+export const START_PAGE_KEY = "start";
+
+export interface FormPage<T> {
+  key: string;
+  section: T | null;
+  fields: T[];
+}
+
+// Broadcast by the server in "section-progress", keyed by FormPage.key
+export interface SectionProgress {
+  answered: number;
+  required: number;
+  requiredAnswered: number;
+  complete: boolean;
+}
+
+// Split fields (already in display order) into pages at each SECTION
+export const splitIntoPages = <T extends { id: string; type: string }>(
+  fields: T[]
+): FormPage<T>[] => {
+  const pages: FormPage<T>[] = [
+    { key: START_PAGE_KEY, section: null, fields: [] },
+  ];
+
+  fields.forEach((field) => {
+    if (isSectionField(field)) {
+      pages.push({ key: field.id, section: field, fields: [] });
+    } else {
+      pages[pages.length - 1].fields.push(field);
+    }
+  });
+
+  // Only keep the leading page if something comes before the first section
+  return pages.filter((page) => page.section || page.fields.length > 0);
+};